@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BillingService } from '@/lib/billingService';
+import { createRequestClient } from '@/lib/supabase';
+
+// GET /api/billing/:month - every customer's bill for a billing month (YYYY-MM)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ month: string }> }
+) {
+  // Query as the caller so RLS applies to their session, not the anonymous key
+  const client = await createRequestClient(request.headers.get('authorization'));
+  if (!client) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { month } = await params;
+
+  if (!BillingService.isValidMonth(month)) {
+    return NextResponse.json(
+      { error: 'Invalid billing month. Use the YYYY-MM format' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const billing = await BillingService.loadMonthBilling(month, client);
+    return NextResponse.json(billing);
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: `Server error: ${error.message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BillingService } from '@/lib/billingService';
+import { createRequestClient } from '@/lib/supabase';
+
+// GET /api/billing/customer/:id?month=YYYY-MM - one customer's bill, for the latest reading month by default
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Query as the caller so RLS applies to their session, not the anonymous key
+  const client = await createRequestClient(request.headers.get('authorization'));
+  if (!client) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const month = request.nextUrl.searchParams.get('month') || undefined;
+
+  if (month && !BillingService.isValidMonth(month)) {
+    return NextResponse.json(
+      { error: 'Invalid billing month. Use the YYYY-MM format' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const billing = await BillingService.loadCustomerBilling(id, month, client);
+    if (!billing) {
+      return NextResponse.json(
+        { error: 'No bill found for this customer and month' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(billing);
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: `Server error: ${error.message}` },
+      { status: 500 }
+    );
+  }
+}
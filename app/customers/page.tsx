@@ -3,8 +3,12 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { FiUser, FiEdit, FiPlus, FiSearch, FiTrash2, FiPlusCircle, FiX } from 'react-icons/fi';
-import { Customer } from '@/types/types';
+import { Customer, TariffClass } from '@/types/types';
 import { supabase } from '@/lib/supabase';
+import { TariffService, TARIFF_CLASSES } from '@/lib/tariffService';
+import { CustomerService } from '@/lib/customerService';
+import { DEFAULT_METER_DIGITS, METER_DIGIT_OPTIONS } from '@/lib/meterRegisterService';
+import { offlineStorage } from '@/lib/offlineStorage';
 import Navigation from '@/components/Navigation';
 import ProtectedRoute from '@/components/ProtectedRoute';
 
@@ -16,7 +20,7 @@ export default function Customers() {
   const [rtFilter, setRtFilter] = useState('');
   const [sortConfig, setSortConfig] = useState<{key: string; direction: 'asc' | 'desc'} | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
-  const [newCustomer, setNewCustomer] = useState({ name: '', rt: '', phone: '' });
+  const [newCustomer, setNewCustomer] = useState({ name: '', rt: '', phone: '', tariff_class: 'household' as TariffClass, meter_digits: DEFAULT_METER_DIGITS });
   const router = useRouter();
 
   useEffect(() => {
@@ -44,6 +48,17 @@ export default function Customers() {
     }
   }, [router]);
 
+  // Without a connection, show the customers kept on this device so they can still be edited
+  const loadCachedCustomers = async (): Promise<boolean> => {
+    await offlineStorage.ready();
+    const cached = offlineStorage.getCustomers();
+    if (cached.length === 0) return false;
+
+    setCustomers(cached.map(({ synced: _synced, last_updated: _lastUpdated, ...customer }) => customer)
+      .sort((a, b) => a.name.localeCompare(b.name)));
+    return true;
+  };
+
   const fetchCustomers = async () => {
     setLoading(true);
     try {
@@ -54,7 +69,9 @@ export default function Customers() {
 
       if (error) {
         console.error('Error fetching customers:', error);
-        alert(`Error fetching customers: ${error.message}`);
+        if (!(await loadCachedCustomers())) {
+          alert(`Error fetching customers: ${error.message}`);
+        }
         return;
       }
 
@@ -65,13 +82,17 @@ export default function Customers() {
           name: row.name,
           rt: row.rt,
           phone: row.phone,
+          tariff_class: row.tariff_class || 'household',
+          meter_digits: row.meter_digits ?? undefined,
         }));
 
         setCustomers(customersData);
       }
     } catch (error: any) {
       console.error('Error fetching customers:', error);
-      alert(`Error: ${error.message}`);
+      if (!(await loadCachedCustomers())) {
+        alert(`Error: ${error.message}`);
+      }
     } finally {
       setLoading(false);
     }
@@ -86,83 +107,47 @@ export default function Customers() {
   );
 
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
-  const [editForm, setEditForm] = useState({ name: '', rt: '', phone: '' });
+  const [editForm, setEditForm] = useState({ name: '', rt: '', phone: '', tariff_class: 'household' as TariffClass, meter_digits: DEFAULT_METER_DIGITS });
 
   const handleAddCustomer = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const { data, error } = await supabase
-        .from('customers')
-        .insert([
-          {
-            name: newCustomer.name,
-            rt: newCustomer.rt,
-            phone: newCustomer.phone,
-          }
-        ])
-        .select();
-
-      if (error) {
-        console.error('Error adding customer:', error);
-        alert(`Error adding customer: ${error.message}`);
-        return;
-      }
-
-      // Add the new customer to the local state
-      if (data && data.length > 0) {
-        const newCustomerObj: Customer = {
-          id: data[0].id.toString(),
-          name: data[0].name,
-          rt: data[0].rt,
-          phone: data[0].phone,
-        };
-        setCustomers([...customers, newCustomerObj]);
-      }
+      // Offline, the customer is saved on this device and synced when the connection returns
+      const customer = await CustomerService.saveCustomer(newCustomer);
+      setCustomers([...customers, customer]);
       
-      setNewCustomer({ name: '', rt: '', phone: '' });
+      setNewCustomer({ name: '', rt: '', phone: '', tariff_class: 'household', meter_digits: DEFAULT_METER_DIGITS });
       setShowAddForm(false);
     } catch (error: any) {
       console.error('Error adding customer:', error);
-      alert(`Error: ${error.message}`);
+      alert(`Error adding customer: ${error.message}`);
     }
   };
 
   const handleEditClick = (customer: Customer) => {
     setEditingCustomer(customer);
-    setEditForm({ name: customer.name, rt: customer.rt || '', phone: customer.phone || '' });
+    setEditForm({
+      name: customer.name,
+      rt: customer.rt || '',
+      phone: customer.phone || '',
+      tariff_class: customer.tariff_class || 'household',
+      meter_digits: customer.meter_digits || DEFAULT_METER_DIGITS
+    });
   };
 
   const handleUpdateCustomer = async (e: React.FormEvent) => {
     e.preventDefault();
     if (editingCustomer) {
       try {
-        const { error } = await supabase
-          .from('customers')
-          .update({
-            name: editForm.name,
-            rt: editForm.rt,
-            phone: editForm.phone,
-          })
-          .eq('id', editingCustomer.id);
-
-        if (error) {
-          console.error('Error updating customer:', error);
-          alert(`Error updating customer: ${error.message}`);
-          return;
-        }
+        const updated = await CustomerService.saveCustomer(editForm, editingCustomer);
 
         // Update the customer in the local state
-        const updatedCustomers = customers.map(cus =>
-          cus.id === editingCustomer.id 
-            ? { ...cus, name: editForm.name, rt: editForm.rt, phone: editForm.phone } 
-            : cus
-        );
-        setCustomers(updatedCustomers);
+        setCustomers(customers.map(cus => (cus.id === editingCustomer.id ? updated : cus)));
         setEditingCustomer(null);
-        setEditForm({ name: '', rt: '', phone: '' });
+        setEditForm({ name: '', rt: '', phone: '', tariff_class: 'household', meter_digits: DEFAULT_METER_DIGITS });
       } catch (error: any) {
         console.error('Error updating customer:', error);
-        alert(`Error: ${error.message}`);
+        alert(`Error updating customer: ${error.message}`);
       }
     }
   };
@@ -287,7 +272,7 @@ export default function Customers() {
                       placeholder="Enter phone number"
                     />
                   </div>
-                  <div className="md:col-span-2">
+                  <div>
                     <label htmlFor="rt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                       RT
                     </label>
@@ -306,6 +291,40 @@ export default function Customers() {
                       <option value="005" className="dark:bg-gray-700 dark:text-white">005</option>
                     </select>
                   </div>
+                  <div>
+                    <label htmlFor="tariffClass" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Golongan Tarif
+                    </label>
+                    <select
+                      id="tariffClass"
+                      value={newCustomer.tariff_class}
+                      onChange={(e) => setNewCustomer({...newCustomer, tariff_class: e.target.value as TariffClass})}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
+                    >
+                      {TARIFF_CLASSES.map(tariffClass => (
+                        <option key={tariffClass.value} value={tariffClass.value} className="dark:bg-gray-700 dark:text-white">
+                          {tariffClass.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="meterDigits" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Digit Meter
+                    </label>
+                    <select
+                      id="meterDigits"
+                      value={newCustomer.meter_digits}
+                      onChange={(e) => setNewCustomer({...newCustomer, meter_digits: Number(e.target.value)})}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
+                    >
+                      {METER_DIGIT_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value} className="dark:bg-gray-700 dark:text-white">
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
                 <div>
                   <button
@@ -327,7 +346,7 @@ export default function Customers() {
                 <button 
                   onClick={() => {
                     setEditingCustomer(null);
-                    setEditForm({ name: '', rt: '', phone: '' });
+                    setEditForm({ name: '', rt: '', phone: '', tariff_class: 'household', meter_digits: DEFAULT_METER_DIGITS });
                   }}
                   className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
                 >
@@ -363,7 +382,7 @@ export default function Customers() {
                       placeholder="Enter phone number"
                     />
                   </div>
-                  <div className="md:col-span-2">
+                  <div>
                     <label htmlFor="editRt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                       RT
                     </label>
@@ -382,6 +401,40 @@ export default function Customers() {
                       <option value="005" className="dark:bg-gray-700 dark:text-white">005</option>
                     </select>
                   </div>
+                  <div>
+                    <label htmlFor="editTariffClass" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Golongan Tarif
+                    </label>
+                    <select
+                      id="editTariffClass"
+                      value={editForm.tariff_class}
+                      onChange={(e) => setEditForm({...editForm, tariff_class: e.target.value as TariffClass})}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
+                    >
+                      {TARIFF_CLASSES.map(tariffClass => (
+                        <option key={tariffClass.value} value={tariffClass.value} className="dark:bg-gray-700 dark:text-white">
+                          {tariffClass.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="editMeterDigits" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Digit Meter
+                    </label>
+                    <select
+                      id="editMeterDigits"
+                      value={editForm.meter_digits}
+                      onChange={(e) => setEditForm({...editForm, meter_digits: Number(e.target.value)})}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
+                    >
+                      {METER_DIGIT_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value} className="dark:bg-gray-700 dark:text-white">
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
                 <div>
                   <button
@@ -394,7 +447,7 @@ export default function Customers() {
                     type="button"
                     onClick={() => {
                       setEditingCustomer(null);
-                      setEditForm({ name: '', rt: '', phone: '' });
+                      setEditForm({ name: '', rt: '', phone: '', tariff_class: 'household', meter_digits: DEFAULT_METER_DIGITS });
                     }}
                     className="bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 px-5 py-2.5 rounded-xl font-medium hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-300"
                   >
@@ -482,6 +535,7 @@ export default function Customers() {
                         </div>
                       </th>
                       <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider">Phone</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider">Golongan</th>
                       <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider">Actions</th>
                     </tr>
                   </thead>
@@ -493,6 +547,7 @@ export default function Customers() {
                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-white">{customer.name}</td>
                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{customer.rt || 'N/A'}</td>
                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{customer.phone || 'N/A'}</td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{TariffService.getClassLabel(customer.tariff_class)}</td>
                           <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-medium">
                             <div className="flex justify-end space-x-2">
                               <button 
@@ -513,7 +568,7 @@ export default function Customers() {
                       ))
                     ) : (
                       <tr>
-                        <td colSpan={5} className="px-4 py-12 text-center text-gray-500 dark:text-gray-400">
+                        <td colSpan={6} className="px-4 py-12 text-center text-gray-500 dark:text-gray-400">
                           <div className="flex flex-col items-center justify-center">
                             <FiUser className="h-10 w-10 text-gray-300 dark:text-gray-600 mb-2" />
                             <p>No customers found</p>
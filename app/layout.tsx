@@ -1,5 +1,25 @@
+import type { Metadata, Viewport } from 'next';
 import './globals.css';
 import { ThemeProvider } from '@/lib/theme';
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration';
+
+export const metadata: Metadata = {
+  title: 'Water Meter Monitoring',
+  description: 'Pencatatan meter air dan tagihan pelanggan',
+  appleWebApp: {
+    capable: true,
+    title: 'Meter Air',
+    statusBarStyle: 'default'
+  },
+  icons: {
+    icon: '/icons/icon-192.png',
+    apple: '/icons/icon-192.png'
+  }
+};
+
+export const viewport: Viewport = {
+  themeColor: '#2563eb'
+};
 
 export default function RootLayout({
   children,
@@ -41,6 +61,7 @@ export default function RootLayout({
       </head>
       <body suppressHydrationWarning>
         <ThemeProvider>
+          <ServiceWorkerRegistration />
           <div className="min-h-screen bg-gray-50 dark:bg-gray-900 dark:text-white transition-colors duration-200">
             {children}
           </div>
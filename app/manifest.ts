@@ -0,0 +1,24 @@
+import type { MetadataRoute } from 'next';
+
+/**
+ * Web app manifest, so collectors can install the app and open meter entry from the home screen
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Water Meter Monitoring',
+    short_name: 'Meter Air',
+    description: 'Pencatatan meter air pelanggan, juga saat tidak ada sinyal',
+    start_url: '/meter',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#f9fafb',
+    theme_color: '#2563eb',
+    lang: 'id',
+    icons: [
+      { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+    ]
+  };
+}
@@ -6,8 +6,13 @@ import { FiCalendar, FiSearch, FiAlertTriangle, FiUser, FiDroplet, FiBarChart2,
 import { formatDateID } from '@/utils/dateFormat';
 import { supabase } from '@/lib/supabase';
 import { offlineStorage } from '@/lib/offlineStorage';
+import { MeterPhotoService } from '@/lib/meterPhotoService';
+import { MeterRegisterService } from '@/lib/meterRegisterService';
+import { ReadingCorrectionService } from '@/lib/readingCorrectionService';
+import { MeterReadingVersion } from '@/types/types';
 import Navigation from '@/components/Navigation';
 import ProtectedRoute from '@/components/ProtectedRoute';
+import ReadingCorrectionPanel from '@/components/ReadingCorrectionPanel';
 
 interface MeterReading {
   id: string;
@@ -15,6 +20,10 @@ interface MeterReading {
   reading: number;
   date: string;
   created_at: string;
+  photo_path?: string;
+  rollover?: boolean;
+  estimated?: boolean;
+  version?: number;
 }
 
 interface Customer {
@@ -22,6 +31,7 @@ interface Customer {
   name: string;
   rt: string;
   phone: string;
+  meter_digits?: number;
 }
 
 interface CustomerReadingHistory {
@@ -32,6 +42,10 @@ interface CustomerReadingHistory {
     reading: number | null;
     usage: number | null;
     date: string | null;
+    photoPath: string | null;
+    readingId: string | null;
+    estimated: boolean; // Estimated because the meter could not be read
+    corrected: boolean; // Value was corrected after it was entered, see ReadingCorrectionService
     anomaly: boolean;
   }>;
   totalReadings: number;
@@ -49,6 +63,9 @@ export default function MeterReadingHistory() {
   const [user, setUser] = useState<any>(null);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [readings, setReadings] = useState<MeterReading[]>([]);
+  const [versions, setVersions] = useState<MeterReadingVersion[]>([]);
+  const [selectedReadingId, setSelectedReadingId] = useState<string | null>(null);
+  const [correctionMessage, setCorrectionMessage] = useState('');
   const [customerHistories, setCustomerHistories] = useState<CustomerReadingHistory[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -103,16 +120,19 @@ export default function MeterReadingHistory() {
   useEffect(() => {
     // Re-process histories when year changes without refetching data
     if (customers.length > 0 && readings.length > 0 && selectedYear) {
-      processCustomerHistories(customers, readings);
+      processCustomerHistories(customers, readings, versions);
     }
-  }, [selectedYear, customers, readings]);
+  }, [selectedYear, customers, readings, versions]);
 
   const fetchData = async () => {
     setLoading(true);
     
     try {
+      await offlineStorage.ready();
+
       let customersData: Customer[] = [];
       let readingsData: MeterReading[] = [];
+      let versionsData: MeterReadingVersion[] = [];
       
       // Always try to fetch from server first for fresh data
       try {
@@ -146,6 +166,14 @@ export default function MeterReadingHistory() {
         console.error('Error fetching readings from server:', error);
       }
 
+      // Correction trail of the readings; the history works without it offline
+      try {
+        versionsData = await ReadingCorrectionService.loadVersions();
+        setVersions(versionsData);
+      } catch (error) {
+        console.warn('Error fetching reading corrections (non-critical):', error);
+      }
+
       // Only use offline storage as fallback if server data is not available
       if (customersData.length === 0 && typeof window !== 'undefined') {
         let offlineCustomers = offlineStorage.getCustomers();
@@ -176,7 +204,7 @@ export default function MeterReadingHistory() {
       
       // Process customer histories
       if (customersData.length > 0 && readingsData.length > 0) {
-        processCustomerHistories(customersData, readingsData);
+        processCustomerHistories(customersData, readingsData, versionsData);
       }
     } catch (error) {
       console.error('Error fetching data:', error);
@@ -185,7 +213,11 @@ export default function MeterReadingHistory() {
     }
   };
 
-  const processCustomerHistories = (customersData: Customer[], readingsData: MeterReading[]) => {
+  const processCustomerHistories = (
+    customersData: Customer[],
+    readingsData: MeterReading[],
+    versionsData: MeterReadingVersion[]
+  ) => {
     const year = parseInt(selectedYear);
     const histories: CustomerReadingHistory[] = [];
 
@@ -216,10 +248,13 @@ export default function MeterReadingHistory() {
             .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0]; // Get the most recent one before this month
 
           if (previousReading) {
-            usage = monthReading.reading - previousReading.reading;
+            usage = monthReading.rollover && monthReading.reading < previousReading.reading
+              ? MeterRegisterService.getRolloverUsage(previousReading.reading, monthReading.reading, customer.meter_digits)
+              : monthReading.reading - previousReading.reading;
             
-            // Check for anomalies (negative usage or extremely high usage)
-            if (usage < 0 || usage > 100) {
+            // Check for anomalies (negative usage or extremely high usage); a reading below
+            // an estimated one trues up the estimate and is not an anomaly
+            if ((usage < 0 && !previousReading.estimated) || usage > 100) {
               anomaly = true;
             }
           }
@@ -230,6 +265,10 @@ export default function MeterReadingHistory() {
           reading: monthReading ? monthReading.reading : null,
           usage,
           date: monthReading ? monthReading.date : null,
+          photoPath: monthReading?.photo_path || null,
+          readingId: monthReading ? monthReading.id : null,
+          estimated: !!monthReading?.estimated,
+          corrected: !!monthReading && versionsData.some(version => version.reading_id === monthReading.id),
           anomaly
         });
       }
@@ -301,7 +340,7 @@ export default function MeterReadingHistory() {
         history.customer.name,
         history.customer.rt,
         history.customer.phone,
-        ...history.monthlyData.map(m => m.reading || ''),
+        ...history.monthlyData.map(m => m.reading === null ? '' : `${m.reading}${m.estimated ? ' (estimasi)' : ''}`),
         ...history.monthlyData.map(m => m.usage || ''),
         history.totalReadings,
         history.averageUsage
@@ -321,6 +360,23 @@ export default function MeterReadingHistory() {
     document.body.removeChild(link);
   };
 
+  // Only admins correct readings; RT PICs see the correction trail
+  const canCorrectReadings = user?.email === 'admin@example.com' ||
+                             user?.role === 'admin' ||
+                             user?.isDemo === true;
+  const selectedHistory = selectedReadingId
+    ? customerHistories.find(history => history.readings.some(reading => reading.id === selectedReadingId))
+    : undefined;
+  const selectedReading = selectedHistory?.readings.find(reading => reading.id === selectedReadingId);
+
+  const handleReadingCorrected = (flaggedBills: number) => {
+    setSelectedReadingId(null);
+    setCorrectionMessage(flaggedBills > 0
+      ? `Koreksi tersimpan. ${flaggedBills} tagihan yang sudah terbit ditandai untuk diterbitkan ulang.`
+      : 'Koreksi tersimpan.');
+    fetchData();
+  };
+
   if (!mounted) {
     return null;
   }
@@ -434,6 +490,7 @@ export default function MeterReadingHistory() {
             {/* Export Button */}
             <div className="flex justify-end">
               <button 
+                type="button"
                 onClick={exportToCSV}
                 disabled={filteredHistories.length === 0}
                 className="btn-primary"
@@ -444,6 +501,27 @@ export default function MeterReadingHistory() {
             </div>
           </div>
 
+          {correctionMessage && (
+            <div className="mb-4 p-3 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-300">
+              {correctionMessage}
+            </div>
+          )}
+
+          {/* Correction trail of the selected reading */}
+          {selectedHistory && selectedReading && (
+            <ReadingCorrectionPanel
+              key={selectedReading.id}
+              reading={selectedReading}
+              customerName={selectedHistory.customer.name}
+              versions={ReadingCorrectionService.getVersions(versions, selectedReading.id)}
+              customerReadings={selectedHistory.readings}
+              meterDigits={selectedHistory.customer.meter_digits}
+              correctedBy={canCorrectReadings ? user?.email || 'admin' : undefined}
+              onCorrected={handleReadingCorrected}
+              onClose={() => setSelectedReadingId(null)}
+            />
+          )}
+
           {/* History Table */}
           {loading ? (
             <div className="card text-center py-12">
@@ -505,9 +583,33 @@ export default function MeterReadingHistory() {
                           <td key={index} className="px-1.5 py-2 text-center text-xs border-l border-gray-200 dark:border-gray-600 month-cell">
                             {monthData.reading !== null ? (
                               <div className={`${monthData.anomaly ? 'bg-red-100 dark:bg-red-900/30 border border-red-300 dark:border-red-700 rounded-md p-1' : ''}`}>
-                                <div className="font-medium text-gray-900 dark:text-white text-xs">
+                                <button
+                                  type="button"
+                                  onClick={() => {
+                                    setSelectedReadingId(monthData.readingId);
+                                    setCorrectionMessage('');
+                                  }}
+                                  title={canCorrectReadings ? 'Koreksi pembacaan' : 'Lihat riwayat koreksi'}
+                                  className="font-medium text-gray-900 dark:text-white text-xs hover:underline"
+                                >
                                   {monthData.reading}
-                                </div>
+                                </button>
+                                {monthData.corrected && (
+                                  <div
+                                    title="Nilai pembacaan pernah dikoreksi"
+                                    className="inline-flex px-1 rounded text-[10px] font-semibold bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300"
+                                  >
+                                    Dikoreksi
+                                  </div>
+                                )}
+                                {monthData.estimated && (
+                                  <div
+                                    title="Estimasi: meter tidak dapat dibaca"
+                                    className="inline-flex px-1 rounded text-[10px] font-semibold bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300"
+                                  >
+                                    Estimasi
+                                  </div>
+                                )}
                                 {monthData.usage !== null && (
                                   <div className={`text-xs ${monthData.anomaly ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
                                     {monthData.usage > 0 ? `+${monthData.usage}` : monthData.usage}
@@ -516,6 +618,22 @@ export default function MeterReadingHistory() {
                                 {monthData.anomaly && (
                                   <FiAlertTriangle className="h-2.5 w-2.5 text-red-500 mx-auto mt-0.5" />
                                 )}
+                                {monthData.photoPath && (
+                                  <a
+                                    href={MeterPhotoService.getPhotoUrl(monthData.photoPath)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    title="Lihat foto meter"
+                                    className="no-print block mt-1"
+                                  >
+                                    <img
+                                      src={MeterPhotoService.getPhotoUrl(monthData.photoPath)}
+                                      alt={`Foto meter ${history.customer.name}`}
+                                      loading="lazy"
+                                      className="w-8 h-8 mx-auto object-cover rounded border border-gray-200 dark:border-gray-600"
+                                    />
+                                  </a>
+                                )}
                               </div>
                             ) : (
                               <span className="text-gray-400 dark:text-gray-600 text-xs">-</span>
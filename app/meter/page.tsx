@@ -2,13 +2,19 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { FiRefreshCw, FiCheckCircle, FiAlertCircle, FiWifi, FiWifiOff, FiClock, FiTrash2 } from 'react-icons/fi';
-import { Customer, User } from '@/types/types';
+import { FiRefreshCw, FiCheckCircle, FiAlertCircle, FiWifi, FiWifiOff, FiClock, FiTrash2, FiUserPlus, FiGrid } from 'react-icons/fi';
+import { Customer, RTTotalBill, User } from '@/types/types';
 import { supabase } from '@/lib/supabase';
 import { offlineStorage } from '@/lib/offlineStorage';
+import { dashboardService } from '@/lib/dashboardService';
+import { RouteService } from '@/lib/routeService';
 import Navigation from '@/components/Navigation';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import MeterReadingForm from '@/components/MeterReadingForm';
+import NewCustomerForm from '@/components/NewCustomerForm';
+import ReadingRoutePanel from '@/components/ReadingRoutePanel';
+import RouteOrderEditor from '@/components/RouteOrderEditor';
+import ReadingEntryGrid from '@/components/ReadingEntryGrid';
 
 export default function MeterReadingPage() {
   const [user, setUser] = useState<User | null>(null);
@@ -20,6 +26,11 @@ export default function MeterReadingPage() {
   const [mounted, setMounted] = useState(false);
   const [syncStatus, setSyncStatus] = useState<string>('');
   const [lastSync, setLastSync] = useState<string>('');
+  const [showNewCustomerForm, setShowNewCustomerForm] = useState(false);
+  const [rtTotals, setRtTotals] = useState<RTTotalBill[]>([]);
+  const [routeCustomerId, setRouteCustomerId] = useState('');
+  const [showRouteEditor, setShowRouteEditor] = useState(false);
+  const [showEntryGrid, setShowEntryGrid] = useState(false);
   const router = useRouter();
   
   useEffect(() => {
@@ -62,6 +73,13 @@ export default function MeterReadingPage() {
     }
   }, [mounted, user]);
 
+  // Suggest the first house on the route without a reading, and move on once it is read
+  useEffect(() => {
+    if (!routeCustomerId || submittedCustomerIds.has(routeCustomerId)) {
+      setRouteCustomerId(RouteService.getNextUnread(customers, submittedCustomerIds, routeCustomerId)?.id || '');
+    }
+  }, [customers, submittedCustomerIds, routeCustomerId]);
+
   const handleClearCache = () => {
     if (confirm('Hapus semua data cache? Data akan dimuat ulang dari server.')) {
       offlineStorage.clearAllCache();
@@ -75,6 +93,8 @@ export default function MeterReadingPage() {
 
   const loadData = async (bypassCache: boolean = false) => {
     try {
+      await offlineStorage.ready();
+
       let customers: Customer[] = [];
       
       // Always try to fetch fresh data from server first
@@ -96,8 +116,11 @@ export default function MeterReadingPage() {
             id: c.id.toString(),
             name: c.name,
             rt: c.rt || '',
-            phone: c.phone || ''
+            phone: c.phone || '',
+            route_order: c.route_order ?? undefined,
+            meter_digits: c.meter_digits ?? undefined
           }));
+          customers = RouteService.sortByRoute(customers);
           
           setCustomers(customers);
           
@@ -122,8 +145,11 @@ export default function MeterReadingPage() {
             id: c.id,
             name: c.name,
             rt: c.rt || '',
-            phone: c.phone || ''
+            phone: c.phone || '',
+            route_order: c.route_order ?? undefined,
+            meter_digits: c.meter_digits ?? undefined
           }));
+          customers = RouteService.sortByRoute(customers);
           setCustomers(customers);
           
           // Load submitted readings for this month and filter available customers
@@ -131,6 +157,8 @@ export default function MeterReadingPage() {
         }
       }
 
+      await loadRouteTotals();
+
       // Data loaded successfully - no automatic sync to prevent loops
     } catch (error) {
       console.error('Error loading data:', error);
@@ -138,6 +166,13 @@ export default function MeterReadingPage() {
     }
   };
 
+  // RT totals of the current month, for the progress through each route
+  const loadRouteTotals = async () => {
+    const now = new Date();
+    const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    setRtTotals(await dashboardService.getRTTotalBills(currentMonth));
+  };
+
   const loadSubmittedReadings = async (customersList: Customer[]) => {
     try {
       // Get current month
@@ -217,12 +252,14 @@ export default function MeterReadingPage() {
             filteredCustomersData = customersData.filter(customer => customer.rt === user.assigned_rt);
           }
           
-          const customers = filteredCustomersData.map(c => ({
+          const customers = RouteService.sortByRoute(filteredCustomersData.map(c => ({
             id: c.id.toString(),
             name: c.name,
             rt: c.rt || '',
-            phone: c.phone || ''
-          }));
+            phone: c.phone || '',
+            route_order: c.route_order ?? undefined,
+            meter_digits: c.meter_digits ?? undefined
+          })));
           
           setCustomers(customers);
         }
@@ -241,13 +278,44 @@ export default function MeterReadingPage() {
     }
   };
 
-  const handleReadingSubmitted = () => {
+  const handleReadingSubmitted = (customerId: string) => {
     showMessage('success', 'Pembacaan meter berhasil disimpan!');
-    
-    // Reload submitted readings to update the available customers list
-    if (user?.role === 'rt_pic') {
-      loadSubmittedReadings(customers);
-    }
+
+    // Mark the customer as read and go on to the next house on the route
+    const submittedIds = new Set(submittedCustomerIds).add(customerId);
+    setSubmittedCustomerIds(submittedIds);
+    setAvailableCustomers(customers.filter(c => !submittedIds.has(c.id)));
+    setRouteCustomerId(RouteService.getNextUnread(customers, submittedIds, customerId)?.id || '');
+  };
+
+  const handleSheetSaved = (customerIds: string[]) => {
+    const submittedIds = new Set([...submittedCustomerIds, ...customerIds]);
+    setSubmittedCustomerIds(submittedIds);
+    setAvailableCustomers(customers.filter(c => !submittedIds.has(c.id)));
+  };
+
+  const handleSkipCustomer = () => {
+    setRouteCustomerId(RouteService.getNextUnread(customers, submittedCustomerIds, routeCustomerId)?.id || '');
+  };
+
+  const handleRouteSaved = (route: Customer[]) => {
+    const positions = new Map(route.map(c => [c.id, c.route_order]));
+    const updatedCustomers = RouteService.sortByRoute(
+      customers.map(c => (positions.has(c.id) ? { ...c, route_order: positions.get(c.id) } : c))
+    );
+    setCustomers(updatedCustomers);
+    setAvailableCustomers(updatedCustomers.filter(c => !submittedCustomerIds.has(c.id)));
+    setShowRouteEditor(false);
+    showMessage('success', 'Rute pembacaan berhasil disimpan');
+  };
+
+  const handleCustomerCreated = (customer: Customer) => {
+    setCustomers(RouteService.sortByRoute([...customers, customer]));
+    setAvailableCustomers(RouteService.sortByRoute([...availableCustomers, customer]));
+    setShowNewCustomerForm(false);
+    showMessage('success', offlineStorage.isOfflineId(customer.id)
+      ? `Pelanggan ${customer.name} disimpan offline dan akan disinkronkan saat online`
+      : `Pelanggan ${customer.name} berhasil ditambahkan`);
   };
 
   const handleError = (error: string) => {
@@ -403,12 +471,83 @@ export default function MeterReadingPage() {
             </div>
           )}
 
+          {/* New Customer - RT PICs register new households while visiting */}
+          {(user?.role === 'admin' || user?.role === 'rt_pic') && (
+            <div className="mb-8">
+              {showNewCustomerForm ? (
+                <NewCustomerForm
+                  assignedRt={user.role === 'rt_pic' ? user.assigned_rt : undefined}
+                  onCreated={handleCustomerCreated}
+                  onCancel={() => setShowNewCustomerForm(false)}
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setShowNewCustomerForm(true)}
+                  className="btn-secondary text-sm"
+                >
+                  <FiUserPlus className="w-4 h-4 mr-2" />
+                  Pelanggan Baru
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Reading Route - Walk the RT in route order, with progress for this month */}
+          {customers.length > 0 && (
+            <div className="mb-8">
+              {showRouteEditor ? (
+                <RouteOrderEditor
+                  customers={customers}
+                  assignedRt={user?.role === 'rt_pic' ? user.assigned_rt : undefined}
+                  onSaved={handleRouteSaved}
+                  onCancel={() => setShowRouteEditor(false)}
+                />
+              ) : (
+                <ReadingRoutePanel
+                  progress={RouteService.getRouteProgress(
+                    rtTotals.filter(rtTotal => customers.some(c => c.rt === rtTotal.rt)),
+                    customers.filter(c => submittedCustomerIds.has(c.id))
+                  )}
+                  nextCustomer={customers.find(c => c.id === routeCustomerId) || null}
+                  onSkip={handleSkipCustomer}
+                  onEditRoute={isOnline && (user?.role === 'admin' || user?.role === 'rt_pic') ? () => setShowRouteEditor(true) : undefined}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Bulk Entry - Admins type in the paper reading sheets of an RT */}
+          {user?.role === 'admin' && customers.length > 0 && (
+            <div className="mb-8">
+              {showEntryGrid ? (
+                <ReadingEntryGrid
+                  customers={customers}
+                  submittedCustomerIds={submittedCustomerIds}
+                  isOnline={isOnline}
+                  onSaved={handleSheetSaved}
+                  onClose={() => setShowEntryGrid(false)}
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setShowEntryGrid(true)}
+                  className="btn-secondary text-sm"
+                >
+                  <FiGrid className="w-4 h-4 mr-2" />
+                  Input Massal
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Main Form */}
           <div className="mb-8">
             <MeterReadingForm
               customers={availableCustomers}
               onReadingSubmitted={handleReadingSubmitted}
               onError={handleError}
+              initialCustomerId={routeCustomerId}
               isOnline={isOnline}
             />
           </div>
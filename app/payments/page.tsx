@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { FiSearch } from 'react-icons/fi';
+import { Bill } from '@/types/types';
+import { BillLedgerService } from '@/lib/billLedgerService';
+import { formatMonthYearID } from '@/utils/dateFormat';
+import Navigation from '@/components/Navigation';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import PaymentRecorder from '@/components/PaymentRecorder';
+import ReceivablesAging from '@/components/ReceivablesAging';
+import RTDepositReconciliation from '@/components/RTDepositReconciliation';
+
+export default function PaymentsPage() {
+  const [user, setUser] = useState<any>(null);
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedRT, setSelectedRT] = useState('');
+  const [selectedMonth, setSelectedMonth] = useState('');
+  const [mounted, setMounted] = useState(false);
+  const router = useRouter();
+
+  useEffect(() => {
+    setMounted(true);
+
+    // Check if user is logged in
+    const userData = localStorage.getItem('user');
+    if (!userData) {
+      router.push('/login');
+    } else {
+      const parsedUser = JSON.parse(userData);
+      setUser(parsedUser);
+
+      // Payments are collected by RT PICs and reviewed by admins (not viewer)
+      const hasPaymentAccess = parsedUser?.email === 'admin@example.com' ||
+                               parsedUser?.role === 'admin' ||
+                               parsedUser?.role === 'rt_pic' ||
+                               (parsedUser?.email && parsedUser.email.includes('admin')) ||
+                               parsedUser?.isDemo === true;
+
+      if (!hasPaymentAccess) {
+        router.push('/dashboard');
+        return;
+      }
+
+      // RT PICs only see their own RT
+      if (parsedUser?.role === 'rt_pic' && parsedUser.assigned_rt) {
+        setSelectedRT(parsedUser.assigned_rt);
+      }
+    }
+  }, [router]);
+
+  const fetchBills = useCallback(async () => {
+    setLoading(true);
+    try {
+      const allBills = await BillLedgerService.loadBills();
+      const payableBills = allBills.filter(b => b.status !== 'draft' && b.status !== 'void');
+      setBills(payableBills);
+
+      if (payableBills.length > 0) {
+        const months = Array.from(new Set(payableBills.map(b => b.billing_month))).sort().reverse();
+        setSelectedMonth(current => current || months[0]);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (mounted && user) {
+      fetchBills();
+    }
+  }, [mounted, user, fetchBills]);
+
+  const isRTPIC = user?.role === 'rt_pic';
+  const canDeletePayments = !isRTPIC;
+  const canRecordDeposits = !isRTPIC;
+
+  const availableMonths = Array.from(new Set(bills.map(b => b.billing_month))).sort().reverse();
+  const availableRTs = Array.from(new Set(bills.map(b => b.customer_rt || '-'))).sort();
+
+  // Balances use every bill of the customer, not just the selected month
+  const balances = BillLedgerService.getCustomerBalances(bills);
+
+  const rtBills = bills.filter(b => !selectedRT || (b.customer_rt || '-') === selectedRT);
+  const monthBills = rtBills
+    .filter(b => b.billing_month === selectedMonth)
+    .filter(b => !searchTerm ||
+      b.customer_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      b.bill_number.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+    .sort((a, b) => (a.customer_rt || '').localeCompare(b.customer_rt || '') || a.customer_name.localeCompare(b.customer_name));
+
+  if (!mounted || !user) {
+    return null;
+  }
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+        <Navigation user={user} currentPage="payments" />
+
+        <div className="container mx-auto px-4 py-8 max-w-7xl">
+          {/* Header Section */}
+          <div className="text-center mb-8 animate-fade-in">
+            <h1 className="text-4xl font-bold text-gradient mb-3">
+              Pembayaran Pelanggan
+            </h1>
+            <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto">
+              Catat pembayaran per tagihan, setoran RT ke bendahara, dan pantau tunggakan per RT
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="card mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <FiSearch className="text-gray-400 dark:text-gray-500" />
+                </div>
+                <input
+                  type="text"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Cari pelanggan atau no. tagihan..."
+                  className="input-field pl-10"
+                />
+              </div>
+
+              <select
+                value={selectedMonth}
+                onChange={(e) => setSelectedMonth(e.target.value)}
+                className="input-field"
+              >
+                {availableMonths.length === 0 && <option value="">Belum ada tagihan</option>}
+                {availableMonths.map(month => (
+                  <option key={month} value={month}>
+                    {formatMonthYearID(month)}
+                  </option>
+                ))}
+              </select>
+
+              <select
+                value={selectedRT}
+                onChange={(e) => setSelectedRT(e.target.value)}
+                disabled={isRTPIC && !!user.assigned_rt}
+                className="input-field"
+              >
+                <option value="">Semua RT</option>
+                {availableRTs.map(rt => (
+                  <option key={rt} value={rt}>{rt}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600 dark:text-gray-400">Memuat tagihan...</div>
+          ) : (
+            <div className="space-y-8">
+              <PaymentRecorder
+                bills={monthBills}
+                balances={balances}
+                receivedBy={user.email || user.name || 'unknown'}
+                canDeletePayments={canDeletePayments}
+                onPaymentChange={fetchBills}
+              />
+              <RTDepositReconciliation
+                billingMonth={selectedMonth}
+                bills={rtBills}
+                canRecordDeposits={canRecordDeposits}
+              />
+              <ReceivablesAging bills={rtBills} />
+            </div>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -2,12 +2,16 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { FiPrinter, FiDownload, FiCalendar, FiSearch, FiRefreshCw, FiDollarSign, FiDroplet, FiUser, FiFileText, FiPercent, FiSettings, FiTrash2 } from 'react-icons/fi';
+import { FiPrinter, FiDownload, FiCalendar, FiSearch, FiRefreshCw, FiDollarSign, FiDroplet, FiUser, FiFileText, FiPercent, FiSettings, FiTrash2, FiLock, FiXCircle, FiAlertTriangle } from 'react-icons/fi';
 import { formatDateID, formatMonthYearID } from '@/utils/dateFormat';
 import { supabase } from '@/lib/supabase';
 import { offlineStorage } from '@/lib/offlineStorage';
-import { CustomerDiscount } from '@/types/types';
-import MeterDataService from '@/lib/meterDataService';
+import { AppliedDiscount, Bill, BillStatus, CustomerDiscount, GaugeUsage, TariffFee, TariffClass } from '@/types/types';
+import { TariffService, TierCharge, TARIFF_CLASSES } from '@/lib/tariffService';
+import { BillLedgerService } from '@/lib/billLedgerService';
+import { BillingService } from '@/lib/billingService';
+import { CustomerBilling } from '@/lib/billingEngine';
+import { DiscountService } from '@/lib/discountService';
 import Navigation from '@/components/Navigation';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DiscountManager from '@/components/DiscountManager';
@@ -18,21 +22,36 @@ interface BillData {
     name: string;
     rt: string;
     phone: string;
+    tariffClass: TariffClass;
   };
   previousReading: number;
   currentReading: number;
   usage: number;
-  unitUsage: number; // 1-10 m³
-  tensUsage: number; // 11+ m³
-  unitPrice: number; // Price for 1-10 m³
-  tensPrice: number; // Price for 11+ m³
-  speedometerFee: number; // Fixed fee
+  gaugeUsage?: GaugeUsage[]; // Usage per gauge when the gauge was replaced during the period
+  estimated?: boolean; // Current reading is an estimate because the meter could not be read
+  previousEstimated?: boolean; // Previous reading was an estimate, trued up by this bill
+  trueUpUsage?: number; // Actual minus estimated reading
+  trueUpCredit?: number; // Refund for usage billed too much on the estimate
+  tariffName: string; // Tariff in force on the reading date
+  tierCharges: TierCharge[]; // Usage and price per tariff tier
+  fixedFees: TariffFee[]; // Fixed fees from the tariff
+  unitUsage: number; // Usage in the first tier
+  tensUsage: number; // Usage above the first tier
+  unitPrice: number; // Price for the first tier
+  tensPrice: number; // Price above the first tier
+  speedometerFee: number; // Sum of fixed fees
   originalAmount: number; // Amount before discount
-  discount?: CustomerDiscount; // Applied discount
+  discount?: CustomerDiscount; // Main applied discount
+  appliedDiscounts: AppliedDiscount[]; // Every applied discount with its amount
   discountAmount: number; // Discount amount in IDR
   totalAmount: number; // Final amount after discount
+  penaltyAmount?: number; // Late payment penalty charged on a stored bill
+  previousBalance?: number; // Account balance from earlier months: credit (+) or arrears (-)
   billMonth: string;
   billDate: string;
+  billNumber?: string; // Set once the bill is stored in the ledger
+  status?: BillStatus; // Ledger status, undefined while the month is still open
+  ledgerBill?: Bill;
 }
 
 export default function BillingReports() {
@@ -45,13 +64,13 @@ export default function BillingReports() {
   const [mounted, setMounted] = useState(false);
   const [showDiscountManager, setShowDiscountManager] = useState(false);
   const [selectedCustomerForDiscount, setSelectedCustomerForDiscount] = useState<string>('');
-  const [customers, setCustomers] = useState<Array<{id: string; name: string; rt: string; phone: string}>>([]);
+  const [customers, setCustomers] = useState<Array<{id: string; name: string; rt: string; phone: string; tariffClass: TariffClass}>>([]);
   const [forceRefresh, setForceRefresh] = useState(false);
+  const [ledgerBills, setLedgerBills] = useState<Bill[]>([]);
+  const [ledgerBusy, setLedgerBusy] = useState(false);
+  const [ledgerMessage, setLedgerMessage] = useState<{type: string, text: string} | null>(null);
   const router = useRouter();
 
-  // Use centralized pricing from MeterDataService
-  const pricing = MeterDataService.getPricing();
-
   useEffect(() => {
     setMounted(true);
     
@@ -115,31 +134,173 @@ export default function BillingReports() {
     fetchBillingData(true); // Bypass cache
   };
 
-  const calculateBill = (usage: number, customerId: string, billDate: string) => {
-    // Use centralized billing calculation
-    const billing = MeterDataService.calculateBilling(customerId, usage, billDate);
-    
+  const customerBillingToBillData = ({ customer, previousReading, currentReading, billing }: CustomerBilling, phone: string): BillData => ({
+    customer: {
+      id: customer.id,
+      name: customer.name,
+      rt: customer.rt || '',
+      phone,
+      tariffClass: billing.tariffClass,
+    },
+    previousReading: previousReading.reading,
+    currentReading: currentReading.reading,
+    usage: billing.usage,
+    gaugeUsage: billing.gaugeUsage,
+    estimated: billing.estimated,
+    previousEstimated: previousReading.estimated,
+    trueUpUsage: billing.trueUpUsage,
+    trueUpCredit: billing.trueUpCredit,
+    tariffName: billing.tariffName,
+    tierCharges: billing.tierCharges,
+    fixedFees: billing.fixedFees,
+    unitUsage: billing.unitUsage,
+    tensUsage: billing.tensUsage,
+    unitPrice: billing.unitPrice,
+    tensPrice: billing.tensPrice,
+    speedometerFee: billing.speedometerFee,
+    originalAmount: billing.baseAmount,
+    discount: billing.discount,
+    appliedDiscounts: billing.appliedDiscounts,
+    discountAmount: billing.discountAmount,
+    totalAmount: billing.finalAmount,
+    billMonth: formatMonthYearID(billing.billingMonth),
+    billDate: currentReading.date, // Use actual reading date, not current date
+  });
+
+  const ledgerBillToBillData = (bill: Bill, phone: string, storedBills: Bill[]): BillData => {
+    const billing = BillLedgerService.toBillingCalculation(bill);
+
     return {
+      customer: {
+        id: bill.customer_id,
+        name: bill.customer_name,
+        rt: bill.customer_rt || '',
+        phone,
+        tariffClass: bill.tariff_class,
+      },
+      previousReading: bill.previous_reading,
+      currentReading: bill.current_reading,
+      usage: bill.usage,
+      gaugeUsage: billing.gaugeUsage,
+      estimated: billing.estimated,
+      previousEstimated: billing.trueUpUsage !== undefined,
+      trueUpUsage: billing.trueUpUsage,
+      trueUpCredit: billing.trueUpCredit,
+      tariffName: billing.tariffName,
+      tierCharges: billing.tierCharges,
+      fixedFees: billing.fixedFees,
       unitUsage: billing.unitUsage,
       tensUsage: billing.tensUsage,
       unitPrice: billing.unitPrice,
       tensPrice: billing.tensPrice,
+      speedometerFee: billing.speedometerFee,
       originalAmount: billing.baseAmount,
       discount: billing.discount,
+      appliedDiscounts: billing.appliedDiscounts,
       discountAmount: billing.discountAmount,
-      totalAmount: billing.finalAmount
+      totalAmount: billing.finalAmount,
+      penaltyAmount: bill.penalty_amount,
+      previousBalance: BillLedgerService.getCustomerBalance(storedBills, bill.customer_id, bill.billing_month),
+      billMonth: formatMonthYearID(bill.billing_month),
+      billDate: bill.reading_date,
+      billNumber: bill.bill_number,
+      status: bill.status,
+      ledgerBill: bill,
     };
   };
 
+  const showLedgerMessage = (type: string, text: string) => {
+    setLedgerMessage({ type, text });
+    setTimeout(() => setLedgerMessage(null), 5000);
+  };
+
+  const handleGenerateDrafts = async () => {
+    if (!selectedMonth) return;
+
+    setLedgerBusy(true);
+    try {
+      const result = await BillLedgerService.generateDraftBills(selectedMonth, user?.email || 'admin');
+      showLedgerMessage('success', `${result.created} draf tagihan dibuat${result.skipped.length > 0 ? `, ${result.skipped.length} pelanggan belum lengkap pembacaannya` : ''}`);
+      await fetchBillingData();
+    } catch (error: any) {
+      console.error('❌ Error generating draft bills:', error);
+      showLedgerMessage('error', error.message || 'Gagal membuat draf tagihan');
+    } finally {
+      setLedgerBusy(false);
+    }
+  };
+
+  const handleCloseMonth = async () => {
+    if (!selectedMonth) return;
+    if (!confirm(`Tutup bulan ${formatMonthYearID(selectedMonth)}? Tagihan akan diterbitkan dan jumlahnya tidak berubah lagi.`)) return;
+
+    setLedgerBusy(true);
+    try {
+      const result = await BillLedgerService.closeMonth(selectedMonth, user?.email || 'admin');
+      showLedgerMessage('success', `${result.created} tagihan diterbitkan${result.skipped.length > 0 ? `, ${result.skipped.length} pelanggan belum lengkap pembacaannya` : ''}`);
+      await fetchBillingData();
+    } catch (error: any) {
+      console.error('❌ Error closing month:', error);
+      showLedgerMessage('error', error.message || 'Gagal menutup bulan');
+    } finally {
+      setLedgerBusy(false);
+    }
+  };
+
+  const handleApplyPenalties = async () => {
+    setLedgerBusy(true);
+    try {
+      const applied = await BillLedgerService.applyPenalties();
+      showLedgerMessage('success', applied > 0 ? `Denda keterlambatan dikenakan pada ${applied} tagihan` : 'Tidak ada denda keterlambatan baru');
+      await fetchBillingData();
+    } catch (error: any) {
+      console.error('❌ Error applying penalties:', error);
+      showLedgerMessage('error', error.message || 'Gagal menerapkan denda');
+    } finally {
+      setLedgerBusy(false);
+    }
+  };
+
+  const handleVoidBill = async (bill: Bill) => {
+    const reason = prompt(`Alasan pembatalan tagihan ${bill.bill_number}:`);
+    if (reason === null) return;
+
+    try {
+      await BillLedgerService.voidBill(bill, reason);
+      showLedgerMessage('success', `Tagihan ${bill.bill_number} dibatalkan`);
+      await fetchBillingData();
+    } catch (error: any) {
+      showLedgerMessage('error', error.message || 'Gagal membatalkan tagihan');
+    }
+  };
+
+  const getStatusBadgeClass = (status?: BillStatus) => {
+    switch (status) {
+      case 'paid':
+        return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+      case 'partial':
+        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+      case 'issued':
+        return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
+      case 'draft':
+        return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
+      default:
+        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200';
+    }
+  };
+
   const fetchBillingData = async (bypassCache: boolean = false) => {
     setLoading(true);
     
     try {
+      await offlineStorage.ready();
+
       let customers: Array<{
         id: string;
         name: string;
         rt: string;
         phone: string;
+        tariffClass: TariffClass;
       }> = [];
       let readings: Array<{
         id: string;
@@ -147,6 +308,13 @@ export default function BillingReports() {
         reading: number;
         date: string;
       }> = [];
+
+      // Keep the tariff cache fresh so bills can still be calculated offline
+      await TariffService.loadTariffs();
+
+      // Bills stored in the ledger are shown as stored instead of being recalculated
+      const storedBills = (await BillLedgerService.loadBills()).filter(bill => bill.status !== 'void');
+      setLedgerBills(storedBills);
       
       // Always try to fetch fresh data from server first
       try {
@@ -166,7 +334,8 @@ export default function BillingReports() {
             id: c.id.toString(),
             name: c.name,
             rt: c.rt || '',
-            phone: c.phone || ''
+            phone: c.phone || '',
+            tariffClass: c.tariff_class || 'household'
           }));
           setCustomers(customers); // Store in state for DiscountManager
         }
@@ -211,59 +380,47 @@ export default function BillingReports() {
             id: c.id,
             name: c.name,
             rt: c.rt || '',
-            phone: c.phone || ''
+            phone: c.phone || '',
+            tariffClass: c.tariff_class || 'household'
           }));
           setCustomers(customers);
         }
       }
 
-      // Process billing data only if we have real data
+      // Bill each customer's latest reading month through the billing API
+      const latestMonths = new Map<string, string>();
+      readings.forEach(reading => {
+        const customerId = reading.customer_id.toString();
+        const readingMonth = reading.date.substring(0, 7);
+        if (readingMonth > (latestMonths.get(customerId) || '')) {
+          latestMonths.set(customerId, readingMonth);
+        }
+      });
+
       const billsData: BillData[] = [];
-      
-      for (const customer of customers) {
-        // Get readings for this customer - convert IDs to strings for comparison
-        const customerId = customer.id.toString();
-        const customerReadings = readings
-          .filter(reading => reading.customer_id.toString() === customerId)
-          .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()); // Sort ascending (oldest first)
-        
-        if (customerReadings.length >= 2) {
-          // Get the last two readings (most recent and one before)
-          const currentReading = customerReadings[customerReadings.length - 1];
-          const previousReading = customerReadings[customerReadings.length - 2];
-          const usage = Math.max(0, currentReading.reading - previousReading.reading);
-          
-          const billCalculation = calculateBill(usage, customer.id, currentReading.date);
-          
-          // Extract month from the current reading date for proper filtering
-          const readingDate = new Date(currentReading.date);
-          const readingMonth = `${readingDate.getFullYear()}-${String(readingDate.getMonth() + 1).padStart(2, '0')}`;
-          
-          billsData.push({
-            customer: {
-              id: customer.id,
-              name: customer.name,
-              rt: customer.rt,
-              phone: customer.phone,
-            },
-            previousReading: previousReading.reading,
-            currentReading: currentReading.reading,
-            usage,
-            unitUsage: billCalculation.unitUsage,
-            tensUsage: billCalculation.tensUsage,
-            unitPrice: billCalculation.unitPrice,
-            tensPrice: billCalculation.tensPrice,
-            speedometerFee: pricing.SPEEDOMETER_FEE,
-            originalAmount: billCalculation.originalAmount,
-            discount: billCalculation.discount || undefined,
-            discountAmount: billCalculation.discountAmount,
-            totalAmount: billCalculation.totalAmount,
-            billMonth: formatMonthYearID(readingMonth),
-            billDate: currentReading.date, // Use actual reading date, not current date
-          });
-        } else {
+      const monthBillings = await Promise.all(
+        Array.from(new Set(latestMonths.values())).map(month => BillingService.fetchMonthBilling(month))
+      );
+
+      monthBillings.forEach(({ month, bills: monthBills }) => {
+        monthBills.forEach(entry => {
+          const customer = customers.find(c => c.id.toString() === entry.customer.id);
+          if (!customer || latestMonths.get(entry.customer.id) !== month) return;
+
+          // Bills stored in the ledger (drafts included) are added below
+          if (storedBills.some(bill => bill.customer_id === entry.customer.id && bill.billing_month === month)) return;
+
+          billsData.push(customerBillingToBillData(entry, customer.phone));
+        });
+      });
+
+      // Add stored bills of the customers visible to this user
+      storedBills.forEach(bill => {
+        const customer = customers.find(c => c.id.toString() === bill.customer_id);
+        if (customer) {
+          billsData.push(ledgerBillToBillData(bill, customer.phone, storedBills));
         }
-      }
+      });
       
       setBills(billsData);
     } catch (error) {
@@ -388,6 +545,123 @@ export default function BillingReports() {
     return true;
   });
 
+  const getTariffClassSummary = () => {
+    return TARIFF_CLASSES
+      .map(tariffClass => {
+        const classBills = filteredBills.filter(bill => bill.customer.tariffClass === tariffClass.value);
+        return {
+          ...tariffClass,
+          billCount: classBills.length,
+          usage: classBills.reduce((sum, bill) => sum + bill.usage, 0),
+          totalAmount: classBills.reduce((sum, bill) => sum + bill.totalAmount, 0)
+        };
+      })
+      .filter(summary => summary.billCount > 0);
+  };
+
+  const renderTierLines = (bill: BillData) => {
+    return bill.tierCharges
+      .filter((charge, index) => index === 0 || charge.usage > 0)
+      .map(charge => `
+              <div class="detail-line">
+                <span class="detail-label">Harga ${TariffService.formatTierRange(charge)}</span>
+                <span class="detail-colon">:</span>
+                <span class="detail-value">
+                  <span>Rp ${charge.amount.toLocaleString('id-ID')}</span>
+                  <span class="calculation-inline">${charge.usage} x Rp ${charge.rate.toLocaleString('id-ID')}</span>
+                </span>
+              </div>
+              `)
+      .join('');
+  };
+
+  const renderGaugeLines = (bill: BillData) => {
+    return (bill.gaugeUsage || [])
+      .map(gauge => `
+              <div class="detail-line">
+                <span class="detail-label">${gauge.replaced_on ? `Meter lama (s.d. ${formatDateID(gauge.replaced_on)})` : 'Meter baru'}</span>
+                <span class="detail-colon">:</span>
+                <span class="detail-value">
+                  <span>${gauge.usage} m³</span>
+                  <span class="calculation-inline">${gauge.end_reading} - ${gauge.start_reading}</span>
+                </span>
+              </div>
+              `)
+      .join('');
+  };
+
+  const renderTrueUpLines = (bill: BillData) => {
+    if (!bill.trueUpCredit) return '';
+    return `
+              <div class="detail-line">
+                <span class="detail-label">Koreksi estimasi</span>
+                <span class="detail-colon">:</span>
+                <span class="detail-value">
+                  <span>-Rp ${bill.trueUpCredit.toLocaleString('id-ID')}</span>
+                  <span class="calculation-inline">kelebihan ${Math.abs(bill.trueUpUsage || 0)} m³</span>
+                </span>
+              </div>
+              `;
+  };
+
+  const renderFeeLines = (bill: BillData) => {
+    return bill.fixedFees
+      .map(fee => `
+              <div class="detail-line">
+                <span class="detail-label">${fee.name}</span>
+                <span class="detail-colon">:</span>
+                <span class="detail-value">Rp ${fee.amount.toLocaleString('id-ID')}</span>
+              </div>
+              `)
+      .join('');
+  };
+
+  const renderDiscountLines = (bill: BillData) => {
+    return bill.appliedDiscounts
+      .map(({ discount, amount }) => `
+              <div class="detail-line discount-section">
+                <span class="detail-label">Diskon (${DiscountService.describeValue(discount)})</span>
+                <span class="detail-colon">:</span>
+                <span class="detail-value"><strong>-Rp ${amount.toLocaleString('id-ID')}</strong></span>
+                <div style="font-size: 10px; font-style: italic; text-align: center; margin: 8px 0; padding: 4px; background: #f0fff0; border-radius: 12px;">
+                Alasan: ${discount.reason}
+              </div>
+              </div>
+              `)
+      .join('');
+  };
+
+  const renderBalanceLines = (bill: BillData) => {
+    if (!bill.previousBalance || !bill.ledgerBill) return '';
+    const balanceLabel = bill.previousBalance > 0 ? 'Kredit bulan lalu' : 'Tunggakan bulan lalu';
+    const balanceSign = bill.previousBalance > 0 ? '-' : '+';
+    // The previous balance already contains any credit applied to this bill, so start from the full amount due
+    const amountToPay = Math.max(0, BillLedgerService.getAmountDue(bill.ledgerBill) - bill.ledgerBill.paid_amount - bill.previousBalance);
+    return `
+              <div class="detail-line">
+                <span class="detail-label">${balanceLabel}</span>
+                <span class="detail-colon">:</span>
+                <span class="detail-value">${balanceSign}Rp ${Math.abs(bill.previousBalance).toLocaleString('id-ID')}</span>
+              </div>
+              <div class="detail-line">
+                <span class="detail-label"><strong>Harus dibayar</strong></span>
+                <span class="detail-colon">:</span>
+                <span class="detail-value"><strong>Rp ${amountToPay.toLocaleString('id-ID')}</strong></span>
+              </div>
+              `;
+  };
+
+  const renderPenaltyLine = (bill: BillData) => {
+    if (!bill.penaltyAmount) return '';
+    return `
+              <div class="detail-line">
+                <span class="detail-label">Denda keterlambatan</span>
+                <span class="detail-colon">:</span>
+                <span class="detail-value"><strong>Rp ${bill.penaltyAmount.toLocaleString('id-ID')}</strong></span>
+              </div>
+              `;
+  };
+
   const generateReceiptHTML = (billsToprint: BillData[]) => {
     // Calculate RT totals for the summary
     const rtTotals = new Map<string, { customerCount: number; totalAmount: number; customers: string[] }>();
@@ -399,7 +673,7 @@ export default function BillingReports() {
       }
       const rtData = rtTotals.get(rt)!;
       rtData.customerCount++;
-      rtData.totalAmount += bill.totalAmount;
+      rtData.totalAmount += bill.totalAmount + (bill.penaltyAmount || 0);
       rtData.customers.push(bill.customer.name);
     });
 
@@ -694,14 +968,14 @@ export default function BillingReports() {
               <div class="detail-line">
                 <span class="detail-label">Meter lalu</span>
                 <span class="detail-colon">:</span>
-                <span class="detail-value">${bill.previousReading}</span>
+                <span class="detail-value">${bill.previousReading}${bill.previousEstimated ? ' (estimasi)' : ''}</span>
                 
               </div>
               
               <div class="detail-line">
                 <span class="detail-label">Meter sekarang</span>
                 <span class="detail-colon">:</span>
-                <span class="detail-value">${bill.currentReading}</span>
+                <span class="detail-value">${bill.currentReading}${bill.estimated ? ' (estimasi)' : ''}</span>
               </div>
               
               <div class="detail-line">
@@ -710,31 +984,13 @@ export default function BillingReports() {
                 <span class="detail-value"><strong>${bill.usage} m³</strong></span>
               </div>
               
-              <div class="detail-line">
-                <span class="detail-label">Harga satuan m³</span>
-                <span class="detail-colon">:</span>
-                <span class="detail-value">
-                  <span>Rp ${bill.unitPrice.toLocaleString('id-ID')}</span>
-                  <span class="calculation-inline">${bill.unitUsage} x Rp 1.500</span>
-                </span>
-              </div>
+              ${renderGaugeLines(bill)}
               
-              ${bill.tensUsage > 0 ? `
-              <div class="detail-line">
-                <span class="detail-label">Harga puluhan m³</span>
-                <span class="detail-colon">:</span>
-                <span class="detail-value">
-                  <span>Rp ${bill.tensPrice.toLocaleString('id-ID')}</span>
-                  <span class="calculation-inline">${bill.tensUsage} x Rp 2.000</span>
-                </span>
-              </div>
-              ` : ''}
+              ${renderTierLines(bill)}
               
-              <div class="detail-line">
-                <span class="detail-label">Beban</span>
-                <span class="detail-colon">:</span>
-                <span class="detail-value">Rp ${bill.speedometerFee.toLocaleString('id-ID')}</span>
-              </div>
+              ${renderFeeLines(bill)}
+              
+              ${renderTrueUpLines(bill)}
               
               ${bill.discount ? `
               <div class="detail-line discount-section">
@@ -745,12 +1001,16 @@ export default function BillingReports() {
               
               ` : ''}
               
+              ${renderPenaltyLine(bill)}
+              
               <div class="total-row">
                 <span><strong>TOTAL</strong></span>
                 <span><strong>:</strong></span>
-                <span><strong>Rp ${bill.totalAmount.toLocaleString('id-ID')}</strong></span>
+                <span><strong>Rp ${(bill.totalAmount + (bill.penaltyAmount || 0)).toLocaleString('id-ID')}</strong></span>
               </div>
               
+              ${renderBalanceLines(bill)}
+              
               <div class="footer">
                 ${formatDateID(bill.billDate)}
               </div>
@@ -763,6 +1023,14 @@ export default function BillingReports() {
                 <div class="subtitle">STRUK PEMBAYARAN TAGIHAN AIR - PERIODE ${bill.billMonth.toUpperCase()} - RT ${bill.customer.rt}</div>
               </div>
               
+              ${bill.billNumber ? `
+              <div class="detail-line">
+                <span class="detail-label">No. Tagihan</span>
+                <span class="detail-colon">:</span>
+                <span class="detail-value">${bill.billNumber}</span>
+              </div>
+              ` : ''}
+              
               <div class="detail-line">
                 <span class="detail-label">Nama</span>
                 <span class="detail-colon">:</span>
@@ -772,44 +1040,26 @@ export default function BillingReports() {
               <div class="detail-line">
                 <span class="detail-label">Meter lalu</span>
                 <span class="detail-colon">:</span>
-                <span class="detail-value">${bill.previousReading}</span>
+                <span class="detail-value">${bill.previousReading}${bill.previousEstimated ? ' (estimasi)' : ''}</span>
                 
               </div>
               
               <div class="detail-line">
                 <span class="detail-label">Meter sekarang</span>
                 <span class="detail-colon">:</span>
-                <span class="detail-value">${bill.currentReading}</span>
+                <span class="detail-value">${bill.currentReading}${bill.estimated ? ' (estimasi)' : ''}</span>
                 <span class="usage-inline">Pemakaian</span>
                 <span style="usage-inline">:</span>
                 <span class="detail-value"><strong>${bill.usage} m³</strong></span>
               </div>
+              
+              ${renderGaugeLines(bill)}
                                           
-              <div class="detail-line">
-                <span class="detail-label">Harga satuan m³</span>
-                <span class="detail-colon">:</span>
-                <span class="detail-value">
-                  <span>Rp ${bill.unitPrice.toLocaleString('id-ID')}</span>
-                  <span class="calculation-inline">${bill.unitUsage} x Rp 1.500</span>
-                </span>
-              </div>
+              ${renderTierLines(bill)}
               
-              ${bill.tensUsage > 0 ? `
-              <div class="detail-line">
-                <span class="detail-label">Harga puluhan m³</span>
-                <span class="detail-colon">:</span>
-                <span class="detail-value">
-                  <span>Rp ${bill.tensPrice.toLocaleString('id-ID')}</span>
-                  <span class="calculation-inline">${bill.tensUsage} x Rp 2.000</span>
-                </span>
-              </div>
-              ` : ''}
+              ${renderFeeLines(bill)}
               
-              <div class="detail-line">
-                <span class="detail-label">Beban speedometer</span>
-                <span class="detail-colon">:</span>
-                <span class="detail-value">Rp ${bill.speedometerFee.toLocaleString('id-ID')}</span>
-              </div>
+              ${renderTrueUpLines(bill)}
               
               ${bill.discount ? `
               <div class="detail-line discount-section">
@@ -817,23 +1067,20 @@ export default function BillingReports() {
                 <span class="detail-colon">:</span>
                 <span class="detail-value">Rp ${bill.originalAmount.toLocaleString('id-ID')}</span>
               </div>
-              <div class="detail-line discount-section">
-                <span class="detail-label">Diskon (${bill.discount.discount_percentage > 0 ? bill.discount.discount_percentage + '%' : 'Rp ' + (bill.discount.discount_amount || 0).toLocaleString('id-ID')})</span>
-                <span class="detail-colon">:</span>
-                <span class="detail-value"><strong>-Rp ${bill.discountAmount.toLocaleString('id-ID')}</strong></span>
-                <div style="font-size: 10px; font-style: italic; text-align: center; margin: 8px 0; padding: 4px; background: #f0fff0; border-radius: 12px;">
-                Alasan: ${bill.discount.reason}
-              </div>
-              </div>
+              ${renderDiscountLines(bill)}
               
               ` : ''}
               
+              ${renderPenaltyLine(bill)}
+              
               <div class="total-row">
                 <span><strong>TOTAL BAYAR</strong></span>
                 <span><strong>:</strong></span>
-                <span><strong>Rp ${bill.totalAmount.toLocaleString('id-ID')}</strong></span>
+                <span><strong>Rp ${(bill.totalAmount + (bill.penaltyAmount || 0)).toLocaleString('id-ID')}</strong></span>
               </div>
               
+              ${renderBalanceLines(bill)}
+              
               <div class="footer">
                 <div style="display: flex; justify-content: space-between; font-weight: bold;">
                   <span>TERIMA KASIH</span>
@@ -950,6 +1197,7 @@ export default function BillingReports() {
               {/* Only show discount management for admin and RT PIC */}
               {(user?.role === 'admin' || user?.role === 'rt_pic' || user?.email === 'admin@example.com' || user?.isDemo === true) && (
                 <button
+                  type="button"
                   onClick={() => setShowDiscountManager(true)}
                   className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl font-medium hover:from-purple-600 hover:to-pink-600 transition-all duration-300"
                 >
@@ -1019,6 +1267,16 @@ export default function BillingReports() {
 
           {/* Filters and Actions */}
           <div className="bg-white dark:bg-gray-800 p-5 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+            {ledgerMessage && (
+              <div className={`mb-4 p-3 rounded-xl text-sm ${
+                ledgerMessage.type === 'success'
+                  ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300'
+                  : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+              }`}>
+                {ledgerMessage.text}
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
               <div className="relative md:col-span-2">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -1066,6 +1324,7 @@ export default function BillingReports() {
             
             <div className="flex flex-wrap gap-2">
               <button 
+                type="button"
                 onClick={() => fetchBillingData()}
                 className="bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 px-4 py-2 rounded-xl font-medium hover:bg-gray-200 dark:hover:bg-gray-600 border border-gray-200 dark:border-gray-600 transition-all duration-300 text-sm"
               >
@@ -1073,6 +1332,7 @@ export default function BillingReports() {
               </button>
 
               <button 
+                type="button"
                 onClick={handleForceRefresh}
                 className="bg-blue-100 dark:bg-blue-700 text-blue-800 dark:text-blue-200 px-4 py-2 rounded-xl font-medium hover:bg-blue-200 dark:hover:bg-blue-600 border border-blue-200 dark:border-blue-600 transition-all duration-300 text-sm"
               >
@@ -1080,13 +1340,47 @@ export default function BillingReports() {
               </button>
 
               <button 
+                type="button"
                 onClick={handleClearCache}
                 className="bg-red-100 dark:bg-red-700 text-red-800 dark:text-red-200 px-4 py-2 rounded-xl font-medium hover:bg-red-200 dark:hover:bg-red-600 border border-red-200 dark:border-red-600 transition-all duration-300 text-sm"
               >
                 <FiTrash2 className="mr-1" /> Clear Cache
               </button>
               
+              {selectedMonth && (
+                <>
+                  <button 
+                    type="button"
+                    onClick={handleGenerateDrafts}
+                    disabled={ledgerBusy || BillLedgerService.isMonthClosed(ledgerBills, selectedMonth)}
+                    className="bg-purple-100 dark:bg-purple-700 text-purple-800 dark:text-purple-200 px-4 py-2 rounded-xl font-medium hover:bg-purple-200 dark:hover:bg-purple-600 border border-purple-200 dark:border-purple-600 transition-all duration-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <FiFileText className="mr-1" /> Buat Draf Tagihan
+                  </button>
+
+                  <button 
+                    type="button"
+                    onClick={handleCloseMonth}
+                    disabled={ledgerBusy}
+                    className="bg-green-100 dark:bg-green-700 text-green-800 dark:text-green-200 px-4 py-2 rounded-xl font-medium hover:bg-green-200 dark:hover:bg-green-600 border border-green-200 dark:border-green-600 transition-all duration-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <FiLock className="mr-1" /> {ledgerBusy ? 'Memproses...' : 'Tutup Bulan'}
+                  </button>
+                </>
+              )}
+
+              <button 
+                type="button"
+                onClick={handleApplyPenalties}
+                disabled={ledgerBusy}
+                title="Kenakan denda pada semua tagihan yang lewat jatuh tempo, dari bulan mana pun"
+                className="bg-orange-100 dark:bg-orange-700 text-orange-800 dark:text-orange-200 px-4 py-2 rounded-xl font-medium hover:bg-orange-200 dark:hover:bg-orange-600 border border-orange-200 dark:border-orange-600 transition-all duration-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FiAlertTriangle className="mr-1" /> Terapkan Denda
+              </button>
+              
               <button 
+                type="button"
                 onClick={printAllReceipts}
                 disabled={filteredBills.length === 0}
                 className="bg-gradient-to-r from-blue-500 to-cyan-500 text-white px-4 py-2 rounded-xl font-medium hover:from-blue-600 hover:to-cyan-600 transition-all duration-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
@@ -1132,7 +1426,7 @@ export default function BillingReports() {
                   </thead>
                   <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                     {filteredBills.map((bill) => (
-                      <tr key={bill.customer.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <tr key={`${bill.customer.id}-${bill.billDate}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div>
                             <div className="text-sm font-medium text-gray-900 dark:text-white">
@@ -1141,6 +1435,16 @@ export default function BillingReports() {
                             <div className="text-sm text-gray-500 dark:text-gray-400">
                               {bill.customer.rt} • {bill.customer.phone}
                             </div>
+                            {bill.billNumber && (
+                              <div className="text-xs text-gray-500 dark:text-gray-400">
+                                {bill.billNumber}
+                              </div>
+                            )}
+                            {bill.customer.tariffClass !== 'household' && (
+                              <div className="text-xs text-blue-600 dark:text-blue-400">
+                                {TariffService.getClassLabel(bill.customer.tariffClass)}
+                              </div>
+                            )}
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
@@ -1149,34 +1453,48 @@ export default function BillingReports() {
                             <div className="text-blue-600 dark:text-blue-400 font-medium">
                               {bill.usage} m³ digunakan
                             </div>
+                            {bill.estimated && (
+                              <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                                Estimasi
+                              </span>
+                            )}
+                            {bill.trueUpUsage !== undefined && (
+                              <div className="text-xs text-amber-700 dark:text-amber-300">
+                                Koreksi estimasi {bill.trueUpUsage > 0 ? '+' : ''}{bill.trueUpUsage} m³
+                                {bill.trueUpCredit ? ` (-${formatCurrency(bill.trueUpCredit)})` : ''}
+                              </div>
+                            )}
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                           <div>
-                            {bill.unitUsage > 0 && (
-                              <div>Satuan: {bill.unitUsage} × {formatCurrency(pricing.UNIT_RATE)}</div>
-                            )}
-                            {bill.tensUsage > 0 && (
-                              <div>Puluhan: {bill.tensUsage} × {formatCurrency(pricing.TENS_RATE)}</div>
-                            )}
-                            <div>Speedometer: {formatCurrency(pricing.SPEEDOMETER_FEE)}</div>
+                            {bill.tierCharges.filter(charge => charge.usage > 0).map(charge => (
+                              <div key={charge.from}>
+                                {TariffService.formatTierRange(charge)}: {charge.usage} × {formatCurrency(charge.rate)}
+                              </div>
+                            ))}
+                            {bill.fixedFees.map(fee => (
+                              <div key={fee.name}>{fee.name}: {formatCurrency(fee.amount)}</div>
+                            ))}
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{bill.tariffName}</div>
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          {bill.discount ? (
-                            <div className="text-sm">
-                              <div className="text-green-600 dark:text-green-400 font-medium">
-                                {bill.discount.discount_percentage > 0 
-                                  ? `${bill.discount.discount_percentage}%` 
-                                  : formatCurrency(bill.discount.discount_amount || 0)
-                                }
-                              </div>
-                              <div className="text-xs text-gray-500 dark:text-gray-400">
-                                {bill.discount.reason}
-                              </div>
-                              <div className="text-xs text-green-600 dark:text-green-400">
-                                -{formatCurrency(bill.discountAmount)}
-                              </div>
+                          {bill.appliedDiscounts.length > 0 ? (
+                            <div className="text-sm space-y-1">
+                              {bill.appliedDiscounts.map(({ discount, amount }) => (
+                                <div key={discount.id}>
+                                  <div className="text-green-600 dark:text-green-400 font-medium">
+                                    {DiscountService.describeValue(discount)}
+                                  </div>
+                                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                                    {discount.reason}
+                                  </div>
+                                  <div className="text-xs text-green-600 dark:text-green-400">
+                                    -{formatCurrency(amount)}
+                                  </div>
+                                </div>
+                              ))}
                             </div>
                           ) : (
                             <div className="flex items-center space-x-2">
@@ -1184,6 +1502,7 @@ export default function BillingReports() {
                               {/* Only show discount settings for admin and RT PIC */}
                               {(user?.role === 'admin' || user?.role === 'rt_pic' || user?.email === 'admin@example.com' || user?.isDemo === true) && (
                                 <button
+                                  type="button"
                                   onClick={() => {
                                     setSelectedCustomerForDiscount(bill.customer.id);
                                     setShowDiscountManager(true);
@@ -1207,15 +1526,49 @@ export default function BillingReports() {
                             <span className="text-lg font-bold text-green-600 dark:text-green-400">
                               {formatCurrency(bill.totalAmount)}
                             </span>
+                            {!!bill.penaltyAmount && (
+                              <div className="text-xs text-red-600 dark:text-red-400">
+                                + denda {formatCurrency(bill.penaltyAmount)}
+                              </div>
+                            )}
+                            {!!bill.previousBalance && (
+                              <div className={`text-xs ${bill.previousBalance > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                {bill.previousBalance > 0 ? 'kredit' : 'tunggakan'} {formatCurrency(Math.abs(bill.previousBalance))}
+                              </div>
+                            )}
+                            <div>
+                              <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(bill.status)}`}>
+                                {bill.status ? BillLedgerService.getStatusLabel(bill.status) : 'Belum ditutup'}
+                              </span>
+                              {bill.ledgerBill?.needs_reissue && (
+                                <span
+                                  title={bill.ledgerBill.reissue_reason}
+                                  className="ml-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200"
+                                >
+                                  Perlu terbit ulang
+                                </span>
+                              )}
+                            </div>
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                           <button
+                            type="button"
                             onClick={() => printSingleReceipt(bill)}
                             className="bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 px-3 py-1 rounded-lg hover:bg-blue-200 dark:hover:bg-blue-900/70 transition-colors"
                           >
                             <FiPrinter className="mr-1" /> Cetak
                           </button>
+                          {bill.ledgerBill && bill.ledgerBill.paid_amount === 0 && (
+                            <button
+                              type="button"
+                              onClick={() => handleVoidBill(bill.ledgerBill!)}
+                              className="ml-2 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 transition-colors"
+                              title="Batalkan tagihan"
+                            >
+                              <FiXCircle className="h-4 w-4" />
+                            </button>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -1234,6 +1587,24 @@ export default function BillingReports() {
               )}
             </div>
           )}
+
+          {/* Tariff Class Summary */}
+          {!loading && getTariffClassSummary().length > 0 && (
+            <div className="bg-white dark:bg-gray-800 p-5 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 mt-6">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Ringkasan per Golongan Tarif</h2>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {getTariffClassSummary().map(summary => (
+                  <div key={summary.value} className="p-4 rounded-xl bg-gray-50 dark:bg-gray-700">
+                    <div className="text-xs font-medium text-gray-600 dark:text-gray-400">{summary.label}</div>
+                    <div className="text-lg font-semibold text-gray-900 dark:text-white">{formatCurrency(summary.totalAmount)}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {summary.billCount} pelanggan • {summary.usage.toFixed(0)} m³
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </main>
         
         {/* Discount Manager Modal */}
@@ -1243,6 +1614,8 @@ export default function BillingReports() {
               <DiscountManager
                 customers={customers}
                 selectedCustomerId={selectedCustomerForDiscount}
+                currentUser={user?.email || user?.name || 'unknown'}
+                canApproveDiscounts={user?.role === 'admin' || user?.email === 'admin@example.com'}
                 onDiscountSet={(discount) => {
                   // Refresh billing data to show updated discounts
                   fetchBillingData();
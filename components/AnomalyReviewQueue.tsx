@@ -0,0 +1,201 @@
+/**
+ * Anomaly Review Queue Component
+ * Lists the readings of a month with usage anomalies so an admin can check each one
+ * and record whether it was a real problem or a false alarm
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FiAlertTriangle, FiCheck, FiX } from 'react-icons/fi';
+import { AnomalyReviewStatus } from '@/types/types';
+import {
+  AnomalyService,
+  AnomalyQueueItem,
+  AnomalySeverity,
+  ANOMALY_SEVERITY_LABELS,
+  ANOMALY_TYPE_LABELS
+} from '@/lib/anomalyService';
+import { formatDateID } from '@/utils/dateFormat';
+
+interface AnomalyReviewQueueProps {
+  reviewedBy: string;
+}
+
+const SEVERITY_STYLES: Record<AnomalySeverity, string> = {
+  critical: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  info: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300'
+};
+
+const REVIEW_STATUS_LABELS: Record<AnomalyReviewStatus, string> = {
+  confirmed: 'Masalah ditindaklanjuti',
+  dismissed: 'Bukan masalah'
+};
+
+export default function AnomalyReviewQueue({ reviewedBy }: AnomalyReviewQueueProps) {
+  const [month, setMonth] = useState(new Date().toISOString().substring(0, 7));
+  const [items, setItems] = useState<AnomalyQueueItem[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    AnomalyService.loadReviewQueue(month)
+      .then(queue => {
+        if (!cancelled) setItems(queue);
+      })
+      .catch(error => {
+        console.error('Error loading anomaly review queue:', error);
+        if (!cancelled) setError('Gagal memuat antrean anomali');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [month]);
+
+  const handleReview = async (item: AnomalyQueueItem, status: AnomalyReviewStatus) => {
+    setSavingId(item.reading.id);
+    setError('');
+    try {
+      const review = await AnomalyService.saveReview(item, status, reviewedBy, notes[item.reading.id]);
+      setItems(current => current.map(i => (i.reading.id === item.reading.id ? { ...i, review } : i)));
+    } catch (err: any) {
+      console.error('Error saving anomaly review:', err);
+      setError(err.message || 'Gagal menyimpan hasil pemeriksaan');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const openCount = items.filter(item => !item.review).length;
+  const visibleItems = showReviewed ? items : items.filter(item => !item.review);
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white text-sm';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white flex items-center">
+            <FiAlertTriangle className="mr-2 text-yellow-500" />
+            Antrean Anomali Pembacaan
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {openCount} pembacaan belum diperiksa dari {items.length} yang ditandai
+          </p>
+        </div>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => setMonth(e.target.value)}
+          className={`${inputClass} max-w-[12rem]`}
+          aria-label="Bulan"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={showReviewed}
+          onChange={(e) => setShowReviewed(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        Tampilkan yang sudah diperiksa
+      </label>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {loading && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">Memuat antrean anomali...</p>
+      )}
+
+      {!loading && visibleItems.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+          Tidak ada anomali yang perlu diperiksa bulan ini
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {visibleItems.map(item => (
+          <div key={item.reading.id} className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl space-y-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p className="font-semibold text-gray-900 dark:text-white">
+                  {item.customer.name} {item.customer.rt ? `(${item.customer.rt})` : ''}
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {item.previousReading.reading} → {item.reading.reading} ({formatDateID(item.reading.date)}), pemakaian {item.usage} m³
+                </p>
+              </div>
+              {item.review && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                  {REVIEW_STATUS_LABELS[item.review.status]} - {item.review.reviewed_by}
+                </span>
+              )}
+            </div>
+
+            <ul className="space-y-2">
+              {item.anomalies.map(anomaly => (
+                <li key={anomaly.type} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold flex-shrink-0 ${SEVERITY_STYLES[anomaly.severity]}`}>
+                    {ANOMALY_SEVERITY_LABELS[anomaly.severity]}
+                  </span>
+                  <span>
+                    <span className="font-medium">{ANOMALY_TYPE_LABELS[anomaly.type]}:</span> {anomaly.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {item.review?.note && (
+              <p className="text-sm italic text-gray-600 dark:text-gray-400">Catatan: {item.review.note}</p>
+            )}
+
+            {!item.review && (
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={notes[item.reading.id] || ''}
+                  onChange={(e) => setNotes({ ...notes, [item.reading.id]: e.target.value })}
+                  placeholder="Catatan pemeriksaan (opsional)"
+                  className={`${inputClass} flex-1 min-w-[12rem]`}
+                  aria-label="Catatan pemeriksaan"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleReview(item, 'confirmed')}
+                  disabled={savingId === item.reading.id}
+                  className="flex items-center px-3 py-2 bg-red-600 text-white rounded-xl text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+                >
+                  <FiCheck className="mr-1" />
+                  Masalah, ditindaklanjuti
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleReview(item, 'dismissed')}
+                  disabled={savingId === item.reading.id}
+                  className="flex items-center px-3 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-xl text-sm font-medium hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  <FiX className="mr-1" />
+                  Bukan masalah
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { FiUsers, FiDroplet, FiDollarSign, FiTrendingUp, FiCheck, FiClock, FiAlertCircle, FiRefreshCw } from 'react-icons/fi';
 import { DashboardMetrics, RTPaymentStatus } from '@/types/types';
 import { dashboardService } from '@/lib/dashboardService';
+import { TariffService } from '@/lib/tariffService';
 import { formatDateID } from '@/utils/dateFormat';
 
 interface DashboardMetricsProps {
@@ -252,9 +253,11 @@ export default function DashboardMetricsComponent({ className = '' }: DashboardM
                     // Find corresponding payment status
                     const paymentStatus = metrics.rtPaymentStatus.find(rt => rt.rt === rtBill.rt);
                     
-                    // Calculate sisa (remaining) from total bill and paid amount
+                    // Calculate sisa (remaining) from total bill and deposited amount
                     const paidAmount = paymentStatus?.paidAmount || 0;
-                    const remainingAmount = Math.max(0, rtBill.totalBill - paidAmount);
+                    const penaltyAmount = paymentStatus?.penaltyAmount || 0;
+                    const undepositedAmount = Math.max(0, (paymentStatus?.collectedAmount || 0) - paidAmount);
+                    const remainingAmount = Math.max(0, rtBill.totalBill + penaltyAmount - paidAmount);
                     
                     return (
                       <tr key={rtBill.rt} className="hover:bg-gray-50 dark:hover:bg-gray-700">
@@ -272,9 +275,19 @@ export default function DashboardMetricsComponent({ className = '' }: DashboardM
                         </td>
                         <td className="px-4 py-4 whitespace-nowrap text-sm text-green-600 dark:text-green-400 font-medium">
                           {formatCurrency(paidAmount)}
+                          {undepositedAmount > 0 && (
+                            <div className="text-xs font-normal text-yellow-600 dark:text-yellow-400">
+                              +{formatCurrency(undepositedAmount)} belum disetor
+                            </div>
+                          )}
                         </td>
                         <td className="px-4 py-4 whitespace-nowrap text-sm text-red-600 dark:text-red-400 font-medium">
                           {formatCurrency(remainingAmount)}
+                          {penaltyAmount > 0 && (
+                            <div className="text-xs font-normal text-red-500 dark:text-red-400">
+                              termasuk denda {formatCurrency(penaltyAmount)}
+                            </div>
+                          )}
                         </td>
                         <td className="px-4 py-4 whitespace-nowrap">
                           {paymentStatus ? (
@@ -312,8 +325,8 @@ export default function DashboardMetricsComponent({ className = '' }: DashboardM
             <div className="mt-4 text-sm text-gray-600 dark:text-gray-400 space-y-1">
               <p><strong>Keterangan:</strong></p>
               <p>• <strong>Total Tagihan:</strong> Jumlah yang harus dikumpulkan dari seluruh pelanggan di RT</p>
-              <p>• <strong>Terbayar:</strong> Jumlah uang yang sudah diterima dari RT</p>
-              <p>• <strong>Sisa:</strong> Jumlah uang yang masih harus dikumpulkan</p>
+              <p>• <strong>Terbayar:</strong> Jumlah setoran RT yang sudah diterima bendahara; uang yang sudah dikumpulkan dari pelanggan tetapi belum disetor ditampilkan terpisah</p>
+              <p>• <strong>Sisa:</strong> Jumlah uang yang masih harus dikumpulkan, termasuk denda keterlambatan</p>
               <p>• <strong>Status Pembayaran:</strong> Lunas (100%), Sebagian (1-99%), Belum (0%)</p>
               <p>• <strong>Status Pembacaan:</strong> Lengkap (semua pelanggan sudah dibaca), X belum (masih ada yang belum dibaca)</p>
             </div>
@@ -321,6 +334,55 @@ export default function DashboardMetricsComponent({ className = '' }: DashboardM
         </div>
       )}
 
+      {/* Tariff Class Breakdown */}
+      {metrics.tariffClassTotals.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Tagihan per Golongan Tarif - {billingPeriod?.monthName} {billingPeriod?.year}
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Golongan
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Pelanggan
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Pemakaian
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Total Tagihan
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {metrics.tariffClassTotals.map((classTotal) => (
+                    <tr key={classTotal.tariffClass} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {TariffService.getClassLabel(classTotal.tariffClass)}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {classTotal.customerCount}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {classTotal.totalUsage.toLocaleString('id-ID')} m³
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm font-semibold text-gray-900 dark:text-white">
+                        {formatCurrency(classTotal.totalBill)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Collection Summary */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="bg-white dark:bg-gray-800 p-5 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { FiAlertTriangle, FiCheckCircle, FiRefreshCw, FiDatabase, FiUsers, FiDroplet, FiCalendar } from 'react-icons/fi';
 import { supabase } from '@/lib/supabase';
 import { offlineStorage } from '@/lib/offlineStorage';
+import { MeterRegisterService } from '@/lib/meterRegisterService';
 
 interface IntegrityIssue {
   type: 'error' | 'warning' | 'info';
@@ -42,6 +43,7 @@ export default function DatabaseIntegrityChecker() {
       let readings: any[] = [];
       
       if (typeof window !== 'undefined') {
+        await offlineStorage.ready();
         const offlineCustomers = offlineStorage.getCustomers();
         const offlineReadings = offlineStorage.getReadings();
         
@@ -129,7 +131,9 @@ export default function DatabaseIntegrityChecker() {
         for (let i = 1; i < customerReadings.length; i++) {
           const current = customerReadings[i];
           const previous = customerReadings[i - 1];
-          const usage = current.reading - previous.reading;
+          const usage = current.rollover && current.reading < previous.reading
+            ? MeterRegisterService.getRolloverUsage(previous.reading, current.reading, customer.meter_digits)
+            : current.reading - previous.reading;
           
           if (usage < 0) {
             negativeUsageCustomers.push(`${customer.name} (${new Date(current.date).toLocaleDateString('id-ID')}): ${usage} m³`);
@@ -1,19 +1,24 @@
 /**
  * Discount Manager Component
- * Allows admins to set and manage customer discounts
+ * Allows admins to set and manage customer discounts, and a second admin to approve large ones
  */
 
 'use client';
 
-import { useState, useEffect } from 'react';
-import { FiPercent, FiDollarSign, FiCalendar, FiUser, FiSave, FiX, FiEdit, FiTrash2 } from 'react-icons/fi';
-import { Customer, CustomerDiscount } from '@/types/types';
+import { useState, useEffect, useCallback } from 'react';
+import { FiPercent, FiDollarSign, FiDroplet, FiSave, FiX, FiEdit, FiTrash2, FiCheck, FiClock } from 'react-icons/fi';
+import { Customer, CustomerDiscount, DiscountApproval, DiscountApprovalStatus, DiscountScope, TariffClass } from '@/types/types';
 import { offlineStorage } from '@/lib/offlineStorage';
-import { formatDateID, formatMonthYearID } from '@/utils/dateFormat';
+import { DiscountService, DiscountKind, DISCOUNT_SCOPES, DISCOUNT_APPROVAL_THRESHOLDS } from '@/lib/discountService';
+import { TARIFF_CLASSES } from '@/lib/tariffService';
+import { ValidationService } from '@/lib/validationService';
+import { formatDateID } from '@/utils/dateFormat';
 
 interface DiscountManagerProps {
   customers: Customer[];
   selectedCustomerId?: string;
+  currentUser: string;
+  canApproveDiscounts?: boolean;
   onDiscountSet?: (discount: CustomerDiscount) => void;
   onClose?: () => void;
 }
@@ -21,89 +26,97 @@ interface DiscountManagerProps {
 export default function DiscountManager({ 
   customers, 
   selectedCustomerId, 
+  currentUser,
+  canApproveDiscounts = false,
   onDiscountSet, 
   onClose 
 }: DiscountManagerProps) {
+  const [scope, setScope] = useState<DiscountScope>('customer');
   const [customerId, setCustomerId] = useState(selectedCustomerId || '');
-  const [discountType, setDiscountType] = useState<'percentage' | 'amount'>('percentage');
+  const [targetRT, setTargetRT] = useState('');
+  const [targetTariffClass, setTargetTariffClass] = useState<TariffClass>('social');
+  const [discountType, setDiscountType] = useState<DiscountKind>('percentage');
   const [discountValue, setDiscountValue] = useState('');
   const [reason, setReason] = useState('');
   const [discountMonth, setDiscountMonth] = useState(new Date().toISOString().substring(0, 7)); // YYYY-MM format
-  const [existingDiscounts, setExistingDiscounts] = useState<CustomerDiscount[]>([]);
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [endMonth, setEndMonth] = useState('');
+  const [cachedDiscounts, setCachedDiscounts] = useState<CustomerDiscount[]>([]);
   const [editingDiscount, setEditingDiscount] = useState<CustomerDiscount | null>(null);
+  const [pendingDiscounts, setPendingDiscounts] = useState<CustomerDiscount[]>([]);
+  const [approvals, setApprovals] = useState<DiscountApproval[]>([]);
+  const [decision, setDecision] = useState<{ discount: CustomerDiscount; status: 'approved' | 'rejected' } | null>(null);
+  const [decisionReason, setDecisionReason] = useState('');
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{type: string, text: string} | null>(null);
 
+  const refreshDiscounts = useCallback(async () => {
+    const [discounts, history] = await Promise.all([
+      DiscountService.loadDiscounts(),
+      DiscountService.loadApprovalHistory()
+    ]);
+    setPendingDiscounts(discounts.filter(d => d.is_active && DiscountService.getApprovalStatus(d) === 'pending'));
+    setApprovals(history);
+    setCachedDiscounts(offlineStorage.getDiscounts());
+  }, []);
+
   useEffect(() => {
-    if (customerId) {
-      loadCustomerDiscounts();
-    }
-  }, [customerId]);
+    refreshDiscounts();
+  }, [refreshDiscounts]);
 
-  const loadCustomerDiscounts = () => {
-    if (typeof window !== 'undefined') {
-      const discounts = offlineStorage.getCustomerDiscounts(customerId);
-      setExistingDiscounts(discounts);
-    }
-  };
+  // History of the discounts for the selected target
+  const existingDiscounts = cachedDiscounts.filter(d => {
+    if (DiscountService.getScope(d) !== scope) return false;
+    if (scope === 'rt') return d.target_rt === targetRT;
+    if (scope === 'tariff_class') return d.target_tariff_class === targetTariffClass;
+    return d.customer_id === customerId;
+  });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
-      if (!customerId) {
-        throw new Error('Silakan pilih pelanggan');
-      }
-
-      if (!discountValue || parseFloat(discountValue) <= 0) {
-        throw new Error('Silakan masukkan nilai diskon yang valid');
-      }
-
-      if (discountType === 'percentage' && parseFloat(discountValue) > 100) {
-        throw new Error('Persentase diskon tidak boleh lebih dari 100%');
-      }
-
-      if (!reason.trim()) {
-        throw new Error('Silakan masukkan alasan pemberian diskon');
-      }
-
+      const value = parseFloat(discountValue) || 0;
       const discountData: Omit<CustomerDiscount, 'id'> = {
-        customer_id: customerId,
-        discount_percentage: discountType === 'percentage' ? parseFloat(discountValue) : 0,
-        discount_amount: discountType === 'amount' ? parseFloat(discountValue) : undefined,
+        scope,
+        customer_id: scope === 'customer' ? customerId : undefined,
+        target_rt: scope === 'rt' ? targetRT : undefined,
+        target_tariff_class: scope === 'tariff_class' ? targetTariffClass : undefined,
+        discount_percentage: discountType === 'percentage' ? value : 0,
+        discount_amount: discountType === 'amount' ? value : undefined,
+        free_usage: discountType === 'free_usage' ? value : undefined,
         reason: reason.trim(),
         discount_month: discountMonth,
-        created_by: 'admin', // In a real app, this would be the current user
+        is_recurring: isRecurring,
+        end_month: isRecurring && endMonth ? endMonth : null,
+        created_by: currentUser,
         created_at: new Date().toISOString(),
         is_active: true,
       };
 
-      let discountId: string;
-      
-      if (editingDiscount) {
-        // Update existing discount
-        const success = offlineStorage.updateDiscount(editingDiscount.id, discountData);
-        if (!success) {
-          throw new Error('Gagal memperbarui diskon');
-        }
-        discountId = editingDiscount.id;
-        setMessage({ type: 'success', text: 'Diskon berhasil diperbarui!' });
-      } else {
-        // Create new discount
-        discountId = offlineStorage.addDiscount(discountData);
-        setMessage({ type: 'success', text: 'Diskon berhasil ditambahkan!' });
+      const summary = ValidationService.getValidationSummary(
+        ValidationService.validateDiscount(editingDiscount ? { ...discountData, id: editingDiscount.id } : discountData)
+      );
+      if (!summary.isValid) {
+        throw new Error(ValidationService.formatValidationMessages(summary.errors).join(', '));
       }
 
-      // Get the created/updated discount
-      const createdDiscount = offlineStorage.getDiscounts().find(d => d.id === discountId);
-      if (createdDiscount && onDiscountSet) {
-        onDiscountSet(createdDiscount);
+      const savedDiscount = await DiscountService.saveDiscount(discountData, currentUser, editingDiscount || undefined);
+
+      if (DiscountService.getApprovalStatus(savedDiscount) === 'pending') {
+        // Large discounts only take effect after a second admin approves them
+        setMessage({ type: 'success', text: 'Diskon disimpan dan menunggu persetujuan admin lain' });
+      } else {
+        setMessage({ type: 'success', text: editingDiscount ? 'Diskon berhasil diperbarui!' : 'Diskon berhasil ditambahkan!' });
+        if (onDiscountSet) {
+          onDiscountSet(savedDiscount);
+        }
       }
 
       // Reset form
       resetForm();
-      loadCustomerDiscounts();
+      await refreshDiscounts();
 
       // Clear message after 3 seconds
       setTimeout(() => setMessage(null), 3000);
@@ -119,28 +132,100 @@ export default function DiscountManager({
     setDiscountValue('');
     setReason('');
     setDiscountMonth(new Date().toISOString().substring(0, 7));
+    setIsRecurring(false);
+    setEndMonth('');
     setEditingDiscount(null);
   };
 
   const handleEdit = (discount: CustomerDiscount) => {
+    const kind = DiscountService.getKind(discount);
     setEditingDiscount(discount);
-    setDiscountType(discount.discount_percentage > 0 ? 'percentage' : 'amount');
-    setDiscountValue((discount.discount_percentage > 0 ? discount.discount_percentage : discount.discount_amount || 0).toString());
+    setDiscountType(kind);
+    setDiscountValue((
+      kind === 'percentage' ? discount.discount_percentage
+        : kind === 'free_usage' ? discount.free_usage || 0
+        : discount.discount_amount || 0
+    ).toString());
     setReason(discount.reason);
     setDiscountMonth(discount.discount_month);
+    setIsRecurring(!!discount.is_recurring);
+    setEndMonth(discount.end_month || '');
   };
 
-  const handleDeactivate = (discount: CustomerDiscount) => {
+  const handleDeactivate = async (discount: CustomerDiscount) => {
     if (window.confirm('Apakah Anda yakin ingin menonaktifkan diskon ini?')) {
-      offlineStorage.updateDiscount(discount.id, { is_active: false });
-      loadCustomerDiscounts();
-      setMessage({ type: 'success', text: 'Diskon berhasil dinonaktifkan' });
+      try {
+        await DiscountService.deactivateDiscount(discount);
+        await refreshDiscounts();
+        setMessage({ type: 'success', text: 'Diskon berhasil dinonaktifkan' });
+        setTimeout(() => setMessage(null), 3000);
+      } catch (error: any) {
+        setMessage({ type: 'error', text: error.message || 'Gagal menonaktifkan diskon' });
+      }
+    }
+  };
+
+  const handleDecision = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!decision) return;
+
+    setLoading(true);
+    try {
+      if (decision.status === 'approved') {
+        await DiscountService.approveDiscount(decision.discount, currentUser, decisionReason);
+      } else {
+        await DiscountService.rejectDiscount(decision.discount, currentUser, decisionReason);
+      }
+
+      setMessage({ type: 'success', text: decision.status === 'approved' ? 'Diskon disetujui' : 'Diskon ditolak' });
+      setDecision(null);
+      setDecisionReason('');
+      await refreshDiscounts();
+      if (decision.status === 'approved' && onDiscountSet) {
+        onDiscountSet(decision.discount);
+      }
       setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message || 'Gagal menyimpan keputusan' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getCustomerName = (discount: CustomerDiscount) =>
+    customers.find(c => c.id === discount.customer_id)?.name;
+
+  const getApprovalBadgeClass = (status: DiscountApprovalStatus) => {
+    switch (status) {
+      case 'pending':
+        return 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300';
+      case 'rejected':
+        return 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300';
+      default:
+        return 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300';
     }
   };
 
   const selectedCustomer = customers.find(c => c.id === customerId);
-  const activeDiscount = existingDiscounts.find(d => d.is_active);
+  const availableRTs = Array.from(new Set(customers.map(c => c.rt).filter((rt): rt is string => !!rt))).sort();
+  const currentMonth = new Date().toISOString().substring(0, 7);
+
+  // Discounts of every scope that will apply to the selected customer this month
+  const activeDiscounts = selectedCustomer && typeof window !== 'undefined'
+    ? DiscountService.resolveDiscounts(
+        offlineStorage.getDiscounts(),
+        { customerId: selectedCustomer.id, rt: selectedCustomer.rt, tariffClass: selectedCustomer.tariff_class },
+        currentMonth
+      )
+    : [];
+
+  const targetLabel = scope === 'customer'
+    ? selectedCustomer?.name
+    : scope === 'rt'
+      ? targetRT && `Seluruh ${targetRT}`
+      : `Golongan ${TARIFF_CLASSES.find(c => c.value === targetTariffClass)?.label}`;
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white';
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
@@ -151,6 +236,7 @@ export default function DiscountManager({
         </h2>
         {onClose && (
           <button
+            type="button"
             onClick={onClose}
             className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
           >
@@ -170,34 +256,94 @@ export default function DiscountManager({
       )}
 
       <form onSubmit={handleSubmit} className="space-y-4">
-        {/* Customer Selection */}
+        {/* Discount Target */}
         <div>
-          <label htmlFor="customer" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Pelanggan
+          <label htmlFor="discountScope" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Berlaku Untuk
           </label>
           <select
-            id="customer"
-            value={customerId}
-            onChange={(e) => setCustomerId(e.target.value)}
-            className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
-            required
-            disabled={!!selectedCustomerId}
+            id="discountScope"
+            value={scope}
+            onChange={(e) => {
+              setScope(e.target.value as DiscountScope);
+              resetForm();
+            }}
+            className={inputClass}
+            disabled={!!editingDiscount}
           >
-            <option value="">Pilih pelanggan</option>
-            {customers.map((customer) => (
-              <option key={customer.id} value={customer.id}>
-                {customer.name} (RT: {customer.rt})
-              </option>
+            {DISCOUNT_SCOPES.map(s => (
+              <option key={s.value} value={s.value}>{s.label}</option>
             ))}
           </select>
         </div>
 
+        {scope === 'customer' && (
+          <div>
+            <label htmlFor="customer" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Pelanggan
+            </label>
+            <select
+              id="customer"
+              value={customerId}
+              onChange={(e) => setCustomerId(e.target.value)}
+              className={inputClass}
+              required
+              disabled={!!selectedCustomerId}
+            >
+              <option value="">Pilih pelanggan</option>
+              {customers.map((customer) => (
+                <option key={customer.id} value={customer.id}>
+                  {customer.name} (RT: {customer.rt})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {scope === 'rt' && (
+          <div>
+            <label htmlFor="targetRT" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              RT
+            </label>
+            <select
+              id="targetRT"
+              value={targetRT}
+              onChange={(e) => setTargetRT(e.target.value)}
+              className={inputClass}
+              required
+            >
+              <option value="">Pilih RT</option>
+              {availableRTs.map(rt => (
+                <option key={rt} value={rt}>{rt}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {scope === 'tariff_class' && (
+          <div>
+            <label htmlFor="targetTariffClass" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Golongan Tarif
+            </label>
+            <select
+              id="targetTariffClass"
+              value={targetTariffClass}
+              onChange={(e) => setTargetTariffClass(e.target.value as TariffClass)}
+              className={inputClass}
+            >
+              {TARIFF_CLASSES.map(c => (
+                <option key={c.value} value={c.value}>{c.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Discount Type */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             Jenis Diskon
           </label>
-          <div className="flex space-x-4">
+          <div className="flex flex-wrap gap-4">
             <label className="flex items-center">
               <input
                 type="radio"
@@ -220,13 +366,24 @@ export default function DiscountManager({
               <FiDollarSign className="mr-1" />
               Jumlah Tetap (Rp)
             </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                value="free_usage"
+                checked={discountType === 'free_usage'}
+                onChange={(e) => setDiscountType(e.target.value as 'free_usage')}
+                className="mr-2"
+              />
+              <FiDroplet className="mr-1" />
+              Gratis (m³ pertama)
+            </label>
           </div>
         </div>
 
         {/* Discount Value */}
         <div>
           <label htmlFor="discountValue" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Nilai Diskon {discountType === 'percentage' ? '(%)' : '(Rp)'}
+            Nilai Diskon {discountType === 'percentage' ? '(%)' : discountType === 'free_usage' ? '(m³)' : '(Rp)'}
           </label>
           <input
             type="number"
@@ -235,9 +392,9 @@ export default function DiscountManager({
             onChange={(e) => setDiscountValue(e.target.value)}
             min="0"
             max={discountType === 'percentage' ? "100" : undefined}
-            step={discountType === 'percentage' ? "0.1" : "1000"}
-            placeholder={discountType === 'percentage' ? 'Contoh: 10' : 'Contoh: 50000'}
-            className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
+            step={discountType === 'percentage' ? "0.1" : discountType === 'free_usage' ? "1" : "1000"}
+            placeholder={discountType === 'percentage' ? 'Contoh: 10' : discountType === 'free_usage' ? 'Contoh: 5' : 'Contoh: 50000'}
+            className={inputClass}
             required
           />
         </div>
@@ -253,26 +410,56 @@ export default function DiscountManager({
             onChange={(e) => setReason(e.target.value)}
             rows={3}
             placeholder="Contoh: Pelanggan lama, kesulitan ekonomi, dll."
-            className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white resize-none"
+            className={`${inputClass} resize-none`}
             required
           />
         </div>
 
-        {/* Discount Month */}
+        {/* Discount Period */}
         <div>
-          <label htmlFor="discountMonth" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Bulan Diskon
+          <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            <input
+              type="checkbox"
+              checked={isRecurring}
+              onChange={(e) => setIsRecurring(e.target.checked)}
+              className="mr-2"
+            />
+            Berulang setiap bulan
           </label>
-          <input
-            type="month"
-            id="discountMonth"
-            value={discountMonth}
-            onChange={(e) => setDiscountMonth(e.target.value)}
-            className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
-            required
-          />
+          <div className={`grid gap-4 ${isRecurring ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1'}`}>
+            <div>
+              <label htmlFor="discountMonth" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {isRecurring ? 'Bulan Mulai' : 'Bulan Diskon'}
+              </label>
+              <input
+                type="month"
+                id="discountMonth"
+                value={discountMonth}
+                onChange={(e) => setDiscountMonth(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            {isRecurring && (
+              <div>
+                <label htmlFor="discountEndMonth" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Bulan Akhir
+                </label>
+                <input
+                  type="month"
+                  id="discountEndMonth"
+                  value={endMonth}
+                  min={discountMonth}
+                  onChange={(e) => setEndMonth(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
           <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-            Pilih bulan untuk pemberian diskon
+            {isRecurring
+              ? 'Kosongkan bulan akhir jika diskon berlaku tanpa batas waktu'
+              : 'Pilih bulan untuk pemberian diskon'}
           </p>
         </div>
 
@@ -298,11 +485,89 @@ export default function DiscountManager({
         )}
       </form>
 
+      {/* Pending Approvals */}
+      {canApproveDiscounts && pendingDiscounts.length > 0 && (
+        <div className="mt-8 border-t border-gray-200 dark:border-gray-700 pt-6">
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4 flex items-center">
+            <FiClock className="mr-2 text-yellow-500" />
+            Menunggu Persetujuan ({pendingDiscounts.length})
+          </h3>
+          <div className="space-y-3">
+            {pendingDiscounts.map(discount => (
+              <div key={discount.id} className="p-4 rounded-xl border bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <p className="font-semibold text-gray-800 dark:text-white">
+                      {DiscountService.describeValue(discount)} - {DiscountService.describeTarget(discount, getCustomerName(discount))}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{discount.reason}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-500">
+                      {DiscountService.describePeriod(discount)} • Diajukan oleh {approvals.find(a => a.discount_id === discount.id && a.action === 'requested')?.actor || discount.created_by}
+                    </p>
+                  </div>
+                  {decision?.discount.id !== discount.id && (
+                    <div className="flex space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => setDecision({ discount, status: 'approved' })}
+                        className="p-2 text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300 transition-colors"
+                        title="Setujui diskon"
+                      >
+                        <FiCheck className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setDecision({ discount, status: 'rejected' })}
+                        className="p-2 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 transition-colors"
+                        title="Tolak diskon"
+                      >
+                        <FiX className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {decision?.discount.id === discount.id && (
+                  <form onSubmit={handleDecision} className="mt-3 flex space-x-2">
+                    <input
+                      type="text"
+                      value={decisionReason}
+                      onChange={(e) => setDecisionReason(e.target.value)}
+                      placeholder={decision.status === 'approved' ? 'Alasan persetujuan' : 'Alasan penolakan'}
+                      className={`${inputClass} text-sm py-2`}
+                      required
+                    />
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className={`px-4 py-2 rounded-xl text-white text-sm font-medium ${
+                        decision.status === 'approved' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+                      }`}
+                    >
+                      {decision.status === 'approved' ? 'Setujui' : 'Tolak'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setDecision(null);
+                        setDecisionReason('');
+                      }}
+                      className="px-4 py-2 rounded-xl bg-gray-500 text-white text-sm font-medium hover:bg-gray-600"
+                    >
+                      Batal
+                    </button>
+                  </form>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Existing Discounts */}
-      {selectedCustomer && existingDiscounts.length > 0 && (
+      {targetLabel && existingDiscounts.length > 0 && (
         <div className="mt-8 border-t border-gray-200 dark:border-gray-700 pt-6">
           <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-4">
-            Riwayat Diskon - {selectedCustomer.name}
+            Riwayat Diskon - {targetLabel}
           </h3>
           <div className="space-y-3">
             {existingDiscounts.map((discount) => (
@@ -318,10 +583,7 @@ export default function DiscountManager({
                   <div className="flex-1">
                     <div className="flex items-center space-x-2 mb-2">
                       <span className="font-semibold text-gray-800 dark:text-white">
-                        {discount.discount_percentage > 0 
-                          ? `${discount.discount_percentage}%` 
-                          : `Rp ${discount.discount_amount?.toLocaleString('id-ID')}`
-                        }
+                        {DiscountService.describeValue(discount)}
                       </span>
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                         discount.is_active
@@ -330,17 +592,30 @@ export default function DiscountManager({
                       }`}>
                         {discount.is_active ? 'Aktif' : 'Nonaktif'}
                       </span>
+                      {DiscountService.getApprovalStatus(discount) !== 'approved' && (
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getApprovalBadgeClass(DiscountService.getApprovalStatus(discount))}`}>
+                          {DiscountService.getApprovalStatusLabel(DiscountService.getApprovalStatus(discount))}
+                        </span>
+                      )}
                     </div>
                     <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">
                       {discount.reason}
                     </p>
                     <p className="text-xs text-gray-500 dark:text-gray-500">
-                      Bulan: {formatMonthYearID(discount.discount_month)}
+                      {discount.is_recurring ? 'Periode' : 'Bulan'}: {DiscountService.describePeriod(discount)}
                     </p>
+                    {/* Approval audit trail */}
+                    {approvals.filter(a => a.discount_id === discount.id).reverse().map(entry => (
+                      <p key={entry.id} className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                        {DiscountService.getApprovalActionLabel(entry.action)} oleh {entry.actor} • {formatDateID(entry.created_at)}
+                        {entry.reason && ` • ${entry.reason}`}
+                      </p>
+                    ))}
                   </div>
                   {discount.is_active && (
                     <div className="flex space-x-2">
                       <button
+                        type="button"
                         onClick={() => handleEdit(discount)}
                         className="p-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
                         title="Edit diskon"
@@ -348,6 +623,7 @@ export default function DiscountManager({
                         <FiEdit className="h-4 w-4" />
                       </button>
                       <button
+                        type="button"
                         onClick={() => handleDeactivate(discount)}
                         className="p-2 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 transition-colors"
                         title="Nonaktifkan diskon"
@@ -364,19 +640,26 @@ export default function DiscountManager({
       )}
 
       {/* Active Discount Summary */}
-      {activeDiscount && (
+      {scope === 'customer' && activeDiscounts.length > 0 && (
         <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl">
           <h4 className="font-semibold text-blue-800 dark:text-blue-300 mb-2">
-            Diskon Aktif Saat Ini
+            Diskon Berlaku Bulan Ini
           </h4>
-          <p className="text-blue-700 dark:text-blue-300">
-            {activeDiscount.discount_percentage > 0 
-              ? `${activeDiscount.discount_percentage}% diskon` 
-              : `Rp ${activeDiscount.discount_amount?.toLocaleString('id-ID')} diskon`
-            } - {activeDiscount.reason}
-          </p>
+          {activeDiscounts.map(discount => (
+            <p key={discount.id} className="text-blue-700 dark:text-blue-300">
+              {DiscountService.describeValue(discount)} diskon ({DiscountService.describeTarget(discount, selectedCustomer?.name)}) - {discount.reason}
+            </p>
+          ))}
         </div>
       )}
+
+      <p className="mt-6 text-xs text-gray-500 dark:text-gray-400">
+        Jika beberapa diskon berlaku bersamaan: diskon pelanggan mengalahkan diskon RT, diskon RT mengalahkan diskon golongan,
+        dan diskon satu bulan mengalahkan diskon berulang. Paling banyak satu diskon gratis m³ dan satu diskon persen/nominal
+        yang dipakai; gratis m³ dihitung lebih dulu. Diskon di atas {DISCOUNT_APPROVAL_THRESHOLDS.percentage}%,
+        Rp {DISCOUNT_APPROVAL_THRESHOLDS.amount.toLocaleString('id-ID')}, {DISCOUNT_APPROVAL_THRESHOLDS.free_usage} m³ gratis,
+        serta semua diskon RT dan golongan baru berlaku setelah disetujui admin lain.
+      </p>
     </div>
   );
 }
\ No newline at end of file
@@ -1,9 +1,11 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { FiTool, FiAlertTriangle, FiSave, FiX, FiEdit3, FiRefreshCw } from 'react-icons/fi';
-import { Customer } from '@/types/types';
+import { Customer, Meter } from '@/types/types';
 import { supabase } from '@/lib/supabase';
+import { MeterAssetService } from '@/lib/meterAssetService';
+import { DEFAULT_METER_DIGITS, METER_DIGIT_OPTIONS } from '@/lib/meterRegisterService';
 import { formatDateID } from '@/utils/dateFormat';
 
 interface MeterAdjustment {
@@ -11,15 +13,20 @@ interface MeterAdjustment {
   customer_id: string;
   old_reading: number;
   new_reading: number;
-  adjustment_type: 'gauge_replacement' | 'manual_correction' | 'meter_reset';
+  adjustment_type: 'gauge_replacement' | 'manual_correction' | 'meter_reset' | 'rollover'; // Rollovers are recorded from readings
   reason: string;
   adjustment_date: string;
   created_by: string;
   created_at: string;
   notes?: string;
+  old_meter_id?: string;
+  new_meter_id?: string;
   customer?: Customer;
 }
 
+// Value of the new meter select that registers a meter not yet in the registry
+const NEW_METER = 'new';
+
 interface MeterAdjustmentProps {
   customers: Customer[];
   onAdjustmentComplete?: () => void;
@@ -39,21 +46,53 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
   const [showForm, setShowForm] = useState(false);
   const [currentReading, setCurrentReading] = useState<{reading: number, date: string} | null>(null);
 
-  useEffect(() => {
-    loadAdjustments();
+  // Meter registry, for the meters removed and installed by a gauge replacement
+  const [meters, setMeters] = useState<Meter[]>([]);
+  const [newMeterId, setNewMeterId] = useState('');
+  const [newSerialNumber, setNewSerialNumber] = useState('');
+  const [newBrand, setNewBrand] = useState('');
+  const [newDigits, setNewDigits] = useState(String(DEFAULT_METER_DIGITS));
+
+  const loadMeters = useCallback(async () => {
+    try {
+      setMeters(await MeterAssetService.loadMeters());
+    } catch (error) {
+      console.warn('Error loading meters (non-critical):', error);
+    }
   }, []);
 
-  // Load current reading when customer is selected
-  useEffect(() => {
-    if (selectedCustomer) {
-      loadCurrentReading(selectedCustomer);
-    } else {
-      setCurrentReading(null);
-      setOldReading('');
+  const loadAdjustments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('meter_adjustments')
+        .select(`
+          *,
+          customers (
+            id,
+            name,
+            rt,
+            phone
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setAdjustments(data || []);
+    } catch (error) {
+      console.error('Error loading adjustments:', error);
     }
-  }, [selectedCustomer]);
+  }, []);
+
+  useEffect(() => {
+    loadAdjustments();
+    loadMeters();
+  }, [loadAdjustments, loadMeters]);
+
+  const currentMeter = selectedCustomer ? MeterAssetService.getCurrentMeter(meters, selectedCustomer) : null;
+  const getMeterSerial = (meterId?: string) => meters.find(meter => meter.id === meterId)?.serial_number;
 
-  const loadCurrentReading = async (customerId: string) => {
+  const loadCurrentReading = useCallback(async (customerId: string) => {
     try {
       // Get the latest reading for this customer
       const { data, error } = await supabase
@@ -78,30 +117,17 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
     } catch (error) {
       console.error('Error loading current reading:', error);
     }
-  };
-
-  const loadAdjustments = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('meter_adjustments')
-        .select(`
-          *,
-          customers (
-            id,
-            name,
-            rt,
-            phone
-          )
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
+  }, []);
 
-      setAdjustments(data || []);
-    } catch (error) {
-      console.error('Error loading adjustments:', error);
+  // Load current reading when customer is selected
+  useEffect(() => {
+    if (selectedCustomer) {
+      loadCurrentReading(selectedCustomer);
+    } else {
+      setCurrentReading(null);
+      setOldReading('');
     }
-  };
+  }, [selectedCustomer, loadCurrentReading]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -130,7 +156,24 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
       const user = userData ? JSON.parse(userData) : null;
       const createdBy = user?.email || 'admin';
 
-      // Insert adjustment record
+      // A gauge replacement names the installed meter, registering it first when it is new
+      let installedMeterId: string | null = null;
+      if (adjustmentType === 'gauge_replacement') {
+        if (!newMeterId) {
+          throw new Error('Pilih meter baru yang dipasang');
+        }
+        installedMeterId = newMeterId === NEW_METER
+          ? (await MeterAssetService.saveMeter(
+              { serial_number: newSerialNumber, brand: newBrand, digits: parseInt(newDigits, 10), status: 'active' },
+              meters,
+              createdBy
+            )).id
+          : newMeterId;
+      }
+
+      // Insert adjustment record; the meter transition of a gauge replacement is recorded by the database.
+      // The new gauge's start reading stays on the adjustment rather than in meter_readings, where it would
+      // count as the month's reading; billing and validation read it from the adjustment.
       const { error } = await supabase
         .from('meter_adjustments')
         .insert({
@@ -141,28 +184,13 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
           reason: reason.trim(),
           adjustment_date: adjustmentDate,
           created_by: createdBy,
-          notes: notes.trim() || null
+          notes: notes.trim() || null,
+          old_meter_id: installedMeterId ? currentMeter?.id || null : null,
+          new_meter_id: installedMeterId
         });
 
       if (error) throw error;
 
-      // If this is a gauge replacement, we might want to add a new meter reading
-      // with the new reading value to maintain continuity
-      if (adjustmentType === 'gauge_replacement' && newReadingNum > 0) {
-        const { error: readingError } = await supabase
-          .from('meter_readings')
-          .insert({
-            customer_id: selectedCustomer,
-            reading: newReadingNum,
-            date: adjustmentDate,
-            created_at: new Date().toISOString()
-          });
-
-        if (readingError) {
-          console.warn('Could not create meter reading for adjustment:', readingError);
-        }
-      }
-
       setMessage({
         type: 'success',
         text: 'Penyesuaian meter berhasil disimpan!'
@@ -175,10 +203,15 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
       setReason('');
       setNotes('');
       setAdjustmentDate(new Date().toISOString().split('T')[0]);
+      setNewMeterId('');
+      setNewSerialNumber('');
+      setNewBrand('');
+      setNewDigits(String(DEFAULT_METER_DIGITS));
       setShowForm(false);
 
-      // Reload adjustments
+      // Reload adjustments and the meters they moved
       loadAdjustments();
+      loadMeters();
       
       // Notify parent component
       if (onAdjustmentComplete) {
@@ -204,6 +237,7 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
       case 'gauge_replacement': return 'Penggantian Gauge';
       case 'manual_correction': return 'Koreksi Manual';
       case 'meter_reset': return 'Reset Meter';
+      case 'rollover': return 'Meter Berputar';
       default: return type;
     }
   };
@@ -213,6 +247,7 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
       case 'gauge_replacement': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
       case 'manual_correction': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
       case 'meter_reset': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+      case 'rollover': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
     }
   };
@@ -232,6 +267,7 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
         </div>
         
         <button
+          type="button"
           onClick={() => setShowForm(!showForm)}
           className="bg-gradient-to-r from-blue-500 to-cyan-500 text-white px-4 py-2 rounded-xl font-medium hover:from-blue-600 hover:to-cyan-600 transition-all duration-300 flex items-center"
         >
@@ -269,10 +305,11 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Customer Selection */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                <label htmlFor="adjustmentCustomer" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Pelanggan *
                 </label>
                 <select
+                  id="adjustmentCustomer"
                   value={selectedCustomer}
                   onChange={(e) => setSelectedCustomer(e.target.value)}
                   className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
@@ -289,10 +326,11 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
 
               {/* Adjustment Type */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                <label htmlFor="adjustmentType" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Jenis Penyesuaian *
                 </label>
                 <select
+                  id="adjustmentType"
                   value={adjustmentType}
                   onChange={(e) => setAdjustmentType(e.target.value as any)}
                   className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
@@ -316,12 +354,75 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
                 </div>
               )}
 
+              {/* Removed and installed meter of a gauge replacement */}
+              {adjustmentType === 'gauge_replacement' && (
+                <>
+                  <div>
+                    <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Meter Lama
+                    </span>
+                    <p className="px-4 py-3 rounded-xl bg-gray-50 dark:bg-gray-700 text-sm text-gray-700 dark:text-gray-300">
+                      {currentMeter ? MeterAssetService.getMeterLabel(currentMeter) : 'Belum terdaftar'}
+                    </p>
+                  </div>
+                  <div>
+                    <label htmlFor="adjustmentNewMeter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Meter Baru *
+                    </label>
+                    <select
+                      id="adjustmentNewMeter"
+                      value={newMeterId}
+                      onChange={(e) => setNewMeterId(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
+                      required
+                    >
+                      <option value="">Pilih meter</option>
+                      {MeterAssetService.getAvailableMeters(meters).map(meter => (
+                        <option key={meter.id} value={meter.id}>
+                          {MeterAssetService.getMeterLabel(meter)} - {meter.digits} digit
+                        </option>
+                      ))}
+                      <option value={NEW_METER}>+ Daftarkan meter baru</option>
+                    </select>
+                  </div>
+                  {newMeterId === NEW_METER && (
+                    <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <input
+                        type="text"
+                        value={newSerialNumber}
+                        onChange={(e) => setNewSerialNumber(e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
+                        placeholder="Nomor seri *"
+                        required
+                      />
+                      <input
+                        type="text"
+                        value={newBrand}
+                        onChange={(e) => setNewBrand(e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
+                        placeholder="Merek"
+                      />
+                      <select
+                        value={newDigits}
+                        onChange={(e) => setNewDigits(e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white"
+                      >
+                        {METER_DIGIT_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </>
+              )}
+
               {/* Old Reading */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                <label htmlFor="adjustmentOldReading" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Pembacaan Lama (m³) *
                 </label>
                 <input
+                  id="adjustmentOldReading"
                   type="number"
                   step="0.1"
                   min="0"
@@ -335,10 +436,11 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
 
               {/* New Reading */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                <label htmlFor="adjustmentNewReading" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Pembacaan Baru (m³) *
                 </label>
                 <input
+                  id="adjustmentNewReading"
                   type="number"
                   step="0.1"
                   min="0"
@@ -352,10 +454,11 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
 
               {/* Adjustment Date */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                <label htmlFor="adjustmentDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Tanggal Penyesuaian *
                 </label>
                 <input
+                  id="adjustmentDate"
                   type="date"
                   value={adjustmentDate}
                   onChange={(e) => setAdjustmentDate(e.target.value)}
@@ -367,10 +470,11 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
 
               {/* Reason */}
               <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                <label htmlFor="adjustmentReason" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Alasan Penyesuaian *
                 </label>
                 <textarea
+                  id="adjustmentReason"
                   value={reason}
                   onChange={(e) => setReason(e.target.value)}
                   rows={3}
@@ -382,10 +486,11 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
 
               {/* Notes */}
               <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                <label htmlFor="adjustmentNotes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Catatan Tambahan
                 </label>
                 <textarea
+                  id="adjustmentNotes"
                   value={notes}
                   onChange={(e) => setNotes(e.target.value)}
                   rows={2}
@@ -475,6 +580,11 @@ export default function MeterAdjustment({ customers, onAdjustmentComplete }: Met
                           <span className="mx-2 text-gray-400">→</span>
                           <span className="text-green-600 dark:text-green-400 font-medium">{adjustment.new_reading} m³</span>
                         </div>
+                        {getMeterSerial(adjustment.new_meter_id) && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            Meter: {getMeterSerial(adjustment.old_meter_id) || '-'} → {getMeterSerial(adjustment.new_meter_id)}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                         {formatDateID(adjustment.adjustment_date)}
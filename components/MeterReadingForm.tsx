@@ -6,17 +6,27 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { FiDroplet, FiSave, FiAlertCircle, FiCheckCircle, FiInfo, FiUser, FiCalendar, FiTrendingUp, FiDollarSign } from 'react-icons/fi';
+import { FiDroplet, FiSave, FiAlertCircle, FiCheckCircle, FiInfo, FiUser, FiCalendar, FiTrendingUp, FiDollarSign, FiCamera, FiTrash2 } from 'react-icons/fi';
 import { Customer } from '@/types/types';
 import { supabase } from '@/lib/supabase';
 import MeterDataService from '@/lib/meterDataService';
 import ValidationService from '@/lib/validationService';
+import { ANOMALY_SEVERITY_LABELS, ANOMALY_TYPE_LABELS, AnomalySeverity, UsageAnomaly } from '@/lib/anomalyService';
+import { MeterPhotoService } from '@/lib/meterPhotoService';
+import { MeterRegisterService } from '@/lib/meterRegisterService';
 import { offlineStorage } from '@/lib/offlineStorage';
+import { ServiceWorkerManager } from '@/lib/serviceWorkerManager';
 import { formatDateID } from '@/utils/dateFormat';
 
+const ANOMALY_SEVERITY_STYLES: Record<AnomalySeverity, string> = {
+  critical: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  info: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300'
+};
+
 interface MeterReadingFormProps {
   customers: Customer[];
-  onReadingSubmitted?: () => void;
+  onReadingSubmitted?: (customerId: string) => void;
   onError?: (error: string) => void;
   initialCustomerId?: string;
   isOnline?: boolean;
@@ -26,12 +36,15 @@ interface FormData {
   customerId: string;
   reading: string;
   date: string;
+  rollover: boolean; // Lower reading confirmed as the meter rolling over to 0
+  estimated: boolean; // The meter could not be read, the reading is the proposed estimate
 }
 
 interface ValidationState {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  anomalies: UsageAnomaly[]; // Usage anomalies, shown with their severity
   isValidating: boolean;
 }
 
@@ -45,13 +58,16 @@ export default function MeterReadingForm({
   const [formData, setFormData] = useState<FormData>({
     customerId: initialCustomerId,
     reading: '',
-    date: new Date().toISOString().split('T')[0]
+    date: new Date().toISOString().split('T')[0],
+    rollover: false,
+    estimated: false
   });
 
   const [validation, setValidation] = useState<ValidationState>({
     isValid: false,
     errors: [],
     warnings: [],
+    anomalies: [],
     isValidating: false
   });
 
@@ -60,9 +76,36 @@ export default function MeterReadingForm({
   const [estimatedBill, setEstimatedBill] = useState<number | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Compressed photo of the meter face, kept as evidence with the reading
+  const [photo, setPhoto] = useState<Blob | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [photoError, setPhotoError] = useState('');
+  const [isProcessingPhoto, setIsProcessingPhoto] = useState(false);
+  const [estimateError, setEstimateError] = useState('');
+
   // Get selected customer data
   const selectedCustomer = customers.find(c => c.id === formData.customerId);
 
+  // A reading lower than the previous one may be the register rolling over past its maximum
+  const readingValue = parseFloat(formData.reading);
+  const isLowerReading = !!previousReading && !isNaN(readingValue) && readingValue < previousReading.reading;
+
+  // Release the preview image when it is replaced or the form unmounts
+  useEffect(() => {
+    if (!photo) {
+      setPhotoPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(photo);
+    setPhotoPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  // Follow the customer suggested by the page, such as the next house on the route
+  useEffect(() => {
+    setFormData(prev => ({ ...prev, customerId: initialCustomerId }));
+  }, [initialCustomerId]);
+
   // Validate form whenever data changes
   useEffect(() => {
     if (formData.customerId && formData.reading && formData.date) {
@@ -72,6 +115,7 @@ export default function MeterReadingForm({
         isValid: false,
         errors: [],
         warnings: [],
+        anomalies: [],
         isValidating: false
       });
       setPreviousReading(null);
@@ -92,6 +136,7 @@ export default function MeterReadingForm({
           isValid: false,
           errors: ['Pembacaan meter harus berupa angka'],
           warnings: [],
+          anomalies: [],
           isValidating: false
         });
         return;
@@ -115,7 +160,8 @@ export default function MeterReadingForm({
             id: data[0].id,
             customer_id: data[0].customer_id,
             reading: data[0].reading,
-            date: data[0].date
+            date: data[0].date,
+            estimated: data[0].estimated || undefined
           };
         }
       } catch (serverError) {
@@ -126,7 +172,8 @@ export default function MeterReadingForm({
             id: offlineReading.id,
             customer_id: offlineReading.customer_id,
             reading: offlineReading.reading,
-            date: offlineReading.date
+            date: offlineReading.date,
+            estimated: offlineReading.estimated
           };
         }
       }
@@ -137,21 +184,30 @@ export default function MeterReadingForm({
       const validationResults = await ValidationService.validateMeterReading(readingValue, {
         customerId: formData.customerId,
         readingDate: formData.date,
-        previousReading: prevReading || undefined
+        previousReading: prevReading || undefined,
+        meterDigits: selectedCustomer?.meter_digits,
+        rollover: formData.rollover,
+        estimated: formData.estimated
       });
 
       const summary = ValidationService.getValidationSummary(validationResults);
+      const anomalies = summary.warnings.filter(r => r.anomaly).map(r => r.anomaly!);
       
       setValidation({
         isValid: summary.isValid,
         errors: ValidationService.formatValidationMessages(summary.errors),
-        warnings: ValidationService.formatValidationMessages(summary.warnings),
+        warnings: ValidationService.formatValidationMessages(summary.warnings.filter(r => !r.anomaly)),
+        anomalies,
         isValidating: false
       });
 
       // Calculate predicted usage and bill if validation passes
       if (summary.isValid && prevReading) {
-        const usage = Math.max(0, readingValue - prevReading.reading);
+        const usage = MeterRegisterService.calculateUsage(
+          prevReading,
+          { id: '', customer_id: formData.customerId, reading: readingValue, date: formData.date, rollover: formData.rollover },
+          selectedCustomer?.meter_digits
+        );
         setPredictedUsage(usage);
 
         // Calculate estimated bill
@@ -165,6 +221,7 @@ export default function MeterReadingForm({
         isValid: false,
         errors: ['Terjadi kesalahan saat validasi'],
         warnings: [],
+        anomalies: [],
         isValidating: false
       });
     }
@@ -180,13 +237,15 @@ export default function MeterReadingForm({
     setIsSubmitting(true);
 
     try {
-      const readingValue = parseFloat(formData.reading);
-      
+      const isRollover = formData.rollover && isLowerReading;
+
       // Process the complete meter reading pipeline
       const result = await MeterDataService.processMeterReading(
         formData.customerId,
         readingValue,
-        formData.date
+        formData.date,
+        isRollover,
+        formData.estimated
       );
 
       if (!result.validation.isValid) {
@@ -194,6 +253,7 @@ export default function MeterReadingForm({
           isValid: false,
           errors: result.validation.errors,
           warnings: result.validation.warnings,
+          anomalies: [],
           isValidating: false
         });
         setIsSubmitting(false);
@@ -201,13 +261,20 @@ export default function MeterReadingForm({
       }
 
       if (isOnline) {
-        // Online mode: Insert directly to server
+        // Online mode: Upload the photo, then insert directly to server
+        const photoPath = photo
+          ? await MeterPhotoService.uploadPhoto(formData.customerId, `${formData.date}_${Date.now()}`, photo)
+          : undefined;
+
         const { error } = await supabase
           .from('meter_readings')
           .insert([{
             customer_id: formData.customerId,
             reading: readingValue,
-            date: formData.date
+            date: formData.date,
+            photo_path: photoPath,
+            rollover: isRollover || undefined,
+            estimated: formData.estimated || undefined
           }]);
 
         if (error) {
@@ -219,21 +286,30 @@ export default function MeterReadingForm({
         offlineStorage.addReading({
           customer_id: formData.customerId,
           reading: readingValue,
-          date: formData.date
-        }, customerData?.name, customerData?.rt);
+          date: formData.date,
+          rollover: isRollover || undefined,
+          estimated: formData.estimated || undefined
+        }, customerData?.name, customerData?.rt, false, photo ?? undefined);
+
+        // Let the service worker send it once the phone has signal, even if the app is closed
+        ServiceWorkerManager.requestSync();
       }
       
-      // Reset form but keep the selected date
+      // Reset form but keep the selected date, going back to the suggested customer
+      const submittedCustomerId = formData.customerId;
       const selectedDate = formData.date;
       setFormData({
-        customerId: '',
+        customerId: initialCustomerId,
         reading: '',
-        date: selectedDate
+        date: selectedDate,
+        rollover: false,
+        estimated: false
       });
+      setPhoto(null);
       
       // Notify parent component
       if (onReadingSubmitted) {
-        onReadingSubmitted();
+        onReadingSubmitted(submittedCustomerId);
       }
 
     } catch (error) {
@@ -247,10 +323,47 @@ export default function MeterReadingForm({
     }
   };
 
-  const handleInputChange = (field: keyof FormData, value: string) => {
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setIsProcessingPhoto(true);
+    setPhotoError('');
+    try {
+      setPhoto(await MeterPhotoService.compressPhoto(file));
+    } catch (error) {
+      console.error('Error compressing photo:', error);
+      setPhotoError('Foto tidak dapat diproses, silakan ambil ulang');
+    } finally {
+      setIsProcessingPhoto(false);
+    }
+  };
+
+  // Propose a reading from the customer's history when the meter cannot be read
+  const handleEstimatedChange = (estimated: boolean) => {
+    setEstimateError('');
+    if (!estimated) {
+      setFormData(prev => ({ ...prev, reading: '', rollover: false, estimated: false }));
+      return;
+    }
+
+    const estimate = MeterDataService.estimateReading(formData.customerId, formData.date);
+    if (!estimate) {
+      setEstimateError('Belum ada pembacaan sebelumnya untuk membuat estimasi');
+      return;
+    }
+    setFormData(prev => ({ ...prev, reading: String(estimate.reading), rollover: estimate.rollover, estimated: true }));
+  };
+
+  const handleInputChange = (field: 'customerId' | 'reading' | 'date', value: string) => {
     setFormData(prev => ({
       ...prev,
-      [field]: value
+      [field]: value,
+      // The estimate depends on the customer and date, so changing them asks for a new one
+      ...(field !== 'reading' && prev.estimated ? { reading: '', rollover: false, estimated: false } : {})
     }));
   };
 
@@ -337,10 +450,54 @@ export default function MeterReadingForm({
             placeholder="Masukkan pembacaan meter"
             min="0"
             step="1"
+            readOnly={formData.estimated}
             required
           />
         </div>
 
+        {/* Estimated reading when the meter cannot be read */}
+        {formData.customerId && (
+          <div className="space-y-2">
+            <label className="flex items-start gap-3 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.estimated}
+                onChange={(e) => handleEstimatedChange(e.target.checked)}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-amber-600 focus:ring-amber-500"
+              />
+              <span className="text-sm text-amber-900 dark:text-amber-100">
+                <span className="font-semibold">Meter tidak dapat dibaca (estimasi)</span>
+                <span className="block text-amber-700 dark:text-amber-300">
+                  Pagar terkunci atau meter terendam: angka diisi dari rata-rata pemakaian bulan-bulan terakhir
+                  dan tagihan ditandai estimasi. Pembacaan aktual berikutnya akan mengoreksi selisihnya.
+                </span>
+              </span>
+            </label>
+            {estimateError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{estimateError}</p>
+            )}
+          </div>
+        )}
+
+        {/* Rollover confirmation for a reading below the previous one */}
+        {isLowerReading && !formData.estimated && !previousReading.estimated && (
+          <label className="flex items-start gap-3 p-4 rounded-xl bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.rollover}
+              onChange={(e) => setFormData(prev => ({ ...prev, rollover: e.target.checked }))}
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+            />
+            <span className="text-sm text-purple-900 dark:text-purple-100">
+              <span className="font-semibold">Meter berputar kembali ke 0</span>
+              <span className="block text-purple-700 dark:text-purple-300">
+                Angka meter melewati {MeterRegisterService.getMaxReading(selectedCustomer?.meter_digits).toLocaleString('id-ID')}.
+                Pemakaian dihitung {MeterRegisterService.getRolloverUsage(previousReading.reading, readingValue, selectedCustomer?.meter_digits).toLocaleString('id-ID')} m³.
+              </span>
+            </span>
+          </label>
+        )}
+
         {/* Date Input */}
         <div className="space-y-2">
           <label className="flex items-center text-sm font-semibold text-gray-700 dark:text-gray-300">
@@ -356,6 +513,45 @@ export default function MeterReadingForm({
           />
         </div>
 
+        {/* Meter Photo */}
+        <div className="space-y-2">
+          <div className="flex items-center text-sm font-semibold text-gray-700 dark:text-gray-300">
+            <FiCamera className="mr-2 text-orange-600" />
+            Foto Meter (opsional)
+          </div>
+          {photoPreview ? (
+            <div className="flex items-center gap-4">
+              <img
+                src={photoPreview}
+                alt="Foto meter"
+                className="w-24 h-24 object-cover rounded-xl border border-gray-200 dark:border-gray-700"
+              />
+              <button type="button" onClick={() => setPhoto(null)} className="btn-secondary gap-2">
+                <FiTrash2 />
+                <span>Hapus Foto</span>
+              </button>
+            </div>
+          ) : (
+            <label className={`flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-600 dark:text-gray-400 ${
+              isProcessingPhoto ? 'opacity-75 cursor-wait' : 'cursor-pointer hover:border-blue-500'
+            }`}>
+              <FiCamera />
+              <span>{isProcessingPhoto ? 'Memproses foto...' : 'Ambil foto angka meter'}</span>
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={handlePhotoChange}
+                disabled={isProcessingPhoto}
+                className="hidden"
+              />
+            </label>
+          )}
+          {photoError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{photoError}</p>
+          )}
+        </div>
+
         {/* Validation Messages */}
         {validation.isValidating && (
           <div className="flex items-center gap-3 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl animate-pulse">
@@ -400,6 +596,27 @@ export default function MeterReadingForm({
           </div>
         )}
 
+        {validation.anomalies.length > 0 && (
+          <div className="alert-warning animate-scale-in">
+            <div className="flex items-center gap-2 mb-3">
+              <FiAlertCircle className="text-yellow-600 dark:text-yellow-400 flex-shrink-0" />
+              <span className="font-semibold">Anomali Pemakaian</span>
+            </div>
+            <ul className="space-y-2">
+              {validation.anomalies.map(anomaly => (
+                <li key={anomaly.type} className="flex items-start gap-2 text-sm">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold flex-shrink-0 ${ANOMALY_SEVERITY_STYLES[anomaly.severity]}`}>
+                    {ANOMALY_SEVERITY_LABELS[anomaly.severity]}
+                  </span>
+                  <span>
+                    <span className="font-medium">{ANOMALY_TYPE_LABELS[anomaly.type]}:</span> {anomaly.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Usage and Bill Preview */}
         {validation.isValid && predictedUsage !== null && estimatedBill !== null && (
           <div className="card-compact bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 animate-scale-in">
@@ -443,7 +660,7 @@ export default function MeterReadingForm({
         {/* Submit Button */}
         <button
           type="submit"
-          disabled={!validation.isValid || isSubmitting}
+          disabled={!validation.isValid || isSubmitting || isProcessingPhoto}
           className={`w-full btn-primary text-base font-semibold py-4 ${
             isSubmitting ? 'opacity-75 cursor-not-allowed' : ''
           }`}
@@ -0,0 +1,350 @@
+/**
+ * Meter Registry Component
+ * Lists the physical water meters with their serial number, status and current connection,
+ * lets an admin register or edit a meter, install it on a connection and see where it has been
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FiHash, FiPlus, FiEdit2, FiClock } from 'react-icons/fi';
+import { Customer, Meter, MeterAssignment, MeterStatus } from '@/types/types';
+import { MeterAssetService, MeterInput, METER_STATUS_LABELS } from '@/lib/meterAssetService';
+import { DEFAULT_METER_DIGITS, METER_DIGIT_OPTIONS } from '@/lib/meterRegisterService';
+import { formatDateID } from '@/utils/dateFormat';
+
+interface MeterRegistryProps {
+  customers: Customer[];
+  savedBy: string;
+}
+
+const STATUS_STYLES: Record<MeterStatus, string> = {
+  active: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  removed: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  broken: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+};
+
+const EMPTY_FORM: MeterInput = {
+  serial_number: '',
+  brand: '',
+  digits: DEFAULT_METER_DIGITS,
+  status: 'active',
+  notes: ''
+};
+
+export default function MeterRegistry({ customers, savedBy }: MeterRegistryProps) {
+  const [meters, setMeters] = useState<Meter[]>([]);
+  const [assignments, setAssignments] = useState<MeterAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<MeterInput>(EMPTY_FORM);
+  const [installingId, setInstallingId] = useState<string | null>(null);
+  const [installCustomer, setInstallCustomer] = useState('');
+  const [installDate, setInstallDate] = useState(new Date().toISOString().split('T')[0]);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const loadRegistry = async () => {
+    const [meterList, assignmentList] = await Promise.all([
+      MeterAssetService.loadMeters(),
+      MeterAssetService.loadAssignments()
+    ]);
+    setMeters(meterList);
+    setAssignments(assignmentList);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([MeterAssetService.loadMeters(), MeterAssetService.loadAssignments()])
+      .then(([meterList, assignmentList]) => {
+        if (cancelled) return;
+        setMeters(meterList);
+        setAssignments(assignmentList);
+      })
+      .catch(error => {
+        console.error('Error loading meter registry:', error);
+        if (!cancelled) setError('Gagal memuat daftar meter');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const getCustomerName = (customerId?: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    return customer ? `${customer.name}${customer.rt ? ` (${customer.rt})` : ''}` : '-';
+  };
+
+  const openForm = (meter?: Meter) => {
+    setEditingId(meter?.id || null);
+    setForm(meter
+      ? { serial_number: meter.serial_number, brand: meter.brand || '', digits: meter.digits, status: meter.status, notes: meter.notes || '' }
+      : EMPTY_FORM);
+    setInstallingId(null);
+    setShowForm(true);
+    setError('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      await MeterAssetService.saveMeter(form, meters, savedBy, editingId || undefined);
+      await loadRegistry();
+      setShowForm(false);
+      setEditingId(null);
+    } catch (err: any) {
+      console.error('Error saving meter:', err);
+      setError(err.message || 'Gagal menyimpan meter');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleInstall = async (meterId: string) => {
+    if (!installCustomer) {
+      setError('Pilih pelanggan tempat meter dipasang');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      await MeterAssetService.installMeter(meterId, installCustomer, installDate, savedBy);
+      await loadRegistry();
+      setInstallingId(null);
+      setInstallCustomer('');
+    } catch (err: any) {
+      console.error('Error installing meter:', err);
+      setError(err.message || 'Gagal memasang meter');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white text-sm';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white flex items-center">
+            <FiHash className="mr-2 text-blue-500" />
+            Daftar Meter Air
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {meters.filter(meter => meter.customer_id).length} terpasang dari {meters.length} meter terdaftar
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => openForm()}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-medium hover:bg-blue-700"
+        >
+          <FiPlus className="mr-1" />
+          Daftarkan Meter
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-xl grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="meterSerialNumber" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Nomor Seri *</label>
+            <input
+              id="meterSerialNumber"
+              type="text"
+              value={form.serial_number}
+              onChange={(e) => setForm({ ...form, serial_number: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="meterBrand" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Merek</label>
+            <input
+              id="meterBrand"
+              type="text"
+              value={form.brand}
+              onChange={(e) => setForm({ ...form, brand: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="meterDigits" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Jumlah Digit</label>
+            <select
+              id="meterDigits"
+              value={String(form.digits)}
+              onChange={(e) => setForm({ ...form, digits: parseInt(e.target.value, 10) })}
+              className={inputClass}
+            >
+              {METER_DIGIT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="meterStatus" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Status</label>
+            <select
+              id="meterStatus"
+              value={form.status}
+              onChange={(e) => setForm({ ...form, status: e.target.value as MeterStatus })}
+              className={inputClass}
+            >
+              {(Object.keys(METER_STATUS_LABELS) as MeterStatus[]).map(status => (
+                <option key={status} value={status}>{METER_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="meterNotes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Catatan</label>
+            <input
+              id="meterNotes"
+              type="text"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="md:col-span-3 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-xl text-sm font-medium hover:bg-gray-300 dark:hover:bg-gray-600"
+            >
+              Batal
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Menyimpan...' : 'Simpan Meter'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">Memuat daftar meter...</p>
+      )}
+
+      {!loading && meters.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">Belum ada meter yang terdaftar</p>
+      )}
+
+      <div className="space-y-3">
+        {meters.map(meter => (
+          <div key={meter.id} className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl space-y-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p className="font-semibold text-gray-900 dark:text-white">
+                  {MeterAssetService.getMeterLabel(meter)}
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[meter.status]}`}>
+                    {METER_STATUS_LABELS[meter.status]}
+                  </span>
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {meter.digits} digit · Pelanggan: {getCustomerName(meter.customer_id)}
+                  {meter.install_date ? ` · Dipasang ${formatDateID(meter.install_date)}` : ''}
+                </p>
+                {meter.notes && (
+                  <p className="text-sm italic text-gray-600 dark:text-gray-400">{meter.notes}</p>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() => setHistoryId(historyId === meter.id ? null : meter.id)}
+                  className="flex items-center px-3 py-1.5 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-xl text-xs font-medium hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  <FiClock className="mr-1" />
+                  Riwayat
+                </button>
+                <button
+                  type="button"
+                  onClick={() => openForm(meter)}
+                  className="flex items-center px-3 py-1.5 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-xl text-xs font-medium hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  <FiEdit2 className="mr-1" />
+                  Ubah
+                </button>
+                {!meter.customer_id && meter.status !== 'broken' && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setInstallingId(installingId === meter.id ? null : meter.id);
+                      setShowForm(false);
+                    }}
+                    className="flex items-center px-3 py-1.5 bg-blue-600 text-white rounded-xl text-xs font-medium hover:bg-blue-700"
+                  >
+                    Pasang
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {installingId === meter.id && (
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={installCustomer}
+                  onChange={(e) => setInstallCustomer(e.target.value)}
+                  className={`${inputClass} flex-1 min-w-[12rem]`}
+                  aria-label="Pelanggan"
+                >
+                  <option value="">Pilih pelanggan</option>
+                  {customers.map(customer => (
+                    <option key={customer.id} value={customer.id}>
+                      {customer.name} - {customer.rt}
+                      {MeterAssetService.getCurrentMeter(meters, customer.id) ? ' (ganti meter)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={installDate}
+                  onChange={(e) => setInstallDate(e.target.value)}
+                  className={`${inputClass} max-w-[12rem]`}
+                  aria-label="Tanggal pasang"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleInstall(meter.id)}
+                  disabled={saving}
+                  className="px-3 py-2 bg-blue-600 text-white rounded-xl text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Menyimpan...' : 'Simpan Pemasangan'}
+                </button>
+              </div>
+            )}
+
+            {historyId === meter.id && (
+              <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                {assignments.filter(a => a.meter_id === meter.id).length === 0 && (
+                  <li className="text-gray-500 dark:text-gray-400">Belum pernah dipasang</li>
+                )}
+                {assignments.filter(a => a.meter_id === meter.id).map(assignment => (
+                  <li key={assignment.id}>
+                    {getCustomerName(assignment.customer_id)}: {formatDateID(assignment.installed_on)} - {assignment.removed_on ? formatDateID(assignment.removed_on) : 'sekarang'}
+                    {assignment.adjustment_id ? ' (penggantian meter)' : ''}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -16,7 +16,7 @@ import { useRouter } from 'next/navigation';
 import { 
   FiUser, FiDroplet, FiBarChart2, FiLogOut, FiMenu, FiX, 
   FiChevronDown, FiChevronUp, FiDollarSign, FiSettings, FiUsers, 
-  FiUpload, FiClock, FiShield 
+  FiUpload, FiClock, FiShield, FiCreditCard, FiAlertTriangle, FiHash 
 } from 'react-icons/fi';
 import { User } from '@/types/types';
 import ThemeToggle from './ThemeToggle';
@@ -49,6 +49,12 @@ const NAVIGATION_CONFIG = {
       icon: FiBarChart2,
       key: 'reports'
     },
+    { 
+      name: 'Pembayaran', 
+      href: '/payments', 
+      icon: FiCreditCard,
+      key: 'payments'
+    },
     { 
       name: 'Laporan', 
       href: '/financial', 
@@ -80,6 +86,24 @@ const NAVIGATION_CONFIG = {
         icon: FiSettings,
         key: 'meter-adjustments'
       },
+      { 
+        name: 'Meter Registry', 
+        href: '/admin/meters', 
+        icon: FiHash,
+        key: 'meters'
+      },
+      { 
+        name: 'Tariffs', 
+        href: '/admin/tariffs', 
+        icon: FiDollarSign,
+        key: 'tariffs'
+      },
+      { 
+        name: 'Anomaly Review', 
+        href: '/admin/anomalies', 
+        icon: FiAlertTriangle,
+        key: 'anomalies'
+      },
       { 
         name: 'Data Import', 
         href: '/admin/import', 
@@ -89,7 +113,7 @@ const NAVIGATION_CONFIG = {
     ]
   },
   
-  // RT PIC restricted navigation - only meter reading and meter history
+  // RT PIC restricted navigation - meter reading, meter history and payment collection
   rtPic: [
     { 
       name: 'Baca Meter', 
@@ -102,6 +126,12 @@ const NAVIGATION_CONFIG = {
       href: '/meter-history', 
       icon: FiClock,
       key: 'meter-history'
+    },
+    { 
+      name: 'Pembayaran', 
+      href: '/payments', 
+      icon: FiCreditCard,
+      key: 'payments'
     }
   ],
 
@@ -281,7 +311,7 @@ export default function Navigation({ user, currentPage }: NavigationProps) {
             
             {/* Offline Indicator - Desktop Only */}
             <div className="hidden sm:block">
-              <OptimizedOfflineIndicator />
+              <OptimizedOfflineIndicator isAdmin={isAdmin} />
             </div>
             
             {/* User Menu - Desktop Only */}
@@ -424,7 +454,7 @@ export default function Navigation({ user, currentPage }: NavigationProps) {
                   <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Theme</span>
                   <ThemeToggle />
                 </div>
-                <OptimizedOfflineIndicator />
+                <OptimizedOfflineIndicator isAdmin={isAdmin} />
               </div>
               
               {/* Logout Button */}
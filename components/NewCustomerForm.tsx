@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { FiSave, FiX } from 'react-icons/fi';
+import { Customer, TariffClass } from '@/types/types';
+import { CustomerService } from '@/lib/customerService';
+import { TARIFF_CLASSES } from '@/lib/tariffService';
+import InputField from '@/components/InputField';
+import SelectField from '@/components/SelectField';
+import Button from '@/components/Button';
+
+interface NewCustomerFormProps {
+  assignedRt?: string; // RT PICs can only register households in their own RT
+  onCreated: (customer: Customer) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Register a new household in the field. Works without a connection: the customer is
+ * kept on this device, can be read right away and is synced when the connection returns.
+ */
+export default function NewCustomerForm({ assignedRt, onCreated, onCancel }: NewCustomerFormProps) {
+  const [form, setForm] = useState({ name: '', rt: assignedRt || '', phone: '', tariff_class: 'household' as TariffClass });
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim() || !form.rt.trim()) {
+      setError('Nama dan RT harus diisi');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const customer = await CustomerService.saveCustomer({
+        name: form.name.trim(),
+        rt: form.rt.trim(),
+        phone: form.phone.trim() || undefined,
+        tariff_class: form.tariff_class
+      });
+      onCreated(customer);
+    } catch (err: any) {
+      setError(err.message || 'Gagal menyimpan pelanggan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="card space-y-4">
+      <h2 className="text-lg font-bold text-gray-900 dark:text-white">Pelanggan Baru</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <InputField
+          id="new-customer-name"
+          label="Nama"
+          value={form.name}
+          onChange={e => setForm({ ...form, name: e.target.value })}
+          required
+        />
+        <InputField
+          id="new-customer-rt"
+          label="RT"
+          value={form.rt}
+          onChange={e => setForm({ ...form, rt: e.target.value })}
+          placeholder="RT 01"
+          disabled={!!assignedRt}
+          required
+        />
+        <InputField
+          id="new-customer-phone"
+          label="Telepon"
+          type="tel"
+          value={form.phone}
+          onChange={e => setForm({ ...form, phone: e.target.value })}
+        />
+        <SelectField
+          id="new-customer-tariff-class"
+          label="Golongan Tarif"
+          value={form.tariff_class}
+          onChange={e => setForm({ ...form, tariff_class: e.target.value as TariffClass })}
+          options={TARIFF_CLASSES}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={onCancel} icon={<FiX className="w-4 h-4" />}>
+          Batal
+        </Button>
+        <Button type="submit" loading={saving} icon={<FiSave className="w-4 h-4" />}>
+          Simpan
+        </Button>
+      </div>
+    </form>
+  );
+}
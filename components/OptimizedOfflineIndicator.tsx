@@ -1,27 +1,39 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { FiWifi, FiWifiOff, FiRefreshCw, FiCheck } from 'react-icons/fi';
+import { FiWifi, FiWifiOff, FiRefreshCw, FiCheck, FiAlertTriangle, FiTrash2, FiEdit2, FiX, FiGitMerge } from 'react-icons/fi';
 import { optimizedSyncManager } from '@/lib/optimizedSyncManager';
-import { SyncCleanup } from '@/lib/syncCleanup';
+import { DeadLetterItem, OfflineReading, SyncQueueItem } from '@/lib/offlineStorage';
+import SyncConflictResolver from './SyncConflictResolver';
 
-export default function OptimizedOfflineIndicator() {
+interface OptimizedOfflineIndicatorProps {
+  isAdmin?: boolean; // Only admins may edit, retry or discard failed changes
+}
+
+export default function OptimizedOfflineIndicator({ isAdmin = false }: OptimizedOfflineIndicatorProps) {
   const [syncStatus, setSyncStatus] = useState({
     isOnline: navigator.onLine,
-    pendingReadings: 0,
+    pendingChanges: 0,
+    failedChanges: 0,
+    conflictedChanges: 0,
     canSync: false,
     syncInProgress: false
   });
   const [showSyncSuccess, setShowSyncSuccess] = useState(false);
+  const [showFailedPanel, setShowFailedPanel] = useState(false);
+  const [failedItems, setFailedItems] = useState<DeadLetterItem[]>([]);
+  const [showConflictPanel, setShowConflictPanel] = useState(false);
+  const [conflicts, setConflicts] = useState<SyncQueueItem[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState({ reading: '', date: '' });
 
   useEffect(() => {
-    // Clean up stale sync items on component mount
-    SyncCleanup.cleanupStaleItems();
-
     // Update status every 2 seconds (less frequent to reduce overhead)
     const interval = setInterval(() => {
       const status = optimizedSyncManager.getSyncStatus();
       setSyncStatus(status);
+      setFailedItems(optimizedSyncManager.getFailedItems());
+      setConflicts(optimizedSyncManager.getConflicts());
     }, 2000);
 
     // Start auto-sync
@@ -32,12 +44,54 @@ export default function OptimizedOfflineIndicator() {
 
   // Show success feedback when sync completes
   useEffect(() => {
-    if (syncStatus.isOnline && !syncStatus.syncInProgress && syncStatus.pendingReadings === 0) {
+    if (syncStatus.isOnline && !syncStatus.syncInProgress && syncStatus.pendingChanges === 0 && syncStatus.failedChanges === 0) {
       setShowSyncSuccess(true);
       const timer = setTimeout(() => setShowSyncSuccess(false), 2000);
       return () => clearTimeout(timer);
     }
-  }, [syncStatus.isOnline, syncStatus.syncInProgress, syncStatus.pendingReadings]);
+  }, [syncStatus.isOnline, syncStatus.syncInProgress, syncStatus.pendingChanges, syncStatus.failedChanges]);
+
+  const refreshFailedItems = () => {
+    setFailedItems(optimizedSyncManager.getFailedItems());
+    setSyncStatus(optimizedSyncManager.getSyncStatus());
+  };
+
+  const refreshConflicts = () => {
+    setConflicts(optimizedSyncManager.getConflicts());
+    setSyncStatus(optimizedSyncManager.getSyncStatus());
+  };
+
+  const startEditing = (item: DeadLetterItem) => {
+    setEditingId(item.id);
+    setEditForm({
+      reading: String(item.data.reading ?? ''),
+      date: (item.data.date || '').substring(0, 10)
+    });
+  };
+
+  const handleRetry = async (item: DeadLetterItem) => {
+    let data: OfflineReading | undefined;
+    if (editingId === item.id) {
+      const reading = Number(editForm.reading);
+      if (!editForm.reading || Number.isNaN(reading) || reading < 0 || !editForm.date) {
+        window.alert('Angka meter dan tanggal harus diisi dengan benar');
+        return;
+      }
+      data = { ...item.data, reading, date: editForm.date };
+    }
+
+    setEditingId(null);
+    await optimizedSyncManager.retryFailedItem(item.id, data);
+    refreshFailedItems();
+  };
+
+  const handleDiscard = (item: DeadLetterItem) => {
+    if (!window.confirm('Buang perubahan ini? Data yang dibuang tidak akan dikirim ke server.')) {
+      return;
+    }
+    optimizedSyncManager.discardFailedItem(item.id);
+    refreshFailedItems();
+  };
 
   // Only show indicator when there's actually something to show
   const shouldShowIndicator = () => {
@@ -47,8 +101,14 @@ export default function OptimizedOfflineIndicator() {
     // Show if actively syncing
     if (syncStatus.syncInProgress) return true;
     
-    // Show if there are pending readings
-    if (syncStatus.pendingReadings > 0) return true;
+    // Show if there are pending changes
+    if (syncStatus.pendingChanges > 0) return true;
+
+    // Show if changes failed to sync
+    if (syncStatus.failedChanges > 0) return true;
+
+    // Show if changes conflict with the server
+    if (syncStatus.conflictedChanges > 0) return true;
     
     // Otherwise, don't show
     return false;
@@ -96,6 +156,139 @@ export default function OptimizedOfflineIndicator() {
         </div>
       )}
 
+      {/* Conflicts - Changes paused because the server holds a different version */}
+      {syncStatus.conflictedChanges > 0 && (
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setShowConflictPanel(!showConflictPanel)}
+            className="flex items-center space-x-1.5 px-2.5 py-1.5 rounded-lg bg-orange-500 bg-opacity-10 text-orange-600 dark:text-orange-400 hover:bg-opacity-20 transition-colors"
+            title="Perubahan yang berbeda dengan data server"
+          >
+            <FiGitMerge className="h-4 w-4" />
+            <span className="text-xs font-medium">{syncStatus.conflictedChanges} konflik</span>
+          </button>
+
+          {showConflictPanel && (
+            <SyncConflictResolver
+              conflicts={conflicts}
+              onResolved={refreshConflicts}
+              onClose={() => setShowConflictPanel(false)}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Failed Changes - Dead-letter list of changes the server kept rejecting */}
+      {syncStatus.failedChanges > 0 && (
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setShowFailedPanel(!showFailedPanel)}
+            className="flex items-center space-x-1.5 px-2.5 py-1.5 rounded-lg bg-amber-500 bg-opacity-10 text-amber-600 dark:text-amber-400 hover:bg-opacity-20 transition-colors"
+            title="Perubahan yang gagal disinkronkan"
+          >
+            <FiAlertTriangle className="h-4 w-4" />
+            <span className="text-xs font-medium">{syncStatus.failedChanges} gagal</span>
+          </button>
+
+          {showFailedPanel && (
+            <div className="absolute right-0 mt-2 w-96 max-w-[90vw] max-h-[70vh] overflow-y-auto rounded-xl shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 z-50">
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Gagal Sinkronisasi</h3>
+                <button
+                  type="button"
+                  onClick={() => setShowFailedPanel(false)}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                >
+                  <FiX className="h-4 w-4" />
+                </button>
+              </div>
+
+              {!isAdmin && (
+                <p className="px-4 pt-3 text-xs text-gray-500 dark:text-gray-400">
+                  Hubungi admin untuk memperbaiki atau mengirim ulang data ini.
+                </p>
+              )}
+
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {failedItems.map(item => {
+                  const description = optimizedSyncManager.describeItem(item);
+
+                  return (
+                    <li key={item.id} className="px-4 py-3 space-y-2">
+                      <div className="text-sm font-medium text-gray-900 dark:text-white">{description.title}</div>
+
+                      {editingId === item.id ? (
+                        <div className="flex space-x-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={editForm.reading}
+                            onChange={e => setEditForm({ ...editForm, reading: e.target.value })}
+                            className="w-24 px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                          />
+                          <input
+                            type="date"
+                            value={editForm.date}
+                            onChange={e => setEditForm({ ...editForm, date: e.target.value })}
+                            className="flex-1 px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                          />
+                        </div>
+                      ) : (
+                        <div className="text-xs text-gray-600 dark:text-gray-300">{description.detail}</div>
+                      )}
+
+                      <div className="text-xs text-red-600 dark:text-red-400 break-words">{item.last_error}</div>
+                      <div className="text-xs text-gray-400">
+                        {item.attempts} percobaan · gagal sejak {new Date(item.dead_lettered_at).toLocaleString('id-ID')}
+                      </div>
+
+                      {isAdmin && (
+                        <div className="flex space-x-2 pt-1">
+                          {editingId === item.id ? (
+                            <button
+                              type="button"
+                              onClick={() => setEditingId(null)}
+                              className="flex items-center px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                            >
+                              Batal
+                            </button>
+                          ) : item.type === 'reading' && (
+                            <button
+                              type="button"
+                              onClick={() => startEditing(item)}
+                              className="flex items-center px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                            >
+                              <FiEdit2 className="h-3 w-3 mr-1" /> Ubah
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => handleRetry(item)}
+                            className="flex items-center px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700"
+                          >
+                            <FiRefreshCw className="h-3 w-3 mr-1" /> {editingId === item.id ? 'Simpan & Kirim Ulang' : 'Kirim Ulang'}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDiscard(item)}
+                            className="flex items-center px-2 py-1 text-xs rounded bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100"
+                          >
+                            <FiTrash2 className="h-3 w-3 mr-1" /> Buang
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Success Feedback - Brief confirmation when sync completes */}
       {showSyncSuccess && (
         <div className="flex items-center space-x-1.5 px-2.5 py-1.5 rounded-lg bg-green-500 bg-opacity-10 text-green-600 dark:text-green-400 animate-fade-in">
@@ -0,0 +1,310 @@
+/**
+ * Payment Recorder Component
+ * Lets RT collectors record household payments against issued bills
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { FiCreditCard, FiSave, FiX, FiClock, FiTrash2 } from 'react-icons/fi';
+import { Bill, Payment, PaymentMethod } from '@/types/types';
+import { BillLedgerService } from '@/lib/billLedgerService';
+import { PaymentService, PAYMENT_METHODS } from '@/lib/paymentService';
+import { formatDateID } from '@/utils/dateFormat';
+
+interface PaymentRecorderProps {
+  bills: Bill[];
+  balances?: Map<string, number>; // Running account balance per customer: credit (+) or arrears (-)
+  receivedBy: string;
+  canDeletePayments?: boolean;
+  onPaymentChange?: () => void;
+}
+
+export default function PaymentRecorder({ bills, balances, receivedBy, canDeletePayments = false, onPaymentChange }: PaymentRecorderProps) {
+  const [payingBill, setPayingBill] = useState<Bill | null>(null);
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [notes, setNotes] = useState('');
+  const [historyBillId, setHistoryBillId] = useState<string | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<{type: string, text: string} | null>(null);
+
+  const formatCurrency = (value: number) => `Rp ${value.toLocaleString('id-ID')}`;
+
+  const formatBalance = (balance: number) => {
+    if (balance > 0) return `Kredit ${formatCurrency(balance)}`;
+    if (balance < 0) return `Tunggakan ${formatCurrency(-balance)}`;
+    return 'Saldo Rp 0';
+  };
+
+  const openPaymentForm = (bill: Bill) => {
+    setPayingBill(bill);
+    setAmount(BillLedgerService.getOutstandingAmount(bill).toString());
+    setPaymentDate(new Date().toISOString().split('T')[0]);
+    setMethod('cash');
+    setNotes('');
+  };
+
+  const toggleHistory = async (bill: Bill) => {
+    if (historyBillId === bill.id) {
+      setHistoryBillId(null);
+      return;
+    }
+
+    setHistoryBillId(bill.id);
+    setPayments(await PaymentService.loadPayments({ billId: bill.id }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingBill) return;
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      const payments = await PaymentService.recordPayment(payingBill, {
+        amount: parseFloat(amount),
+        payment_date: paymentDate,
+        method,
+        notes
+      }, receivedBy);
+
+      const allocated = payments.length > 1 ? ` (dialokasikan ke ${payments.length} tagihan)` : '';
+      setMessage({ type: 'success', text: `Pembayaran ${payingBill.customer_name} berhasil dicatat${allocated}` });
+      setPayingBill(null);
+      setHistoryBillId(null);
+      onPaymentChange?.();
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      setMessage({ type: 'error', text: error.message || 'Gagal mencatat pembayaran' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (payment: Payment, bill: Bill) => {
+    if (!window.confirm(`Hapus pembayaran ${formatCurrency(payment.amount)} tanggal ${formatDateID(payment.payment_date)}?`)) return;
+
+    try {
+      await PaymentService.deletePayment(payment, bill);
+      setMessage({ type: 'success', text: 'Pembayaran berhasil dihapus' });
+      setHistoryBillId(null);
+      onPaymentChange?.();
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message || 'Gagal menghapus pembayaran' });
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white text-sm';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-white flex items-center mb-4">
+        <FiCreditCard className="mr-2 text-blue-500" />
+        Catat Pembayaran
+      </h2>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-xl ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300'
+            : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {payingBill && (
+        <form onSubmit={handleSubmit} className="space-y-4 mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+          <div className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-semibold">{payingBill.customer_name}</span> • {payingBill.bill_number} • Sisa {formatCurrency(BillLedgerService.getOutstandingAmount(payingBill))}
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Kelebihan bayar melunasi tunggakan bulan lain lebih dulu, sisanya menjadi kredit bulan berikutnya
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="paymentAmount" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Jumlah (Rp)
+              </label>
+              <input
+                id="paymentAmount"
+                type="number"
+                min="1"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="paymentDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Tanggal Bayar
+              </label>
+              <input
+                id="paymentDate"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="paymentMethod" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Cara Bayar
+              </label>
+              <select
+                id="paymentMethod"
+                value={method}
+                onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                className={inputClass}
+              >
+                {PAYMENT_METHODS.map(m => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="paymentNotes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Catatan
+            </label>
+            <input
+              id="paymentNotes"
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Opsional"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white px-5 py-2 rounded-xl font-medium hover:from-blue-600 hover:to-cyan-600 transition-all duration-300 flex items-center justify-center text-sm"
+            >
+              <FiSave className="mr-2" />
+              {loading ? 'Menyimpan...' : 'Simpan Pembayaran'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setPayingBill(null)}
+              className="bg-gray-500 text-white px-5 py-2 rounded-xl font-medium hover:bg-gray-600 transition-all duration-300 flex items-center justify-center text-sm"
+            >
+              <FiX className="mr-2" />
+              Batal
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Pelanggan</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Tagihan</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Terbayar</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Sisa</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Aksi</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {bills.map(bill => {
+              const outstanding = BillLedgerService.getOutstandingAmount(bill);
+              return [
+                <tr key={bill.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">{bill.customer_name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{bill.customer_rt} • {bill.bill_number}</div>
+                    {balances?.has(bill.customer_id) && balances.get(bill.customer_id) !== 0 && (
+                      <div className={`text-xs ${balances.get(bill.customer_id)! > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                        {formatBalance(balances.get(bill.customer_id)!)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                    {formatCurrency(bill.total_amount)}
+                    {bill.penalty_amount > 0 && (
+                      <div className="text-xs text-red-600 dark:text-red-400">+ denda {formatCurrency(bill.penalty_amount)}</div>
+                    )}
+                    {bill.credit_applied > 0 && (
+                      <div className="text-xs text-green-600 dark:text-green-400">- kredit {formatCurrency(bill.credit_applied)}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-green-600 dark:text-green-400">{formatCurrency(bill.paid_amount)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-red-600 dark:text-red-400">{formatCurrency(outstanding)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-700 dark:text-gray-300">{BillLedgerService.getStatusLabel(bill.status)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                    <button
+                      type="button"
+                      onClick={() => openPaymentForm(bill)}
+                      className="bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 px-3 py-1 rounded-lg hover:bg-blue-200 dark:hover:bg-blue-900/70 transition-colors mr-2"
+                      title={outstanding > 0 ? 'Catat pembayaran' : 'Bayar di muka (menjadi kredit)'}
+                    >
+                      {outstanding > 0 ? 'Bayar' : 'Bayar di Muka'}
+                    </button>
+                    {bill.paid_amount > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => toggleHistory(bill)}
+                        className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+                        title="Riwayat pembayaran"
+                      >
+                        <FiClock className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>,
+                historyBillId === bill.id && (
+                  <tr key={`${bill.id}-history`}>
+                    <td colSpan={6} className="px-4 py-3 bg-gray-50 dark:bg-gray-700">
+                      {payments.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Belum ada pembayaran</p>
+                      ) : (
+                        <div className="space-y-1">
+                          {payments.map(payment => (
+                            <div key={payment.id} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                              <span>
+                                {formatDateID(payment.payment_date)} • {formatCurrency(payment.amount)} • {PaymentService.getMethodLabel(payment.method)} • {payment.received_by}
+                                {payment.notes && ` • ${payment.notes}`}
+                              </span>
+                              {canDeletePayments && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleDelete(payment, bill)}
+                                  className="p-1 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                                  title="Hapus pembayaran"
+                                >
+                                  <FiTrash2 className="h-4 w-4" />
+                                </button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )
+              ];
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {bills.length === 0 && (
+        <p className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
+          Belum ada tagihan terbit untuk bulan ini
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+/**
+ * Penalty Policy Manager Component
+ * Allows admins to publish late payment penalty (denda) policies with an effective date
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { FiAlertTriangle, FiPlus, FiSave, FiTrash2, FiX, FiCalendar } from 'react-icons/fi';
+import { PenaltyPolicy, PenaltyType } from '@/types/types';
+import { PenaltyService, PENALTY_TYPES } from '@/lib/penaltyService';
+import { formatDateID } from '@/utils/dateFormat';
+
+interface PenaltyPolicyManagerProps {
+  createdBy: string;
+}
+
+export default function PenaltyPolicyManager({ createdBy }: PenaltyPolicyManagerProps) {
+  const [policies, setPolicies] = useState<PenaltyPolicy[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [effectiveFrom, setEffectiveFrom] = useState(new Date().toISOString().split('T')[0]);
+  const [type, setType] = useState<PenaltyType>('flat');
+  const [amount, setAmount] = useState('');
+  const [graceDays, setGraceDays] = useState('20');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<{type: string, text: string} | null>(null);
+
+  const loadPolicies = useCallback(async () => {
+    const data = await PenaltyService.loadPolicies();
+    setPolicies([...data].sort((a, b) => b.effective_from.localeCompare(a.effective_from)));
+  }, []);
+
+  useEffect(() => {
+    loadPolicies();
+  }, [loadPolicies]);
+
+  const today = new Date().toISOString().split('T')[0];
+  const currentPolicy = PenaltyService.getPolicyForDate(today, policies);
+
+  const openForm = () => {
+    // Start from the policy currently in force so small changes are quick to enter
+    setEffectiveFrom(today);
+    setType(currentPolicy?.type || 'flat');
+    setAmount(currentPolicy ? currentPolicy.amount.toString() : '');
+    setGraceDays(currentPolicy ? currentPolicy.grace_days.toString() : '20');
+    setMaxAmount(currentPolicy?.max_amount ? currentPolicy.max_amount.toString() : '');
+    setNotes('');
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      await PenaltyService.createPolicy({
+        effective_from: effectiveFrom,
+        type,
+        amount: parseFloat(amount),
+        grace_days: parseInt(graceDays, 10),
+        max_amount: maxAmount ? parseFloat(maxAmount) : null,
+        notes
+      }, createdBy);
+
+      setMessage({ type: 'success', text: 'Kebijakan denda berhasil disimpan!' });
+      setShowForm(false);
+      await loadPolicies();
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      console.error('Error saving penalty policy:', error);
+      setMessage({ type: 'error', text: error.message || 'Gagal menyimpan kebijakan denda' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (policy: PenaltyPolicy) => {
+    if (!window.confirm(`Hapus kebijakan denda yang berlaku mulai ${formatDateID(policy.effective_from)}?`)) return;
+
+    try {
+      await PenaltyService.deleteFuturePolicy(policy);
+      await loadPolicies();
+      setMessage({ type: 'success', text: 'Kebijakan denda berhasil dihapus' });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message || 'Gagal menghapus kebijakan denda' });
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white text-sm';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white flex items-center">
+            <FiAlertTriangle className="mr-2 text-red-500" />
+            Denda Keterlambatan
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Denda ditambahkan ke tagihan yang belum lunas setelah masa tenggang saat admin menekan Terapkan Denda di Laporan
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={openForm}
+            className="flex items-center px-4 py-2 bg-gradient-to-r from-blue-500 to-cyan-500 text-white rounded-xl font-medium hover:from-blue-600 hover:to-cyan-600 transition-all duration-300 text-sm"
+          >
+            <FiPlus className="mr-2" />
+            Kebijakan Baru
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-xl ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300'
+            : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4 mb-8 p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="penaltyEffectiveFrom" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Berlaku Mulai
+              </label>
+              <input
+                id="penaltyEffectiveFrom"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="penaltyType" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Jenis Denda
+              </label>
+              <select
+                id="penaltyType"
+                value={type}
+                onChange={(e) => setType(e.target.value as PenaltyType)}
+                className={inputClass}
+              >
+                {PENALTY_TYPES.map(t => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="penaltyAmount" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {type === 'flat' ? 'Denda per Bulan (Rp)' : 'Denda per Bulan (%)'}
+              </label>
+              <input
+                id="penaltyAmount"
+                type="number"
+                min="0"
+                step={type === 'flat' ? '500' : '0.5'}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="penaltyGraceDays" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Batas Bayar (tanggal bulan berikutnya)
+              </label>
+              <input
+                id="penaltyGraceDays"
+                type="number"
+                min="0"
+                max="28"
+                value={graceDays}
+                onChange={(e) => setGraceDays(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="penaltyMaxAmount" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Denda Maksimal (Rp)
+              </label>
+              <input
+                id="penaltyMaxAmount"
+                type="number"
+                min="0"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+                placeholder="Kosongkan jika tanpa batas"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="penaltyNotes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Catatan
+              </label>
+              <input
+                id="penaltyNotes"
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Contoh: Keputusan rapat warga"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white px-5 py-3 rounded-xl font-medium hover:from-blue-600 hover:to-cyan-600 transition-all duration-300 flex items-center justify-center"
+            >
+              <FiSave className="mr-2" />
+              {loading ? 'Menyimpan...' : 'Simpan Kebijakan'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="bg-gray-500 text-white px-5 py-3 rounded-xl font-medium hover:bg-gray-600 transition-all duration-300 flex items-center justify-center"
+            >
+              <FiX className="mr-2" />
+              Batal
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Policy History */}
+      <div className="space-y-3">
+        {policies.length === 0 && (
+          <div className="p-4 rounded-xl border bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Belum ada kebijakan denda. Tagihan yang terlambat tidak dikenakan denda.
+            </p>
+          </div>
+        )}
+        {policies.map((policy) => {
+          const isCurrent = policy.id === currentPolicy?.id;
+          const isFuture = policy.effective_from > today;
+          return (
+            <div
+              key={policy.id}
+              className={`p-4 rounded-xl border ${
+                isCurrent
+                  ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+                  : 'bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <span className="font-semibold text-gray-800 dark:text-white">{PenaltyService.describePolicy(policy)}</span>
+                    {isCurrent && (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+                        Berlaku
+                      </span>
+                    )}
+                    {isFuture && (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                        Akan Datang
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-500 flex items-center">
+                    <FiCalendar className="mr-1" />
+                    Berlaku mulai {formatDateID(policy.effective_from)}
+                  </p>
+                  {policy.notes && (
+                    <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">{policy.notes}</p>
+                  )}
+                </div>
+                {isFuture && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(policy)}
+                    className="p-2 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 transition-colors"
+                    title="Hapus kebijakan"
+                  >
+                    <FiTrash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { offlineStorage } from '@/lib/offlineStorage';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -14,8 +15,12 @@ export default function ProtectedRoute({ children, requireAuth = true }: Protect
   const [isAuthenticated, setIsAuthenticated] = useState(false);
 
   useEffect(() => {
-    // Set client-side flag
-    setIsClient(true);
+    let cancelled = false;
+
+    // Set client-side flag once the offline data is loaded, so pages can read it synchronously
+    offlineStorage.ready().then(() => {
+      if (!cancelled) setIsClient(true);
+    });
     
     // Check authentication
     const userData = localStorage.getItem('user');
@@ -26,6 +31,10 @@ export default function ProtectedRoute({ children, requireAuth = true }: Protect
     } else if (!requireAuth && userData) {
       router.push('/dashboard');
     }
+
+    return () => {
+      cancelled = true;
+    };
   }, [requireAuth, router]);
 
   // Don't render anything on server-side
@@ -0,0 +1,253 @@
+/**
+ * RT Deposit Reconciliation Component
+ * Compares what each RT was billed, what its collector collected and what was handed to the treasurer
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { FiRepeat, FiSave, FiX, FiTrash2 } from 'react-icons/fi';
+import { Bill, Transaction } from '@/types/types';
+import { RTDepositService } from '@/lib/rtDepositService';
+import { formatDateID, formatMonthYearID } from '@/utils/dateFormat';
+
+interface RTDepositReconciliationProps {
+  billingMonth: string;
+  bills: Bill[];
+  canRecordDeposits?: boolean;
+}
+
+export default function RTDepositReconciliation({ billingMonth, bills, canRecordDeposits = false }: RTDepositReconciliationProps) {
+  const [deposits, setDeposits] = useState<Transaction[]>([]);
+  const [depositRT, setDepositRT] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [depositDate, setDepositDate] = useState(new Date().toISOString().split('T')[0]);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<{type: string, text: string} | null>(null);
+
+  const loadDeposits = useCallback(async () => {
+    setDeposits(await RTDepositService.loadDeposits(billingMonth));
+  }, [billingMonth]);
+
+  useEffect(() => {
+    if (billingMonth) {
+      loadDeposits();
+    }
+  }, [billingMonth, loadDeposits]);
+
+  const rtsInView = new Set(bills.map(b => b.customer_rt || '-'));
+  const rows = RTDepositService.buildReconciliation(billingMonth, bills, deposits.filter(d => rtsInView.has(d.rt!)));
+  const visibleDeposits = deposits.filter(d => rtsInView.has(d.rt!));
+
+  const formatCurrency = (value: number) => `Rp ${value.toLocaleString('id-ID')}`;
+
+  const openDepositForm = (rt: string, undepositedAmount: number) => {
+    setDepositRT(rt);
+    setAmount(undepositedAmount > 0 ? undepositedAmount.toString() : '');
+    setDepositDate(new Date().toISOString().split('T')[0]);
+    setNotes('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!depositRT) return;
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      await RTDepositService.recordDeposit({
+        rt: depositRT,
+        billing_month: billingMonth,
+        amount: parseFloat(amount),
+        date: depositDate,
+        notes
+      });
+
+      setMessage({ type: 'success', text: `Setoran ${depositRT} berhasil dicatat sebagai pemasukan` });
+      setDepositRT(null);
+      await loadDeposits();
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      console.error('Error recording RT deposit:', error);
+      setMessage({ type: 'error', text: error.message || 'Gagal mencatat setoran' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (deposit: Transaction) => {
+    if (!window.confirm(`Hapus setoran ${deposit.rt} sebesar ${formatCurrency(Number(deposit.amount))}?`)) return;
+
+    try {
+      await RTDepositService.deleteDeposit(deposit);
+      setMessage({ type: 'success', text: 'Setoran berhasil dihapus' });
+      await loadDeposits();
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message || 'Gagal menghapus setoran' });
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white text-sm';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-white flex items-center mb-4">
+        <FiRepeat className="mr-2 text-green-500" />
+        Rekonsiliasi Setoran RT {billingMonth && `- ${formatMonthYearID(billingMonth)}`}
+      </h2>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-xl ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300'
+            : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {depositRT && (
+        <form onSubmit={handleSubmit} className="space-y-4 mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+          <div className="text-sm text-gray-700 dark:text-gray-300">
+            Setoran <span className="font-semibold">{depositRT}</span> untuk tagihan {formatMonthYearID(billingMonth)}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="depositAmount" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Jumlah (Rp)
+              </label>
+              <input
+                id="depositAmount"
+                type="number"
+                min="1"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="depositDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Tanggal Setor
+              </label>
+              <input
+                id="depositDate"
+                type="date"
+                value={depositDate}
+                onChange={(e) => setDepositDate(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="depositNotes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Catatan
+              </label>
+              <input
+                id="depositNotes"
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Opsional"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-gradient-to-r from-green-500 to-emerald-500 text-white px-5 py-2 rounded-xl font-medium hover:from-green-600 hover:to-emerald-600 transition-all duration-300 flex items-center justify-center text-sm"
+            >
+              <FiSave className="mr-2" />
+              {loading ? 'Menyimpan...' : 'Simpan Setoran'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setDepositRT(null)}
+              className="bg-gray-500 text-white px-5 py-2 rounded-xl font-medium hover:bg-gray-600 transition-all duration-300 flex items-center justify-center text-sm"
+            >
+              <FiX className="mr-2" />
+              Batal
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">RT</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Tagihan</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Dikumpulkan</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Disetor</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Belum Disetor</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Sisa</th>
+              {canRecordDeposits && (
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Aksi</th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map(row => (
+              <tr key={row.rt} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">{row.rt}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-white">{formatCurrency(row.expectedAmount)}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-blue-600 dark:text-blue-400">{formatCurrency(row.collectedAmount)}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-green-600 dark:text-green-400">{formatCurrency(row.depositedAmount)}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-yellow-600 dark:text-yellow-400">{formatCurrency(row.undepositedAmount)}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-red-600 dark:text-red-400">{formatCurrency(row.outstandingAmount)}</td>
+                {canRecordDeposits && (
+                  <td className="px-4 py-3 whitespace-nowrap text-right text-sm">
+                    <button
+                      type="button"
+                      onClick={() => openDepositForm(row.rt, row.undepositedAmount)}
+                      className="bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300 px-3 py-1 rounded-lg hover:bg-green-200 dark:hover:bg-green-900/70 transition-colors"
+                    >
+                      Catat Setoran
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
+          Belum ada tagihan terbit untuk bulan ini
+        </p>
+      )}
+
+      {visibleDeposits.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Riwayat Setoran</h3>
+          <div className="space-y-1">
+            {visibleDeposits.map(deposit => (
+              <div key={deposit.id} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                <span>
+                  {formatDateID(deposit.date)} • {deposit.rt} • {formatCurrency(Number(deposit.amount))} • {deposit.created_by}
+                </span>
+                {canRecordDeposits && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(deposit)}
+                    className="p-1 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                    title="Hapus setoran"
+                  >
+                    <FiTrash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * Reading Correction Panel Component
+ * Shows the correction trail of one meter reading and lets an admin correct its value
+ * with a reason; the earlier value is kept as a version
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { FiEdit2, FiX } from 'react-icons/fi';
+import { MeterReading, MeterReadingVersion } from '@/types/types';
+import { ReadingCorrectionService } from '@/lib/readingCorrectionService';
+import { formatDateID } from '@/utils/dateFormat';
+
+interface ReadingCorrectionPanelProps {
+  reading: MeterReading;
+  customerName: string;
+  versions: MeterReadingVersion[]; // Earlier values of the reading, oldest first
+  customerReadings: MeterReading[];
+  meterDigits?: number;
+  correctedBy?: string; // Set when the user may correct the reading
+  onCorrected: (flaggedBills: number) => void;
+  onClose: () => void;
+}
+
+export default function ReadingCorrectionPanel({
+  reading,
+  customerName,
+  versions,
+  customerReadings,
+  meterDigits,
+  correctedBy,
+  onCorrected,
+  onClose
+}: ReadingCorrectionPanelProps) {
+  const [newReading, setNewReading] = useState(String(reading.reading));
+  const [rollover, setRollover] = useState(!!reading.rollover);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!correctedBy) return;
+
+    const value = parseFloat(newReading);
+    const errors = ReadingCorrectionService.validateCorrection(reading, value, reason, customerReadings, meterDigits, rollover);
+    if (errors.length > 0) {
+      setError(errors.join(', '));
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const flaggedBills = await ReadingCorrectionService.correctReading(reading, value, reason, correctedBy, rollover);
+      onCorrected(flaggedBills);
+    } catch (err: any) {
+      console.error('Error correcting reading:', err);
+      setError(err.message || 'Gagal menyimpan koreksi');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card mb-8">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Pembacaan {customerName}, {formatDateID(reading.date)}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Nilai saat ini: {reading.reading}{reading.rollover ? ' (meter berputar ke 0)' : ''}
+          </p>
+        </div>
+        <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200" title="Tutup">
+          <FiX className="h-5 w-5" />
+        </button>
+      </div>
+
+      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Riwayat Koreksi</h4>
+      {versions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Pembacaan ini belum pernah dikoreksi</p>
+      ) : (
+        <ol className="space-y-2 mb-4">
+          {versions.map(version => (
+            <li key={version.id} className="text-sm text-gray-700 dark:text-gray-300">
+              <span className="font-medium">Versi {version.version}: {version.reading}</span>
+              {version.rollover ? ' (meter berputar ke 0)' : ''}
+              {version.estimated ? ' (estimasi)' : ''}
+              {' '}- dikoreksi oleh {version.corrected_by}, {formatDateID(version.corrected_at)}
+              <div className="text-xs italic text-gray-500 dark:text-gray-400">Alasan: {version.reason}</div>
+            </li>
+          ))}
+          <li className="text-sm font-medium text-gray-900 dark:text-white">
+            Versi {reading.version || versions.length + 1}: {reading.reading} (saat ini)
+          </li>
+        </ol>
+      )}
+
+      {correctedBy && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label htmlFor="correctionReading" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Nilai Koreksi *</label>
+            <input
+              id="correctionReading"
+              type="number"
+              step="0.01"
+              min="0"
+              value={newReading}
+              onChange={(e) => setNewReading(e.target.value)}
+              className="input-field"
+              required
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="correctionReason" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Alasan *</label>
+            <input
+              id="correctionReason"
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Contoh: salah ketik, seharusnya 1250"
+              className="input-field"
+              required
+            />
+          </div>
+          <button type="submit" disabled={saving} className="btn-primary">
+            <FiEdit2 className="w-4 h-4 mr-2" />
+            {saving ? 'Menyimpan...' : 'Simpan Koreksi'}
+          </button>
+          <label className="md:col-span-4 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={rollover}
+              onChange={(e) => setRollover(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Meter berputar kembali ke 0
+          </label>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-3 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+/**
+ * Reading Entry Grid Component
+ * Spreadsheet-style entry of a paper reading sheet: every customer of an RT in route order with the
+ * previous reading and the expected range, Enter/Tab to move between rows and live validation per row
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { FiGrid, FiSave, FiX } from 'react-icons/fi';
+import { Customer, MeterReading } from '@/types/types';
+import MeterDataService from '@/lib/meterDataService';
+import ValidationService from '@/lib/validationService';
+import { AnomalyService } from '@/lib/anomalyService';
+import { RouteService } from '@/lib/routeService';
+import { offlineStorage } from '@/lib/offlineStorage';
+import { ServiceWorkerManager } from '@/lib/serviceWorkerManager';
+
+interface ReadingEntryGridProps {
+  customers: Customer[];
+  submittedCustomerIds: Set<string>; // Customers already read this month
+  isOnline: boolean;
+  onSaved: (customerIds: string[]) => void;
+  onClose: () => void;
+}
+
+interface RowStatus {
+  errors: string[];
+  warnings: string[];
+}
+
+export default function ReadingEntryGrid({
+  customers,
+  submittedCustomerIds,
+  isOnline,
+  onSaved,
+  onClose
+}: ReadingEntryGridProps) {
+  const rts = useMemo(() => Array.from(new Set(customers.map(c => c.rt).filter(Boolean))).sort(), [customers]);
+  const [rt, setRt] = useState(rts[0] || '');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [statuses, setStatuses] = useState<Record<string, RowStatus>>({});
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const valuesRef = useRef<Record<string, string>>({});
+  const inputRefs = useRef<Array<HTMLInputElement | null>>([]);
+  const submitRef = useRef<HTMLButtonElement>(null);
+
+  // Customers of the RT in route order, with what the offline cache knows of their readings
+  const rows = useMemo(() => RouteService.sortByRoute(customers.filter(c => c.rt === rt)).map(customer => {
+    const previousReading = offlineStorage.getPreviousReading(customer.id, date);
+    const usageHistory = AnomalyService.getCustomerUsageHistory(customer.id, date, customer.meter_digits);
+    const usageRange = previousReading ? AnomalyService.getExpectedUsageRange(usageHistory) : null;
+    return {
+      customer,
+      previousReading,
+      usageHistory,
+      expectedRange: usageRange && previousReading
+        ? { min: previousReading.reading + usageRange.min, max: previousReading.reading + usageRange.max }
+        : null,
+      alreadyRead: submittedCustomerIds.has(customer.id)
+    };
+  }), [customers, rt, date, submittedCustomerIds]);
+
+  const validateRow = useCallback(async (customerId: string, value: string) => {
+    const row = rows.find(r => r.customer.id === customerId);
+    if (!row) return;
+
+    if (!value.trim()) {
+      setStatuses(current => {
+        const next = { ...current };
+        delete next[customerId];
+        return next;
+      });
+      return;
+    }
+
+    const reading = parseFloat(value);
+    if (Number.isNaN(reading)) {
+      setStatuses(current => ({ ...current, [customerId]: { errors: ['Pembacaan meter harus berupa angka'], warnings: [] } }));
+      return;
+    }
+
+    const results = await ValidationService.validateMeterReading(reading, {
+      customerId,
+      readingDate: date,
+      previousReading: row.previousReading || undefined,
+      usageHistory: row.usageHistory,
+      meterDigits: row.customer.meter_digits
+    });
+
+    // A later keystroke has already replaced this value
+    if (valuesRef.current[customerId] !== value) return;
+
+    const summary = ValidationService.getValidationSummary(results);
+    setStatuses(current => ({
+      ...current,
+      [customerId]: {
+        errors: ValidationService.formatValidationMessages(summary.errors),
+        warnings: ValidationService.formatValidationMessages(summary.warnings)
+      }
+    }));
+  }, [rows, date]);
+
+  // Readings already typed are checked again against the previous readings of another date
+  useEffect(() => {
+    for (const [customerId, value] of Object.entries(valuesRef.current)) {
+      validateRow(customerId, value);
+    }
+  }, [validateRow]);
+
+  const handleChange = (customerId: string, value: string) => {
+    valuesRef.current = { ...valuesRef.current, [customerId]: value };
+    setValues(valuesRef.current);
+    setMessage(null);
+    validateRow(customerId, value);
+  };
+
+  const handleRtChange = (value: string) => {
+    valuesRef.current = {};
+    setValues({});
+    setStatuses({});
+    setMessage(null);
+    setRt(value);
+  };
+
+  // Move to the next row that can still be entered, or to the save button after the last row
+  const focusRow = (index: number, step: number) => {
+    for (let i = index; i >= 0 && i < rows.length; i += step) {
+      const input = inputRefs.current[i];
+      if (input && !input.disabled) {
+        input.focus();
+        input.select();
+        return;
+      }
+    }
+    if (step > 0) {
+      submitRef.current?.focus();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, index: number) => {
+    if (e.key === 'Enter' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      const step = e.key === 'Enter' && e.shiftKey ? -1 : 1;
+      focusRow(index + step, step);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      focusRow(index - 1, -1);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const entries = rows.filter(row => !row.alreadyRead && values[row.customer.id]?.trim());
+    if (entries.length === 0) {
+      setMessage({ type: 'error', text: 'Belum ada pembacaan yang diisi' });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const readings: MeterReading[] = entries.map(row => ({
+        id: '',
+        customer_id: row.customer.id,
+        reading: parseFloat(values[row.customer.id]),
+        date
+      }));
+      const results = await MeterDataService.batchProcessReadings(readings, customers, isOnline);
+
+      const savedIds = results.filter(result => result.saved).map(result => result.reading.customer_id);
+      const failed = results.filter(result => !result.saved);
+
+      // Saved rows are cleared; rows that failed keep their value and show why
+      const remaining = { ...valuesRef.current };
+      for (const customerId of savedIds) {
+        delete remaining[customerId];
+      }
+      valuesRef.current = remaining;
+      setValues(remaining);
+      setStatuses(current => {
+        const next = { ...current };
+        for (const customerId of savedIds) {
+          delete next[customerId];
+        }
+        for (const result of failed) {
+          next[result.reading.customer_id] = { errors: result.errors, warnings: result.warnings };
+        }
+        return next;
+      });
+
+      if (savedIds.length > 0) {
+        if (!isOnline) {
+          // Let the service worker send them once there is signal, even if the app is closed
+          ServiceWorkerManager.requestSync();
+        }
+        onSaved(savedIds);
+      }
+
+      setMessage(failed.length > 0
+        ? { type: 'error', text: `${savedIds.length} pembacaan tersimpan, ${failed.length} gagal - periksa baris yang ditandai` }
+        : { type: 'success', text: `${savedIds.length} pembacaan tersimpan${isOnline ? '' : ' offline dan akan disinkronkan saat online'}` });
+    } catch (error) {
+      console.error('Error saving reading sheet:', error);
+      setMessage({ type: 'error', text: 'Gagal menyimpan pembacaan' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filledCount = rows.filter(row => !row.alreadyRead && values[row.customer.id]?.trim()).length;
+  const errorCount = rows.filter(row => statuses[row.customer.id]?.errors.length).length;
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center">
+          <FiGrid className="w-5 h-5 mr-2 text-blue-500" />
+          Input Massal Pembacaan
+        </h2>
+        <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200" title="Tutup">
+          <FiX className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+        <select value={rt} onChange={(e) => handleRtChange(e.target.value)} className="input" aria-label="RT">
+          {rts.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="input" aria-label="Tanggal pembacaan" />
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Enter, Tab atau ↓ ke baris berikutnya; Shift+Enter, Shift+Tab atau ↑ ke baris sebelumnya.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Pelanggan</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Sebelumnya</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Perkiraan</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Pembacaan</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map((row, index) => {
+              const status = statuses[row.customer.id];
+              const hasError = !!status?.errors.length;
+              return (
+                <tr key={row.customer.id} className={row.alreadyRead ? 'opacity-60' : ''}>
+                  <td className="px-3 py-2 text-gray-900 dark:text-white">{row.customer.name}</td>
+                  <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">
+                    {row.previousReading ? row.previousReading.reading : '-'}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {row.expectedRange ? `${row.expectedRange.min} - ${row.expectedRange.max}` : '-'}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      ref={(element) => {
+                        inputRefs.current[index] = element;
+                      }}
+                      type="text"
+                      inputMode="decimal"
+                      value={row.alreadyRead ? '' : values[row.customer.id] || ''}
+                      onChange={(e) => handleChange(row.customer.id, e.target.value)}
+                      onKeyDown={(e) => handleKeyDown(e, index)}
+                      disabled={row.alreadyRead || saving}
+                      placeholder={row.alreadyRead ? 'Sudah dibaca' : ''}
+                      aria-label={`Pembacaan ${row.customer.name}`}
+                      aria-invalid={hasError}
+                      className={`w-32 px-2 py-1 border rounded-lg bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        hasError ? 'border-red-400 dark:border-red-600' : 'border-gray-200 dark:border-gray-600'
+                      }`}
+                    />
+                    {status?.errors.map(error => (
+                      <p key={error} className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+                    ))}
+                    {status?.warnings.map(warning => (
+                      <p key={warning} className="mt-1 text-xs text-yellow-700 dark:text-yellow-400">{warning}</p>
+                    ))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">Tidak ada pelanggan di RT ini</p>
+      )}
+
+      {message && (
+        <div className={`mt-4 ${message.type === 'success' ? 'alert-success' : 'alert-danger'}`}>
+          <span className="font-medium">{message.text}</span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {filledCount} diisi{errorCount > 0 ? `, ${errorCount} perlu diperbaiki` : ''}
+        </p>
+        <button
+          ref={submitRef}
+          type="button"
+          onClick={handleSubmit}
+          disabled={saving || filledCount === 0}
+          className="btn-primary"
+        >
+          <FiSave className="w-4 h-4 mr-2" />
+          {saving ? 'Menyimpan...' : 'Simpan Semua'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { FiCheckCircle, FiMapPin, FiSkipForward, FiList } from 'react-icons/fi';
+import { Customer } from '@/types/types';
+import { RouteProgress } from '@/lib/routeService';
+
+interface ReadingRoutePanelProps {
+  progress: RouteProgress[]; // One entry per RT route
+  nextCustomer: Customer | null; // Next house on the route without a reading this month
+  onSkip: () => void;
+  onEditRoute?: () => void; // Shown to users who may change the route
+}
+
+/**
+ * Progress through each RT route this month and the next house to read
+ */
+export default function ReadingRoutePanel({ progress, nextCustomer, onSkip, onEditRoute }: ReadingRoutePanelProps) {
+  return (
+    <div className="card-compact space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="flex items-center text-sm font-semibold text-gray-700 dark:text-gray-300">
+          <FiMapPin className="mr-2 text-blue-600" />
+          Rute Pembacaan Bulan Ini
+        </h2>
+        {onEditRoute && (
+          <button type="button" onClick={onEditRoute} className="btn-secondary text-sm">
+            <FiList className="w-4 h-4 mr-2" />
+            Atur Rute
+          </button>
+        )}
+      </div>
+
+      {progress.map(route => (
+        <div key={route.rt} className="space-y-1">
+          <div className="flex justify-between text-xs font-medium text-gray-600 dark:text-gray-400">
+            <span>{route.rt}</span>
+            <span>{route.read} / {route.total} rumah ({route.percentage}%)</span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all ${route.read === route.total ? 'bg-green-500' : 'bg-blue-500'}`}
+              style={{ width: `${route.percentage}%` }}
+            />
+          </div>
+        </div>
+      ))}
+
+      {nextCustomer ? (
+        <div className="flex items-center justify-between gap-3 p-3 rounded-xl bg-blue-50 dark:bg-blue-900/20">
+          <div className="min-w-0">
+            <p className="text-xs text-blue-700 dark:text-blue-300">Rumah berikutnya</p>
+            <p className="font-semibold text-blue-900 dark:text-blue-100 truncate">
+              {nextCustomer.name} {nextCustomer.rt ? `(${nextCustomer.rt})` : ''}
+            </p>
+          </div>
+          <button type="button" onClick={onSkip} className="btn-secondary text-sm flex-shrink-0" title="Lewati rumah ini untuk sementara">
+            <FiSkipForward className="w-4 h-4 mr-2" />
+            Lewati
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 text-sm font-medium text-green-600 dark:text-green-400">
+          <FiCheckCircle className="w-4 h-4" />
+          Semua rumah di rute sudah dibaca
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Receivables Aging Component
+ * Shows outstanding bills grouped by how long they are overdue, per RT or per customer
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { FiAlertCircle } from 'react-icons/fi';
+import { Bill, ReceivableAging } from '@/types/types';
+import { PaymentService } from '@/lib/paymentService';
+
+interface ReceivablesAgingProps {
+  bills: Bill[];
+}
+
+export default function ReceivablesAging({ bills }: ReceivablesAgingProps) {
+  const [groupBy, setGroupBy] = useState<'rt' | 'customer'>('rt');
+
+  const report = PaymentService.buildAgingReport(bills);
+  const rows = groupBy === 'rt' ? report.rts : report.customers;
+
+  const formatCurrency = (value: number) => `Rp ${value.toLocaleString('id-ID')}`;
+
+  const renderAmountCells = (row: ReceivableAging) => (
+    <>
+      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-white">{formatCurrency(row.current)}</td>
+      <td className="px-4 py-3 whitespace-nowrap text-sm text-yellow-600 dark:text-yellow-400">{formatCurrency(row.oneToTwoMonths)}</td>
+      <td className="px-4 py-3 whitespace-nowrap text-sm text-red-600 dark:text-red-400">{formatCurrency(row.threePlusMonths)}</td>
+      <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900 dark:text-white">{formatCurrency(row.total)}</td>
+    </>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-800 dark:text-white flex items-center">
+          <FiAlertCircle className="mr-2 text-red-500" />
+          Umur Piutang
+        </h2>
+        <div className="flex rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden text-sm">
+          <button
+            type="button"
+            onClick={() => setGroupBy('rt')}
+            className={`px-3 py-1 ${groupBy === 'rt' ? 'bg-blue-500 text-white' : 'text-gray-700 dark:text-gray-300'}`}
+          >
+            Per RT
+          </button>
+          <button
+            type="button"
+            onClick={() => setGroupBy('customer')}
+            className={`px-3 py-1 ${groupBy === 'customer' ? 'bg-blue-500 text-white' : 'text-gray-700 dark:text-gray-300'}`}
+          >
+            Per Pelanggan
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                {groupBy === 'rt' ? 'RT' : 'Pelanggan'}
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Belum Jatuh Tempo</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">1-2 Bulan</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">3+ Bulan</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Total</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map(row => (
+              <tr key={row.customerId || row.rt} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                  {groupBy === 'rt' ? row.rt : (
+                    <>
+                      {row.customerName}
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{row.rt}</div>
+                    </>
+                  )}
+                </td>
+                {renderAmountCells(row)}
+              </tr>
+            ))}
+            {rows.length > 0 && (
+              <tr className="bg-gray-50 dark:bg-gray-700">
+                <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900 dark:text-white">Total</td>
+                {renderAmountCells(report.totals)}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">Tidak ada tunggakan</p>
+      )}
+
+      <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+        Tagihan jatuh tempo pada akhir bulan setelah periode tagihan.
+      </p>
+    </div>
+  );
+}
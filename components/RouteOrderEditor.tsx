@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { FiChevronDown, FiChevronUp, FiMenu, FiSave, FiX } from 'react-icons/fi';
+import { Customer } from '@/types/types';
+import { RouteService } from '@/lib/routeService';
+import SelectField from '@/components/SelectField';
+import Button from '@/components/Button';
+
+interface RouteOrderEditorProps {
+  customers: Customer[]; // In route order
+  assignedRt?: string; // RT PICs can only change the route of their own RT
+  onSaved: (route: Customer[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Put the houses of an RT in the order the collector walks past them.
+ * Drag a house to move it, or use the arrows on touch screens.
+ */
+export default function RouteOrderEditor({ customers, assignedRt, onSaved, onCancel }: RouteOrderEditorProps) {
+  const rts = Array.from(new Set(customers.map(c => c.rt).filter((rt): rt is string => !!rt))).sort();
+  const [rt, setRt] = useState(assignedRt || rts[0] || '');
+  const [route, setRoute] = useState(() => customers.filter(c => c.rt === rt));
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const changeRt = (value: string) => {
+    setRt(value);
+    setRoute(customers.filter(c => c.rt === value));
+  };
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= route.length || from === to) {
+      return;
+    }
+    const reordered = [...route];
+    const [customer] = reordered.splice(from, 1);
+    reordered.splice(to, 0, customer);
+    setRoute(reordered);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (draggedIndex !== null && draggedIndex !== index) {
+      move(draggedIndex, index);
+      setDraggedIndex(index);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      onSaved(await RouteService.saveRouteOrder(route));
+    } catch (err: any) {
+      setError(err.message || 'Gagal menyimpan rute');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card space-y-4">
+      <div>
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white">Atur Rute Pembacaan</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Urutkan rumah sesuai jalur yang Anda lalui. Geser rumah ke posisinya, atau gunakan tombol panah.
+        </p>
+      </div>
+
+      {!assignedRt && rts.length > 1 && (
+        <SelectField
+          id="route-rt"
+          label="RT"
+          value={rt}
+          onChange={e => changeRt(e.target.value)}
+          options={rts.map(value => ({ value, label: value }))}
+        />
+      )}
+
+      <ol className="divide-y divide-gray-200 dark:divide-gray-700 rounded-xl border border-gray-200 dark:border-gray-700">
+        {route.map((customer, index) => (
+          <li
+            key={customer.id}
+            draggable
+            onDragStart={() => setDraggedIndex(index)}
+            onDragOver={e => handleDragOver(e, index)}
+            onDragEnd={() => setDraggedIndex(null)}
+            className={`flex items-center gap-3 px-3 py-2 bg-white dark:bg-gray-800 cursor-move ${
+              draggedIndex === index ? 'opacity-50' : ''
+            }`}
+          >
+            <FiMenu className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <span className="w-6 text-sm font-mono text-gray-500 dark:text-gray-400">{index + 1}</span>
+            <span className="flex-1 text-sm text-gray-900 dark:text-white truncate">{customer.name}</span>
+            <button
+              type="button"
+              onClick={() => move(index, index - 1)}
+              disabled={index === 0}
+              className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+              title="Naik"
+            >
+              <FiChevronUp className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, index + 1)}
+              disabled={index === route.length - 1}
+              className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+              title="Turun"
+            >
+              <FiChevronDown className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={onCancel} icon={<FiX className="w-4 h-4" />}>
+          Batal
+        </Button>
+        <Button onClick={handleSave} loading={saving} disabled={route.length === 0} icon={<FiSave className="w-4 h-4" />}>
+          Simpan Rute
+        </Button>
+      </div>
+    </div>
+  );
+}
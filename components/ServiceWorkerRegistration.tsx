@@ -0,0 +1,27 @@
+'use client';
+
+import { useEffect } from 'react';
+import { ServiceWorkerManager } from '@/lib/serviceWorkerManager';
+import { optimizedSyncManager } from '@/lib/optimizedSyncManager';
+
+/**
+ * Registers the service worker, keeps the session it syncs with current and syncs queued
+ * changes when it asks an open tab to
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    ServiceWorkerManager.register();
+    const stopWatchingSession = ServiceWorkerManager.watchSession();
+
+    const stopListening = ServiceWorkerManager.onSyncRequest(() => {
+      console.log('📶 Service worker requested sync');
+      optimizedSyncManager.syncPendingChanges();
+    });
+    return () => {
+      stopWatchingSession();
+      stopListening();
+    };
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useState } from 'react';
+import { FiX } from 'react-icons/fi';
+import { optimizedSyncManager, ConflictResolution } from '@/lib/optimizedSyncManager';
+import { SyncQueueItem } from '@/lib/offlineStorage';
+import { RecordConflict } from '@/lib/offlineDatabase';
+import { DiscountService } from '@/lib/discountService';
+import { Customer, CustomerDiscount } from '@/types/types';
+
+interface SyncConflictResolverProps {
+  conflicts: SyncQueueItem[];
+  onResolved: () => void;
+  onClose: () => void;
+}
+
+// Labels for the customer and discount fields that can conflict
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nama',
+  rt: 'RT',
+  phone: 'Telepon',
+  tariff_class: 'Golongan tarif',
+  scope: 'Sasaran',
+  customer_id: 'Pelanggan',
+  target_rt: 'RT',
+  target_tariff_class: 'Golongan tarif',
+  discount_percentage: 'Persentase',
+  discount_amount: 'Nominal',
+  free_usage: 'Gratis m³',
+  reason: 'Alasan',
+  discount_month: 'Bulan mulai',
+  is_recurring: 'Berulang',
+  end_month: 'Bulan akhir',
+  is_active: 'Aktif'
+};
+
+/**
+ * Shows offline changes that conflict with the server side by side, letting the user keep
+ * either version, merge readings, or discard their own.
+ */
+export default function SyncConflictResolver({ conflicts, onResolved, onClose }: SyncConflictResolverProps) {
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeForm, setMergeForm] = useState({ reading: '', date: '' });
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID');
+
+  const describeRecord = (item: SyncQueueItem, record: Customer | CustomerDiscount) => {
+    if (item.type === 'discount') {
+      const discount = record as CustomerDiscount;
+      return [DiscountService.describeValue(discount), DiscountService.describePeriod(discount)];
+    }
+    const customer = record as Customer;
+    return [customer.name, [customer.rt, customer.phone].filter(Boolean).join(' · ')];
+  };
+
+  const describeConflict = (item: SyncQueueItem, conflict: RecordConflict) => {
+    if (conflict.kind === 'record_exists') {
+      const existing = conflict.server_record as Customer;
+      return `Sudah ada pelanggan bernama ${existing.name} di ${existing.rt || 'server'}.`;
+    }
+    const fields = conflict.fields.map(field => FIELD_LABELS[field] || field).join(', ');
+    return `${item.type === 'discount' ? 'Diskon' : 'Data pelanggan'} ini juga diubah di server (${fields}).`;
+  };
+
+  const startMerging = (item: SyncQueueItem) => {
+    setMergingId(item.id);
+    setMergeForm({
+      reading: String(item.data.reading ?? ''),
+      date: (item.data.date || '').substring(0, 10)
+    });
+  };
+
+  const resolve = async (item: SyncQueueItem, resolution: ConflictResolution) => {
+    let merged: { reading: number; date: string } | undefined;
+    if (resolution === 'merge') {
+      const reading = Number(mergeForm.reading);
+      if (!mergeForm.reading || Number.isNaN(reading) || reading < 0 || !mergeForm.date) {
+        window.alert('Angka meter dan tanggal harus diisi dengan benar');
+        return;
+      }
+      merged = { reading, date: mergeForm.date };
+    }
+
+    if (resolution === 'server' && !window.confirm('Buang perubahan Anda dan pakai data di server?')) {
+      return;
+    }
+
+    setResolvingId(item.id);
+    try {
+      await optimizedSyncManager.resolveConflict(item.id, resolution, merged);
+      setMergingId(null);
+      onResolved();
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="absolute right-0 mt-2 w-96 max-w-[90vw] max-h-[70vh] overflow-y-auto rounded-xl shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 z-50">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Konflik Data</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+        >
+          <FiX className="h-4 w-4" />
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {conflicts.map(item => {
+          const conflict = item.conflict;
+          if (!conflict) return null;
+          const description = optimizedSyncManager.describeItem(item);
+
+          if ('server_record' in conflict) {
+            const [localTitle, localDetail] = describeRecord(item, item.data);
+            const [serverTitle, serverDetail] = describeRecord(item, conflict.server_record);
+
+            return (
+              <li key={item.id} className="px-4 py-3 space-y-2">
+                <div className="text-sm font-medium text-gray-900 dark:text-white">{description.title}</div>
+
+                <p className="text-xs text-amber-600 dark:text-amber-400">{describeConflict(item, conflict)}</p>
+
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <div className="rounded-lg bg-blue-50 dark:bg-blue-900/20 p-2">
+                    <div className="font-medium text-blue-700 dark:text-blue-300">Versi saya</div>
+                    <div className="text-gray-700 dark:text-gray-300">{localTitle}</div>
+                    <div className="text-gray-500 dark:text-gray-400">{localDetail}</div>
+                  </div>
+                  <div className="rounded-lg bg-gray-50 dark:bg-gray-700/50 p-2">
+                    <div className="font-medium text-gray-700 dark:text-gray-300">Versi server</div>
+                    <div className="text-gray-700 dark:text-gray-300">{serverTitle}</div>
+                    <div className="text-gray-500 dark:text-gray-400">{serverDetail}</div>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <button
+                    type="button"
+                    disabled={resolvingId === item.id}
+                    onClick={() => resolve(item, 'local')}
+                    className="px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {conflict.kind === 'record_exists' ? 'Tetap Tambahkan' : 'Pakai Versi Saya'}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={resolvingId === item.id}
+                    onClick={() => resolve(item, 'server')}
+                    className="px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                  >
+                    {conflict.kind === 'record_exists' ? 'Pakai Pelanggan Server' : 'Pakai Versi Server'}
+                  </button>
+                </div>
+              </li>
+            );
+          }
+
+          const sameMonth = conflict.kind === 'same_month';
+
+          return (
+            <li key={item.id} className="px-4 py-3 space-y-2">
+              <div className="text-sm font-medium text-gray-900 dark:text-white">{description.title}</div>
+
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                {sameMonth
+                  ? 'Sudah ada pembacaan lain untuk bulan ini di server.'
+                  : `Angka meter sebelumnya berubah: ${item.data.base_previous_reading} m³ saat dicatat, sekarang ${conflict.server_reading.reading} m³ di server.`}
+              </p>
+
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div className="rounded-lg bg-blue-50 dark:bg-blue-900/20 p-2">
+                  <div className="font-medium text-blue-700 dark:text-blue-300">Versi saya</div>
+                  <div className="text-gray-700 dark:text-gray-300">{item.data.reading} m³</div>
+                  <div className="text-gray-500 dark:text-gray-400">{formatDate(item.data.date)}</div>
+                </div>
+                <div className="rounded-lg bg-gray-50 dark:bg-gray-700/50 p-2">
+                  <div className="font-medium text-gray-700 dark:text-gray-300">
+                    {sameMonth ? 'Versi server' : 'Sebelumnya di server'}
+                  </div>
+                  <div className="text-gray-700 dark:text-gray-300">{conflict.server_reading.reading} m³</div>
+                  <div className="text-gray-500 dark:text-gray-400">{formatDate(conflict.server_reading.date)}</div>
+                </div>
+              </div>
+
+              {mergingId === item.id && (
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={mergeForm.reading}
+                    onChange={e => setMergeForm({ ...mergeForm, reading: e.target.value })}
+                    className="w-24 px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <input
+                    type="date"
+                    value={mergeForm.date}
+                    onChange={e => setMergeForm({ ...mergeForm, date: e.target.value })}
+                    className="flex-1 px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2 pt-1">
+                {mergingId === item.id ? (
+                  <>
+                    <button
+                      type="button"
+                      disabled={resolvingId === item.id}
+                      onClick={() => resolve(item, 'merge')}
+                      className="px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Simpan Gabungan
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setMergingId(null)}
+                      className="px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                    >
+                      Batal
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      disabled={resolvingId === item.id}
+                      onClick={() => resolve(item, 'local')}
+                      className="px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Pakai Versi Saya
+                    </button>
+                    <button
+                      type="button"
+                      disabled={resolvingId === item.id}
+                      onClick={() => resolve(item, 'server')}
+                      className="px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                    >
+                      {sameMonth ? 'Pakai Versi Server' : 'Buang Versi Saya'}
+                    </button>
+                    <button
+                      type="button"
+                      disabled={resolvingId === item.id}
+                      onClick={() => startMerging(item)}
+                      className="px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+                    >
+                      Gabungkan
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
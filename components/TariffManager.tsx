@@ -0,0 +1,441 @@
+/**
+ * Tariff Manager Component
+ * Allows admins to publish new tariff versions with an effective date
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { FiDollarSign, FiPlus, FiSave, FiTrash2, FiX, FiCalendar } from 'react-icons/fi';
+import { Tariff, TariffTier, TariffFee, TariffClass } from '@/types/types';
+import { TariffService, TARIFF_CLASSES } from '@/lib/tariffService';
+import { formatDateID } from '@/utils/dateFormat';
+
+interface TariffManagerProps {
+  createdBy: string;
+}
+
+// Tiers and fees in the form carry a key so each row keeps its inputs when rows are added or removed
+type EditableRow<T> = T & { key: number };
+
+let nextRowKey = 0;
+const toEditable = <T,>(row: T): EditableRow<T> => ({ ...row, key: nextRowKey++ });
+const fromEditable = <T,>({ key: _key, ...row }: EditableRow<T>): T => row as T;
+
+export default function TariffManager({ createdBy }: TariffManagerProps) {
+  const [tariffs, setTariffs] = useState<Tariff[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(new Date().toISOString().split('T')[0]);
+  const [tiers, setTiers] = useState<EditableRow<TariffTier>[]>([]);
+  const [classTiers, setClassTiers] = useState<Partial<Record<TariffClass, EditableRow<TariffTier>[]>>>({});
+  const [fixedFees, setFixedFees] = useState<EditableRow<TariffFee>[]>([]);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<{type: string, text: string} | null>(null);
+
+  const loadTariffs = useCallback(async () => {
+    const data = await TariffService.loadTariffs();
+    setTariffs([...data].sort((a, b) => b.effective_from.localeCompare(a.effective_from)));
+  }, []);
+
+  useEffect(() => {
+    loadTariffs();
+  }, [loadTariffs]);
+
+  const today = new Date().toISOString().split('T')[0];
+  const currentTariff = TariffService.getTariffForDate(today, tariffs);
+
+  const openForm = () => {
+    // Start from the tariff currently in force so small price changes are quick to enter
+    setName('');
+    setEffectiveFrom(today);
+    setTiers(currentTariff.tiers.map(toEditable));
+    setClassTiers(Object.fromEntries(
+      Object.entries(currentTariff.class_tiers || {}).map(([tariffClass, list]) => [tariffClass, (list || []).map(toEditable)])
+    ));
+    setFixedFees(currentTariff.fixed_fees.map(toEditable));
+    setNotes('');
+    setShowForm(true);
+  };
+
+  const updateTier = (list: EditableRow<TariffTier>[], index: number, updates: Partial<TariffTier>) => {
+    return list.map((tier, i) => (i === index ? { ...tier, ...updates } : tier));
+  };
+
+  const addTier = (list: EditableRow<TariffTier>[]) => {
+    // New tiers are inserted before the open-ended last tier
+    const lastBound = list.length > 1 ? list[list.length - 2].up_to || 0 : 0;
+    const newTier = toEditable<TariffTier>({ up_to: lastBound + 10, rate: list[list.length - 1]?.rate || 0 });
+    return [...list.slice(0, -1), newTier, ...list.slice(-1)];
+  };
+
+  const removeTier = (list: EditableRow<TariffTier>[], index: number) => {
+    return list.filter((_, i) => i !== index);
+  };
+
+  const toggleClassTiers = (tariffClass: TariffClass) => {
+    // A class without its own tiers is billed with the standard tiers
+    const { [tariffClass]: existing, ...rest } = classTiers;
+    setClassTiers(existing ? rest : { ...classTiers, [tariffClass]: tiers.map(tier => toEditable(fromEditable(tier))) });
+  };
+
+  const updateFee = (index: number, updates: Partial<TariffFee>) => {
+    setFixedFees(fixedFees.map((fee, i) => (i === index ? { ...fee, ...updates } : fee)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      await TariffService.createTariff({
+        name,
+        effective_from: effectiveFrom,
+        tiers: tiers.map(fromEditable),
+        class_tiers: Object.fromEntries(
+          Object.entries(classTiers).map(([tariffClass, list]) => [tariffClass, (list || []).map(fromEditable)])
+        ),
+        fixed_fees: fixedFees.map(fromEditable),
+        notes
+      }, createdBy);
+
+      setMessage({ type: 'success', text: 'Tarif baru berhasil disimpan!' });
+      setShowForm(false);
+      await loadTariffs();
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      console.error('Error saving tariff:', error);
+      setMessage({ type: 'error', text: error.message || 'Gagal menyimpan tarif' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (tariff: Tariff) => {
+    if (!window.confirm(`Hapus tarif "${tariff.name}" yang belum berlaku?`)) return;
+
+    try {
+      await TariffService.deleteFutureTariff(tariff);
+      await loadTariffs();
+      setMessage({ type: 'success', text: 'Tarif berhasil dihapus' });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message || 'Gagal menghapus tarif' });
+    }
+  };
+
+  const formatTiers = (list: TariffTier[]) => {
+    let lowerBound = 0;
+    return list.map(tier => {
+      const range = TariffService.formatTierRange({ from: lowerBound + 1, to: tier.up_to });
+      lowerBound = tier.up_to || lowerBound;
+      return `${range}: Rp ${tier.rate.toLocaleString('id-ID')}`;
+    }).join(' • ');
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 dark:text-white text-sm';
+
+  const renderTierEditor = (list: EditableRow<TariffTier>[], onChange: (tiers: EditableRow<TariffTier>[]) => void) => (
+    <div className="space-y-2">
+      {list.map((tier, index) => {
+        const isLast = index === list.length - 1;
+        return (
+          <div key={tier.key} className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600 dark:text-gray-400 w-24">
+              {isLast ? 'Sisanya' : 'Sampai (m³)'}
+            </span>
+            {!isLast && (
+              <input
+                type="number"
+                min="1"
+                value={tier.up_to ?? ''}
+                onChange={(e) => onChange(updateTier(list, index, { up_to: parseFloat(e.target.value) }))}
+                className={inputClass}
+                required
+              />
+            )}
+            <span className="text-sm text-gray-600 dark:text-gray-400">Rp/m³</span>
+            <input
+              type="number"
+              min="0"
+              value={tier.rate}
+              onChange={(e) => onChange(updateTier(list, index, { rate: parseFloat(e.target.value) }))}
+              className={inputClass}
+              required
+            />
+            {!isLast && (
+              <button type="button" onClick={() => onChange(removeTier(list, index))} className="p-2 text-red-600 dark:text-red-400">
+                <FiTrash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white flex items-center">
+            <FiDollarSign className="mr-2 text-blue-500" />
+            Tarif Air
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Tagihan dihitung dengan tarif yang berlaku pada tanggal pembacaan meter
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={openForm}
+            className="flex items-center px-4 py-2 bg-gradient-to-r from-blue-500 to-cyan-500 text-white rounded-xl font-medium hover:from-blue-600 hover:to-cyan-600 transition-all duration-300 text-sm"
+          >
+            <FiPlus className="mr-2" />
+            Tarif Baru
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-xl ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300'
+            : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4 mb-8 p-4 border border-gray-200 dark:border-gray-700 rounded-xl">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="tariffName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Nama Tarif
+              </label>
+              <input
+                id="tariffName"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Contoh: Tarif 2026"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="effectiveFrom" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Berlaku Mulai
+              </label>
+              <input
+                id="effectiveFrom"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+
+          {/* Usage Tiers */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Tingkat Pemakaian (Standar)</span>
+              <button type="button" onClick={() => setTiers(addTier(tiers))} className="text-sm text-blue-600 dark:text-blue-400 flex items-center">
+                <FiPlus className="mr-1" /> Tambah Tingkat
+              </button>
+            </div>
+            {renderTierEditor(tiers, setTiers)}
+          </div>
+
+          {/* Tariff Class Tiers */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Tarif Khusus per Golongan</span>
+            <div className="space-y-3">
+              {TARIFF_CLASSES.filter(c => c.value !== 'household').map(tariffClass => {
+                const list = classTiers[tariffClass.value];
+                return (
+                  <div key={tariffClass.value} className="p-3 rounded-xl bg-gray-50 dark:bg-gray-700">
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={!!list}
+                          onChange={() => toggleClassTiers(tariffClass.value)}
+                          className="mr-2"
+                        />
+                        {tariffClass.label}
+                      </label>
+                      {list ? (
+                        <button
+                          type="button"
+                          onClick={() => setClassTiers({ ...classTiers, [tariffClass.value]: addTier(list) })}
+                          className="text-sm text-blue-600 dark:text-blue-400 flex items-center"
+                        >
+                          <FiPlus className="mr-1" /> Tambah Tingkat
+                        </button>
+                      ) : (
+                        <span className="text-xs text-gray-500 dark:text-gray-400">Memakai tarif standar</span>
+                      )}
+                    </div>
+                    {list && renderTierEditor(list, (updated) => setClassTiers({ ...classTiers, [tariffClass.value]: updated }))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Fixed Fees */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Biaya Tetap</span>
+              <button
+                type="button"
+                onClick={() => setFixedFees([...fixedFees, toEditable<TariffFee>({ name: '', amount: 0 })])}
+                className="text-sm text-blue-600 dark:text-blue-400 flex items-center"
+              >
+                <FiPlus className="mr-1" /> Tambah Biaya
+              </button>
+            </div>
+            <div className="space-y-2">
+              {fixedFees.map((fee, index) => (
+                <div key={fee.key} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={fee.name}
+                    onChange={(e) => updateFee(index, { name: e.target.value })}
+                    placeholder="Nama biaya"
+                    className={inputClass}
+                    required
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    value={fee.amount}
+                    onChange={(e) => updateFee(index, { amount: parseFloat(e.target.value) })}
+                    className={inputClass}
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setFixedFees(fixedFees.filter((_, i) => i !== index))}
+                    className="p-2 text-red-600 dark:text-red-400"
+                  >
+                    <FiTrash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="tariffNotes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Catatan
+            </label>
+            <textarea
+              id="tariffNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              placeholder="Contoh: Keputusan rapat warga Desember 2025"
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white px-5 py-3 rounded-xl font-medium hover:from-blue-600 hover:to-cyan-600 transition-all duration-300 flex items-center justify-center"
+            >
+              <FiSave className="mr-2" />
+              {loading ? 'Menyimpan...' : 'Simpan Tarif'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="bg-gray-500 text-white px-5 py-3 rounded-xl font-medium hover:bg-gray-600 transition-all duration-300 flex items-center justify-center"
+            >
+              <FiX className="mr-2" />
+              Batal
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Tariff History */}
+      <div className="space-y-3">
+        {tariffs.length === 0 && (
+          <div className="p-4 rounded-xl border bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Belum ada tarif tersimpan. Tagihan memakai tarif standar: {formatTiers(currentTariff.tiers)}
+            </p>
+          </div>
+        )}
+        {tariffs.map((tariff) => {
+          const isCurrent = tariff.id === currentTariff.id;
+          const isFuture = tariff.effective_from > today;
+          return (
+            <div
+              key={tariff.id}
+              className={`p-4 rounded-xl border ${
+                isCurrent
+                  ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+                  : 'bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <span className="font-semibold text-gray-800 dark:text-white">{tariff.name}</span>
+                    {isCurrent && (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+                        Berlaku
+                      </span>
+                    )}
+                    {isFuture && (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                        Akan Datang
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">{formatTiers(tariff.tiers)}</p>
+                  {Object.entries(tariff.class_tiers || {}).map(([tariffClass, list]) => (
+                    <p key={tariffClass} className="text-sm text-gray-600 dark:text-gray-400 mb-1">
+                      <span className="font-medium">{TariffService.getClassLabel(tariffClass as TariffClass)}:</span> {formatTiers(list || [])}
+                    </p>
+                  ))}
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">
+                    {tariff.fixed_fees.map(fee => `${fee.name}: Rp ${fee.amount.toLocaleString('id-ID')}`).join(' • ') || 'Tanpa biaya tetap'}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-500 flex items-center">
+                    <FiCalendar className="mr-1" />
+                    Berlaku mulai {formatDateID(tariff.effective_from)}
+                  </p>
+                  {tariff.notes && (
+                    <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">{tariff.notes}</p>
+                  )}
+                </div>
+                {isFuture && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(tariff)}
+                    className="p-2 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 transition-colors"
+                    title="Hapus tarif"
+                  >
+                    <FiTrash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
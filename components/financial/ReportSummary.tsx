@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { FinancialReport, CategorySummary } from '@/types/financial';
+import { DiscountService } from '@/lib/discountService';
 import { formatDateID } from '@/utils/dateFormat';
 
 interface ReportSummaryProps {
@@ -218,6 +219,35 @@ const ReportSummary: React.FC<ReportSummaryProps> = ({ report }) => {
         </div>
       </div>
 
+      {/* Discount Approvals */}
+      {report.discount_approvals && report.discount_approvals.length > 0 && (
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h4 className="font-medium text-gray-900 dark:text-white mb-2">
+            Persetujuan Diskon
+          </h4>
+          <div className="space-y-2">
+            {report.discount_approvals.map(entry => (
+              <div key={entry.id} className="flex justify-between items-start text-sm border-b border-gray-200 dark:border-gray-600 pb-2 last:border-b-0 last:pb-0">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {entry.discount
+                      ? `${DiscountService.describeValue(entry.discount)} - ${DiscountService.describeTarget(entry.discount)}`
+                      : 'Diskon'}
+                  </p>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    {DiscountService.getApprovalActionLabel(entry.action)} oleh {entry.actor}
+                    {entry.reason && ` • ${entry.reason}`}
+                  </p>
+                </div>
+                <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap ml-4">
+                  {formatDateID(entry.created_at)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Validation Summary */}
       <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
         <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">
@@ -1,5 +1,5 @@
 import { Transaction } from '@/types/financial';
-import { formatDateID } from '@/utils/dateFormat';
+import { formatDateID, formatMonthYearID } from '@/utils/dateFormat';
 import { FiEdit, FiTrash2, FiTrendingUp, FiTrendingDown } from 'react-icons/fi';
 import Button from '@/components/Button';
 
@@ -112,6 +112,11 @@ export default function TransactionItem({
         <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
           {transaction.description}
         </div>
+        {transaction.rt && transaction.billing_month && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Setoran {transaction.rt} • Periode {formatMonthYearID(transaction.billing_month)}
+          </div>
+        )}
       </td>
       <td className="px-6 py-4 whitespace-nowrap">
         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
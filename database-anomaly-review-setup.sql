@@ -0,0 +1,45 @@
+-- Anomaly Review Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-gauge-usage-setup.sql
+
+-- Admin review of a reading flagged as a usage anomaly; one review per reading
+CREATE TABLE IF NOT EXISTS reading_anomaly_reviews (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reading_id UUID NOT NULL UNIQUE REFERENCES meter_readings(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    billing_month VARCHAR(7) NOT NULL, -- YYYY-MM of the flagged reading
+    anomaly_types TEXT[] NOT NULL DEFAULT '{}', -- Anomalies shown when the reading was reviewed
+    status VARCHAR(20) NOT NULL CHECK (status IN ('confirmed', 'dismissed')),
+    note TEXT,
+    reviewed_by TEXT NOT NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_reading_anomaly_reviews_month
+ON reading_anomaly_reviews(billing_month);
+
+CREATE INDEX IF NOT EXISTS idx_reading_anomaly_reviews_customer_id
+ON reading_anomaly_reviews(customer_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE reading_anomaly_reviews IS 'Admin review results for readings flagged as usage anomalies';
+COMMENT ON COLUMN reading_anomaly_reviews.anomaly_types IS 'Anomaly types: zero_usage, flat_line, spike, drop, negative_usage, possible_leak';
+COMMENT ON COLUMN reading_anomaly_reviews.status IS 'confirmed = real problem being followed up, dismissed = false alarm';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE reading_anomaly_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for authenticated users (compatible with existing RLS setup)
+DROP POLICY IF EXISTS "reading_anomaly_reviews_policy" ON reading_anomaly_reviews;
+CREATE POLICY "reading_anomaly_reviews_policy" ON reading_anomaly_reviews
+    FOR ALL
+    USING (true);
+
+-- Verify the table was created successfully
+SELECT
+    column_name,
+    data_type,
+    is_nullable
+FROM information_schema.columns
+WHERE table_name = 'reading_anomaly_reviews'
+ORDER BY ordinal_position;
@@ -0,0 +1,101 @@
+-- Bill Ledger Table Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-tariff-class-setup.sql
+
+-- Create bills table
+-- Each row freezes one customer's billing calculation for a month, so printed
+-- amounts never change when tariffs, discounts or readings are edited later
+CREATE TABLE IF NOT EXISTS bills (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    bill_number VARCHAR(20) NOT NULL, -- TAG-YYYYMM-0001
+    billing_month VARCHAR(7) NOT NULL, -- Format: YYYY-MM
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+    customer_name TEXT NOT NULL,
+    customer_rt VARCHAR(10),
+    tariff_class VARCHAR(20) NOT NULL DEFAULT 'household',
+    reading_id UUID REFERENCES meter_readings(id) ON DELETE SET NULL,
+    previous_reading_id UUID REFERENCES meter_readings(id) ON DELETE SET NULL,
+    reading_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    previous_reading DECIMAL(10,2) NOT NULL,
+    previous_reading_date TIMESTAMP WITH TIME ZONE,
+    current_reading DECIMAL(10,2) NOT NULL,
+    usage DECIMAL(10,2) NOT NULL,
+    tariff_id TEXT NOT NULL,
+    tariff_name TEXT NOT NULL,
+    tier_charges JSONB NOT NULL DEFAULT '[]'::jsonb,
+    fixed_fees JSONB NOT NULL DEFAULT '[]'::jsonb,
+    base_amount DECIMAL(12,2) NOT NULL,
+    discount JSONB,
+    discount_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(12,2) NOT NULL,
+    paid_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    status VARCHAR(10) NOT NULL DEFAULT 'draft',
+    issued_at TIMESTAMP WITH TIME ZONE,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    voided_at TIMESTAMP WITH TIME ZONE,
+    void_reason TEXT,
+    created_by TEXT NOT NULL DEFAULT 'admin',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    -- Ensure billing_month is in YYYY-MM format
+    CONSTRAINT check_bill_month_format CHECK (billing_month ~ '^\d{4}-\d{2}$'),
+    
+    -- Status lifecycle: draft -> issued -> partial/paid, or void
+    CONSTRAINT check_bill_status CHECK (status IN ('draft', 'issued', 'partial', 'paid', 'void')),
+    
+    -- Amounts can never be negative
+    CONSTRAINT check_bill_amounts CHECK (total_amount >= 0 AND paid_amount >= 0 AND discount_amount >= 0),
+    
+    -- Bill numbers are never reused, even for voided bills
+    CONSTRAINT unique_bill_number UNIQUE (bill_number)
+);
+
+-- Bills tables created before bills were linked to their readings
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS reading_id UUID REFERENCES meter_readings(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS previous_reading_id UUID REFERENCES meter_readings(id) ON DELETE SET NULL;
+
+-- Only one active (non-void) bill per customer per month
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bills_customer_month_active
+ON bills(customer_id, billing_month)
+WHERE status <> 'void';
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_bills_billing_month 
+ON bills(billing_month);
+
+CREATE INDEX IF NOT EXISTS idx_bills_status 
+ON bills(status);
+
+CREATE INDEX IF NOT EXISTS idx_bills_reading_id
+ON bills(reading_id);
+
+CREATE INDEX IF NOT EXISTS idx_bills_previous_reading_id
+ON bills(previous_reading_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE bills IS 'Monthly bill ledger; reports read closed months from here instead of recalculating';
+COMMENT ON COLUMN bills.bill_number IS 'Unique bill number, printed on the receipt';
+COMMENT ON COLUMN bills.tier_charges IS 'Usage and amount per tariff tier at the time the bill was created';
+COMMENT ON COLUMN bills.discount IS 'Snapshot of the discount applied when the bill was created';
+COMMENT ON COLUMN bills.status IS 'draft, issued, partial, paid or void';
+COMMENT ON COLUMN bills.reading_id IS 'Reading the bill was calculated from; empty for bills generated before readings were linked';
+COMMENT ON COLUMN bills.previous_reading_id IS 'Previous reading the usage was calculated from';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE bills ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for authenticated users (compatible with existing RLS setup)
+DROP POLICY IF EXISTS "bills_policy" ON bills;
+CREATE POLICY "bills_policy" ON bills
+    FOR ALL 
+    USING (true);
+
+-- Verify the table was created successfully
+SELECT 
+    table_name, 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'bills' 
+ORDER BY ordinal_position;
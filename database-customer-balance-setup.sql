@@ -0,0 +1,31 @@
+-- Customer Balance Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-penalty-setup.sql
+
+-- Overpayments stay on the bill (paid_amount may exceed the amount due) and form the
+-- customer's running balance. Each new bill records the balance carried into it.
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS previous_balance DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS credit_applied DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bills
+DROP CONSTRAINT IF EXISTS check_bill_credit_applied;
+ALTER TABLE bills
+ADD CONSTRAINT check_bill_credit_applied CHECK (credit_applied >= 0 AND credit_applied <= total_amount);
+
+-- Add comments for documentation
+COMMENT ON COLUMN bills.previous_balance IS 'Customer balance from earlier bills when this bill was generated: credit (+) or arrears (-)';
+COMMENT ON COLUMN bills.credit_applied IS 'Part of the previous credit used to settle this bill';
+COMMENT ON COLUMN bills.paid_amount IS 'Payments recorded against this bill, may exceed the amount due when the customer overpays';
+
+-- Verify the columns were created successfully
+SELECT 
+    table_name, 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'bills' 
+  AND column_name IN ('previous_balance', 'credit_applied')
+ORDER BY ordinal_position;
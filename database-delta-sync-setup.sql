@@ -0,0 +1,95 @@
+-- Delta Sync Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-user-management-setup.sql
+
+-- Offline devices download only rows changed since their last download (updated_at),
+-- plus tombstones for rows deleted in the meantime.
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE meter_readings
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+UPDATE customers SET updated_at = COALESCE(created_at, NOW()) WHERE updated_at IS NULL;
+UPDATE meter_readings SET updated_at = COALESCE(created_at, NOW()) WHERE updated_at IS NULL;
+
+-- Keep updated_at current (function from database-user-management-setup.sql)
+DROP TRIGGER IF EXISTS update_customers_updated_at ON customers;
+CREATE TRIGGER update_customers_updated_at
+    BEFORE UPDATE ON customers
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_meter_readings_updated_at ON meter_readings;
+CREATE TRIGGER update_meter_readings_updated_at
+    BEFORE UPDATE ON meter_readings
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create sync_tombstones table
+-- One row per deleted record, so devices can remove it from their offline copy
+CREATE TABLE IF NOT EXISTS sync_tombstones (
+    id BIGSERIAL PRIMARY KEY,
+    table_name VARCHAR(50) NOT NULL,
+    record_id UUID NOT NULL,
+    rt VARCHAR(10),
+    deleted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Record deletions. A customer moving to another RT is also a deletion for devices of the old RT.
+CREATE OR REPLACE FUNCTION public.record_sync_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'customers' THEN
+        IF TG_OP = 'DELETE' OR OLD.rt IS DISTINCT FROM NEW.rt THEN
+            INSERT INTO sync_tombstones (table_name, record_id, rt) VALUES ('customers', OLD.id, OLD.rt);
+        END IF;
+    ELSE
+        INSERT INTO sync_tombstones (table_name, record_id) VALUES (TG_TABLE_NAME, OLD.id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_customers_tombstone ON customers;
+CREATE TRIGGER record_customers_tombstone
+    AFTER DELETE OR UPDATE OF rt ON customers
+    FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+
+DROP TRIGGER IF EXISTS record_meter_readings_tombstone ON meter_readings;
+CREATE TRIGGER record_meter_readings_tombstone
+    AFTER DELETE ON meter_readings
+    FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_customers_updated_at
+ON customers(updated_at);
+
+CREATE INDEX IF NOT EXISTS idx_meter_readings_updated_at
+ON meter_readings(updated_at);
+
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_table_deleted_at
+ON sync_tombstones(table_name, deleted_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE sync_tombstones IS 'Deleted customers and meter readings, downloaded by offline devices to drop their local copies';
+COMMENT ON COLUMN sync_tombstones.rt IS 'RT the customer belonged to, so devices of that RT remove it';
+COMMENT ON COLUMN customers.updated_at IS 'Last change, used as the high-water mark for delta downloads';
+COMMENT ON COLUMN meter_readings.updated_at IS 'Last change, used as the high-water mark for delta downloads';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE sync_tombstones ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for authenticated users (compatible with existing RLS setup)
+DROP POLICY IF EXISTS "sync_tombstones_policy" ON sync_tombstones;
+CREATE POLICY "sync_tombstones_policy" ON sync_tombstones
+    FOR ALL
+    USING (true);
+
+-- Verify the columns were created successfully
+SELECT
+    table_name,
+    column_name,
+    data_type,
+    is_nullable
+FROM information_schema.columns
+WHERE table_name = 'sync_tombstones'
+   OR (table_name IN ('customers', 'meter_readings') AND column_name = 'updated_at')
+ORDER BY table_name, ordinal_position;
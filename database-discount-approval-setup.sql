@@ -0,0 +1,62 @@
+-- Discount Approval Workflow Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-discount-rules-setup.sql
+
+-- Discounts above the approval thresholds stay pending until a second admin decides.
+-- Existing discounts are treated as approved.
+ALTER TABLE customer_discounts
+ADD COLUMN IF NOT EXISTS approval_status VARCHAR(10) NOT NULL DEFAULT 'approved';
+
+ALTER TABLE customer_discounts
+DROP CONSTRAINT IF EXISTS check_discount_approval_status;
+ALTER TABLE customer_discounts
+ADD CONSTRAINT check_discount_approval_status CHECK (approval_status IN ('pending', 'approved', 'rejected'));
+
+-- Create discount_approvals table
+-- Append-only audit trail of approval requests and decisions
+CREATE TABLE IF NOT EXISTS discount_approvals (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    discount_id UUID NOT NULL REFERENCES customer_discounts(id) ON DELETE CASCADE,
+    action VARCHAR(10) NOT NULL,
+    reason TEXT,
+    actor TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    CONSTRAINT check_discount_approval_action CHECK (action IN ('requested', 'approved', 'rejected')),
+    -- Decisions must always explain why
+    CONSTRAINT check_discount_approval_reason CHECK (action = 'requested' OR (reason IS NOT NULL AND reason <> ''))
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_discount_approvals_discount_id 
+ON discount_approvals(discount_id);
+
+CREATE INDEX IF NOT EXISTS idx_discount_approvals_created_at 
+ON discount_approvals(created_at);
+
+CREATE INDEX IF NOT EXISTS idx_customer_discounts_approval_status
+ON customer_discounts(approval_status);
+
+-- Add comments for documentation
+COMMENT ON COLUMN customer_discounts.approval_status IS 'pending, approved or rejected; only approved discounts reduce bills';
+COMMENT ON TABLE discount_approvals IS 'Audit trail of discount approval requests and decisions';
+COMMENT ON COLUMN discount_approvals.actor IS 'Admin who requested, approved or rejected the discount';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE discount_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for authenticated users (compatible with existing RLS setup)
+DROP POLICY IF EXISTS "discount_approvals_policy" ON discount_approvals;
+CREATE POLICY "discount_approvals_policy" ON discount_approvals
+    FOR ALL 
+    USING (true);
+
+-- Verify the columns were created successfully
+SELECT 
+    table_name, 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'discount_approvals'
+   OR (table_name = 'customer_discounts' AND column_name = 'approval_status')
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,83 @@
+-- Recurring and Rule-Based Discounts Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-customer-balance-setup.sql
+
+-- Discounts can target one customer, a whole RT or a tariff class
+ALTER TABLE customer_discounts
+ADD COLUMN IF NOT EXISTS scope VARCHAR(20) NOT NULL DEFAULT 'customer';
+
+ALTER TABLE customer_discounts
+ADD COLUMN IF NOT EXISTS target_rt VARCHAR(10);
+
+ALTER TABLE customer_discounts
+ADD COLUMN IF NOT EXISTS target_tariff_class VARCHAR(20);
+
+ALTER TABLE customer_discounts
+ALTER COLUMN customer_id DROP NOT NULL;
+
+-- Free allowance: the first N m³ of usage are not charged
+ALTER TABLE customer_discounts
+ADD COLUMN IF NOT EXISTS free_usage DECIMAL(10,2) DEFAULT 0 CHECK (free_usage >= 0);
+
+-- Recurring discounts apply every month from discount_month until end_month (NULL = open-ended)
+ALTER TABLE customer_discounts
+ADD COLUMN IF NOT EXISTS is_recurring BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE customer_discounts
+ADD COLUMN IF NOT EXISTS end_month VARCHAR(7);
+
+-- Several discounts may now cover the same month; precedence is resolved when bills are created
+ALTER TABLE customer_discounts
+DROP CONSTRAINT IF EXISTS unique_customer_month_active;
+
+-- Exactly one kind of reduction per discount
+ALTER TABLE customer_discounts
+DROP CONSTRAINT IF EXISTS check_discount_type;
+ALTER TABLE customer_discounts
+ADD CONSTRAINT check_discount_type CHECK (
+    (CASE WHEN discount_percentage > 0 THEN 1 ELSE 0 END) +
+    (CASE WHEN COALESCE(discount_amount, 0) > 0 THEN 1 ELSE 0 END) +
+    (CASE WHEN COALESCE(free_usage, 0) > 0 THEN 1 ELSE 0 END) = 1
+);
+
+ALTER TABLE customer_discounts
+DROP CONSTRAINT IF EXISTS check_discount_scope;
+ALTER TABLE customer_discounts
+ADD CONSTRAINT check_discount_scope CHECK (
+    (scope = 'customer' AND customer_id IS NOT NULL) OR
+    (scope = 'rt' AND target_rt IS NOT NULL) OR
+    (scope = 'tariff_class' AND target_tariff_class IN ('household', 'social', 'commercial', 'institution'))
+);
+
+ALTER TABLE customer_discounts
+DROP CONSTRAINT IF EXISTS check_discount_end_month;
+ALTER TABLE customer_discounts
+ADD CONSTRAINT check_discount_end_month CHECK (
+    end_month IS NULL OR (is_recurring AND end_month >= discount_month)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_customer_discounts_scope_active
+ON customer_discounts(scope, is_active);
+
+-- Every discount applied to a bill, in the order they were applied
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS applied_discounts JSONB;
+
+-- Add comments for documentation
+COMMENT ON COLUMN customer_discounts.scope IS 'Discount target: customer, rt or tariff_class';
+COMMENT ON COLUMN customer_discounts.free_usage IS 'Free allowance in m³, mutually exclusive with percentage and amount';
+COMMENT ON COLUMN customer_discounts.discount_month IS 'Month for which discount applies (YYYY-MM format), the first month of a recurring discount';
+COMMENT ON COLUMN customer_discounts.is_recurring IS 'Whether the discount applies every month from discount_month';
+COMMENT ON COLUMN customer_discounts.end_month IS 'Last month of a recurring discount (YYYY-MM), NULL when open-ended';
+COMMENT ON COLUMN bills.applied_discounts IS 'Discounts applied to the bill with their amounts';
+
+-- Verify the columns were created successfully
+SELECT 
+    table_name, 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE (table_name = 'customer_discounts' AND column_name IN ('scope', 'target_rt', 'target_tariff_class', 'free_usage', 'is_recurring', 'end_month'))
+   OR (table_name = 'bills' AND column_name = 'applied_discounts')
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,30 @@
+-- Estimated Readings Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-bill-ledger-setup.sql and database-meter-rollover-setup.sql
+
+-- A reading proposed from the customer's usage history because the meter could not be read
+-- (gate locked, meter under water); the next actual reading trues it up
+ALTER TABLE meter_readings
+ADD COLUMN IF NOT EXISTS estimated BOOLEAN NOT NULL DEFAULT false;
+
+-- Bills billed on an estimate, and the true-up on the bill of the next actual reading
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS estimated BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS true_up_usage DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS true_up_credit DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (true_up_credit >= 0);
+
+-- Add comments for documentation
+COMMENT ON COLUMN meter_readings.estimated IS 'Reading proposed from usage history because the meter could not be read';
+COMMENT ON COLUMN bills.estimated IS 'Bill based on an estimated reading';
+COMMENT ON COLUMN bills.true_up_usage IS 'Actual minus estimated reading when the previous reading was estimated, NULL otherwise';
+COMMENT ON COLUMN bills.true_up_credit IS 'Refund for usage billed too much on the estimate, already taken off total_amount';
+
+-- Verify the columns were created successfully
+SELECT
+    table_name,
+    column_name,
+    data_type,
+    is_nullable
+FROM information_schema.columns
+WHERE (table_name = 'meter_readings' AND column_name = 'estimated')
+   OR (table_name = 'bills' AND column_name IN ('estimated', 'true_up_usage', 'true_up_credit'))
+ORDER BY table_name, column_name;
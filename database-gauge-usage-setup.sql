@@ -0,0 +1,23 @@
+-- Gauge Usage Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-meter-adjustments-setup.sql and database-bill-ledger-setup.sql
+
+-- Usage per gauge when a gauge was replaced during the billing period:
+-- the old gauge up to its final reading, then the new gauge from its start reading
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS gauge_usage JSONB;
+
+-- Gauge replacements are looked up per customer when bills are calculated
+CREATE INDEX IF NOT EXISTS idx_meter_adjustments_customer_type_date
+ON meter_adjustments(customer_id, adjustment_type, adjustment_date);
+
+-- Add comments for documentation
+COMMENT ON COLUMN bills.gauge_usage IS 'Usage per gauge (start, end, usage, replaced_on) when the gauge was replaced during the period';
+
+-- Verify the column was created successfully
+SELECT
+    table_name,
+    column_name,
+    data_type,
+    is_nullable
+FROM information_schema.columns
+WHERE table_name = 'bills' AND column_name = 'gauge_usage';
@@ -0,0 +1,36 @@
+-- Meter Photos Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-delta-sync-setup.sql
+
+-- Photo of the meter face taken with a reading, as evidence when a customer disputes it
+ALTER TABLE meter_readings
+ADD COLUMN IF NOT EXISTS photo_path TEXT;
+
+-- Create the storage bucket
+-- Photos are compressed on the device to JPEG well below 1 MB
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('meter-photos', 'meter-photos', true, 1048576, ARRAY['image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Create policy for the bucket (compatible with existing RLS setup)
+-- Uploads replace an earlier photo of the same reading, so updates are allowed too
+DROP POLICY IF EXISTS "meter_photos_policy" ON storage.objects;
+CREATE POLICY "meter_photos_policy" ON storage.objects
+    FOR ALL
+    USING (bucket_id = 'meter-photos')
+    WITH CHECK (bucket_id = 'meter-photos');
+
+-- Add comments for documentation
+COMMENT ON COLUMN meter_readings.photo_path IS 'Path of the meter photo in the meter-photos storage bucket (<customer id>/<name>.jpg)';
+
+-- Verify the column and bucket were created successfully
+SELECT
+    table_name,
+    column_name,
+    data_type,
+    is_nullable
+FROM information_schema.columns
+WHERE table_name = 'meter_readings' AND column_name = 'photo_path';
+
+SELECT id, public, file_size_limit, allowed_mime_types
+FROM storage.buckets
+WHERE id = 'meter-photos';
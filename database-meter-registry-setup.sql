@@ -0,0 +1,170 @@
+-- Meter Registry Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-meter-rollover-setup.sql and database-estimated-readings-setup.sql
+
+-- Physical water meters, installed on a customer's connection or kept in stock
+CREATE TABLE IF NOT EXISTS meters (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    serial_number TEXT NOT NULL UNIQUE,
+    brand TEXT,
+    digits INTEGER NOT NULL DEFAULT 6 CHECK (digits BETWEEN 1 AND 9), -- Register rolls over to 0 after 10^digits - 1
+    install_date DATE, -- Date the meter was installed on its current connection
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL, -- Current connection, NULL when not installed
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'removed', 'broken')),
+    notes TEXT,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Which meter was on which connection and when; removed_on is NULL while the meter is installed
+CREATE TABLE IF NOT EXISTS meter_assignments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    meter_id UUID NOT NULL REFERENCES meters(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    installed_on DATE NOT NULL,
+    removed_on DATE,
+    adjustment_id UUID REFERENCES meter_adjustments(id) ON DELETE SET NULL, -- Gauge replacement that installed the meter
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_assignment_period CHECK (removed_on IS NULL OR removed_on >= installed_on)
+);
+
+-- A connection has one meter at a time and a meter is on one connection at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meter_assignments_open_customer
+ON meter_assignments(customer_id) WHERE removed_on IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meter_assignments_open_meter
+ON meter_assignments(meter_id) WHERE removed_on IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_meter_assignments_meter_id
+ON meter_assignments(meter_id, installed_on DESC);
+
+CREATE INDEX IF NOT EXISTS idx_meters_customer_id
+ON meters(customer_id);
+
+-- Readings reference the meter they were taken from
+ALTER TABLE meter_readings
+ADD COLUMN IF NOT EXISTS meter_id UUID REFERENCES meters(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_meter_readings_meter_id
+ON meter_readings(meter_id);
+
+-- Gauge replacements name the removed and the installed meter
+ALTER TABLE meter_adjustments
+ADD COLUMN IF NOT EXISTS old_meter_id UUID REFERENCES meters(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS new_meter_id UUID REFERENCES meters(id) ON DELETE SET NULL;
+
+-- Install a meter on a connection: close the connection's open assignment, open a new one and
+-- copy the meter's digits to the customer so usage across a rollover stays right
+CREATE OR REPLACE FUNCTION public.install_meter(
+    p_meter_id UUID,
+    p_customer_id UUID,
+    p_installed_on DATE,
+    p_created_by TEXT,
+    p_adjustment_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE meters
+    SET customer_id = NULL,
+        status = CASE WHEN status = 'broken' THEN status ELSE 'removed' END,
+        updated_at = NOW()
+    WHERE id IN (
+        SELECT meter_id FROM meter_assignments
+        WHERE customer_id = p_customer_id AND removed_on IS NULL AND meter_id <> p_meter_id
+    );
+
+    UPDATE meter_assignments
+    SET removed_on = p_installed_on
+    WHERE removed_on IS NULL
+      AND (customer_id = p_customer_id OR meter_id = p_meter_id);
+
+    INSERT INTO meter_assignments (meter_id, customer_id, installed_on, adjustment_id, created_by)
+    VALUES (p_meter_id, p_customer_id, p_installed_on, p_adjustment_id, p_created_by);
+
+    UPDATE meters
+    SET customer_id = p_customer_id,
+        install_date = p_installed_on,
+        status = 'active',
+        updated_at = NOW()
+    WHERE id = p_meter_id;
+
+    UPDATE customers
+    SET meter_digits = (SELECT digits FROM meters WHERE id = p_meter_id)
+    WHERE id = p_customer_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record the meter transition of every gauge replacement that names the new meter, whichever device saved it
+CREATE OR REPLACE FUNCTION public.record_meter_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.install_meter(NEW.new_meter_id, NEW.customer_id, NEW.adjustment_date, NEW.created_by, NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_meter_adjustments_transition ON meter_adjustments;
+CREATE TRIGGER record_meter_adjustments_transition
+    AFTER INSERT ON meter_adjustments
+    FOR EACH ROW
+    WHEN (NEW.adjustment_type = 'gauge_replacement' AND NEW.new_meter_id IS NOT NULL)
+    EXECUTE FUNCTION public.record_meter_transition();
+
+-- Link each new reading to the meter that was on the connection on the reading date
+CREATE OR REPLACE FUNCTION public.set_reading_meter()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.meter_id IS NULL THEN
+        SELECT ma.meter_id INTO NEW.meter_id
+        FROM meter_assignments ma
+        WHERE ma.customer_id = NEW.customer_id
+          AND ma.installed_on <= NEW.date::DATE
+          AND (ma.removed_on IS NULL OR ma.removed_on > NEW.date::DATE)
+        ORDER BY ma.installed_on DESC
+        LIMIT 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_meter_readings_meter ON meter_readings;
+CREATE TRIGGER set_meter_readings_meter
+    BEFORE INSERT ON meter_readings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_reading_meter();
+
+-- Add comments for documentation
+COMMENT ON TABLE meters IS 'Water meter assets with serial number, brand, digit count and status';
+COMMENT ON COLUMN meters.status IS 'active = in service or in stock, removed = taken off a connection, broken = not usable';
+COMMENT ON TABLE meter_assignments IS 'History of which meter was installed on which connection and when';
+COMMENT ON COLUMN meter_readings.meter_id IS 'Meter the reading was taken from, set from meter_assignments when not given';
+COMMENT ON COLUMN meter_adjustments.new_meter_id IS 'Meter installed by a gauge replacement; the transition is recorded in meter_assignments';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE meters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE meter_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for authenticated users (compatible with existing RLS setup)
+DROP POLICY IF EXISTS "meters_policy" ON meters;
+CREATE POLICY "meters_policy" ON meters
+    FOR ALL
+    USING (true);
+
+DROP POLICY IF EXISTS "meter_assignments_policy" ON meter_assignments;
+CREATE POLICY "meter_assignments_policy" ON meter_assignments
+    FOR ALL
+    USING (true);
+
+-- Verify the tables were created successfully
+SELECT
+    table_name,
+    column_name,
+    data_type,
+    is_nullable
+FROM information_schema.columns
+WHERE table_name IN ('meters', 'meter_assignments')
+   OR (table_name = 'meter_readings' AND column_name = 'meter_id')
+   OR (table_name = 'meter_adjustments' AND column_name IN ('old_meter_id', 'new_meter_id'))
+ORDER BY table_name, ordinal_position;
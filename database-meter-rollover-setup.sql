@@ -0,0 +1,66 @@
+-- Meter Rollover Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-meter-adjustments-setup.sql and database-route-order-setup.sql
+
+-- Digits on each customer's meter register; older meters have 4 digits and roll over after 9999.
+-- NULL means the standard 6 digits.
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS meter_digits INTEGER CHECK (meter_digits BETWEEN 1 AND 9);
+
+-- A reading lower than the previous one that the collector confirmed as a rollover;
+-- usage is then counted across the wrap instead of as 0
+ALTER TABLE meter_readings
+ADD COLUMN IF NOT EXISTS rollover BOOLEAN NOT NULL DEFAULT false;
+
+-- Allow rollovers next to the other adjustment types
+ALTER TABLE meter_adjustments DROP CONSTRAINT IF EXISTS meter_adjustments_adjustment_type_check;
+ALTER TABLE meter_adjustments ADD CONSTRAINT meter_adjustments_adjustment_type_check
+    CHECK (adjustment_type IN ('gauge_replacement', 'manual_correction', 'meter_reset', 'rollover'));
+
+-- Record each rollover reading as a meter adjustment, whichever device saved it
+CREATE OR REPLACE FUNCTION public.record_meter_rollover()
+RETURNS TRIGGER AS $$
+DECLARE
+    previous_reading DECIMAL(10,2);
+BEGIN
+    SELECT mr.reading INTO previous_reading
+    FROM meter_readings mr
+    WHERE mr.customer_id = NEW.customer_id AND mr.date < NEW.date
+    ORDER BY mr.date DESC
+    LIMIT 1;
+
+    INSERT INTO meter_adjustments (customer_id, old_reading, new_reading, adjustment_type, reason, adjustment_date, created_by)
+    VALUES (
+        NEW.customer_id,
+        COALESCE(previous_reading, 0),
+        NEW.reading,
+        'rollover',
+        'Meter melewati angka maksimum dan kembali ke 0',
+        LEAST(NEW.date::DATE, CURRENT_DATE),
+        'system'
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_meter_readings_rollover ON meter_readings;
+CREATE TRIGGER record_meter_readings_rollover
+    AFTER INSERT ON meter_readings
+    FOR EACH ROW
+    WHEN (NEW.rollover)
+    EXECUTE FUNCTION public.record_meter_rollover();
+
+-- Add comments for documentation
+COMMENT ON COLUMN customers.meter_digits IS 'Digits on the meter register (NULL = 6); readings roll over to 0 after 10^digits - 1';
+COMMENT ON COLUMN meter_readings.rollover IS 'Reading taken after the register rolled over; usage is counted across the wrap';
+COMMENT ON COLUMN meter_adjustments.adjustment_type IS 'Type of adjustment: gauge_replacement, manual_correction, meter_reset, rollover';
+
+-- Verify the columns were created successfully
+SELECT
+    table_name,
+    column_name,
+    data_type,
+    is_nullable
+FROM information_schema.columns
+WHERE (table_name = 'customers' AND column_name = 'meter_digits')
+   OR (table_name = 'meter_readings' AND column_name = 'rollover')
+ORDER BY table_name;
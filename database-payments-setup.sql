@@ -0,0 +1,63 @@
+-- Payments Table Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-bill-ledger-setup.sql
+
+-- Create payments table
+-- Each row is one payment handed over by a household for one of its bills.
+-- bills.paid_amount is the running sum of the payments recorded here.
+CREATE TABLE IF NOT EXISTS payments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    bill_id UUID NOT NULL REFERENCES bills(id) ON DELETE RESTRICT,
+    bill_number VARCHAR(20) NOT NULL,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+    customer_rt VARCHAR(10),
+    billing_month VARCHAR(7) NOT NULL, -- Format: YYYY-MM
+    amount DECIMAL(12,2) NOT NULL,
+    payment_date DATE NOT NULL,
+    method VARCHAR(10) NOT NULL DEFAULT 'cash',
+    received_by TEXT NOT NULL,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    -- Ensure billing_month is in YYYY-MM format
+    CONSTRAINT check_payment_month_format CHECK (billing_month ~ '^\d{4}-\d{2}$'),
+    
+    -- Payments are always positive; mistakes are deleted, not reversed
+    CONSTRAINT check_payment_amount CHECK (amount > 0),
+    
+    CONSTRAINT check_payment_method CHECK (method IN ('cash', 'transfer'))
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_payments_bill_id 
+ON payments(bill_id);
+
+CREATE INDEX IF NOT EXISTS idx_payments_billing_month 
+ON payments(billing_month);
+
+CREATE INDEX IF NOT EXISTS idx_payments_customer_rt 
+ON payments(customer_rt);
+
+-- Add comments for documentation
+COMMENT ON TABLE payments IS 'Per-customer payments recorded against ledger bills';
+COMMENT ON COLUMN payments.payment_date IS 'Date the money was received from the household';
+COMMENT ON COLUMN payments.method IS 'cash or transfer';
+COMMENT ON COLUMN payments.received_by IS 'User who recorded the payment';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for authenticated users (compatible with existing RLS setup)
+DROP POLICY IF EXISTS "payments_policy" ON payments;
+CREATE POLICY "payments_policy" ON payments
+    FOR ALL 
+    USING (true);
+
+-- Verify the table was created successfully
+SELECT 
+    table_name, 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'payments' 
+ORDER BY ordinal_position;
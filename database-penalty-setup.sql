@@ -0,0 +1,64 @@
+-- Late Payment Penalty Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-rt-deposit-setup.sql
+
+-- Create penalty_policies table
+-- Policies are versioned like tariffs: a new row takes effect on effective_from
+-- and older rows are kept so penalties on past bills stay explainable
+CREATE TABLE IF NOT EXISTS penalty_policies (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    effective_from DATE NOT NULL,
+    type VARCHAR(10) NOT NULL DEFAULT 'flat',
+    amount DECIMAL(12,2) NOT NULL, -- IDR per late month (flat) or percent of the bill (percentage)
+    grace_days INTEGER NOT NULL DEFAULT 20, -- Bills are late after this day of the following month
+    max_amount DECIMAL(12,2), -- Cap on the total penalty per bill, NULL for no cap
+    notes TEXT,
+    created_by TEXT NOT NULL DEFAULT 'admin',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    CONSTRAINT check_penalty_type CHECK (type IN ('flat', 'percentage')),
+    CONSTRAINT check_penalty_amount CHECK (amount > 0 AND (type = 'flat' OR amount <= 100)),
+    CONSTRAINT check_penalty_grace_days CHECK (grace_days BETWEEN 0 AND 28),
+    CONSTRAINT check_penalty_max_amount CHECK (max_amount IS NULL OR max_amount > 0),
+    
+    -- Only one policy can take effect on a given date
+    CONSTRAINT unique_penalty_effective_from UNIQUE (effective_from)
+);
+
+-- Create index for performance
+CREATE INDEX IF NOT EXISTS idx_penalty_policies_effective_from 
+ON penalty_policies(effective_from);
+
+-- Add the accrued penalty to the bill ledger
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS penalty_amount DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bills
+DROP CONSTRAINT IF EXISTS check_bill_penalty_amount;
+ALTER TABLE bills
+ADD CONSTRAINT check_bill_penalty_amount CHECK (penalty_amount >= 0);
+
+-- Add comments for documentation
+COMMENT ON TABLE penalty_policies IS 'Versioned late payment penalty (denda) policies';
+COMMENT ON COLUMN penalty_policies.grace_days IS 'Day of the month after the billing month after which an unpaid bill is late';
+COMMENT ON COLUMN penalty_policies.max_amount IS 'Maximum total penalty per bill';
+COMMENT ON COLUMN bills.penalty_amount IS 'Late payment penalty charged so far, owed on top of total_amount';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE penalty_policies ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for authenticated users (compatible with existing RLS setup)
+DROP POLICY IF EXISTS "penalty_policies_policy" ON penalty_policies;
+CREATE POLICY "penalty_policies_policy" ON penalty_policies
+    FOR ALL 
+    USING (true);
+
+-- Verify the table was created successfully
+SELECT 
+    table_name, 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'penalty_policies' 
+   OR (table_name = 'bills' AND column_name = 'penalty_amount')
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,130 @@
+-- Reading Corrections Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-bill-ledger-setup.sql and database-estimated-readings-setup.sql
+
+-- Readings count their corrections; version 1 is the value entered by the collector
+ALTER TABLE meter_readings
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Values a reading had before each correction, with the reason, who corrected it and when
+CREATE TABLE IF NOT EXISTS meter_reading_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reading_id UUID NOT NULL REFERENCES meter_readings(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL, -- Version of the reading that held this value
+    reading DECIMAL(10,2) NOT NULL,
+    rollover BOOLEAN NOT NULL DEFAULT false,
+    estimated BOOLEAN NOT NULL DEFAULT false,
+    reason TEXT NOT NULL,
+    corrected_by TEXT NOT NULL,
+    corrected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_reading_version UNIQUE (reading_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_meter_reading_versions_reading_id
+ON meter_reading_versions(reading_id, version);
+
+-- Bills issued on a reading that was corrected afterwards
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS needs_reissue BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS reissue_reason TEXT;
+
+-- Readings a bill was calculated from, set when its draft is generated. Also created by
+-- database-bill-ledger-setup.sql; repeated for ledgers set up before it had them
+ALTER TABLE bills
+ADD COLUMN IF NOT EXISTS reading_id UUID REFERENCES meter_readings(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS previous_reading_id UUID REFERENCES meter_readings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bills_reading_id
+ON bills(reading_id);
+
+CREATE INDEX IF NOT EXISTS idx_bills_previous_reading_id
+ON bills(previous_reading_id);
+
+-- Correct a reading: keep the current value as a version, store the new value and flag every
+-- issued bill that was based on the reading, as its current or its previous reading.
+-- Bills generated before they were linked to their readings are matched by the day of the
+-- reading within the customer's bills: the bill of the reading's month, or a later one.
+-- Returns the number of bills flagged for reissue.
+CREATE OR REPLACE FUNCTION public.correct_meter_reading(
+    p_reading_id UUID,
+    p_reading DECIMAL,
+    p_rollover BOOLEAN,
+    p_reason TEXT,
+    p_corrected_by TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_current meter_readings%ROWTYPE;
+    v_reading_month VARCHAR(7);
+    v_flagged INTEGER;
+BEGIN
+    IF COALESCE(TRIM(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'Alasan koreksi wajib diisi';
+    END IF;
+
+    SELECT * INTO v_current FROM meter_readings WHERE id = p_reading_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pembacaan meter tidak ditemukan';
+    END IF;
+
+    -- Same month as BillingEngine, which reads it from the UTC timestamp
+    v_reading_month := to_char(v_current.date AT TIME ZONE 'UTC', 'YYYY-MM');
+
+    INSERT INTO meter_reading_versions (reading_id, version, reading, rollover, estimated, reason, corrected_by)
+    VALUES (p_reading_id, v_current.version, v_current.reading, COALESCE(v_current.rollover, false),
+            COALESCE(v_current.estimated, false), TRIM(p_reason), p_corrected_by);
+
+    UPDATE meter_readings
+    SET reading = p_reading,
+        rollover = p_rollover,
+        version = v_current.version + 1
+    WHERE id = p_reading_id;
+
+    UPDATE bills
+    SET needs_reissue = true,
+        reissue_reason = 'Pembacaan ' || v_current.reading || ' dikoreksi menjadi ' || p_reading || ': ' || TRIM(p_reason)
+    WHERE customer_id = v_current.customer_id
+      AND status NOT IN ('draft', 'void')
+      AND (
+          reading_id = p_reading_id
+          OR previous_reading_id = p_reading_id
+          OR (reading_id IS NULL
+              AND billing_month = v_reading_month
+              AND reading_date::date = v_current.date::date)
+          OR (previous_reading_id IS NULL
+              AND billing_month > v_reading_month
+              AND previous_reading_date::date = v_current.date::date)
+      );
+
+    GET DIAGNOSTICS v_flagged = ROW_COUNT;
+    RETURN v_flagged;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON COLUMN meter_readings.version IS 'Starts at 1 and goes up with every correction made through correct_meter_reading';
+COMMENT ON TABLE meter_reading_versions IS 'Earlier values of corrected meter readings with the reason, who corrected them and when';
+COMMENT ON COLUMN bills.needs_reissue IS 'A reading the bill was based on was corrected after the bill was issued';
+COMMENT ON COLUMN bills.reading_id IS 'Reading the bill was calculated from; empty for bills generated before readings were linked';
+COMMENT ON COLUMN bills.previous_reading_id IS 'Previous reading the usage was calculated from';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE meter_reading_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for authenticated users (compatible with existing RLS setup)
+DROP POLICY IF EXISTS "meter_reading_versions_policy" ON meter_reading_versions;
+CREATE POLICY "meter_reading_versions_policy" ON meter_reading_versions
+    FOR ALL
+    USING (true);
+
+-- Verify the columns were created successfully
+SELECT
+    table_name,
+    column_name,
+    data_type,
+    is_nullable
+FROM information_schema.columns
+WHERE table_name = 'meter_reading_versions'
+   OR (table_name = 'meter_readings' AND column_name = 'version')
+   OR (table_name = 'bills' AND column_name IN ('needs_reissue', 'reissue_reason', 'reading_id', 'previous_reading_id'))
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,23 @@
+-- Route Order Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-meter-photos-setup.sql
+
+-- Position of each customer on the reading route of their RT (1 = first house).
+-- Customers without a position are read last, by name.
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS route_order INTEGER;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_customers_rt_route_order
+ON customers(rt, route_order);
+
+-- Add comments for documentation
+COMMENT ON COLUMN customers.route_order IS 'Position on the reading route within the RT, set by the RT collector';
+
+-- Verify the column was created successfully
+SELECT
+    table_name,
+    column_name,
+    data_type,
+    is_nullable
+FROM information_schema.columns
+WHERE table_name = 'customers' AND column_name = 'route_order';
@@ -0,0 +1,46 @@
+-- RT Deposit Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-payments-setup.sql
+
+-- Link income transactions to the RT and billing month they settle.
+-- When an RT collector hands money to the treasurer the deposit is recorded as an
+-- income transaction with both columns set, so reconciliation no longer depends on
+-- parsing the transaction description.
+ALTER TABLE financial_transactions
+ADD COLUMN IF NOT EXISTS rt VARCHAR(10),
+ADD COLUMN IF NOT EXISTS billing_month VARCHAR(7); -- Format: YYYY-MM
+
+-- Ensure billing_month is in YYYY-MM format
+ALTER TABLE financial_transactions
+DROP CONSTRAINT IF EXISTS check_transaction_billing_month_format;
+ALTER TABLE financial_transactions
+ADD CONSTRAINT check_transaction_billing_month_format
+CHECK (billing_month IS NULL OR billing_month ~ '^\d{4}-\d{2}$');
+
+-- RT and billing month are set together, and only on income
+ALTER TABLE financial_transactions
+DROP CONSTRAINT IF EXISTS check_transaction_rt_deposit;
+ALTER TABLE financial_transactions
+ADD CONSTRAINT check_transaction_rt_deposit
+CHECK (
+    (rt IS NULL AND billing_month IS NULL) OR
+    (rt IS NOT NULL AND billing_month IS NOT NULL AND type = 'income')
+);
+
+-- Create index for reconciliation lookups
+CREATE INDEX IF NOT EXISTS idx_financial_transactions_rt_month 
+ON financial_transactions(billing_month, rt) 
+WHERE rt IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN financial_transactions.rt IS 'RT whose collector made this deposit (NULL for other transactions)';
+COMMENT ON COLUMN financial_transactions.billing_month IS 'Billing month (YYYY-MM) the RT deposit settles';
+
+-- Verify the columns were added successfully
+SELECT 
+    table_name, 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'financial_transactions' 
+AND column_name IN ('rt', 'billing_month');
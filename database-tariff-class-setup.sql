@@ -0,0 +1,35 @@
+-- Tariff Classes Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor after database-tariff-setup.sql
+
+-- Assign every customer a tariff class; existing customers become household customers
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS tariff_class VARCHAR(20) NOT NULL DEFAULT 'household';
+
+-- Only allow the supported tariff classes
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS check_customer_tariff_class;
+ALTER TABLE customers
+ADD CONSTRAINT check_customer_tariff_class
+CHECK (tariff_class IN ('household', 'social', 'commercial', 'institution'));
+
+-- Optional per-class tier tables on each tariff version
+-- Classes without an entry are billed with the standard tiers
+ALTER TABLE tariffs
+ADD COLUMN IF NOT EXISTS class_tiers JSONB NOT NULL DEFAULT '{}'::jsonb; -- { "commercial": [{ "up_to": 10, "rate": 2500 }, { "up_to": null, "rate": 3000 }] }
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_customers_tariff_class 
+ON customers(tariff_class);
+
+-- Add comments for documentation
+COMMENT ON COLUMN customers.tariff_class IS 'Tariff class: household, social, commercial or institution';
+COMMENT ON COLUMN tariffs.class_tiers IS 'Optional tier tables per tariff class; missing classes use the standard tiers';
+
+-- Verify the columns were created successfully
+SELECT 
+    table_name, 
+    column_name, 
+    data_type, 
+    column_default
+FROM information_schema.columns 
+WHERE (table_name = 'customers' AND column_name = 'tariff_class')
+   OR (table_name = 'tariffs' AND column_name = 'class_tiers');
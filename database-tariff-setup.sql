@@ -0,0 +1,64 @@
+-- Tariff Versions Table Setup for Water Meter Monitoring System
+-- Run this script in your Supabase SQL Editor to enable versioned tariffs
+
+-- Create tariffs table
+-- Each row is one tariff version; bills use the latest version whose effective_from
+-- is on or before the reading date, so new prices never rewrite historical bills
+CREATE TABLE IF NOT EXISTS tariffs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    effective_from DATE NOT NULL,
+    tiers JSONB NOT NULL, -- [{ "up_to": 10, "rate": 1500 }, { "up_to": null, "rate": 2000 }]
+    fixed_fees JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ "name": "Beban speedometer", "amount": 5000 }]
+    notes TEXT,
+    created_by TEXT NOT NULL DEFAULT 'admin',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    -- Ensure tiers is a non-empty array
+    CONSTRAINT check_tiers_not_empty CHECK (jsonb_typeof(tiers) = 'array' AND jsonb_array_length(tiers) > 0),
+    
+    -- Only one tariff version can start on a given date
+    CONSTRAINT unique_tariff_effective_from UNIQUE (effective_from)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_tariffs_effective_from 
+ON tariffs(effective_from DESC);
+
+-- Add comments for documentation
+COMMENT ON TABLE tariffs IS 'Versioned water tariffs; the version in force on the reading date is used for billing';
+COMMENT ON COLUMN tariffs.effective_from IS 'First date (inclusive) on which this tariff applies';
+COMMENT ON COLUMN tariffs.tiers IS 'Ordered usage tiers; up_to is the inclusive upper bound in m3, null for the last tier';
+COMMENT ON COLUMN tariffs.fixed_fees IS 'Fixed fees added to every bill (e.g. speedometer fee)';
+COMMENT ON COLUMN tariffs.created_by IS 'Admin who published the tariff';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE tariffs ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for authenticated users (compatible with existing RLS setup)
+DROP POLICY IF EXISTS "tariffs_policy" ON tariffs;
+CREATE POLICY "tariffs_policy" ON tariffs
+    FOR ALL 
+    USING (true);
+
+-- Seed the original pricing as the first tariff version
+INSERT INTO tariffs (name, effective_from, tiers, fixed_fees, notes, created_by)
+VALUES (
+    'Tarif Standar',
+    '2000-01-01',
+    '[{"up_to": 10, "rate": 1500}, {"up_to": null, "rate": 2000}]'::jsonb,
+    '[{"name": "Beban speedometer", "amount": 5000}]'::jsonb,
+    'Tarif awal (sebelumnya tertulis langsung di aplikasi)',
+    'system'
+)
+ON CONFLICT (effective_from) DO NOTHING;
+
+-- Verify the table was created successfully
+SELECT 
+    table_name, 
+    column_name, 
+    data_type, 
+    is_nullable
+FROM information_schema.columns 
+WHERE table_name = 'tariffs' 
+ORDER BY ordinal_position;
@@ -0,0 +1,379 @@
+/**
+ * Anomaly Service
+ * Flags unusual usage with several detectors: zero usage and stuck meters, spikes and drops against
+ * the customer's median usage, negative usage and the steadily rising usage of a possible leak.
+ * Readings are checked as they are entered and collected per month into a review queue.
+ */
+
+import { supabase } from './supabase';
+import { offlineStorage } from './offlineStorage';
+import { BillingService } from './billingService';
+import { BillingData } from './billingEngine';
+import { MeterRegisterService } from './meterRegisterService';
+import { AnomalyReview, AnomalyReviewStatus, AnomalyType, Customer, MeterAdjustment, MeterReading } from '@/types/types';
+
+export type { AnomalyType };
+
+export type AnomalySeverity = 'info' | 'warning' | 'critical';
+
+export interface UsageAnomaly {
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  message: string; // Explanation shown to the collector and in the review queue
+}
+
+export interface UsageRange {
+  min: number;
+  max: number;
+}
+
+export interface AnomalyQueueItem {
+  customer: Customer;
+  reading: MeterReading;
+  previousReading: MeterReading;
+  usage: number;
+  anomalies: UsageAnomaly[]; // Most severe first
+  review?: AnomalyReview; // Set once an admin reviewed the reading
+}
+
+export const ANOMALY_SEVERITY_LABELS: Record<AnomalySeverity, string> = {
+  info: 'Info',
+  warning: 'Perlu dicek',
+  critical: 'Kritis'
+};
+
+export const ANOMALY_TYPE_LABELS: Record<AnomalyType, string> = {
+  zero_usage: 'Pemakaian nol',
+  flat_line: 'Meter macet',
+  spike: 'Lonjakan',
+  drop: 'Penurunan tajam',
+  negative_usage: 'Pemakaian negatif',
+  possible_leak: 'Kemungkinan bocor'
+};
+
+const SEVERITY_RANK: Record<AnomalySeverity, number> = { critical: 3, warning: 2, info: 1 };
+
+export class AnomalyService {
+  private static readonly THRESHOLDS = {
+    MIN_HISTORY: 3, // Months of usage needed before spikes and drops are judged
+    BASELINE_MONTHS: 12, // Months of usage the median is taken over
+    SPIKE_SCORE: 3.5, // Distance from the median, in robust standard deviations
+    CRITICAL_SPIKE_SCORE: 7,
+    SEASONAL_TOLERANCE: 0.25, // Usage within 25% of the same month last year is seasonal
+    FLAT_LINE_MONTHS: 3, // Consecutive months of zero usage of a stuck meter
+    LEAK_MONTHS: 4, // Consecutive months of rising usage of a possible leak
+    LEAK_MIN_GROWTH: 1.5 // Usage at the end of the rise compared to its start
+  };
+
+  /**
+   * Run every detector on a month's usage. History is the monthly usage before it, oldest first.
+   */
+  static detectAnomalies(usage: number, history: number[] = []): UsageAnomaly[] {
+    if (usage < 0) {
+      return [{
+        type: 'negative_usage',
+        severity: 'critical',
+        message: `Pemakaian negatif (${usage} m³): pembacaan lebih kecil dari sebelumnya tanpa meter berputar atau ganti meter`
+      }];
+    }
+
+    return [
+      this.detectZeroUsage(usage, history),
+      this.detectDeviation(usage, history),
+      this.detectLeak(usage, history)
+    ]
+      .filter((anomaly): anomaly is UsageAnomaly => anomaly !== null)
+      .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+  }
+
+  /**
+   * Usage a new reading can show without being flagged as a spike or a drop, null until there is
+   * enough history to judge
+   */
+  static getExpectedUsageRange(history: number[]): UsageRange | null {
+    const baseline = this.getBaseline(history);
+    if (!baseline) return null;
+
+    return {
+      min: Math.max(0, Math.ceil(baseline.median - this.THRESHOLDS.SPIKE_SCORE * baseline.spread)),
+      max: Math.floor(baseline.median + this.THRESHOLDS.SPIKE_SCORE * baseline.spread)
+    };
+  }
+
+  /**
+   * Usage of each month with a reading: from the latest reading of the month before to the latest
+   * reading of the month, as billed. Only months before `beforeMonth` (YYYY-MM) are included.
+   */
+  static getMonthlyUsageHistory(
+    readings: MeterReading[],
+    beforeMonth: string,
+    meterDigits?: number,
+    adjustments: MeterAdjustment[] = []
+  ): number[] {
+    const latestByMonth = new Map<string, MeterReading>();
+    for (const reading of [...readings].sort((a, b) => a.date.localeCompare(b.date))) {
+      latestByMonth.set(reading.date.substring(0, 7), reading);
+    }
+
+    const monthly = Array.from(latestByMonth.entries())
+      .filter(([month]) => month < beforeMonth)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, reading]) => reading);
+
+    return monthly.slice(1).map((reading, index) => this.getUsage(monthly[index], reading, meterDigits, adjustments, true));
+  }
+
+  /**
+   * Monthly usage history of a customer from the offline cache, for checking a new reading
+   */
+  static getCustomerUsageHistory(customerId: string, readingDate: string, meterDigits?: number): number[] {
+    if (typeof window === 'undefined') return [];
+    return this.getMonthlyUsageHistory(offlineStorage.getCustomerReadings(customerId), readingDate.substring(0, 7), meterDigits);
+  }
+
+  /**
+   * Collect the readings of a month that have anomalies, most severe first. Estimated readings are
+   * skipped, and a reading below an estimated one is a true-up rather than negative usage.
+   */
+  static buildReviewQueue(
+    month: string,
+    data: Pick<BillingData, 'customers' | 'readings' | 'adjustments'>,
+    reviews: AnomalyReview[] = []
+  ): AnomalyQueueItem[] {
+    const monthStart = `${month}-01`;
+    const items: AnomalyQueueItem[] = [];
+
+    for (const customer of data.customers) {
+      // Newest first, so the first match is the latest reading
+      const customerReadings = data.readings
+        .filter(r => r.customer_id.toString() === customer.id.toString())
+        .sort((a, b) => b.date.localeCompare(a.date));
+      const reading = customerReadings.find(r => r.date.substring(0, 7) === month);
+      const previousReading = customerReadings.find(r => r.date < monthStart);
+      if (!reading || !previousReading || reading.estimated) continue;
+
+      const usage = this.getUsage(previousReading, reading, customer.meter_digits, data.adjustments, !!previousReading.estimated);
+      const history = this.getMonthlyUsageHistory(customerReadings, month, customer.meter_digits, data.adjustments);
+      const anomalies = this.detectAnomalies(usage, history);
+      if (anomalies.length === 0) continue;
+
+      items.push({
+        customer,
+        reading,
+        previousReading,
+        usage,
+        anomalies,
+        review: reviews.find(review => review.reading_id === reading.id)
+      });
+    }
+
+    return items.sort((a, b) =>
+      SEVERITY_RANK[b.anomalies[0].severity] - SEVERITY_RANK[a.anomalies[0].severity] ||
+      (a.customer.rt || '').localeCompare(b.customer.rt || '') ||
+      a.customer.name.localeCompare(b.customer.name)
+    );
+  }
+
+  /**
+   * Load the anomaly review queue of a month (YYYY-MM) from the server
+   */
+  static async loadReviewQueue(month: string): Promise<AnomalyQueueItem[]> {
+    const [data, reviews] = await Promise.all([
+      BillingService.loadBillingData(month),
+      this.loadReviews(month)
+    ]);
+    return this.buildReviewQueue(month, data, reviews);
+  }
+
+  /**
+   * Record the outcome of reviewing a reading's anomalies. A reading is reviewed once;
+   * reviewing it again replaces the earlier outcome.
+   */
+  static async saveReview(
+    item: AnomalyQueueItem,
+    status: AnomalyReviewStatus,
+    reviewedBy: string,
+    note?: string
+  ): Promise<AnomalyReview> {
+    const { data, error } = await supabase
+      .from('reading_anomaly_reviews')
+      .upsert({
+        reading_id: item.reading.id,
+        customer_id: item.customer.id,
+        billing_month: item.reading.date.substring(0, 7),
+        anomaly_types: item.anomalies.map(anomaly => anomaly.type),
+        status,
+        note: note || null,
+        reviewed_by: reviewedBy,
+        reviewed_at: new Date().toISOString()
+      }, { onConflict: 'reading_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return this.mapReviewRow(data);
+  }
+
+  /**
+   * Flag zero usage; several months in a row suggests the meter is stuck
+   */
+  private static detectZeroUsage(usage: number, history: number[]): UsageAnomaly | null {
+    if (usage !== 0) return null;
+
+    let zeroMonths = 1;
+    for (let i = history.length - 1; i >= 0 && history[i] === 0; i--) {
+      zeroMonths++;
+    }
+
+    if (zeroMonths >= this.THRESHOLDS.FLAT_LINE_MONTHS) {
+      return {
+        type: 'flat_line',
+        severity: 'critical',
+        message: `Meter kemungkinan macet: pemakaian 0 m³ selama ${zeroMonths} bulan berturut-turut`
+      };
+    }
+
+    return {
+      type: 'zero_usage',
+      severity: 'info',
+      message: 'Pemakaian 0 m³ - pastikan pembacaan sudah benar'
+    };
+  }
+
+  /**
+   * Flag usage far from the median of recent months, measured with the median absolute deviation
+   * so one earlier outlier does not hide the next. Usage close to the same month last year is
+   * only reported as seasonal.
+   */
+  private static detectDeviation(usage: number, history: number[]): UsageAnomaly | null {
+    const baseline = this.getBaseline(history);
+    if (!baseline) return null;
+
+    const { median, spread } = baseline;
+    const score = (usage - median) / spread;
+
+    const isSpike = score >= this.THRESHOLDS.SPIKE_SCORE;
+    const isDrop = score <= -this.THRESHOLDS.SPIKE_SCORE && usage > 0;
+    if (!isSpike && !isDrop) return null;
+
+    const type: AnomalyType = isSpike ? 'spike' : 'drop';
+    const lastYear = history.length >= 12 ? history[history.length - 12] : undefined;
+    if (lastYear !== undefined && Math.abs(usage - lastYear) <= lastYear * this.THRESHOLDS.SEASONAL_TOLERANCE) {
+      return {
+        type,
+        severity: 'info',
+        message: `Pemakaian ${usage} m³ jauh dari median ${median} m³, tetapi mirip bulan yang sama tahun lalu (${lastYear} m³)`
+      };
+    }
+
+    if (isSpike) {
+      return {
+        type,
+        severity: score >= this.THRESHOLDS.CRITICAL_SPIKE_SCORE ? 'critical' : 'warning',
+        message: `Pemakaian melonjak: ${usage} m³, biasanya sekitar ${median} m³ - periksa pembacaan atau kebocoran`
+      };
+    }
+
+    return {
+      type,
+      severity: 'warning',
+      message: `Pemakaian turun tajam: ${usage} m³, biasanya sekitar ${median} m³ - periksa apakah meter berfungsi`
+    };
+  }
+
+  /**
+   * Flag usage that rose every month for several months, the pattern of a growing leak
+   */
+  private static detectLeak(usage: number, history: number[]): UsageAnomaly | null {
+    const series = [...history.slice(-(this.THRESHOLDS.LEAK_MONTHS - 1)), usage];
+    if (series.length < this.THRESHOLDS.LEAK_MONTHS || series[0] <= 0) return null;
+
+    const isRising = series.every((value, index) => index === 0 || value > series[index - 1]);
+    if (!isRising || usage < series[0] * this.THRESHOLDS.LEAK_MIN_GROWTH) return null;
+
+    return {
+      type: 'possible_leak',
+      severity: 'warning',
+      message: `Kemungkinan bocor: pemakaian naik terus selama ${series.length} bulan (${series.join(' → ')} m³)`
+    };
+  }
+
+  /**
+   * Usage between two readings, across a rollover or a replaced gauge. Negative usage is kept
+   * unless `clamp` is set, so it can be flagged.
+   */
+  private static getUsage(
+    previous: MeterReading,
+    current: MeterReading,
+    meterDigits: number | undefined,
+    adjustments: MeterAdjustment[],
+    clamp: boolean
+  ): number {
+    const gaugeUsage = MeterRegisterService.getGaugeUsage(previous, current, adjustments);
+    if (gaugeUsage.length > 0) {
+      return gaugeUsage.reduce((sum, gauge) => sum + gauge.usage, 0);
+    }
+    if (clamp || current.rollover) {
+      return MeterRegisterService.calculateUsage(previous, current, meterDigits);
+    }
+    return current.reading - previous.reading;
+  }
+
+  /**
+   * Median of recent months and the spread around it, null with too little history
+   */
+  private static getBaseline(history: number[]): { median: number; spread: number } | null {
+    const baseline = history.slice(-this.THRESHOLDS.BASELINE_MONTHS);
+    if (baseline.length < this.THRESHOLDS.MIN_HISTORY) return null;
+
+    const median = this.median(baseline);
+    const deviation = this.median(baseline.map(value => Math.abs(value - median)));
+    // Scaled to a standard deviation, with a floor so months of identical usage still allow some change
+    return { median, spread: Math.max(deviation * 1.4826, median * 0.1, 1) };
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  /**
+   * Load the reviews recorded for a month
+   */
+  private static async loadReviews(month: string): Promise<AnomalyReview[]> {
+    const { data, error } = await supabase
+      .from('reading_anomaly_reviews')
+      .select('*')
+      .eq('billing_month', month);
+
+    if (error) {
+      console.warn('Error loading anomaly reviews (non-critical):', error);
+      return [];
+    }
+
+    return (data || []).map(row => this.mapReviewRow(row));
+  }
+
+  /**
+   * Map database row to AnomalyReview object
+   */
+  private static mapReviewRow(row: any): AnomalyReview {
+    return {
+      id: row.id.toString(),
+      reading_id: row.reading_id.toString(),
+      customer_id: row.customer_id.toString(),
+      billing_month: row.billing_month,
+      anomaly_types: row.anomaly_types || [],
+      status: row.status,
+      note: row.note || undefined,
+      reviewed_by: row.reviewed_by,
+      reviewed_at: row.reviewed_at
+    };
+  }
+}
+
+export default AnomalyService;
@@ -0,0 +1,487 @@
+/**
+ * Bill Ledger Service
+ * Freezes monthly billing calculations into numbered bill records and manages their status lifecycle
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, fetchAllRows } from './supabase';
+import { Bill, BillStatus, Customer } from '@/types/types';
+import { offlineStorage } from './offlineStorage';
+import { BillingCalculation } from './billingEngine';
+import { BillingService } from './billingService';
+import { PenaltyService } from './penaltyService';
+
+export interface BillGenerationResult {
+  created: number;
+  skipped: string[]; // Names of customers without a complete reading for the month
+}
+
+export const BILL_STATUS_LABELS: Record<BillStatus, string> = {
+  draft: 'Draf',
+  issued: 'Terbit',
+  partial: 'Dibayar Sebagian',
+  paid: 'Lunas',
+  void: 'Batal'
+};
+
+export class BillLedgerService {
+  /**
+   * Fetch bills from the server and refresh the offline cache.
+   * Falls back to the cached bills when the server is unreachable; on the server, where there
+   * is no cache, the error is thrown.
+   */
+  static async loadBills(month?: string, client: SupabaseClient = supabase): Promise<Bill[]> {
+    await offlineStorage.ready();
+
+    try {
+      const { data, error } = await fetchAllRows((from, to) => {
+        let query = client
+          .from('bills')
+          .select('*')
+          .order('billing_month', { ascending: false })
+          .order('bill_number', { ascending: true })
+          .range(from, to);
+
+        if (month) {
+          query = query.eq('billing_month', month);
+        }
+        return query;
+      });
+
+      if (error) {
+        if (error.code === 'PGRST116' || error.message?.includes('does not exist')) {
+          console.warn('Bills table not found - bill ledger disabled');
+          return this.getCachedBills(month);
+        }
+        throw error;
+      }
+
+      const bills: Bill[] = data.map(row => this.mapBillRow(row));
+      if (typeof window !== 'undefined') {
+        // Only replace the cached bills of the requested month
+        const otherBills = month ? offlineStorage.getBills().filter(b => b.billing_month !== month) : [];
+        offlineStorage.saveBills([...otherBills, ...bills]);
+      }
+
+      return bills;
+    } catch (error) {
+      if (typeof window === 'undefined') throw error;
+      console.warn('Error loading bills (non-critical):', error);
+      return this.getCachedBills(month);
+    }
+  }
+
+  /**
+   * Get bills from the offline cache
+   */
+  static getCachedBills(month?: string): Bill[] {
+    if (typeof window === 'undefined') return [];
+    const bills = offlineStorage.getBills();
+    return month ? bills.filter(b => b.billing_month === month) : bills;
+  }
+
+  /**
+   * Check whether a month has been closed (any bill issued for it)
+   */
+  static isMonthClosed(bills: Bill[], month: string): boolean {
+    return bills.some(b => b.billing_month === month && b.status !== 'draft' && b.status !== 'void');
+  }
+
+  /**
+   * Freeze the current billing calculation of every customer into draft bills.
+   * Existing drafts for the month are replaced; customers with an issued bill are skipped.
+   */
+  static async generateDraftBills(month: string, createdBy: string): Promise<BillGenerationResult> {
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      throw new Error('Bulan tagihan tidak valid');
+    }
+
+    const existingBills = await this.loadBills(month);
+
+    // Drafts are regenerated from scratch so they pick up late readings and discounts
+    const { error: deleteError } = await supabase
+      .from('bills')
+      .delete()
+      .eq('billing_month', month)
+      .eq('status', 'draft');
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    let sequence = existingBills
+      .filter(b => b.status !== 'draft')
+      .reduce((max, b) => Math.max(max, this.getBillSequence(b.bill_number)), 0);
+
+    // Bills are frozen exactly as the billing API reports them
+    const monthBilling = await BillingService.loadMonthBilling(month);
+    const rows: any[] = [];
+
+    for (const { customer, previousReading, currentReading, billing, ledgerBill } of monthBilling.bills) {
+      if (ledgerBill) continue;
+
+      sequence++;
+      rows.push({
+        bill_number: this.formatBillNumber(month, sequence),
+        billing_month: month,
+        customer_id: customer.id,
+        customer_name: customer.name,
+        customer_rt: customer.rt || null,
+        tariff_class: billing.tariffClass,
+        reading_id: currentReading.id,
+        reading_date: currentReading.date,
+        previous_reading: previousReading.reading,
+        previous_reading_id: previousReading.id,
+        previous_reading_date: previousReading.date,
+        current_reading: currentReading.reading,
+        usage: billing.usage,
+        tariff_id: billing.tariffId,
+        tariff_name: billing.tariffName,
+        tier_charges: billing.tierCharges,
+        gauge_usage: billing.gaugeUsage || null,
+        estimated: billing.estimated || false,
+        true_up_usage: billing.trueUpUsage ?? null,
+        true_up_credit: billing.trueUpCredit || 0,
+        fixed_fees: billing.fixedFees,
+        base_amount: billing.baseAmount,
+        discount: billing.discount || null,
+        applied_discounts: billing.appliedDiscounts,
+        discount_amount: billing.discountAmount,
+        total_amount: billing.finalAmount,
+        penalty_amount: 0,
+        previous_balance: billing.previousBalance,
+        credit_applied: billing.creditApplied,
+        paid_amount: 0,
+        status: 'draft',
+        created_by: createdBy
+      });
+    }
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase
+        .from('bills')
+        .insert(rows);
+
+      if (insertError) {
+        throw insertError;
+      }
+    }
+
+    await this.loadBills(month);
+    return { created: rows.length, skipped: monthBilling.missingReadings.map(customer => customer.name) };
+  }
+
+  /**
+   * Issue all draft bills of a month
+   */
+  static async issueBills(month: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('bills')
+      .update({ status: 'issued', issued_at: new Date().toISOString() })
+      .eq('billing_month', month)
+      .eq('status', 'draft')
+      .select('id, total_amount, credit_applied');
+
+    if (error) {
+      throw error;
+    }
+
+    // Bills fully covered by earlier credit are settled as soon as they are issued
+    const creditedIds = (data || [])
+      .filter(row => Number(row.total_amount) <= Number(row.credit_applied || 0))
+      .map(row => row.id);
+
+    if (creditedIds.length > 0) {
+      const { error: creditError } = await supabase
+        .from('bills')
+        .update({ status: 'paid', paid_at: new Date().toISOString() })
+        .in('id', creditedIds);
+
+      if (creditError) {
+        throw creditError;
+      }
+    }
+
+    await this.loadBills(month);
+    return data?.length || 0;
+  }
+
+  /**
+   * Close a month: freeze every customer's bill and issue it
+   */
+  static async closeMonth(month: string, createdBy: string): Promise<BillGenerationResult> {
+    const result = await this.generateDraftBills(month, createdBy);
+    const issued = await this.issueBills(month);
+    return { created: issued, skipped: result.skipped };
+  }
+
+  /**
+   * Update the amount paid on an issued bill and move it to issued, partial or paid.
+   * Called by PaymentService whenever a payment is recorded or removed.
+   */
+  static async updatePaidAmount(bill: Bill, paidAmount: number): Promise<Bill> {
+    if (bill.status === 'draft' || bill.status === 'void') {
+      throw new Error(`Tagihan berstatus ${BILL_STATUS_LABELS[bill.status]} tidak dapat dibayar`);
+    }
+    if (paidAmount < 0 || Number.isNaN(paidAmount)) {
+      throw new Error('Jumlah pembayaran tidak valid');
+    }
+
+    let status: BillStatus = 'issued';
+    if (paidAmount + bill.credit_applied >= this.getAmountDue(bill)) {
+      status = 'paid';
+    } else if (paidAmount > 0) {
+      status = 'partial';
+    }
+
+    const { data, error } = await supabase
+      .from('bills')
+      .update({
+        paid_amount: paidAmount,
+        status,
+        paid_at: status === 'paid' ? new Date().toISOString() : null
+      })
+      .eq('id', bill.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await this.loadBills(bill.billing_month);
+    return this.mapBillRow(data);
+  }
+
+  /**
+   * Get the full amount owed on a bill: the bill total plus any late penalty
+   */
+  static getAmountDue(bill: Bill): number {
+    return bill.total_amount + bill.penalty_amount;
+  }
+
+  /**
+   * Get the amount still owed on a bill
+   */
+  static getOutstandingAmount(bill: Bill): number {
+    if (bill.status === 'draft' || bill.status === 'void') return 0;
+    return Math.max(0, this.getAmountDue(bill) - bill.credit_applied - bill.paid_amount);
+  }
+
+  /**
+   * Get a customer's running account balance from their issued bills: credit (+) or arrears (-).
+   * Pass `beforeMonth` to only count bills of earlier months.
+   */
+  static getCustomerBalance(bills: Bill[], customerId: string, beforeMonth?: string): number {
+    return bills
+      .filter(bill =>
+        bill.customer_id === customerId &&
+        bill.status !== 'draft' &&
+        bill.status !== 'void' &&
+        (!beforeMonth || bill.billing_month < beforeMonth)
+      )
+      // Credit applied to a later bill stays counted as overpayment on the earlier bill,
+      // so only payments and charges enter the balance
+      .reduce((balance, bill) => balance + bill.paid_amount - this.getAmountDue(bill), 0);
+  }
+
+  /**
+   * Get the running account balance of every customer with issued bills
+   */
+  static getCustomerBalances(bills: Bill[]): Map<string, number> {
+    const balances = new Map<string, number>();
+    new Set(bills.map(bill => bill.customer_id)).forEach(customerId => {
+      balances.set(customerId, this.getCustomerBalance(bills, customerId));
+    });
+    return balances;
+  }
+
+  /**
+   * Charge late penalties on unpaid bills according to the penalty policy in force.
+   * Penalties only ever grow, so paying part of a bill never removes a penalty already charged.
+   */
+  static async applyPenalties(month?: string, asOf: Date = new Date()): Promise<number> {
+    const [bills, policies] = await Promise.all([
+      this.loadBills(month),
+      PenaltyService.loadPolicies()
+    ]);
+
+    const updates = bills
+      .filter(bill => bill.status === 'issued' || bill.status === 'partial')
+      .map(bill => ({
+        bill,
+        penalty: PenaltyService.calculatePenalty(bill, PenaltyService.getPolicyForBill(bill, policies), asOf)
+      }))
+      .filter(({ bill, penalty }) => penalty > bill.penalty_amount);
+
+    let applied = 0;
+    for (const { bill, penalty } of updates) {
+      const { error } = await supabase
+        .from('bills')
+        .update({ penalty_amount: penalty })
+        .eq('id', bill.id);
+
+      if (error) {
+        console.warn(`Error applying penalty to ${bill.bill_number} (non-critical):`, error);
+        continue;
+      }
+      applied++;
+    }
+
+    if (applied > 0) {
+      await this.loadBills(month);
+    }
+
+    return applied;
+  }
+
+  /**
+   * Void a bill. Voided bills keep their number; the customer can be billed again for the month.
+   */
+  static async voidBill(bill: Bill, reason: string): Promise<void> {
+    if (bill.status === 'void') {
+      throw new Error('Tagihan sudah dibatalkan');
+    }
+    if (bill.paid_amount > 0) {
+      throw new Error('Tagihan yang sudah dibayar tidak dapat dibatalkan');
+    }
+    if (!reason.trim()) {
+      throw new Error('Alasan pembatalan wajib diisi');
+    }
+
+    const { error } = await supabase
+      .from('bills')
+      .update({
+        status: 'void',
+        voided_at: new Date().toISOString(),
+        void_reason: reason.trim()
+      })
+      .eq('id', bill.id);
+
+    if (error) {
+      throw error;
+    }
+
+    await this.loadBills(bill.billing_month);
+  }
+
+  /**
+   * Convert a stored bill back into the BillingCalculation shape used by reports
+   */
+  static toBillingCalculation(bill: Bill): BillingCalculation {
+    const [firstTier, ...upperTiers] = bill.tier_charges;
+
+    return {
+      customerId: bill.customer_id,
+      usage: bill.usage,
+      tariffId: bill.tariff_id,
+      tariffName: bill.tariff_name,
+      tariffClass: bill.tariff_class,
+      tierCharges: bill.tier_charges,
+      gaugeUsage: bill.gauge_usage,
+      estimated: bill.estimated,
+      trueUpUsage: bill.true_up_usage,
+      trueUpCredit: bill.true_up_credit,
+      fixedFees: bill.fixed_fees,
+      unitUsage: firstTier?.usage || 0,
+      tensUsage: upperTiers.reduce((sum, charge) => sum + charge.usage, 0),
+      unitPrice: firstTier?.amount || 0,
+      tensPrice: upperTiers.reduce((sum, charge) => sum + charge.amount, 0),
+      speedometerFee: bill.fixed_fees.reduce((sum, fee) => sum + fee.amount, 0),
+      baseAmount: bill.base_amount,
+      discount: bill.discount,
+      // Bills created before discounts could be combined only stored the single discount
+      appliedDiscounts: bill.applied_discounts || (bill.discount ? [{ discount: bill.discount, amount: bill.discount_amount }] : []),
+      discountAmount: bill.discount_amount,
+      finalAmount: bill.total_amount,
+      previousBalance: bill.previous_balance,
+      creditApplied: bill.credit_applied,
+      amountDue: Math.max(0, bill.total_amount - bill.previous_balance),
+      billingMonth: bill.billing_month
+    };
+  }
+
+  /**
+   * Get the customer a bill was issued to
+   */
+  static toCustomer(bill: Bill): Customer {
+    return {
+      id: bill.customer_id,
+      name: bill.customer_name,
+      rt: bill.customer_rt,
+      tariff_class: bill.tariff_class
+    };
+  }
+
+  /**
+   * Get the display label for a bill status
+   */
+  static getStatusLabel(status: BillStatus): string {
+    return BILL_STATUS_LABELS[status];
+  }
+
+  /**
+   * Format a bill number, e.g. TAG-202601-0001
+   */
+  static formatBillNumber(month: string, sequence: number): string {
+    return `TAG-${month.replace('-', '')}-${String(sequence).padStart(4, '0')}`;
+  }
+
+  /**
+   * Extract the running number from a bill number
+   */
+  private static getBillSequence(billNumber: string): number {
+    const sequence = parseInt(billNumber.split('-').pop() || '0', 10);
+    return Number.isNaN(sequence) ? 0 : sequence;
+  }
+
+  /**
+   * Map database row to Bill object
+   */
+  private static mapBillRow(row: any): Bill {
+    return {
+      id: row.id.toString(),
+      bill_number: row.bill_number,
+      billing_month: row.billing_month,
+      customer_id: row.customer_id.toString(),
+      customer_name: row.customer_name,
+      customer_rt: row.customer_rt || undefined,
+      tariff_class: row.tariff_class || 'household',
+      reading_id: row.reading_id || undefined,
+      reading_date: row.reading_date,
+      previous_reading: Number(row.previous_reading),
+      previous_reading_id: row.previous_reading_id || undefined,
+      previous_reading_date: row.previous_reading_date || undefined,
+      current_reading: Number(row.current_reading),
+      usage: Number(row.usage),
+      tariff_id: row.tariff_id,
+      tariff_name: row.tariff_name,
+      tier_charges: row.tier_charges || [],
+      gauge_usage: row.gauge_usage || undefined,
+      estimated: row.estimated || undefined,
+      true_up_usage: row.true_up_usage === null || row.true_up_usage === undefined ? undefined : Number(row.true_up_usage),
+      true_up_credit: row.true_up_credit ? Number(row.true_up_credit) : undefined,
+      fixed_fees: row.fixed_fees || [],
+      base_amount: Number(row.base_amount),
+      discount: row.discount || undefined,
+      applied_discounts: row.applied_discounts || undefined,
+      discount_amount: Number(row.discount_amount),
+      total_amount: Number(row.total_amount),
+      penalty_amount: Number(row.penalty_amount || 0),
+      previous_balance: Number(row.previous_balance || 0),
+      credit_applied: Number(row.credit_applied || 0),
+      paid_amount: Number(row.paid_amount),
+      status: row.status,
+      issued_at: row.issued_at || undefined,
+      paid_at: row.paid_at || undefined,
+      voided_at: row.voided_at || undefined,
+      void_reason: row.void_reason || undefined,
+      needs_reissue: row.needs_reissue || undefined,
+      reissue_reason: row.reissue_reason || undefined,
+      created_by: row.created_by,
+      created_at: row.created_at
+    };
+  }
+}
+
+export default BillLedgerService;
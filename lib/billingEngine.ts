@@ -0,0 +1,298 @@
+/**
+ * Billing Engine
+ * The single implementation of the billing math: tiered usage charges, fixed fees, discounts
+ * and the balance carried forward. It only works on the data it is given, so the API route
+ * handlers, the bill ledger and the offline fallback in the browser all produce the same bills.
+ */
+
+import { AppliedDiscount, Bill, Customer, CustomerDiscount, GaugeUsage, MeterAdjustment, MeterReading, Tariff, TariffClass, TariffFee } from '@/types/types';
+import { TariffService, TierCharge } from './tariffService';
+import { DiscountService } from './discountService';
+import { BillLedgerService } from './billLedgerService';
+import { MeterRegisterService } from './meterRegisterService';
+
+export interface BillingCalculation {
+  customerId: string;
+  usage: number;
+  tariffId: string;
+  tariffName: string;
+  tariffClass: TariffClass;
+  tierCharges: TierCharge[]; // Usage split across the tariff tiers
+  gaugeUsage?: GaugeUsage[]; // Usage per gauge when the gauge was replaced during the period
+  estimated?: boolean; // Billed on an estimated reading
+  trueUpUsage?: number; // Actual minus estimated reading when the previous reading was estimated
+  trueUpCredit?: number; // Refund for usage billed too much on the estimate, taken off finalAmount
+  fixedFees: TariffFee[];
+  unitUsage: number; // Usage in the first tier
+  tensUsage: number; // Usage above the first tier
+  unitPrice: number;
+  tensPrice: number;
+  speedometerFee: number; // Sum of fixed fees
+  baseAmount: number;
+  discount?: CustomerDiscount; // Main discount: the money discount, or the free allowance when there is none
+  appliedDiscounts: AppliedDiscount[]; // Every discount applied, in the order they were applied
+  discountAmount: number;
+  finalAmount: number; // This month's charge after discount and true-up credit
+  previousBalance: number; // Account balance before this bill: credit (+) or arrears (-)
+  creditApplied: number; // Part of the credit used to settle this bill
+  amountDue: number; // finalAmount minus credit, plus arrears carried forward
+  billingMonth: string;
+}
+
+export interface BillingInput {
+  customerId: string;
+  usage: number;
+  gaugeUsage?: GaugeUsage[]; // How the usage splits over a replaced gauge, kept on the bill
+  estimated?: boolean; // The current reading is an estimate
+  trueUpUsage?: number; // Set when the previous reading was an estimate, see calculateMonth
+  trueUpCredit?: number; // Refund for usage billed too much on the estimate, credited up to this month's charge
+  billingDate: string; // Reading date, selects the tariff in force
+  tariffClass: TariffClass;
+  tariffs: Tariff[];
+  discounts: CustomerDiscount[]; // Already resolved for the customer, see DiscountService.resolveDiscounts
+  previousBalance?: number;
+}
+
+export interface BillingData {
+  customers: Customer[];
+  readings: MeterReading[];
+  adjustments: MeterAdjustment[]; // Gauge replacements, so usage on the removed gauge is billed
+  tariffs: Tariff[];
+  discounts: CustomerDiscount[];
+  bills: Bill[]; // Ledger bills of every month, for issued bills and balances carried forward
+}
+
+export interface CustomerBilling {
+  customer: Customer;
+  previousReading: MeterReading;
+  currentReading: MeterReading;
+  billing: BillingCalculation;
+  ledgerBill?: Bill; // Set when the month's bill is already issued; billing is then the stored bill
+}
+
+export interface MonthBilling {
+  month: string;
+  bills: CustomerBilling[];
+  missingReadings: Customer[]; // Customers without a reading in the month or before it
+  generatedAt: string;
+}
+
+export class BillingEngine {
+  /**
+   * Calculate a customer's bill from usage with the tariff in force on the billing date,
+   * so historical bills keep their original prices
+   */
+  static calculateBill(input: BillingInput): BillingCalculation {
+    const { customerId, usage, billingDate, tariffClass, discounts } = input;
+    const previousBalance = input.previousBalance || 0;
+    const tariff = TariffService.getTariffForDate(billingDate, input.tariffs);
+    const billingMonth = billingDate.substring(0, 7);
+
+    try {
+      // Calculate tiered pricing
+      const charges = TariffService.calculateCharges(tariff, usage, tariffClass);
+      const [firstTier, ...upperTiers] = charges.tierCharges;
+
+      const appliedDiscounts = DiscountService.calculateDiscounts(discounts, tariff, charges, usage);
+      const discountAmount = appliedDiscounts.reduce((sum, applied) => sum + applied.amount, 0);
+      const mainDiscount = appliedDiscounts.find(a => DiscountService.getKind(a.discount) !== 'free_usage') || appliedDiscounts[0];
+
+      const trueUpCredit = Math.min(input.trueUpCredit || 0, Math.max(0, charges.baseAmount - discountAmount));
+      const finalAmount = Math.max(0, charges.baseAmount - discountAmount - trueUpCredit);
+
+      return {
+        customerId,
+        usage,
+        tariffId: charges.tariffId,
+        tariffName: charges.tariffName,
+        tariffClass: charges.tariffClass,
+        tierCharges: charges.tierCharges,
+        gaugeUsage: input.gaugeUsage,
+        estimated: input.estimated,
+        trueUpUsage: input.trueUpUsage,
+        trueUpCredit: trueUpCredit || undefined,
+        fixedFees: charges.fixedFees,
+        unitUsage: firstTier?.usage || 0,
+        tensUsage: upperTiers.reduce((sum, charge) => sum + charge.usage, 0),
+        unitPrice: firstTier?.amount || 0,
+        tensPrice: upperTiers.reduce((sum, charge) => sum + charge.amount, 0),
+        speedometerFee: charges.fixedFeeAmount,
+        baseAmount: charges.baseAmount,
+        discount: mainDiscount?.discount,
+        appliedDiscounts,
+        discountAmount,
+        finalAmount,
+        previousBalance,
+        creditApplied: Math.min(Math.max(0, previousBalance), finalAmount),
+        amountDue: Math.max(0, finalAmount - previousBalance),
+        billingMonth
+      };
+    } catch (error) {
+      console.error('Error calculating billing:', error);
+      // Return safe defaults
+      const fixedFeeAmount = tariff.fixed_fees.reduce((sum, fee) => sum + fee.amount, 0);
+      const trueUpCredit = Math.min(input.trueUpCredit || 0, fixedFeeAmount);
+      const finalAmount = fixedFeeAmount - trueUpCredit;
+      return {
+        customerId,
+        usage,
+        tariffId: tariff.id,
+        tariffName: tariff.name,
+        tariffClass,
+        tierCharges: [],
+        gaugeUsage: input.gaugeUsage,
+        estimated: input.estimated,
+        trueUpUsage: input.trueUpUsage,
+        trueUpCredit: trueUpCredit || undefined,
+        fixedFees: tariff.fixed_fees,
+        unitUsage: 0,
+        tensUsage: 0,
+        unitPrice: 0,
+        tensPrice: 0,
+        speedometerFee: fixedFeeAmount,
+        baseAmount: fixedFeeAmount,
+        appliedDiscounts: [],
+        discountAmount: 0,
+        finalAmount,
+        previousBalance,
+        creditApplied: Math.min(Math.max(0, previousBalance), finalAmount),
+        amountDue: Math.max(0, finalAmount - previousBalance),
+        billingMonth
+      };
+    }
+  }
+
+  /**
+   * Bill every customer for a month (YYYY-MM). Usage runs from the last reading before the month
+   * to the latest reading in it, across any gauge replaced in between. When the reading before
+   * the month was an estimate, the actual reading trues it up: usage above the estimate is billed
+   * as usual and usage billed too much is credited. Customers whose bill is already issued get
+   * the stored bill.
+   */
+  static calculateMonth(month: string, data: BillingData): MonthBilling {
+    const monthStart = `${month}-01`;
+    const bills: CustomerBilling[] = [];
+    const missingReadings: Customer[] = [];
+
+    const issuedBills = new Map(
+      data.bills
+        .filter(bill => bill.billing_month === month && bill.status !== 'draft' && bill.status !== 'void')
+        .map(bill => [bill.customer_id, bill])
+    );
+
+    // Newest first, so the first match is the latest reading
+    const readings = [...data.readings].sort((a, b) => b.date.localeCompare(a.date));
+
+    for (const customer of data.customers) {
+      const customerId = customer.id.toString();
+
+      const ledgerBill = issuedBills.get(customerId);
+      if (ledgerBill) {
+        bills.push(this.fromLedgerBill(customer, ledgerBill));
+        continue;
+      }
+
+      const customerReadings = readings.filter(r => r.customer_id.toString() === customerId);
+      const currentReading = customerReadings.find(r => r.date.substring(0, 7) === month);
+      const previousReading = customerReadings.find(r => r.date < monthStart);
+      if (!currentReading || !previousReading) {
+        missingReadings.push(customer);
+        continue;
+      }
+
+      const tariffClass: TariffClass = customer.tariff_class || 'household';
+      const gaugeUsage = MeterRegisterService.getGaugeUsage(previousReading, currentReading, data.adjustments);
+      const isTrueUp = previousReading.estimated && !currentReading.estimated && !currentReading.rollover && gaugeUsage.length === 0;
+      const trueUpUsage = isTrueUp ? currentReading.reading - previousReading.reading : undefined;
+      bills.push({
+        customer,
+        previousReading,
+        currentReading,
+        billing: this.calculateBill({
+          customerId,
+          usage: gaugeUsage.length > 0
+            ? gaugeUsage.reduce((sum, gauge) => sum + gauge.usage, 0)
+            : MeterRegisterService.calculateUsage(previousReading, currentReading, customer.meter_digits),
+          gaugeUsage: gaugeUsage.length > 0 ? gaugeUsage : undefined,
+          estimated: currentReading.estimated,
+          trueUpUsage,
+          trueUpCredit: trueUpUsage !== undefined && trueUpUsage < 0
+            ? this.getTrueUpCredit(-trueUpUsage, customer, customerReadings, previousReading, tariffClass, data)
+            : undefined,
+          billingDate: currentReading.date,
+          tariffClass,
+          tariffs: data.tariffs,
+          discounts: DiscountService.resolveDiscounts(data.discounts, { customerId, rt: customer.rt, tariffClass }, month),
+          previousBalance: BillLedgerService.getCustomerBalance(data.bills, customerId, month)
+        })
+      });
+    }
+
+    return {
+      month,
+      bills,
+      missingReadings,
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Usage charge of the m³ billed too much on an estimated reading: the estimated bill's usage charge
+   * minus what it would have been with the actual usage, at the tariff of the estimated bill.
+   * Discounts and fixed fees of the estimated bill are left as they were.
+   */
+  private static getTrueUpCredit(
+    overbilledUsage: number,
+    customer: Customer,
+    customerReadings: MeterReading[],
+    estimatedReading: MeterReading,
+    tariffClass: TariffClass,
+    data: BillingData
+  ): number {
+    const estimatedMonth = estimatedReading.date.substring(0, 7);
+    const estimatedBill = data.bills.find(bill =>
+      bill.customer_id === customer.id.toString() &&
+      bill.billing_month === estimatedMonth &&
+      bill.status !== 'void'
+    );
+
+    let estimatedUsage = estimatedBill?.usage;
+    if (estimatedUsage === undefined) {
+      const readingBefore = customerReadings.find(r => r.date < `${estimatedMonth}-01`);
+      if (!readingBefore) return 0;
+      estimatedUsage = MeterRegisterService.calculateUsage(readingBefore, estimatedReading, customer.meter_digits);
+    }
+
+    const tariff = TariffService.getTariffForDate(estimatedReading.date, data.tariffs);
+    const billed = TariffService.calculateCharges(tariff, estimatedUsage, tariffClass).usageAmount;
+    const actual = TariffService.calculateCharges(tariff, Math.max(0, estimatedUsage - overbilledUsage), tariffClass).usageAmount;
+    return billed - actual;
+  }
+
+  /**
+   * Report an issued bill as stored, so issued amounts never change
+   */
+  private static fromLedgerBill(customer: Customer, bill: Bill): CustomerBilling {
+    return {
+      customer,
+      previousReading: {
+        id: bill.previous_reading_id || `${bill.id}-previous`,
+        customer_id: bill.customer_id,
+        reading: bill.previous_reading,
+        date: bill.previous_reading_date || bill.reading_date,
+        estimated: bill.true_up_usage !== undefined || undefined
+      },
+      currentReading: {
+        id: bill.reading_id || `${bill.id}-current`,
+        customer_id: bill.customer_id,
+        reading: bill.current_reading,
+        date: bill.reading_date,
+        estimated: bill.estimated
+      },
+      billing: BillLedgerService.toBillingCalculation(bill),
+      ledgerBill: bill
+    };
+  }
+}
+
+export default BillingEngine;
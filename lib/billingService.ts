@@ -0,0 +1,290 @@
+/**
+ * Billing Service
+ * Loads the data the billing engine needs and serves bills through the /api/billing route handlers.
+ * Pages fetch bills from the API and fall back to the offline caches when the server is unreachable.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, getAuthHeaders, fetchAllRows } from './supabase';
+import { Customer, MeterAdjustment, MeterReading } from '@/types/types';
+import { offlineStorage } from './offlineStorage';
+import { TariffService } from './tariffService';
+import { DiscountService } from './discountService';
+import { BillLedgerService } from './billLedgerService';
+import { BillingEngine, BillingData, CustomerBilling, MonthBilling } from './billingEngine';
+
+export class BillingService {
+  /**
+   * Calculate every customer's bill for a month from the server data (used by GET /api/billing/:month)
+   */
+  static async loadMonthBilling(month: string, client: SupabaseClient = supabase): Promise<MonthBilling> {
+    this.validateMonth(month);
+    const data = await this.loadBillingData(month, undefined, client);
+    return BillingEngine.calculateMonth(month, data);
+  }
+
+  /**
+   * Calculate one customer's bill from the server data (used by GET /api/billing/customer/:id).
+   * Without a month the month of the customer's latest reading is billed.
+   */
+  static async loadCustomerBilling(
+    customerId: string,
+    month?: string,
+    client: SupabaseClient = supabase
+  ): Promise<CustomerBilling | null> {
+    if (month) this.validateMonth(month);
+    const data = await this.loadBillingData(month, customerId, client);
+    return this.findCustomerBilling(data, customerId, month);
+  }
+
+  /**
+   * Fetch a month's bills from the billing API, calculating them from the offline caches when offline
+   */
+  static async fetchMonthBilling(month: string): Promise<MonthBilling> {
+    try {
+      const response = await fetch(`/api/billing/${month}`, { headers: await getAuthHeaders() });
+      if (!response.ok) {
+        throw new Error(`Billing API returned ${response.status}`);
+      }
+      return await response.json();
+    } catch (error) {
+      console.warn('Error fetching billing from server, using offline data (non-critical):', error);
+      await offlineStorage.ready();
+      return BillingEngine.calculateMonth(month, this.getCachedBillingData());
+    }
+  }
+
+  /**
+   * Fetch one customer's bill from the billing API, calculating it from the offline caches when offline
+   */
+  static async fetchCustomerBilling(customerId: string, month?: string): Promise<CustomerBilling | null> {
+    try {
+      const query = month ? `?month=${month}` : '';
+      const response = await fetch(`/api/billing/customer/${encodeURIComponent(customerId)}${query}`, {
+        headers: await getAuthHeaders()
+      });
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Billing API returned ${response.status}`);
+      }
+      return await response.json();
+    } catch (error) {
+      console.warn('Error fetching customer billing from server, using offline data (non-critical):', error);
+      await offlineStorage.ready();
+      return this.findCustomerBilling(this.getCachedBillingData(), customerId, month);
+    }
+  }
+
+  /**
+   * Check that a billing month is in YYYY-MM format
+   */
+  static isValidMonth(month: string): boolean {
+    return /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
+  }
+
+  /**
+   * Bill a single customer from already loaded data
+   */
+  private static findCustomerBilling(data: BillingData, customerId: string, month?: string): CustomerBilling | null {
+    const customer = data.customers.find(c => c.id.toString() === customerId);
+    if (!customer) return null;
+
+    const customerReadings = data.readings.filter(r => r.customer_id.toString() === customerId);
+    const billingMonth = month || customerReadings
+      .map(r => r.date.substring(0, 7))
+      .sort()
+      .pop();
+    if (!billingMonth) return null;
+
+    const monthBilling = BillingEngine.calculateMonth(billingMonth, {
+      ...data,
+      customers: [customer],
+      readings: customerReadings
+    });
+
+    return monthBilling.bills[0] || null;
+  }
+
+  /**
+   * Load customers, readings and gauge replacements up to the end of the month, tariffs,
+   * approved discounts and ledger bills, as the user the client is signed in for
+   */
+  static async loadBillingData(
+    month?: string,
+    customerId?: string,
+    client: SupabaseClient = supabase
+  ): Promise<BillingData> {
+    const customersQuery = (from: number, to: number) => {
+      let query = client
+        .from('customers')
+        .select('*')
+        .order('rt', { ascending: true })
+        .order('name', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to);
+      if (customerId) {
+        query = query.eq('id', customerId);
+      }
+      return query;
+    };
+
+    const readingsQuery = (from: number, to: number) => {
+      let query = client
+        .from('meter_readings')
+        .select('*')
+        .order('date', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, to);
+      if (customerId) {
+        query = query.eq('customer_id', customerId);
+      }
+      if (month) {
+        query = query.lt('date', this.getNextMonthStart(month));
+      }
+      return query;
+    };
+
+    const [customersResult, readingsResult, adjustments, tariffs, discounts, bills] = await Promise.all([
+      fetchAllRows(customersQuery),
+      fetchAllRows(readingsQuery),
+      this.loadGaugeReplacements(month, customerId, client),
+      TariffService.loadTariffs(client),
+      DiscountService.loadActiveDiscounts(client),
+      BillLedgerService.loadBills(undefined, client)
+    ]);
+
+    if (customersResult.error) {
+      throw customersResult.error;
+    }
+    if (readingsResult.error) {
+      throw readingsResult.error;
+    }
+
+    return {
+      customers: customersResult.data.map(row => this.mapCustomerRow(row)),
+      readings: readingsResult.data.map(row => this.mapReadingRow(row)),
+      adjustments,
+      tariffs,
+      discounts,
+      bills
+    };
+  }
+
+  /**
+   * Load gauge replacements up to the end of the month. Billing continues without them
+   * when the meter adjustments table is not set up, but not when they fail to load.
+   */
+  private static async loadGaugeReplacements(
+    month?: string,
+    customerId?: string,
+    client: SupabaseClient = supabase
+  ): Promise<MeterAdjustment[]> {
+    let query = client
+      .from('meter_adjustments')
+      .select('*')
+      .eq('adjustment_type', 'gauge_replacement');
+
+    if (customerId) {
+      query = query.eq('customer_id', customerId);
+    }
+    if (month) {
+      query = query.lt('adjustment_date', this.getNextMonthStart(month));
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      if (error.code === 'PGRST116' || error.message?.includes('does not exist')) {
+        console.warn('Meter adjustments table not found - billing without gauge replacements');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapAdjustmentRow(row));
+  }
+
+  /**
+   * Billing data from the offline caches
+   */
+  private static getCachedBillingData(): BillingData {
+    return {
+      customers: offlineStorage.getCustomers(),
+      readings: offlineStorage.getReadings(),
+      adjustments: offlineStorage.getGaugeReplacements(),
+      tariffs: TariffService.getCachedTariffs(),
+      discounts: DiscountService.getCachedDiscounts(),
+      bills: BillLedgerService.getCachedBills()
+    };
+  }
+
+  /**
+   * Reject anything that is not a YYYY-MM month
+   */
+  private static validateMonth(month: string): void {
+    if (!this.isValidMonth(month)) {
+      throw new Error('Bulan tagihan tidak valid');
+    }
+  }
+
+  /**
+   * First day of the month after a YYYY-MM month, as YYYY-MM-DD
+   */
+  private static getNextMonthStart(month: string): string {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const next = new Date(year, monthNumber, 1);
+    return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-01`;
+  }
+
+  /**
+   * Map database row to Customer object
+   */
+  private static mapCustomerRow(row: any): Customer {
+    return {
+      id: row.id.toString(),
+      name: row.name,
+      rt: row.rt || undefined,
+      phone: row.phone || undefined,
+      tariff_class: row.tariff_class || 'household',
+      meter_digits: row.meter_digits ?? undefined
+    };
+  }
+
+  /**
+   * Map database row to MeterReading object
+   */
+  private static mapReadingRow(row: any): MeterReading {
+    return {
+      id: row.id.toString(),
+      customer_id: row.customer_id.toString(),
+      reading: Number(row.reading),
+      date: row.date,
+      rollover: row.rollover || undefined,
+      estimated: row.estimated || undefined,
+      meter_id: row.meter_id || undefined
+    };
+  }
+
+  /**
+   * Map database row to MeterAdjustment object
+   */
+  private static mapAdjustmentRow(row: any): MeterAdjustment {
+    return {
+      id: row.id.toString(),
+      customer_id: row.customer_id.toString(),
+      old_reading: Number(row.old_reading),
+      new_reading: Number(row.new_reading),
+      adjustment_type: row.adjustment_type,
+      reason: row.reason,
+      adjustment_date: row.adjustment_date,
+      created_by: row.created_by,
+      created_at: row.created_at,
+      notes: row.notes || undefined,
+      old_meter_id: row.old_meter_id || undefined,
+      new_meter_id: row.new_meter_id || undefined
+    };
+  }
+}
+
+export default BillingService;
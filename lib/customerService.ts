@@ -0,0 +1,132 @@
+/**
+ * Customer Service
+ * Creates and updates customers, queuing the change in offline storage when there is no connection.
+ * Queued changes are sent by OptimizedSyncManager.
+ */
+
+import { supabase } from './supabase';
+import { Customer } from '@/types/types';
+import { offlineStorage } from './offlineStorage';
+
+export type CustomerInput = Omit<Customer, 'id'>;
+
+// Fields an offline edit can change, compared field by field when it syncs
+export const CUSTOMER_SYNC_FIELDS: (keyof CustomerInput)[] = ['name', 'rt', 'phone', 'tariff_class', 'meter_digits'];
+
+export class CustomerService {
+  /**
+   * Create a customer, or update an existing one. Offline, the change is saved on this device
+   * and synced later; the returned customer then has a temporary offline id.
+   */
+  static async saveCustomer(input: CustomerInput, existing?: Customer): Promise<Customer> {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      await offlineStorage.ready();
+      return this.saveOffline(input, existing);
+    }
+
+    return existing ? this.updateCustomer(existing.id, input) : this.createCustomer(input);
+  }
+
+  /**
+   * Insert a customer on the server
+   */
+  static async createCustomer(input: CustomerInput): Promise<Customer> {
+    const { data, error } = await supabase
+      .from('customers')
+      .insert({
+        name: input.name,
+        rt: input.rt,
+        phone: input.phone,
+        tariff_class: input.tariff_class || 'household',
+        meter_digits: input.meter_digits
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return this.mapCustomerRow(data);
+  }
+
+  /**
+   * Update the given fields of a customer on the server
+   */
+  static async updateCustomer(id: string, changes: Partial<CustomerInput>): Promise<Customer> {
+    const { data, error } = await supabase
+      .from('customers')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return this.mapCustomerRow(data);
+  }
+
+  /**
+   * Fetch one customer from the server; null when it no longer exists
+   */
+  static async fetchCustomer(id: string): Promise<Customer | null> {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? this.mapCustomerRow(data) : null;
+  }
+
+  /**
+   * Find a customer with the same name (ignoring case) in the same RT
+   */
+  static async findCustomerByName(name: string, rt?: string): Promise<Customer | null> {
+    let query = supabase
+      .from('customers')
+      .select('*')
+      .ilike('name', name.trim().replace(/[\\%_]/g, match => `\\${match}`))
+      .limit(1);
+    query = rt ? query.eq('rt', rt) : query.is('rt', null);
+
+    const { data, error } = await query;
+    if (error) {
+      throw error;
+    }
+
+    return data && data.length > 0 ? this.mapCustomerRow(data[0]) : null;
+  }
+
+  private static saveOffline(input: CustomerInput, existing?: Customer): Customer {
+    if (existing) {
+      offlineStorage.updateCustomer(existing.id, input);
+      return { ...existing, ...input };
+    }
+
+    return { ...input, id: offlineStorage.addCustomer(input) };
+  }
+
+  /**
+   * Map database row to Customer object
+   */
+  static mapCustomerRow(row: any): Customer {
+    return {
+      id: row.id.toString(),
+      name: row.name,
+      rt: row.rt || undefined,
+      phone: row.phone || undefined,
+      tariff_class: row.tariff_class || 'household',
+      route_order: row.route_order ?? undefined,
+      meter_digits: row.meter_digits ?? undefined
+    };
+  }
+}
+
+export default CustomerService;
@@ -3,9 +3,12 @@
  * Orchestrates the complete flow from raw meter data to processed billing data
  */
 
-import { Customer, MeterReading, CustomerDiscount } from '@/types/types';
+import { Customer, MeterReading, CustomerDiscount, TariffClass } from '@/types/types';
 import { MeterDataService, UsageCalculation, BillingCalculation } from './meterDataService';
 import { offlineStorage } from './offlineStorage';
+import { TariffService } from './tariffService';
+import { BillingService } from './billingService';
+import { MonthBilling } from './billingEngine';
 import { formatDateID } from '@/utils/dateFormat';
 
 export interface ProcessedMeterData {
@@ -52,6 +55,9 @@ export class DataTransformationPipeline {
     const processedData: ProcessedMeterData[] = [];
 
     try {
+      // Refresh tariff versions so each bill uses the tariff in force on its reading date
+      await TariffService.loadTariffs();
+
       // Step 1: Get filtered customers and readings
       const customers = this.getFilteredCustomers(filters);
       const readings = this.getFilteredReadings(filters);
@@ -75,7 +81,8 @@ export class DataTransformationPipeline {
             const billing = MeterDataService.calculateBilling(
               customer.id,
               usage.usage,
-              reading.date
+              reading.date,
+              customer.tariff_class
             );
 
             // Create processed data entry
@@ -139,17 +146,17 @@ export class DataTransformationPipeline {
       billing: number;
       discounts: number;
     }>;
+    classBreakdown: Map<TariffClass, {
+      customers: number;
+      usage: number;
+      billing: number;
+      discounts: number;
+    }>;
   }> {
     try {
-      // Create date range for the month
-      const startDate = new Date(year, month - 1, 1).toISOString().split('T')[0];
-      const endDate = new Date(year, month, 0).toISOString().split('T')[0];
-
-      // Transform data for the month
-      const result = await this.transformMeterDataToBilling({
-        startDate,
-        endDate
-      });
+      // Bills come from the billing API; closed months are reported as issued so amounts never change
+      const monthKey = `${year}-${String(month).padStart(2, '0')}`;
+      const result = this.transformMonthBilling(await BillingService.fetchMonthBilling(monthKey));
 
       // Calculate summary
       const summary = {
@@ -189,10 +196,36 @@ export class DataTransformationPipeline {
         rtBreakdown.set(rt, existing);
       });
 
+      // Calculate tariff class breakdown
+      const classBreakdown = new Map<TariffClass, {
+        customers: number;
+        usage: number;
+        billing: number;
+        discounts: number;
+      }>();
+
+      result.data.forEach(entry => {
+        const tariffClass = entry.billing.tariffClass;
+        const existing = classBreakdown.get(tariffClass) || {
+          customers: 0,
+          usage: 0,
+          billing: 0,
+          discounts: 0
+        };
+
+        existing.customers += 1;
+        existing.usage += entry.usage.usage;
+        existing.billing += entry.billing.finalAmount;
+        existing.discounts += entry.billing.discountAmount;
+
+        classBreakdown.set(tariffClass, existing);
+      });
+
       return {
         data: result.data,
         summary,
-        rtBreakdown
+        rtBreakdown,
+        classBreakdown
       };
     } catch (error) {
       console.error('Error generating monthly billing report:', error);
@@ -261,6 +294,39 @@ export class DataTransformationPipeline {
     return grouped;
   }
 
+  /**
+   * Transform the billing API's month bills into processed billing data
+   */
+  private static transformMonthBilling(monthBilling: MonthBilling): {
+    data: ProcessedMeterData[];
+    metrics: PipelineMetrics;
+    errors: string[];
+  } {
+    const startTime = Date.now();
+
+    const data = monthBilling.bills.map(({ customer, previousReading, currentReading, billing, ledgerBill }) => ({
+      customer,
+      currentReading,
+      previousReading,
+      usage: {
+        customerId: customer.id,
+        currentReading,
+        previousReading,
+        usage: billing.usage,
+        isValid: true,
+        validationErrors: []
+      },
+      billing,
+      processedAt: new Date(ledgerBill ? ledgerBill.issued_at || ledgerBill.created_at : monthBilling.generatedAt)
+    }));
+
+    return {
+      data,
+      metrics: this.calculatePipelineMetrics(data, Date.now() - startTime),
+      errors: []
+    };
+  }
+
   /**
    * Calculate pipeline processing metrics
    */
@@ -361,14 +427,16 @@ export class DataTransformationPipeline {
         return data.map(entry => ({
           'Nama Pelanggan': entry.customer.name,
           'RT': entry.customer.rt || '',
+          'Golongan': TariffService.getClassLabel(entry.billing.tariffClass),
           'Telepon': entry.customer.phone || '',
           'Tanggal Baca': formatDateID(new Date(entry.currentReading.date)),
           'Pembacaan Sebelumnya': entry.previousReading?.reading || 0,
           'Pembacaan Saat Ini': entry.currentReading.reading,
           'Pemakaian (m³)': entry.usage.usage,
-          'Tarif 1-10 m³': entry.billing.unitPrice,
-          'Tarif 11+ m³': entry.billing.tensPrice,
-          'Biaya Speedometer': entry.billing.speedometerFee,
+          'Tarif': entry.billing.tariffName,
+          'Biaya Tingkat Pertama': entry.billing.unitPrice,
+          'Biaya Tingkat Lanjut': entry.billing.tensPrice,
+          'Biaya Tetap': entry.billing.speedometerFee,
           'Jumlah Dasar': entry.billing.baseAmount,
           'Diskon': entry.billing.discountAmount,
           'Total Tagihan': entry.billing.finalAmount
@@ -388,6 +456,9 @@ export class DataTransformationPipeline {
           },
           usage: entry.usage.usage,
           billing: {
+            tariff: entry.billing.tariffName,
+            tiers: entry.billing.tierCharges,
+            fixedFees: entry.billing.fixedFees,
             unit: { usage: entry.billing.unitUsage, price: entry.billing.unitPrice },
             tens: { usage: entry.billing.tensUsage, price: entry.billing.tensPrice },
             speedometer: entry.billing.speedometerFee,
@@ -0,0 +1,572 @@
+/**
+ * Discount Service
+ * Resolves which discounts apply to a customer's bill and computes the discount amounts.
+ *
+ * Precedence when several discounts apply to the same bill:
+ * 1. Only active discounts whose period covers the billing month and whose target matches the customer count.
+ * 2. A customer discount beats an RT discount, which beats a tariff class discount.
+ * 3. Within the same scope a single-month discount beats a recurring one, then the newest discount wins.
+ * 4. At most one free allowance and one money discount (percentage or fixed amount) apply,
+ *    each picked with rules 2 and 3.
+ * 5. The free allowance is applied first at the customer's own tier rates; the money discount
+ *    then applies to what is left of the bill.
+ *
+ * Discounts above the approval thresholds stay pending, and do not reduce any bill,
+ * until a second admin approves them.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import {
+  AppliedDiscount,
+  CustomerDiscount,
+  DiscountApproval,
+  DiscountApprovalStatus,
+  DiscountScope,
+  Tariff,
+  TariffClass
+} from '@/types/types';
+import { offlineStorage } from './offlineStorage';
+import { TariffService, TariffCharges, TARIFF_CLASSES } from './tariffService';
+import { formatMonthYearID } from '@/utils/dateFormat';
+
+export type DiscountKind = 'percentage' | 'amount' | 'free_usage';
+
+export interface DiscountTarget {
+  customerId: string;
+  rt?: string;
+  tariffClass?: TariffClass;
+}
+
+export const DISCOUNT_SCOPES: { value: DiscountScope; label: string }[] = [
+  { value: 'customer', label: 'Pelanggan' },
+  { value: 'rt', label: 'Seluruh RT' },
+  { value: 'tariff_class', label: 'Golongan Tarif' }
+];
+
+// Customer discounts above these values, and every RT or tariff class discount, need a second admin's approval
+export const DISCOUNT_APPROVAL_THRESHOLDS = {
+  percentage: 25, // %
+  amount: 25000, // IDR per month
+  free_usage: 5 // m³ per month
+};
+
+export const DISCOUNT_APPROVAL_STATUSES: { value: DiscountApprovalStatus; label: string }[] = [
+  { value: 'pending', label: 'Menunggu Persetujuan' },
+  { value: 'approved', label: 'Disetujui' },
+  { value: 'rejected', label: 'Ditolak' }
+];
+
+// Fields an offline edit can change, compared field by field when it syncs
+export const DISCOUNT_SYNC_FIELDS: (keyof CustomerDiscount)[] = [
+  'scope', 'customer_id', 'target_rt', 'target_tariff_class', 'discount_percentage', 'discount_amount',
+  'free_usage', 'reason', 'discount_month', 'is_recurring', 'end_month', 'is_active'
+];
+
+export const DISCOUNT_APPROVAL_ACTIONS: { value: DiscountApproval['action']; label: string }[] = [
+  { value: 'requested', label: 'Diajukan' },
+  { value: 'approved', label: 'Disetujui' },
+  { value: 'rejected', label: 'Ditolak' }
+];
+
+export class DiscountService {
+  // Lower rank wins
+  private static readonly SCOPE_RANK: Record<DiscountScope, number> = {
+    customer: 0,
+    rt: 1,
+    tariff_class: 2
+  };
+
+  /**
+   * Fetch every discount from the server and refresh the offline cache.
+   * Falls back to the cached discounts when the server is unreachable.
+   */
+  static async loadDiscounts(): Promise<CustomerDiscount[]> {
+    await offlineStorage.ready();
+
+    try {
+      const { data, error } = await supabase
+        .from('customer_discounts')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.warn('Error fetching discounts (non-critical):', error);
+        return this.getCachedDiscounts();
+      }
+
+      const discounts = (data || []).map(row => this.mapDiscountRow(row));
+      if (typeof window !== 'undefined') {
+        offlineStorage.saveDiscounts(discounts);
+      }
+
+      return discounts;
+    } catch (error) {
+      console.warn('Error fetching discounts (non-critical):', error);
+      return this.getCachedDiscounts();
+    }
+  }
+
+  /**
+   * Fetch all active, approved discounts from the server.
+   * In the browser an empty list is returned when the server is unreachable so bills are created
+   * without discounts; on the server the error is thrown so the billing API fails instead.
+   */
+  static async loadActiveDiscounts(client: SupabaseClient = supabase): Promise<CustomerDiscount[]> {
+    try {
+      const { data, error } = await client
+        .from('customer_discounts')
+        .select('*')
+        .eq('is_active', true);
+
+      if (error) {
+        if (error.code === 'PGRST116' || error.message?.includes('does not exist')) {
+          console.warn('Customer discounts table not found - billing without discounts');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || [])
+        .map(row => this.mapDiscountRow(row))
+        .filter(discount => this.getApprovalStatus(discount) === 'approved');
+    } catch (error) {
+      if (typeof window === 'undefined') throw error;
+      console.warn('Error fetching discounts (non-critical):', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get discounts from the offline cache
+   */
+  static getCachedDiscounts(): CustomerDiscount[] {
+    if (typeof window === 'undefined') return [];
+    return offlineStorage.getDiscounts();
+  }
+
+  /**
+   * Get the scope of a discount; discounts created before scopes existed target one customer
+   */
+  static getScope(discount: CustomerDiscount): DiscountScope {
+    return discount.scope || 'customer';
+  }
+
+  /**
+   * Get the approval status of a discount; discounts created before approvals existed count as approved
+   */
+  static getApprovalStatus(discount: CustomerDiscount): DiscountApprovalStatus {
+    return discount.approval_status || 'approved';
+  }
+
+  /**
+   * Check whether a discount is large enough to need a second admin's approval
+   */
+  static requiresApproval(discount: Omit<CustomerDiscount, 'id'>): boolean {
+    if ((discount.scope || 'customer') !== 'customer') return true;
+
+    return discount.discount_percentage > DISCOUNT_APPROVAL_THRESHOLDS.percentage ||
+      (discount.discount_amount || 0) > DISCOUNT_APPROVAL_THRESHOLDS.amount ||
+      (discount.free_usage || 0) > DISCOUNT_APPROVAL_THRESHOLDS.free_usage;
+  }
+
+  /**
+   * Get what kind of reduction a discount gives
+   */
+  static getKind(discount: CustomerDiscount): DiscountKind {
+    if (discount.free_usage && discount.free_usage > 0) return 'free_usage';
+    if (discount.discount_percentage > 0) return 'percentage';
+    return 'amount';
+  }
+
+  /**
+   * Check whether a discount covers the billing month (YYYY-MM)
+   */
+  static appliesToMonth(discount: CustomerDiscount, month: string): boolean {
+    if (!discount.is_recurring) {
+      return discount.discount_month === month;
+    }
+
+    return discount.discount_month <= month && (!discount.end_month || month <= discount.end_month);
+  }
+
+  /**
+   * Check whether a discount targets the customer
+   */
+  static appliesToTarget(discount: CustomerDiscount, target: DiscountTarget): boolean {
+    switch (this.getScope(discount)) {
+      case 'rt':
+        return !!target.rt && discount.target_rt === target.rt;
+      case 'tariff_class':
+        return discount.target_tariff_class === (target.tariffClass || 'household');
+      default:
+        return discount.customer_id === target.customerId;
+    }
+  }
+
+  /**
+   * Pick the discounts that apply to a customer's bill for a month, following the precedence rules.
+   * Returns the free allowance first (if any), then the money discount (if any).
+   */
+  static resolveDiscounts(discounts: CustomerDiscount[], target: DiscountTarget, month: string): CustomerDiscount[] {
+    const candidates = discounts
+      .filter(d =>
+        d.is_active &&
+        this.getApprovalStatus(d) === 'approved' &&
+        this.appliesToMonth(d, month) &&
+        this.appliesToTarget(d, target)
+      )
+      .sort((a, b) =>
+        this.SCOPE_RANK[this.getScope(a)] - this.SCOPE_RANK[this.getScope(b)] ||
+        Number(!!a.is_recurring) - Number(!!b.is_recurring) ||
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+      );
+
+    const freeAllowance = candidates.find(d => this.getKind(d) === 'free_usage');
+    const moneyDiscount = candidates.find(d => this.getKind(d) !== 'free_usage');
+
+    return [freeAllowance, moneyDiscount].filter((d): d is CustomerDiscount => !!d);
+  }
+
+  /**
+   * Compute the amount of each resolved discount for a bill, never discounting below zero
+   */
+  static calculateDiscounts(
+    discounts: CustomerDiscount[],
+    tariff: Tariff,
+    charges: TariffCharges,
+    usage: number
+  ): AppliedDiscount[] {
+    const applied: AppliedDiscount[] = [];
+    let remaining = charges.baseAmount;
+
+    for (const discount of discounts) {
+      let amount = 0;
+
+      switch (this.getKind(discount)) {
+        case 'free_usage': {
+          // The first N m³ fall in the cheapest tiers; fixed fees are still charged
+          const freeUsage = Math.min(usage, discount.free_usage || 0);
+          amount = TariffService.calculateCharges(tariff, freeUsage, charges.tariffClass).usageAmount;
+          break;
+        }
+        case 'percentage':
+          amount = Math.round((remaining * discount.discount_percentage) / 100);
+          break;
+        default:
+          amount = discount.discount_amount || 0;
+      }
+
+      amount = Math.min(amount, remaining);
+      remaining -= amount;
+      applied.push({ discount, amount });
+    }
+
+    return applied;
+  }
+
+  /**
+   * Short description of the reduction, e.g. "50%", "Rp 5.000" or "Gratis 10 m³"
+   */
+  static describeValue(discount: CustomerDiscount): string {
+    switch (this.getKind(discount)) {
+      case 'free_usage':
+        return `Gratis ${discount.free_usage} m³`;
+      case 'percentage':
+        return `${discount.discount_percentage}%`;
+      default:
+        return `Rp ${(discount.discount_amount || 0).toLocaleString('id-ID')}`;
+    }
+  }
+
+  /**
+   * Describe who the discount targets, e.g. "Seluruh RT 01" or "Golongan Sosial (Posyandu, dll.)"
+   */
+  static describeTarget(discount: CustomerDiscount, customerName?: string): string {
+    switch (this.getScope(discount)) {
+      case 'rt':
+        return `Seluruh ${discount.target_rt}`;
+      case 'tariff_class': {
+        const label = TARIFF_CLASSES.find(c => c.value === discount.target_tariff_class)?.label;
+        return `Golongan ${label || discount.target_tariff_class}`;
+      }
+      default:
+        return customerName || 'Pelanggan';
+    }
+  }
+
+  /**
+   * Describe the months a discount covers
+   */
+  static describePeriod(discount: CustomerDiscount): string {
+    if (!discount.is_recurring) {
+      return formatMonthYearID(discount.discount_month);
+    }
+
+    return discount.end_month
+      ? `${formatMonthYearID(discount.discount_month)} - ${formatMonthYearID(discount.end_month)}`
+      : `Mulai ${formatMonthYearID(discount.discount_month)} (tanpa batas)`;
+  }
+
+  /**
+   * Create or update a discount. Discounts above the approval thresholds are saved as pending
+   * and only take effect once another admin approves them. Offline, the change is saved on this
+   * device and synced later by OptimizedSyncManager.
+   */
+  static async saveDiscount(
+    input: Omit<CustomerDiscount, 'id'>,
+    savedBy: string,
+    existing?: CustomerDiscount
+  ): Promise<CustomerDiscount> {
+    const approvalStatus: DiscountApprovalStatus = this.requiresApproval(input) ? 'pending' : 'approved';
+
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      await offlineStorage.ready();
+      const discount = { ...input, approval_status: approvalStatus };
+      if (existing) {
+        offlineStorage.updateDiscount(existing.id, discount);
+        return { ...existing, ...discount };
+      }
+      return { ...discount, id: offlineStorage.addDiscount({ ...discount, created_by: savedBy }) };
+    }
+
+    const row = {
+      scope: input.scope || 'customer',
+      customer_id: input.customer_id || null,
+      target_rt: input.target_rt || null,
+      target_tariff_class: input.target_tariff_class || null,
+      discount_percentage: input.discount_percentage,
+      discount_amount: input.discount_amount || 0,
+      free_usage: input.free_usage || 0,
+      reason: input.reason,
+      discount_month: input.discount_month,
+      is_recurring: !!input.is_recurring,
+      end_month: input.end_month || null,
+      approval_status: approvalStatus,
+      is_active: input.is_active
+    };
+
+    const { data, error } = existing
+      ? await supabase.from('customer_discounts').update(row).eq('id', existing.id).select().single()
+      : await supabase.from('customer_discounts').insert({ ...row, created_by: savedBy }).select().single();
+
+    if (error) {
+      throw error;
+    }
+
+    const discount = this.mapDiscountRow(data);
+    if (approvalStatus === 'pending') {
+      await this.recordApproval(discount, 'requested', savedBy, existing ? 'Diskon diubah' : input.reason);
+    }
+
+    await this.loadDiscounts();
+    return discount;
+  }
+
+  /**
+   * Fetch one discount from the server; null when it no longer exists
+   */
+  static async fetchDiscount(id: string): Promise<CustomerDiscount | null> {
+    const { data, error } = await supabase
+      .from('customer_discounts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? this.mapDiscountRow(data) : null;
+  }
+
+  /**
+   * Deactivate a discount so it no longer applies to new bills
+   */
+  static async deactivateDiscount(discount: CustomerDiscount): Promise<void> {
+    const { error } = await supabase
+      .from('customer_discounts')
+      .update({ is_active: false })
+      .eq('id', discount.id);
+
+    if (error) {
+      throw error;
+    }
+
+    await this.loadDiscounts();
+  }
+
+  /**
+   * Approve a pending discount. The approver must be a different admin from the one who requested it.
+   */
+  static async approveDiscount(discount: CustomerDiscount, approvedBy: string, reason: string): Promise<void> {
+    await this.decideDiscount(discount, 'approved', approvedBy, reason);
+  }
+
+  /**
+   * Reject a pending discount. The discount is kept for the audit trail but never applies.
+   */
+  static async rejectDiscount(discount: CustomerDiscount, rejectedBy: string, reason: string): Promise<void> {
+    await this.decideDiscount(discount, 'rejected', rejectedBy, reason);
+  }
+
+  /**
+   * Fetch the approval history, newest first, for one discount or for a date range
+   */
+  static async loadApprovalHistory(filters: { discountId?: string; from?: Date; to?: Date } = {}): Promise<DiscountApproval[]> {
+    try {
+      let query = supabase
+        .from('discount_approvals')
+        .select('*, discount:customer_discounts(*)')
+        .order('created_at', { ascending: false });
+
+      if (filters.discountId) {
+        query = query.eq('discount_id', filters.discountId);
+      }
+      if (filters.from) {
+        query = query.gte('created_at', filters.from.toISOString());
+      }
+      if (filters.to) {
+        query = query.lte('created_at', filters.to.toISOString());
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (error.code === 'PGRST116' || error.message?.includes('does not exist')) {
+          console.warn('Discount approvals table not found - approval history unavailable');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.mapApprovalRow(row));
+    } catch (error) {
+      console.warn('Error fetching discount approvals (non-critical):', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the display label for an approval status
+   */
+  static getApprovalStatusLabel(status: DiscountApprovalStatus): string {
+    return DISCOUNT_APPROVAL_STATUSES.find(s => s.value === status)?.label || status;
+  }
+
+  /**
+   * Get the display label for an approval history entry
+   */
+  static getApprovalActionLabel(action: DiscountApproval['action']): string {
+    return DISCOUNT_APPROVAL_ACTIONS.find(a => a.value === action)?.label || action;
+  }
+
+  /**
+   * Record an approval decision after checking the four-eyes rule
+   */
+  private static async decideDiscount(
+    discount: CustomerDiscount,
+    decision: 'approved' | 'rejected',
+    decidedBy: string,
+    reason: string
+  ): Promise<void> {
+    if (this.getApprovalStatus(discount) !== 'pending') {
+      throw new Error('Diskon ini tidak sedang menunggu persetujuan');
+    }
+
+    if (!reason.trim()) {
+      throw new Error(decision === 'approved' ? 'Alasan persetujuan wajib diisi' : 'Alasan penolakan wajib diisi');
+    }
+
+    // The requester is the last person who submitted the discount for approval
+    const history = await this.loadApprovalHistory({ discountId: discount.id });
+    const requestedBy = history.find(entry => entry.action === 'requested')?.actor || discount.created_by;
+    if (requestedBy === decidedBy) {
+      throw new Error('Diskon harus disetujui atau ditolak oleh admin lain');
+    }
+
+    const { data, error } = await supabase
+      .from('customer_discounts')
+      .update({ approval_status: decision })
+      .eq('id', discount.id)
+      .eq('approval_status', 'pending')
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    // Another admin decided on the discount first
+    if (!data || data.length === 0) {
+      await this.loadDiscounts();
+      throw new Error('Diskon ini sudah diputuskan oleh admin lain');
+    }
+
+    await this.recordApproval(discount, decision, decidedBy, reason);
+    await this.loadDiscounts();
+  }
+
+  /**
+   * Append an entry to the approval audit trail
+   */
+  private static async recordApproval(
+    discount: CustomerDiscount,
+    action: DiscountApproval['action'],
+    actor: string,
+    reason?: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('discount_approvals')
+      .insert({
+        discount_id: discount.id,
+        action,
+        reason: reason?.trim() || null,
+        actor
+      });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Map database row to DiscountApproval object
+   */
+  private static mapApprovalRow(row: any): DiscountApproval {
+    return {
+      id: row.id.toString(),
+      discount_id: row.discount_id.toString(),
+      action: row.action,
+      reason: row.reason || undefined,
+      actor: row.actor,
+      created_at: row.created_at,
+      discount: row.discount ? this.mapDiscountRow(row.discount) : undefined
+    };
+  }
+
+  /**
+   * Map database row to CustomerDiscount object
+   */
+  private static mapDiscountRow(row: any): CustomerDiscount {
+    return {
+      id: row.id.toString(),
+      scope: row.scope || 'customer',
+      customer_id: row.customer_id ? row.customer_id.toString() : undefined,
+      target_rt: row.target_rt || undefined,
+      target_tariff_class: row.target_tariff_class || undefined,
+      discount_percentage: Number(row.discount_percentage || 0),
+      discount_amount: row.discount_amount ? Number(row.discount_amount) : undefined,
+      free_usage: row.free_usage ? Number(row.free_usage) : undefined,
+      reason: row.reason,
+      discount_month: row.discount_month,
+      is_recurring: !!row.is_recurring,
+      end_month: row.end_month || null,
+      approval_status: row.approval_status || 'approved',
+      created_by: row.created_by,
+      created_at: row.created_at,
+      is_active: row.is_active
+    };
+  }
+}
+
+export default DiscountService;
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { DiscountService } from './discountService';
 import {
   Transaction,
   TransactionInput,
@@ -31,6 +32,8 @@ export class FinancialService {
         date: transaction.date.toISOString().split('T')[0], // Convert to YYYY-MM-DD format
         category_id: transaction.category_id,
         description: transaction.description,
+        rt: transaction.rt || null,
+        billing_month: transaction.billing_month || null,
         created_by: user.email || user.id,
         updated_at: new Date().toISOString()
       };
@@ -77,6 +80,8 @@ export class FinancialService {
       if (updates.date !== undefined) updateData.date = updates.date.toISOString().split('T')[0];
       if (updates.category_id !== undefined) updateData.category_id = updates.category_id;
       if (updates.description !== undefined) updateData.description = updates.description;
+      if (updates.rt !== undefined) updateData.rt = updates.rt || null;
+      if (updates.billing_month !== undefined) updateData.billing_month = updates.billing_month || null;
 
       const { data, error } = await supabase
         .from('financial_transactions')
@@ -152,6 +157,14 @@ export class FinancialService {
           query = query.ilike('description', `%${filters.search_term}%`);
         }
 
+        if (filters.rt) {
+          query = query.eq('rt', filters.rt);
+        }
+
+        if (filters.billing_month) {
+          query = query.eq('billing_month', filters.billing_month);
+        }
+
         // Apply sorting
         const sortBy = filters.sort_by || 'date';
         const sortOrder = filters.sort_order === 'asc';
@@ -314,6 +327,12 @@ export class FinancialService {
 
       const categories = await this.getCategories();
 
+      // Discount decisions made in the period, so reduced revenue can be traced to who approved it
+      const discountApprovals = await DiscountService.loadApprovalHistory({
+        from: dateRange.start_date,
+        to: dateRange.end_date
+      });
+
       // Calculate totals
       const totalIncome = transactions
         .filter(t => t.type === 'income')
@@ -361,6 +380,7 @@ export class FinancialService {
         income_by_category: Array.from(incomeByCategoryMap.values()),
         expenses_by_category: Array.from(expensesByCategoryMap.values()),
         transactions,
+        discount_approvals: discountApprovals,
         generated_at: new Date()
       };
     } catch (error) {
@@ -442,6 +462,8 @@ export class FinancialService {
       category_id: row.category_id,
       category: this.mapCategoryRowToCategory(row.category),
       description: row.description,
+      rt: row.rt || undefined,
+      billing_month: row.billing_month || undefined,
       created_at: new Date(row.created_at),
       updated_at: new Date(row.updated_at),
       created_by: row.created_by,
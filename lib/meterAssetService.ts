@@ -0,0 +1,204 @@
+/**
+ * Meter Asset Service
+ * Registry of the physical water meters: serial number, brand, digits and status, and the history
+ * of which meter was on which connection and when. Gauge replacements that name the new meter
+ * record the transition in the database, see database-meter-registry-setup.sql.
+ */
+
+import { supabase } from './supabase';
+import { Meter, MeterAssignment, MeterStatus } from '@/types/types';
+import { DEFAULT_METER_DIGITS } from './meterRegisterService';
+
+export interface MeterInput {
+  serial_number: string;
+  brand?: string;
+  digits: number;
+  status: MeterStatus;
+  notes?: string;
+}
+
+export const METER_STATUS_LABELS: Record<MeterStatus, string> = {
+  active: 'Aktif',
+  removed: 'Dilepas',
+  broken: 'Rusak'
+};
+
+export class MeterAssetService {
+  /**
+   * Fetch every meter in the registry, by serial number
+   */
+  static async loadMeters(): Promise<Meter[]> {
+    const { data, error } = await supabase
+      .from('meters')
+      .select('*')
+      .order('serial_number', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapMeterRow(row));
+  }
+
+  /**
+   * Fetch the installation history, newest first. Pass `meterId` for the connections of one meter.
+   */
+  static async loadAssignments(meterId?: string): Promise<MeterAssignment[]> {
+    let query = supabase
+      .from('meter_assignments')
+      .select('*')
+      .order('installed_on', { ascending: false });
+
+    if (meterId) {
+      query = query.eq('meter_id', meterId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapAssignmentRow(row));
+  }
+
+  /**
+   * Validate a meter before saving. Serial numbers are unique across the registry.
+   */
+  static validateMeter(input: MeterInput, meters: Meter[], meterId?: string): string[] {
+    const errors: string[] = [];
+    const serialNumber = input.serial_number.trim();
+
+    if (!serialNumber) {
+      errors.push('Nomor seri meter wajib diisi');
+    } else if (meters.some(meter => meter.id !== meterId && meter.serial_number.toLowerCase() === serialNumber.toLowerCase())) {
+      errors.push(`Nomor seri ${serialNumber} sudah terdaftar`);
+    }
+
+    if (!Number.isInteger(input.digits) || input.digits < 1 || input.digits > 9) {
+      errors.push('Jumlah digit meter harus antara 1 dan 9');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Register a new meter, or update one when `meterId` is given
+   */
+  static async saveMeter(input: MeterInput, meters: Meter[], savedBy: string, meterId?: string): Promise<Meter> {
+    const errors = this.validateMeter(input, meters, meterId);
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+
+    const row = {
+      serial_number: input.serial_number.trim(),
+      brand: input.brand?.trim() || null,
+      digits: input.digits,
+      status: input.status,
+      notes: input.notes?.trim() || null,
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = meterId
+      ? await supabase.from('meters').update(row).eq('id', meterId).select().single()
+      : await supabase.from('meters').insert({ ...row, created_by: savedBy }).select().single();
+
+    if (error) {
+      throw error;
+    }
+
+    return this.mapMeterRow(data);
+  }
+
+  /**
+   * Install a meter on a customer's connection outside a gauge replacement, such as the first
+   * meter of a new customer. The meter on the connection until then is marked removed.
+   */
+  static async installMeter(meterId: string, customerId: string, installedOn: string, installedBy: string): Promise<void> {
+    const { error } = await supabase.rpc('install_meter', {
+      p_meter_id: meterId,
+      p_customer_id: customerId,
+      p_installed_on: installedOn,
+      p_created_by: installedBy
+    });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Meter installed on a customer's connection now, null when none is registered
+   */
+  static getCurrentMeter(meters: Meter[], customerId: string): Meter | null {
+    return meters.find(meter => meter.customer_id === customerId) || null;
+  }
+
+  /**
+   * Meters that can be installed: not on a connection and not broken
+   */
+  static getAvailableMeters(meters: Meter[]): Meter[] {
+    return meters.filter(meter => !meter.customer_id && meter.status !== 'broken');
+  }
+
+  /**
+   * Id of the meter on a customer's connection on a date (YYYY-MM-DD or ISO), as readings are linked
+   * in the database. A meter removed on a date no longer counts for that date.
+   */
+  static getMeterOnDate(assignments: MeterAssignment[], customerId: string, date: string): string | null {
+    const day = date.substring(0, 10);
+    const assignment = assignments
+      .filter(a =>
+        a.customer_id === customerId &&
+        a.installed_on <= day &&
+        (!a.removed_on || a.removed_on > day)
+      )
+      .sort((a, b) => b.installed_on.localeCompare(a.installed_on))[0];
+
+    return assignment?.meter_id || null;
+  }
+
+  /**
+   * Get the display label of a meter, e.g. "SN123 (Itron)"
+   */
+  static getMeterLabel(meter: Meter): string {
+    return meter.brand ? `${meter.serial_number} (${meter.brand})` : meter.serial_number;
+  }
+
+  /**
+   * Map database row to Meter object
+   */
+  private static mapMeterRow(row: any): Meter {
+    return {
+      id: row.id.toString(),
+      serial_number: row.serial_number,
+      brand: row.brand || undefined,
+      digits: Number(row.digits || DEFAULT_METER_DIGITS),
+      install_date: row.install_date || undefined,
+      customer_id: row.customer_id ? row.customer_id.toString() : undefined,
+      status: row.status,
+      notes: row.notes || undefined,
+      created_by: row.created_by,
+      created_at: row.created_at
+    };
+  }
+
+  /**
+   * Map database row to MeterAssignment object
+   */
+  private static mapAssignmentRow(row: any): MeterAssignment {
+    return {
+      id: row.id.toString(),
+      meter_id: row.meter_id.toString(),
+      customer_id: row.customer_id.toString(),
+      installed_on: row.installed_on,
+      removed_on: row.removed_on || undefined,
+      adjustment_id: row.adjustment_id || undefined,
+      created_by: row.created_by,
+      created_at: row.created_at
+    };
+  }
+}
+
+export default MeterAssetService;
@@ -4,8 +4,15 @@
  */
 
 import { supabase } from './supabase';
-import { Customer, MeterReading, CustomerDiscount } from '@/types/types';
+import { Customer, MeterReading, CustomerDiscount, TariffClass } from '@/types/types';
 import { offlineStorage } from './offlineStorage';
+import { TariffService } from './tariffService';
+import { DiscountService } from './discountService';
+import { BillingEngine, BillingCalculation } from './billingEngine';
+import { EstimatedReading, MeterRegisterService } from './meterRegisterService';
+import { AnomalyService } from './anomalyService';
+
+export type { BillingCalculation };
 
 export interface UsageCalculation {
   customerId: string;
@@ -14,22 +21,7 @@ export interface UsageCalculation {
   usage: number;
   isValid: boolean;
   validationErrors: string[];
-  anomalyWarning?: string;
-}
-
-export interface BillingCalculation {
-  customerId: string;
-  usage: number;
-  unitUsage: number; // 1-10 m³
-  tensUsage: number; // 11+ m³
-  unitPrice: number;
-  tensPrice: number;
-  speedometerFee: number;
-  baseAmount: number;
-  discount?: CustomerDiscount;
-  discountAmount: number;
-  finalAmount: number;
-  billingMonth: string;
+  anomalyWarning?: string; // Explanation of the most severe usage anomaly, see AnomalyService
 }
 
 export interface ValidationResult {
@@ -38,37 +30,41 @@ export interface ValidationResult {
   warnings: string[];
 }
 
-export class MeterDataService {
-  // Centralized pricing constants
-  private static readonly PRICING = {
-    UNIT_RATE: 1500,      // IDR per m³ for 1-10 m³
-    TENS_RATE: 2000,      // IDR per m³ for 11+ m³
-    SPEEDOMETER_FEE: 5000 // Fixed fee in IDR
-  };
+export interface BatchReadingResult {
+  reading: MeterReading;
+  saved: boolean;
+  errors: string[]; // Why the reading was not saved
+  warnings: string[];
+  billing?: BillingCalculation; // Set for readings that passed validation
+}
 
-  // Validation thresholds
+export class MeterDataService {
+  // Validation thresholds; usage anomalies are detected by AnomalyService
   private static readonly VALIDATION = {
-    MAX_USAGE_MULTIPLIER: 2.0,  // 200% of 5-month average
-    MIN_READING_VALUE: 0,
-    MAX_READING_VALUE: 999999
+    MIN_READING_VALUE: 0 // The maximum depends on the meter's digits, see MeterRegisterService
   };
 
   /**
-   * Validate a new meter reading before processing
+   * Validate a new meter reading before processing. A reading lower than the previous one is
+   * only accepted when confirmed as a `rollover` past the maximum of the meter, or when the
+   * previous reading was an estimate that this actual reading trues up.
    */
   static async validateMeterReading(
     customerId: string,
     newReading: number,
     readingDate: string,
-    excludeReadingId?: string
+    excludeReadingId?: string,
+    rollover: boolean = false
   ): Promise<ValidationResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
 
     try {
       // Basic value validation
-      if (newReading < this.VALIDATION.MIN_READING_VALUE || newReading > this.VALIDATION.MAX_READING_VALUE) {
-        errors.push(`Pembacaan meter harus antara ${this.VALIDATION.MIN_READING_VALUE} dan ${this.VALIDATION.MAX_READING_VALUE}`);
+      const meterDigits = this.getCustomerMeterDigits(customerId);
+      const maxReading = MeterRegisterService.getMaxReading(meterDigits);
+      if (Number.isNaN(newReading) || newReading < this.VALIDATION.MIN_READING_VALUE || newReading > maxReading) {
+        errors.push(`Pembacaan meter harus antara ${this.VALIDATION.MIN_READING_VALUE} dan ${maxReading}`);
       }
 
       // Check for duplicate reading in the same month
@@ -77,21 +73,28 @@ export class MeterDataService {
         errors.push('Sudah ada pembacaan meter untuk bulan ini');
       }
 
-      // Get previous reading for sequential validation
-      const previousReading = offlineStorage.getPreviousReading(customerId, readingDate);
+      // Get previous reading for sequential validation; after a gauge replacement, the new gauge's start reading
+      const storedPreviousReading = offlineStorage.getPreviousReading(customerId, readingDate);
+      const previousReading = storedPreviousReading && MeterRegisterService.getComparisonReading(
+        storedPreviousReading,
+        readingDate,
+        offlineStorage.getGaugeReplacements(customerId)
+      );
       if (previousReading) {
-        // Sequential rule: new reading must be >= previous reading
-        if (newReading < previousReading.reading) {
+        // Sequential rule: new reading must be >= previous reading, unless the meter rolled over
+        // or the previous reading was estimated too high
+        if (newReading < previousReading.reading && !rollover && !previousReading.estimated) {
           errors.push(`Pembacaan baru (${newReading}) tidak boleh lebih kecil dari pembacaan sebelumnya (${previousReading.reading})`);
         }
 
         // Anomaly detection
-        const usage = newReading - previousReading.reading;
-        const fiveMonthAverage = offlineStorage.calculateFiveMonthAverage(customerId, readingDate);
-        
-        if (fiveMonthAverage && fiveMonthAverage > 0 && usage > (fiveMonthAverage * this.VALIDATION.MAX_USAGE_MULTIPLIER)) {
-          warnings.push(`Pemakaian ${usage} m³ melebihi ${this.VALIDATION.MAX_USAGE_MULTIPLIER * 100}% dari rata-rata 5 bulan (${fiveMonthAverage.toFixed(1)} m³)`);
-        }
+        const usage = MeterRegisterService.calculateUsage(
+          previousReading,
+          { id: '', customer_id: customerId, reading: newReading, date: readingDate, rollover },
+          meterDigits
+        );
+        const usageHistory = AnomalyService.getCustomerUsageHistory(customerId, readingDate, meterDigits);
+        warnings.push(...AnomalyService.detectAnomalies(usage, usageHistory).map(anomaly => anomaly.message));
       }
 
       return {
@@ -109,6 +112,19 @@ export class MeterDataService {
     }
   }
 
+  /**
+   * Propose a reading for a customer whose meter could not be read, from the previous reading and
+   * the usage of recent months in the offline cache. Null when there is no previous reading.
+   */
+  static estimateReading(customerId: string, readingDate: string): EstimatedReading | null {
+    const previousReading = offlineStorage.getPreviousReading(customerId, readingDate);
+    if (!previousReading) return null;
+
+    const meterDigits = this.getCustomerMeterDigits(customerId);
+    const usageHistory = AnomalyService.getCustomerUsageHistory(customerId, readingDate, meterDigits);
+    return MeterRegisterService.estimateReading(previousReading.reading, usageHistory, meterDigits);
+  }
+
   /**
    * Calculate usage from meter readings with validation
    */
@@ -128,13 +144,12 @@ export class MeterDataService {
       }
 
       if (previousReading) {
-        usage = Math.max(0, currentReading.reading - previousReading.reading);
+        const meterDigits = this.getCustomerMeterDigits(customerId);
+        usage = MeterRegisterService.calculateUsage(previousReading, currentReading, meterDigits);
         
         // Check for anomaly
-        const fiveMonthAverage = offlineStorage.calculateFiveMonthAverage(customerId, currentReading.date);
-        if (fiveMonthAverage && fiveMonthAverage > 0 && usage > (fiveMonthAverage * this.VALIDATION.MAX_USAGE_MULTIPLIER)) {
-          anomalyWarning = `Pemakaian tinggi: ${usage} m³ (rata-rata 5 bulan: ${fiveMonthAverage.toFixed(1)} m³)`;
-        }
+        const usageHistory = AnomalyService.getCustomerUsageHistory(customerId, currentReading.date, meterDigits);
+        anomalyWarning = AnomalyService.detectAnomalies(usage, usageHistory)[0]?.message;
       } else {
         // First reading for customer
         usage = 0;
@@ -165,80 +180,63 @@ export class MeterDataService {
   }
 
   /**
-   * Calculate billing amount from usage with discount application
+   * Calculate billing amount from usage with the offline caches, see BillingEngine.
+   * Uses the tier table of the customer's tariff class (looked up offline when not given).
+   * Pass `discounts` to bill with discounts fetched from the server instead of the offline cache
+   * (already resolved for the customer, see DiscountService), and `previousBalance` to carry
+   * the customer's credit or arrears into the amount due.
    */
   static calculateBilling(
     customerId: string,
     usage: number,
-    billingDate: string
+    billingDate: string,
+    tariffClass?: TariffClass,
+    discounts?: CustomerDiscount[],
+    previousBalance: number = 0
   ): BillingCalculation {
-    try {
-      // Calculate tiered pricing
-      let unitUsage = 0;
-      let tensUsage = 0;
-      let unitPrice = 0;
-      let tensPrice = 0;
-
-      if (usage <= 10) {
-        unitUsage = usage;
-        unitPrice = usage * this.PRICING.UNIT_RATE;
-      } else {
-        unitUsage = 10;
-        tensUsage = usage - 10;
-        unitPrice = 10 * this.PRICING.UNIT_RATE;
-        tensPrice = tensUsage * this.PRICING.TENS_RATE;
-      }
+    const customerClass = tariffClass || this.getCustomerTariffClass(customerId);
 
-      const baseAmount = unitPrice + tensPrice + this.PRICING.SPEEDOMETER_FEE;
-      
-      // Get active discount for the billing month
-      const billingMonth = billingDate.substring(0, 7); // Extract YYYY-MM
-      const discount = offlineStorage.getCustomerActiveDiscount(customerId, billingMonth);
-      
-      let discountAmount = 0;
-      if (discount) {
-        if (discount.discount_percentage > 0) {
-          // Percentage discount
-          discountAmount = Math.round((baseAmount * discount.discount_percentage) / 100);
-        } else if (discount.discount_amount) {
-          // Fixed amount discount (don't exceed base amount)
-          discountAmount = Math.min(discount.discount_amount, baseAmount);
-        }
-      }
+    return BillingEngine.calculateBill({
+      customerId,
+      usage,
+      billingDate,
+      tariffClass: customerClass,
+      tariffs: TariffService.getCachedTariffs(),
+      discounts: discounts === undefined
+        ? this.getCustomerDiscounts(customerId, customerClass, billingDate.substring(0, 7))
+        : discounts,
+      previousBalance
+    });
+  }
 
-      const finalAmount = Math.max(0, baseAmount - discountAmount);
+  /**
+   * Resolve the discounts for a customer's bill from the offline cache
+   */
+  private static getCustomerDiscounts(customerId: string, tariffClass: TariffClass, billingMonth: string): CustomerDiscount[] {
+    if (typeof window === 'undefined') return [];
+    const customer = offlineStorage.getCustomers().find(c => c.id === customerId);
+    return DiscountService.resolveDiscounts(
+      DiscountService.getCachedDiscounts(),
+      { customerId, rt: customer?.rt, tariffClass },
+      billingMonth
+    );
+  }
 
-      return {
-        customerId,
-        usage,
-        unitUsage,
-        tensUsage,
-        unitPrice,
-        tensPrice,
-        speedometerFee: this.PRICING.SPEEDOMETER_FEE,
-        baseAmount,
-        discount: discount || undefined,
-        discountAmount,
-        finalAmount,
-        billingMonth
-      };
-    } catch (error) {
-      console.error('Error calculating billing:', error);
-      // Return safe defaults
-      return {
-        customerId,
-        usage,
-        unitUsage: 0,
-        tensUsage: 0,
-        unitPrice: 0,
-        tensPrice: 0,
-        speedometerFee: this.PRICING.SPEEDOMETER_FEE,
-        baseAmount: this.PRICING.SPEEDOMETER_FEE,
-        discountAmount: 0,
-        finalAmount: this.PRICING.SPEEDOMETER_FEE,
-        billingMonth: billingDate.substring(0, 7)
-      };
-    }
+  /**
+   * Get a customer's tariff class from the offline cache
+   */
+  private static getCustomerTariffClass(customerId: string): TariffClass {
+    if (typeof window === 'undefined') return 'household';
+    const customer = offlineStorage.getCustomers().find(c => c.id === customerId);
+    return customer?.tariff_class || 'household';
+  }
+
+  /**
+   * Get the digits of a customer's meter from the offline cache
+   */
+  private static getCustomerMeterDigits(customerId: string): number | undefined {
+    if (typeof window === 'undefined') return undefined;
+    return offlineStorage.getCustomers().find(c => c.id === customerId)?.meter_digits;
   }
 
   /**
@@ -247,7 +245,9 @@ export class MeterDataService {
   static async processMeterReading(
     customerId: string,
     reading: number,
-    date: string
+    date: string,
+    rollover: boolean = false,
+    estimated: boolean = false
   ): Promise<{
     validation: ValidationResult;
     usage?: UsageCalculation;
@@ -255,7 +255,7 @@ export class MeterDataService {
   }> {
     try {
       // Step 1: Validate the reading
-      const validation = await this.validateMeterReading(customerId, reading, date);
+      const validation = await this.validateMeterReading(customerId, reading, date, undefined, rollover);
       
       if (!validation.isValid) {
         return { validation };
@@ -266,7 +266,9 @@ export class MeterDataService {
         id: '', // Will be set when saved
         customer_id: customerId,
         reading,
-        date
+        date,
+        rollover,
+        estimated
       };
 
       // Step 3: Calculate usage
@@ -293,33 +295,93 @@ export class MeterDataService {
   }
 
   /**
-   * Batch process multiple readings for reporting
+   * Validate and save a batch of readings, such as a paper reading sheet typed in by an admin.
+   * Each reading is checked on its own; the valid ones are saved to the server in one insert, or
+   * offline for later sync, and every result tells whether its reading was saved and why not.
    */
   static async batchProcessReadings(
     readings: MeterReading[],
-    customers: Customer[]
-  ): Promise<BillingCalculation[]> {
-    const results: BillingCalculation[] = [];
-    
-    try {
-      for (const reading of readings) {
-        const usage = this.calculateUsage(reading.customer_id, reading);
-        const billing = this.calculateBilling(reading.customer_id, usage.usage, reading.date);
-        results.push(billing);
+    customers: Customer[],
+    isOnline: boolean = true
+  ): Promise<BatchReadingResult[]> {
+    const results: BatchReadingResult[] = [];
+
+    for (const reading of readings) {
+      const validation = await this.validateMeterReading(reading.customer_id, reading.reading, reading.date, undefined, !!reading.rollover);
+      if (!validation.isValid) {
+        results.push({ reading, saved: false, errors: validation.errors, warnings: validation.warnings });
+        continue;
       }
-      
+
+      const usage = this.calculateUsage(reading.customer_id, reading);
+      results.push({
+        reading,
+        saved: false,
+        errors: [],
+        warnings: validation.warnings,
+        billing: this.calculateBilling(reading.customer_id, usage.usage, reading.date)
+      });
+    }
+
+    const validResults = results.filter(result => result.errors.length === 0);
+    if (validResults.length === 0) {
       return results;
-    } catch (error) {
-      console.error('Error batch processing readings:', error);
-      return [];
     }
+
+    if (!isOnline) {
+      for (const result of validResults) {
+        const customer = customers.find(c => c.id === result.reading.customer_id);
+        offlineStorage.addReading(this.toReadingRow(result.reading), customer?.name, customer?.rt);
+        result.saved = true;
+      }
+      return results;
+    }
+
+    const { error } = await supabase
+      .from('meter_readings')
+      .insert(validResults.map(result => this.toReadingRow(result.reading)));
+
+    if (!error) {
+      validResults.forEach(result => {
+        result.saved = true;
+      });
+      return results;
+    }
+
+    // One rejected row fails the whole insert, so save row by row to report which readings failed
+    for (const result of validResults) {
+      const { error: rowError } = await supabase
+        .from('meter_readings')
+        .insert([this.toReadingRow(result.reading)]);
+
+      if (rowError) {
+        result.errors.push(`Gagal menyimpan pembacaan: ${rowError.message}`);
+      } else {
+        result.saved = true;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Fields of a new reading as they are saved
+   */
+  private static toReadingRow(reading: MeterReading): Omit<MeterReading, 'id'> {
+    return {
+      customer_id: reading.customer_id,
+      reading: reading.reading,
+      date: reading.date,
+      rollover: reading.rollover || undefined,
+      estimated: reading.estimated || undefined
+    };
   }
 
   /**
-   * Get pricing information
+   * Get the tariff in force on the given date
    */
-  static getPricing() {
-    return { ...this.PRICING };
+  static getPricing(date: string = new Date().toISOString()) {
+    return TariffService.getTariffForDate(date);
   }
 
   /**
@@ -0,0 +1,69 @@
+/**
+ * Meter Photo Service
+ * Compresses photos of the meter face on the device and stores them in Supabase Storage,
+ * as evidence when a customer disputes a reading.
+ */
+
+import { supabase } from './supabase';
+
+export const METER_PHOTO_BUCKET = 'meter-photos';
+
+// Photos are scaled down to fit this size and saved as JPEG (roughly 100-200 KB each)
+const MAX_PHOTO_DIMENSION = 1280;
+const PHOTO_QUALITY = 0.7;
+
+export class MeterPhotoService {
+  /**
+   * Scale a camera photo down and re-encode it as JPEG
+   */
+  static async compressPhoto(file: Blob): Promise<Blob> {
+    const image = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(image.width, image.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      image.close();
+      throw new Error('Foto tidak dapat diproses di perangkat ini');
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    image.close();
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('Foto tidak dapat diproses di perangkat ini'))),
+        'image/jpeg',
+        PHOTO_QUALITY
+      );
+    });
+  }
+
+  /**
+   * Upload a compressed photo of a customer's meter and return its storage path.
+   * Uploading again under the same name replaces the photo, so a retried sync leaves no copies.
+   */
+  static async uploadPhoto(customerId: string, name: string, photo: Blob): Promise<string> {
+    const path = `${customerId}/${name}.jpg`;
+    const { error } = await supabase.storage
+      .from(METER_PHOTO_BUCKET)
+      .upload(path, photo, { contentType: 'image/jpeg', upsert: true });
+
+    if (error) {
+      // Errors returned by the storage server carry a status code; keep it as `code`, like database errors
+      throw 'statusCode' in error ? Object.assign(error, { code: String(error.statusCode) }) : error;
+    }
+
+    return path;
+  }
+
+  /**
+   * Public URL of a stored photo
+   */
+  static getPhotoUrl(path: string): string {
+    return supabase.storage.from(METER_PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+  }
+}
+
+export default MeterPhotoService;
@@ -0,0 +1,129 @@
+/**
+ * Meter Register Service
+ * Usage between two readings, including readings taken after the register rolled over:
+ * a meter with N digits counts up to 10^N - 1 (9999 on older 4-digit meters) and starts again at 0.
+ * Also proposes an estimated reading when the meter could not be read.
+ */
+
+import { GaugeUsage, MeterAdjustment, MeterReading } from '@/types/types';
+
+// Meters without a digit count have 6 digits (readings up to 999999)
+export const DEFAULT_METER_DIGITS = 6;
+
+export const METER_DIGIT_OPTIONS = [4, 5, 6, 7, 8].map(digits => ({
+  value: String(digits),
+  label: `${digits} digit (maks. ${(10 ** digits - 1).toLocaleString('id-ID')})`
+}));
+
+// Months of recent usage an estimated reading is based on
+export const ESTIMATE_MONTHS = 3;
+
+// Reading proposed for a meter that could not be read
+export interface EstimatedReading {
+  reading: number;
+  usage: number; // Average usage of the recent months
+  rollover: boolean; // The estimate went past the maximum of the register
+}
+
+export class MeterRegisterService {
+  /**
+   * Highest value the register can show before it rolls over to 0
+   */
+  static getMaxReading(meterDigits?: number): number {
+    return 10 ** (meterDigits || DEFAULT_METER_DIGITS) - 1;
+  }
+
+  /**
+   * Usage when the register went past its maximum between the two readings
+   */
+  static getRolloverUsage(previousReading: number, currentReading: number, meterDigits?: number): number {
+    return this.getMaxReading(meterDigits) + 1 - previousReading + currentReading;
+  }
+
+  /**
+   * Usage between two readings. A lower reading only counts across the wrap when it was confirmed
+   * as a rollover; otherwise (meter reset or replaced gauge) the usage is 0.
+   */
+  static calculateUsage(previous: MeterReading, current: MeterReading, meterDigits?: number): number {
+    if (current.reading < previous.reading && current.rollover) {
+      return this.getRolloverUsage(previous.reading, current.reading, meterDigits);
+    }
+    return Math.max(0, current.reading - previous.reading);
+  }
+
+  /**
+   * Propose a reading for a meter that could not be read: the previous reading plus the average
+   * usage of the last months (oldest first in `history`), wrapping past the maximum of the register
+   */
+  static estimateReading(previousReading: number, history: number[], meterDigits?: number): EstimatedReading {
+    const recent = history.slice(-ESTIMATE_MONTHS);
+    const usage = recent.length > 0 ? Math.round(recent.reduce((sum, value) => sum + value, 0) / recent.length) : 0;
+    const maxReading = this.getMaxReading(meterDigits);
+    const reading = previousReading + usage;
+
+    return reading > maxReading
+      ? { reading: reading - maxReading - 1, usage, rollover: true }
+      : { reading, usage, rollover: false };
+  }
+
+  /**
+   * Reading a new reading on `date` is checked against: the start reading of the latest gauge
+   * installed after the previous reading, or else the previous reading itself
+   */
+  static getComparisonReading(previous: MeterReading, date: string, adjustments: MeterAdjustment[]): MeterReading {
+    const from = previous.date.substring(0, 10);
+    const to = date.substring(0, 10);
+    const latest = adjustments
+      .filter(a =>
+        a.adjustment_type === 'gauge_replacement' &&
+        a.customer_id.toString() === previous.customer_id.toString() &&
+        a.adjustment_date > from &&
+        a.adjustment_date <= to
+      )
+      .sort((a, b) => b.adjustment_date.localeCompare(a.adjustment_date) || b.created_at.localeCompare(a.created_at))[0];
+
+    if (!latest) return previous;
+    return { id: latest.id, customer_id: previous.customer_id, reading: latest.new_reading, date: latest.adjustment_date };
+  }
+
+  /**
+   * Usage on each gauge between two readings when the gauge was replaced in between: the old gauge
+   * from the previous reading to its final reading, then the new gauge from its start reading.
+   * Empty when no gauge was replaced.
+   */
+  static getGaugeUsage(previous: MeterReading, current: MeterReading, adjustments: MeterAdjustment[]): GaugeUsage[] {
+    const from = previous.date.substring(0, 10);
+    const to = current.date.substring(0, 10);
+    const replacements = adjustments
+      .filter(a =>
+        a.adjustment_type === 'gauge_replacement' &&
+        a.customer_id.toString() === current.customer_id.toString() &&
+        a.adjustment_date > from &&
+        a.adjustment_date <= to
+      )
+      .sort((a, b) => a.adjustment_date.localeCompare(b.adjustment_date) || a.created_at.localeCompare(b.created_at));
+
+    if (replacements.length === 0) return [];
+
+    const gauges: GaugeUsage[] = [];
+    let startReading = previous.reading;
+    for (const replacement of replacements) {
+      gauges.push({
+        start_reading: startReading,
+        end_reading: replacement.old_reading,
+        usage: Math.max(0, replacement.old_reading - startReading),
+        replaced_on: replacement.adjustment_date
+      });
+      startReading = replacement.new_reading;
+    }
+    gauges.push({
+      start_reading: startReading,
+      end_reading: current.reading,
+      usage: Math.max(0, current.reading - startReading)
+    });
+
+    return gauges;
+  }
+}
+
+export default MeterRegisterService;
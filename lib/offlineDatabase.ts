@@ -0,0 +1,284 @@
+/**
+ * Offline Database
+ * Typed IndexedDB schema for offline data with versioned upgrade migrations
+ */
+
+import { Bill, Customer, CustomerDiscount, MeterAdjustment, PenaltyPolicy, Tariff } from '@/types/types';
+
+export interface OfflineReading {
+  id: string;
+  customer_id: string;
+  reading: number;
+  date: string;
+  created_at: string;
+  synced: boolean;
+  customer_name?: string;
+  customer_rt?: string;
+  base_previous_reading?: number; // Previous reading the phone held when this one was taken
+  photo_path?: string; // Storage path of the meter photo, once uploaded
+  pending_photo?: boolean; // Photo waiting in the meter_photos store to be uploaded on sync
+  rollover?: boolean; // Confirmed as a rollover past the maximum of the meter
+  estimated?: boolean; // Proposed from usage history because the meter could not be read
+}
+
+// Compressed meter photo taken offline, keyed by the id of its reading
+export interface OfflinePhoto {
+  id: string;
+  photo: Blob;
+  created_at: string;
+}
+
+export interface OfflineCustomer extends Customer {
+  synced: boolean;
+  last_updated: string;
+}
+
+export interface OfflineDiscount extends CustomerDiscount {
+  synced: boolean;
+  last_updated: string;
+}
+
+export interface SyncQueueItem {
+  id: string;
+  type: 'customer' | 'reading' | 'discount';
+  data: any;
+  timestamp: string;
+  attempts: number;
+  base?: Partial<Customer> | Partial<CustomerDiscount>; // Server version an update of a customer or discount started from
+  rejections?: number; // Attempts the server rejected, as opposed to network failures
+  last_error?: string;
+  last_attempt_at?: string;
+  next_attempt_at?: string; // Not retried before this time (exponential backoff)
+  conflict?: SyncConflict; // Paused until the user resolves the conflict
+  conflict_resolved?: boolean; // The user chose to send this version, skip conflict detection
+  replaces_id?: string; // Server record this item overwrites
+}
+
+// A queued reading that disagrees with the server
+export interface ReadingConflict {
+  kind: 'same_month' | 'previous_changed';
+  server_reading: { id: string; reading: number; date: string }; // Server reading of the month, or the changed previous reading
+  detected_at: string;
+}
+
+// A queued customer or discount that disagrees with the server
+export interface RecordConflict {
+  kind: 'record_changed' | 'record_exists';
+  server_record: Customer | CustomerDiscount; // Server version, or the existing customer a new one duplicates
+  fields: string[]; // Fields changed on both sides
+  detected_at: string;
+}
+
+export type SyncConflict = ReadingConflict | RecordConflict;
+
+// Sync item the server kept rejecting, held for an admin to edit, retry or discard
+export interface DeadLetterItem extends SyncQueueItem {
+  dead_lettered_at: string;
+}
+
+export interface OfflineMeta {
+  key: string;
+  value: string;
+}
+
+// Session the service worker signs background sync requests with, kept as JSON in the meta store
+export interface SyncSession {
+  supabase_url: string;
+  anon_key: string;
+  access_token: string;
+  expires_at: string;
+}
+
+// Record type held by each object store
+export interface OfflineSchema {
+  customers: OfflineCustomer;
+  readings: OfflineReading;
+  discounts: OfflineDiscount;
+  tariffs: Tariff;
+  bills: Bill;
+  penalty_policies: PenaltyPolicy;
+  sync_queue: SyncQueueItem;
+  sync_dead_letter: DeadLetterItem;
+  meta: OfflineMeta;
+  meter_photos: OfflinePhoto;
+  gauge_replacements: MeterAdjustment;
+}
+
+export type OfflineStoreName = keyof OfflineSchema;
+
+export const OFFLINE_DB_NAME = 'water-meter-offline';
+export const OFFLINE_DB_VERSION = 4;
+
+/**
+ * Upgrade migrations by schema version. When a browser opens an older database every newer
+ * migration runs once, in order, inside the upgrade transaction. Released migrations must never
+ * change; add the next version instead and bump OFFLINE_DB_VERSION.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+  1: db => {
+    const customers = db.createObjectStore('customers', { keyPath: 'id' });
+    customers.createIndex('rt', 'rt');
+
+    const readings = db.createObjectStore('readings', { keyPath: 'id' });
+    readings.createIndex('customer_id', 'customer_id');
+    readings.createIndex('date', 'date');
+    readings.createIndex('customer_id_date', ['customer_id', 'date']);
+
+    const discounts = db.createObjectStore('discounts', { keyPath: 'id' });
+    discounts.createIndex('customer_id', 'customer_id');
+
+    db.createObjectStore('tariffs', { keyPath: 'id' });
+
+    const bills = db.createObjectStore('bills', { keyPath: 'id' });
+    bills.createIndex('customer_id', 'customer_id');
+    bills.createIndex('billing_month', 'billing_month');
+
+    db.createObjectStore('penalty_policies', { keyPath: 'id' });
+
+    const syncQueue = db.createObjectStore('sync_queue', { keyPath: 'id' });
+    syncQueue.createIndex('type', 'type');
+
+    db.createObjectStore('meta', { keyPath: 'key' });
+  },
+  2: db => {
+    const deadLetter = db.createObjectStore('sync_dead_letter', { keyPath: 'id' });
+    deadLetter.createIndex('type', 'type');
+  },
+  3: db => {
+    db.createObjectStore('meter_photos', { keyPath: 'id' });
+  },
+  4: db => {
+    const gaugeReplacements = db.createObjectStore('gauge_replacements', { keyPath: 'id' });
+    gaugeReplacements.createIndex('customer_id', 'customer_id');
+  }
+};
+
+export class OfflineDatabase {
+  /**
+   * Open the offline database, running any pending upgrade migrations
+   */
+  static open(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        for (let version = event.oldVersion + 1; version <= OFFLINE_DB_VERSION; version++) {
+          console.log(`🗄️ Upgrading offline database to version ${version}`);
+          MIGRATIONS[version]?.(db, request.transaction as IDBTransaction);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the app in another tab upgrade the schema
+        db.onversionchange = () => db.close();
+        resolve(db);
+      };
+
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('Offline database upgrade is waiting for other tabs to close');
+    });
+  }
+
+  /**
+   * Read every record of a store
+   */
+  static getAll<K extends OfflineStoreName>(db: IDBDatabase, store: K): Promise<OfflineSchema[K][]> {
+    return this.request(db.transaction(store, 'readonly').objectStore(store).getAll());
+  }
+
+  /**
+   * Read one record by key
+   */
+  static async get<K extends OfflineStoreName>(db: IDBDatabase, store: K, key: string): Promise<OfflineSchema[K] | null> {
+    const record = await this.request<OfflineSchema[K] | undefined>(db.transaction(store, 'readonly').objectStore(store).get(key));
+    return record ?? null;
+  }
+
+  /**
+   * Insert or update records
+   */
+  static put<K extends OfflineStoreName>(db: IDBDatabase, store: K, records: OfflineSchema[K][]): Promise<void> {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    for (const record of records) {
+      objectStore.put(record);
+    }
+    return this.complete(transaction);
+  }
+
+  /**
+   * Replace every record of a store in a single transaction
+   */
+  static replaceAll<K extends OfflineStoreName>(db: IDBDatabase, store: K, records: OfflineSchema[K][]): Promise<void> {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    objectStore.clear();
+    for (const record of records) {
+      objectStore.put(record);
+    }
+    return this.complete(transaction);
+  }
+
+  /**
+   * Delete records by key
+   */
+  static delete(db: IDBDatabase, store: OfflineStoreName, keys: string[]): Promise<void> {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    for (const key of keys) {
+      objectStore.delete(key);
+    }
+    return this.complete(transaction);
+  }
+
+  /**
+   * Remove every record from the given stores
+   */
+  static clear(db: IDBDatabase, stores: OfflineStoreName[]): Promise<void> {
+    const transaction = db.transaction(stores, 'readwrite');
+    for (const store of stores) {
+      transaction.objectStore(store).clear();
+    }
+    return this.complete(transaction);
+  }
+
+  /**
+   * Read a value from the meta store
+   */
+  static async getMeta(db: IDBDatabase, key: string): Promise<string | null> {
+    const record = await this.request<OfflineMeta | undefined>(db.transaction('meta', 'readonly').objectStore('meta').get(key));
+    return record ? record.value : null;
+  }
+
+  /**
+   * Write a value to the meta store
+   */
+  static setMeta(db: IDBDatabase, key: string, value: string): Promise<void> {
+    return this.put(db, 'meta', [{ key, value }]);
+  }
+
+  /**
+   * Wrap an IndexedDB request in a promise
+   */
+  private static request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Resolve once a write transaction has been committed
+   */
+  private static complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+  }
+}
+
+export default OfflineDatabase;
@@ -1,67 +1,199 @@
 /**
  * Offline Storage Manager for Water Meter App
- * Handles local data storage and synchronization
+ * Handles local data storage and synchronization.
+ *
+ * Data lives in IndexedDB (see offlineDatabase.ts). An in-memory copy of every store keeps the
+ * read methods synchronous; call ready() before the first read to load it. Writes update memory
+ * immediately and are persisted to IndexedDB in the order they were made.
  */
 
-import { Customer, MeterReading, CustomerDiscount } from '@/types/types';
-
-export interface OfflineReading {
-  id: string;
-  customer_id: string;
-  reading: number;
-  date: string;
-  created_at: string;
-  synced: boolean;
-  customer_name?: string;
-  customer_rt?: string;
-}
+import { Customer, MeterReading, CustomerDiscount, Tariff, Bill, PenaltyPolicy, MeterAdjustment } from '@/types/types';
+import {
+  OfflineDatabase,
+  DeadLetterItem,
+  OfflineCustomer,
+  OfflineDiscount,
+  OfflineReading,
+  OfflineSchema,
+  OfflineStoreName,
+  SyncQueueItem,
+  SyncSession
+} from './offlineDatabase';
+
+export type { DeadLetterItem, OfflineCustomer, OfflineDiscount, OfflineReading, SyncQueueItem, SyncSession } from './offlineDatabase';
+
+// Stores loaded into memory; meter photos stay in IndexedDB and are read only when uploaded
+type DataStoreName = Exclude<OfflineStoreName, 'meta' | 'meter_photos'>;
+
+const DATA_STORES: DataStoreName[] = ['customers', 'readings', 'discounts', 'tariffs', 'bills', 'penalty_policies', 'gauge_replacements', 'sync_queue', 'sync_dead_letter'];
+
+// localStorage keys used before the move to IndexedDB, migrated once on first load
+const LEGACY_STORAGE_KEYS: Partial<Record<DataStoreName, string>> = {
+  customers: 'offline_customers',
+  readings: 'offline_readings',
+  discounts: 'offline_discounts',
+  tariffs: 'offline_tariffs',
+  bills: 'offline_bills',
+  penalty_policies: 'offline_penalty_policies',
+  sync_queue: 'sync_queue'
+};
+const LEGACY_LAST_SYNC_KEY = 'last_sync';
+
+const LAST_SYNC_META_KEY = 'last_sync';
+const LEGACY_MIGRATION_META_KEY = 'local_storage_migrated_at';
+const DOWNLOAD_SCOPE_META_KEY = 'download_scope';
+// Must match SYNC_SESSION_META_KEY in public/sw.js
+const SYNC_SESSION_META_KEY = 'sync_session';
+const OFFLINE_ID_PREFIX = 'offline_';
+
+// Stores downloaded incrementally, each with its own high-water mark
+export type DeltaStoreName = 'customers' | 'readings';
+const highWaterMarkKey = (store: DeltaStoreName) => `high_water:${store}`;
 
-export interface OfflineCustomer extends Customer {
-  synced: boolean;
-  last_updated: string;
-}
+class OfflineStorageManager {
+  private data: { [K in DataStoreName]: OfflineSchema[K][] } = this.emptyData();
+  private meta: Record<string, string> = {};
+  private readingsByCustomer: Map<string, OfflineReading[]> | null = null;
 
-export interface OfflineDiscount extends CustomerDiscount {
-  synced: boolean;
-  last_updated: string;
-}
+  private db: IDBDatabase | null = null;
+  private readyPromise: Promise<void> | null = null;
+  private hydrated = false;
+  private pendingChanges: (() => void)[] = [];
+  private writes: Promise<void> = Promise.resolve();
 
-class OfflineStorageManager {
-  private readonly CUSTOMERS_KEY = 'offline_customers';
-  private readonly READINGS_KEY = 'offline_readings';
-  private readonly DISCOUNTS_KEY = 'offline_discounts';
-  private readonly SYNC_QUEUE_KEY = 'sync_queue';
-  private readonly LAST_SYNC_KEY = 'last_sync';
+  /**
+   * Load the offline data from IndexedDB. Safe to call repeatedly; resolves immediately on the server.
+   */
+  ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.hydrate();
+    }
+    return this.readyPromise;
+  }
 
-  // Customer Management
+  // Customer Management (customers still waiting to sync are kept)
   saveCustomers(customers: Customer[]): void {
     const offlineCustomers: OfflineCustomer[] = customers.map(customer => ({
       ...customer,
       synced: true,
       last_updated: new Date().toISOString()
     }));
-    localStorage.setItem(this.CUSTOMERS_KEY, JSON.stringify(offlineCustomers));
+    let records = offlineCustomers;
+    this.change(
+      () => {
+        records = this.keepUnsynced(this.data.customers, offlineCustomers);
+        this.data.customers = records;
+      },
+      db => OfflineDatabase.replaceAll(db, 'customers', records)
+    );
   }
 
   getCustomers(): OfflineCustomer[] {
-    const stored = localStorage.getItem(this.CUSTOMERS_KEY);
-    return stored ? JSON.parse(stored) : [];
+    return [...this.data.customers];
   }
 
-  addCustomer(customer: Customer, skipSync: boolean = false): void {
-    const customers = this.getCustomers();
+  // Apply a delta download: upsert changed customers and drop deleted ones along with their readings
+  applyCustomerChanges(changed: Customer[], deletedIds: string[]): void {
+    // Customers edited on this device keep the local version until it syncs
+    const editedIds = new Set(this.data.customers.filter(c => !c.synced).map(c => c.id));
+    const changedCustomers: OfflineCustomer[] = changed.filter(customer => !editedIds.has(customer.id)).map(customer => ({
+      ...customer,
+      synced: true,
+      last_updated: new Date().toISOString()
+    }));
+    const changedIds = new Set(changedCustomers.map(customer => customer.id));
+    const removedIds = new Set(deletedIds.filter(id => !changedIds.has(id)));
+    const removedReadingIds = this.data.readings
+      .filter(reading => reading.synced && removedIds.has(reading.customer_id.toString()))
+      .map(reading => reading.id);
+
+    this.change(
+      () => {
+        const kept = this.data.customers.filter(c => !changedIds.has(c.id) && !removedIds.has(c.id));
+        this.data.customers = [...kept, ...changedCustomers];
+        if (removedReadingIds.length > 0) {
+          const removedReadings = new Set(removedReadingIds);
+          this.setReadings(this.data.readings.filter(r => !removedReadings.has(r.id)));
+        }
+      },
+      async db => {
+        await OfflineDatabase.delete(db, 'customers', [...removedIds]);
+        await OfflineDatabase.put(db, 'customers', changedCustomers);
+        await OfflineDatabase.delete(db, 'readings', removedReadingIds);
+      }
+    );
+  }
+
+  addCustomer(customer: Omit<Customer, 'id'>, skipSync: boolean = false): string {
     const offlineCustomer: OfflineCustomer = {
       ...customer,
+      id: this.generateId(),
       synced: false,
       last_updated: new Date().toISOString()
     };
-    customers.push(offlineCustomer);
-    localStorage.setItem(this.CUSTOMERS_KEY, JSON.stringify(customers));
-    
+    this.change(
+      () => { this.data.customers = [...this.data.customers, offlineCustomer]; },
+      db => OfflineDatabase.put(db, 'customers', [offlineCustomer])
+    );
+
     // Only add to sync queue if not skipping sync (for mock data)
     if (!skipSync) {
       this.addToSyncQueue('customer', offlineCustomer);
     }
+
+    return offlineCustomer.id;
+  }
+
+  updateCustomer(id: string, updates: Partial<Customer>): boolean {
+    const existing = this.data.customers.find(c => c.id === id);
+    if (!existing) return false;
+
+    const updated: OfflineCustomer = {
+      ...existing,
+      ...updates,
+      id,
+      synced: false,
+      last_updated: new Date().toISOString()
+    };
+    this.change(
+      () => { this.data.customers = this.data.customers.map(c => (c.id === id ? updated : c)); },
+      db => OfflineDatabase.put(db, 'customers', [updated])
+    );
+
+    this.addToSyncQueue('customer', updated, existing.synced ? existing : undefined);
+    return true;
+  }
+
+  // Swap a customer created offline for the server's copy, pointing its readings and discounts at the new id
+  confirmCustomerSynced(localId: string, serverCustomer: Customer): void {
+    const synced: OfflineCustomer = { ...serverCustomer, synced: true, last_updated: new Date().toISOString() };
+    const remap = <T extends { customer_id?: string }>(record: T): T =>
+      record.customer_id === localId ? { ...record, customer_id: synced.id } : record;
+
+    let readings: OfflineReading[] = [];
+    let discounts: OfflineDiscount[] = [];
+    let queue: SyncQueueItem[] = [];
+    this.change(
+      () => {
+        readings = this.data.readings.filter(r => r.customer_id === localId).map(remap);
+        discounts = this.data.discounts.filter(d => d.customer_id === localId).map(remap);
+        queue = this.data.sync_queue.filter(item => item.data?.customer_id === localId).map(item => ({ ...item, data: remap(item.data) }));
+
+        this.data.customers = [...this.data.customers.filter(c => c.id !== localId && c.id !== synced.id), synced];
+        this.setReadings(this.data.readings.map(remap));
+        this.data.discounts = this.data.discounts.map(remap);
+        this.data.sync_queue = this.data.sync_queue.map(item =>
+          item.data?.customer_id === localId ? { ...item, data: remap(item.data) } : item
+        );
+      },
+      async db => {
+        await OfflineDatabase.delete(db, 'customers', [localId]);
+        await OfflineDatabase.put(db, 'customers', [synced]);
+        await OfflineDatabase.put(db, 'readings', readings);
+        await OfflineDatabase.put(db, 'discounts', discounts);
+        await OfflineDatabase.put(db, 'sync_queue', queue);
+      }
+    );
   }
 
   // Reading Management
@@ -71,55 +203,139 @@ class OfflineStorageManager {
       synced: true,
       created_at: reading.date
     }));
-    localStorage.setItem(this.READINGS_KEY, JSON.stringify(offlineReadings));
+    let records = offlineReadings;
+    this.change(
+      () => {
+        records = this.keepUnsynced(this.data.readings, offlineReadings);
+        this.setReadings(records);
+      },
+      db => OfflineDatabase.replaceAll(db, 'readings', records)
+    );
   }
 
   getReadings(): OfflineReading[] {
-    const stored = localStorage.getItem(this.READINGS_KEY);
-    return stored ? JSON.parse(stored) : [];
+    return [...this.data.readings];
+  }
+
+  // Apply a delta download: upsert changed readings, drop deleted ones and synced readings dated before keepFrom
+  applyReadingChanges(changed: MeterReading[], deletedIds: string[], keepFrom?: string): void {
+    const changedReadings: OfflineReading[] = changed.map(reading => ({
+      ...reading,
+      synced: true,
+      created_at: reading.date
+    }));
+    const changedIds = new Set(changedReadings.map(reading => reading.id));
+    const removedIds = new Set(deletedIds);
+    for (const reading of this.data.readings) {
+      if (keepFrom && reading.synced && reading.date < keepFrom && !changedIds.has(reading.id)) {
+        removedIds.add(reading.id);
+      }
+    }
+
+    this.change(
+      () => {
+        const kept = this.data.readings.filter(r => !changedIds.has(r.id) && !removedIds.has(r.id));
+        this.setReadings([...kept, ...changedReadings.filter(r => !removedIds.has(r.id))]);
+      },
+      async db => {
+        await OfflineDatabase.delete(db, 'readings', [...removedIds]);
+        await OfflineDatabase.put(db, 'readings', changedReadings.filter(r => !removedIds.has(r.id)));
+      }
+    );
   }
 
-  addReading(reading: Omit<MeterReading, 'id'>, customerName?: string, customerRt?: string, skipSync: boolean = false): string {
-    const readings = this.getReadings();
+  addReading(reading: Omit<MeterReading, 'id'>, customerName?: string, customerRt?: string, skipSync: boolean = false, photo?: Blob): string {
     const offlineReading: OfflineReading = {
       ...reading,
       id: this.generateId(),
       synced: false,
       created_at: new Date().toISOString(),
       customer_name: customerName,
-      customer_rt: customerRt
+      customer_rt: customerRt,
+      // Kept so sync can tell when the server's previous reading changed in the meantime
+      base_previous_reading: this.getPreviousReading(reading.customer_id, reading.date)?.reading,
+      pending_photo: photo ? true : undefined
     };
-    readings.push(offlineReading);
-    localStorage.setItem(this.READINGS_KEY, JSON.stringify(readings));
-    
+    this.change(
+      () => { this.setReadings([...this.data.readings, offlineReading]); },
+      async db => {
+        if (photo) {
+          await OfflineDatabase.put(db, 'meter_photos', [{ id: offlineReading.id, photo, created_at: offlineReading.created_at }]);
+        }
+        await OfflineDatabase.put(db, 'readings', [offlineReading]);
+      }
+    );
+
     // Only add to sync queue if not skipping sync (for mock data)
     if (!skipSync) {
       this.addToSyncQueue('reading', offlineReading);
     }
-    
+
     return offlineReading.id;
   }
 
-  updateReading(id: string, updates: Partial<OfflineReading>): boolean {
-    const readings = this.getReadings();
-    const index = readings.findIndex(r => r.id === id);
-    if (index === -1) return false;
+  updateReading(id: string, updates: Partial<OfflineReading>, skipSync: boolean = false): boolean {
+    const existing = this.data.readings.find(r => r.id === id);
+    if (!existing) return false;
 
     // Preserve the synced flag if it's being explicitly set to true
-    const newReading = { ...readings[index], ...updates };
-    readings[index] = newReading;
-    localStorage.setItem(this.READINGS_KEY, JSON.stringify(readings));
-    
+    const newReading = { ...existing, ...updates };
+    this.change(
+      () => { this.setReadings(this.data.readings.map(r => (r.id === id ? newReading : r))); },
+      db => OfflineDatabase.put(db, 'readings', [newReading])
+    );
+
     // Only add to sync queue if not already synced
-    if (!newReading.synced) {
+    if (!newReading.synced && !skipSync) {
       this.addToSyncQueue('reading', newReading);
     }
     return true;
   }
 
+  // Replace a local reading with the server's version, or drop it when there is none
+  replaceReading(id: string, serverReading?: MeterReading): void {
+    const replacement: OfflineReading | null = serverReading
+      ? { ...serverReading, synced: true, created_at: serverReading.date }
+      : null;
+    this.change(
+      () => {
+        const others = this.data.readings.filter(r => r.id !== id && r.id !== replacement?.id);
+        this.setReadings(replacement ? [...others, replacement] : others);
+      },
+      async db => {
+        await OfflineDatabase.delete(db, 'readings', [id]);
+        await OfflineDatabase.delete(db, 'meter_photos', [id]);
+        if (replacement) await OfflineDatabase.put(db, 'readings', [replacement]);
+      }
+    );
+  }
+
+  // Photo taken with a reading that has not been uploaded yet
+  async getPhoto(readingId: string): Promise<Blob | null> {
+    await this.ready();
+    await this.writes;
+    if (!this.db) {
+      return null;
+    }
+    const record = await OfflineDatabase.get(this.db, 'meter_photos', readingId);
+    return record ? record.photo : null;
+  }
+
   // Get readings for a specific customer
   getCustomerReadings(customerId: string): OfflineReading[] {
-    return this.getReadings().filter(r => r.customer_id === customerId);
+    if (!this.readingsByCustomer) {
+      this.readingsByCustomer = new Map();
+      for (const reading of this.data.readings) {
+        const key = reading.customer_id.toString();
+        const customerReadings = this.readingsByCustomer.get(key);
+        if (customerReadings) {
+          customerReadings.push(reading);
+        } else {
+          this.readingsByCustomer.set(key, [reading]);
+        }
+      }
+    }
+    return [...(this.readingsByCustomer.get(customerId) || [])];
   }
 
   // Check for duplicate readings in the same month
@@ -127,15 +343,14 @@ class OfflineStorageManager {
     const readingDate = new Date(date);
     const year = readingDate.getFullYear();
     const month = readingDate.getMonth();
-    
-    const readings = this.getReadings().filter(r => {
+
+    const readings = this.getCustomerReadings(customerId).filter(r => {
       if (excludeId && r.id === excludeId) return false;
-      if (r.customer_id !== customerId) return false;
-      
+
       const rDate = new Date(r.date);
       return rDate.getFullYear() === year && rDate.getMonth() === month;
     });
-    
+
     return readings.length > 0;
   }
 
@@ -144,106 +359,100 @@ class OfflineStorageManager {
     const readings = this.getCustomerReadings(customerId)
       .filter(r => new Date(r.date) < new Date(date))
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    
+
     console.log(`getPreviousReading for customer ${customerId}: found ${readings.length} readings before ${date}`);
     if (readings.length > 0) {
       console.log(`Previous reading:`, readings[0]);
     }
-    
-    return readings.length > 0 ? readings[0] : null;
-  }
-
-  // Calculate 5-month average usage
-  calculateFiveMonthAverage(customerId: string, currentDate: string): number | null {
-    const readings = this.getCustomerReadings(customerId)
-      .filter(r => new Date(r.date) < new Date(currentDate))
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, 6); // Get last 6 readings to calculate 5 usage periods
 
-    console.log(`calculateFiveMonthAverage for customer ${customerId}: found ${readings.length} readings`);
-
-    if (readings.length < 2) {
-      console.log(`Not enough readings for average calculation (need at least 2, have ${readings.length})`);
-      return null;
-    }
-
-    const usages: number[] = [];
-    for (let i = 0; i < readings.length - 1; i++) {
-      const usage = readings[i].reading - readings[i + 1].reading;
-      if (usage >= 0) {
-        usages.push(usage);
-        console.log(`Usage period ${i + 1}: ${usage} m³ (${readings[i].reading} - ${readings[i + 1].reading})`);
-      }
-    }
-
-    const average = usages.length > 0 ? usages.reduce((sum, usage) => sum + usage, 0) / usages.length : null;
-    console.log(`Calculated 5-month average: ${average} m³ from ${usages.length} usage periods`);
-    
-    return average;
+    return readings.length > 0 ? readings[0] : null;
   }
 
-  // Discount Management
+  // Discount Management (discounts still waiting to sync are kept)
   saveDiscounts(discounts: CustomerDiscount[]): void {
     const offlineDiscounts: OfflineDiscount[] = discounts.map(discount => ({
       ...discount,
       synced: true,
       last_updated: new Date().toISOString()
     }));
-    localStorage.setItem(this.DISCOUNTS_KEY, JSON.stringify(offlineDiscounts));
+    let records = offlineDiscounts;
+    this.change(
+      () => {
+        records = this.keepUnsynced(this.data.discounts, offlineDiscounts);
+        this.data.discounts = records;
+      },
+      db => OfflineDatabase.replaceAll(db, 'discounts', records)
+    );
   }
 
   getDiscounts(): OfflineDiscount[] {
-    const stored = localStorage.getItem(this.DISCOUNTS_KEY);
-    return stored ? JSON.parse(stored) : [];
+    return [...this.data.discounts];
   }
 
   addDiscount(discount: Omit<CustomerDiscount, 'id'>, skipSync: boolean = false): string {
-    const discounts = this.getDiscounts();
     const offlineDiscount: OfflineDiscount = {
       ...discount,
       id: this.generateId(),
       synced: false,
       last_updated: new Date().toISOString()
     };
-    discounts.push(offlineDiscount);
-    localStorage.setItem(this.DISCOUNTS_KEY, JSON.stringify(discounts));
-    
+    this.change(
+      () => { this.data.discounts = [...this.data.discounts, offlineDiscount]; },
+      db => OfflineDatabase.put(db, 'discounts', [offlineDiscount])
+    );
+
     // Only add to sync queue if not skipping sync
     if (!skipSync) {
       this.addToSyncQueue('discount', offlineDiscount);
     }
-    
+
     return offlineDiscount.id;
   }
 
   updateDiscount(id: string, updates: Partial<OfflineDiscount>): boolean {
-    const discounts = this.getDiscounts();
-    const index = discounts.findIndex(d => d.id === id);
-    if (index === -1) return false;
+    const existing = this.data.discounts.find(d => d.id === id);
+    if (!existing) return false;
 
-    discounts[index] = { 
-      ...discounts[index], 
-      ...updates, 
+    const updated: OfflineDiscount = {
+      ...existing,
+      ...updates,
       synced: false,
       last_updated: new Date().toISOString()
     };
-    localStorage.setItem(this.DISCOUNTS_KEY, JSON.stringify(discounts));
-    
-    this.addToSyncQueue('discount', discounts[index]);
+    this.change(
+      () => { this.data.discounts = this.data.discounts.map(d => (d.id === id ? updated : d)); },
+      db => OfflineDatabase.put(db, 'discounts', [updated])
+    );
+
+    this.addToSyncQueue('discount', updated, existing.synced ? existing : undefined);
     return true;
   }
 
+  // Swap a locally saved discount for the server's copy
+  confirmDiscountSynced(localId: string, serverDiscount: CustomerDiscount): void {
+    const synced: OfflineDiscount = { ...serverDiscount, synced: true, last_updated: new Date().toISOString() };
+    this.change(
+      () => { this.data.discounts = [...this.data.discounts.filter(d => d.id !== localId && d.id !== synced.id), synced]; },
+      async db => {
+        await OfflineDatabase.delete(db, 'discounts', [localId]);
+        await OfflineDatabase.put(db, 'discounts', [synced]);
+      }
+    );
+  }
+
   getCustomerActiveDiscount(customerId: string, billMonth?: string): OfflineDiscount | null {
     // If no billMonth provided, use current month
     const targetMonth = billMonth || new Date().toISOString().substring(0, 7); // YYYY-MM format
-    
-    const discounts = this.getDiscounts().filter(d => 
-      d.customer_id === customerId && 
+
+    const discounts = this.getDiscounts().filter(d =>
+      d.customer_id === customerId &&
       d.is_active &&
+      d.approval_status !== 'rejected' &&
+      !d.is_recurring &&
       d.discount_month === targetMonth
     );
-    
-    // Return the most recent active discount for the month
+
+    // Return the most recent active single-month discount (recurring and RT/class discounts are resolved by DiscountService)
     return discounts.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0] || null;
   }
 
@@ -251,44 +460,245 @@ class OfflineStorageManager {
     return this.getDiscounts().filter(d => d.customer_id === customerId);
   }
 
+  // Tariff Management (read-only cache, tariffs are maintained online by admins)
+  saveTariffs(tariffs: Tariff[]): void {
+    this.change(
+      () => { this.data.tariffs = tariffs; },
+      db => OfflineDatabase.replaceAll(db, 'tariffs', tariffs)
+    );
+  }
+
+  getTariffs(): Tariff[] {
+    return [...this.data.tariffs];
+  }
+
+  // Penalty Policies
+  savePenaltyPolicies(policies: PenaltyPolicy[]): void {
+    this.change(
+      () => { this.data.penalty_policies = policies; },
+      db => OfflineDatabase.replaceAll(db, 'penalty_policies', policies)
+    );
+  }
+
+  getPenaltyPolicies(): PenaltyPolicy[] {
+    return [...this.data.penalty_policies];
+  }
+
+  // Bill Ledger (read-only cache, bills are issued online by admins)
+  saveBills(bills: Bill[]): void {
+    this.change(
+      () => { this.data.bills = bills; },
+      db => OfflineDatabase.replaceAll(db, 'bills', bills)
+    );
+  }
+
+  getBills(): Bill[] {
+    return [...this.data.bills];
+  }
+
+  // Gauge Replacements (read-only cache, recorded online by admins)
+  saveGaugeReplacements(replacements: MeterAdjustment[]): void {
+    this.change(
+      () => { this.data.gauge_replacements = replacements; },
+      db => OfflineDatabase.replaceAll(db, 'gauge_replacements', replacements)
+    );
+  }
+
+  getGaugeReplacements(customerId?: string): MeterAdjustment[] {
+    return customerId
+      ? this.data.gauge_replacements.filter(a => a.customer_id === customerId)
+      : [...this.data.gauge_replacements];
+  }
+
   // Sync Queue Management
-  private addToSyncQueue(type: 'customer' | 'reading' | 'discount', data: any): void {
-    const queue = this.getSyncQueue();
-    queue.push({
-      id: this.generateId(),
-      type,
-      data,
-      timestamp: new Date().toISOString(),
-      attempts: 0
-    });
-    localStorage.setItem(this.SYNC_QUEUE_KEY, JSON.stringify(queue));
+  // Customers and discounts are queued once per record: a later edit replaces the queued data, keeping its base
+  private addToSyncQueue(type: SyncQueueItem['type'], data: any, base?: any): void {
+    const queued = type === 'reading'
+      ? undefined
+      : this.data.sync_queue.find(item => item.type === type && item.data?.id === data.id);
+    const item: SyncQueueItem = queued
+      ? { ...queued, data, timestamp: new Date().toISOString() }
+      : { id: this.generateId(), type, data, timestamp: new Date().toISOString(), attempts: 0, base };
+    this.change(
+      () => { this.data.sync_queue = [...this.data.sync_queue.filter(i => i.id !== item.id), item]; },
+      db => OfflineDatabase.put(db, 'sync_queue', [item])
+    );
+  }
+
+  getSyncQueue(): SyncQueueItem[] {
+    return [...this.data.sync_queue];
   }
 
-  getSyncQueue(): any[] {
-    const stored = localStorage.getItem(this.SYNC_QUEUE_KEY);
-    return stored ? JSON.parse(stored) : [];
+  saveSyncQueue(queue: SyncQueueItem[]): void {
+    this.change(
+      () => { this.data.sync_queue = queue; },
+      db => OfflineDatabase.replaceAll(db, 'sync_queue', queue)
+    );
   }
 
   clearSyncQueue(): void {
-    localStorage.setItem(this.SYNC_QUEUE_KEY, JSON.stringify([]));
+    this.saveSyncQueue([]);
   }
 
   removeSyncItem(id: string): void {
-    const queue = this.getSyncQueue().filter(item => item.id !== id);
-    localStorage.setItem(this.SYNC_QUEUE_KEY, JSON.stringify(queue));
+    this.change(
+      () => { this.data.sync_queue = this.data.sync_queue.filter(item => item.id !== id); },
+      db => OfflineDatabase.delete(db, 'sync_queue', [id])
+    );
+  }
+
+  // Record a failed sync attempt; the item stays queued until nextAttemptAt
+  recordSyncFailure(id: string, error: string, rejected: boolean, nextAttemptAt: string): void {
+    const existing = this.data.sync_queue.find(item => item.id === id);
+    if (!existing) return;
+
+    this.updateSyncItem(id, {
+      attempts: existing.attempts + 1,
+      rejections: (existing.rejections || 0) + (rejected ? 1 : 0),
+      last_error: error,
+      last_attempt_at: new Date().toISOString(),
+      next_attempt_at: nextAttemptAt
+    });
+  }
+
+  // Update a queued item in place (conflict state, corrected data)
+  updateSyncItem(id: string, updates: Partial<SyncQueueItem>): boolean {
+    const existing = this.data.sync_queue.find(item => item.id === id);
+    if (!existing) return false;
+
+    const updated: SyncQueueItem = { ...existing, ...updates };
+    this.change(
+      () => { this.data.sync_queue = this.data.sync_queue.map(item => (item.id === id ? updated : item)); },
+      db => OfflineDatabase.put(db, 'sync_queue', [updated])
+    );
+    return true;
+  }
+
+  // Dead-letter Management (sync items the server kept rejecting)
+  moveToDeadLetter(id: string, error: string): void {
+    const existing = this.data.sync_queue.find(item => item.id === id);
+    if (!existing) return;
+
+    const now = new Date().toISOString();
+    const deadItem: DeadLetterItem = {
+      ...existing,
+      attempts: existing.attempts + 1,
+      rejections: (existing.rejections || 0) + 1,
+      last_error: error,
+      last_attempt_at: now,
+      next_attempt_at: undefined,
+      dead_lettered_at: now
+    };
+    this.change(
+      () => {
+        this.data.sync_queue = this.data.sync_queue.filter(item => item.id !== id);
+        this.data.sync_dead_letter = [...this.data.sync_dead_letter, deadItem];
+      },
+      async db => {
+        await OfflineDatabase.put(db, 'sync_dead_letter', [deadItem]);
+        await OfflineDatabase.delete(db, 'sync_queue', [id]);
+      }
+    );
+  }
+
+  getDeadLetterItems(): DeadLetterItem[] {
+    return [...this.data.sync_dead_letter];
+  }
+
+  // Put a dead-letter item back on the sync queue, optionally with a corrected reading
+  retryDeadLetterItem(id: string, data?: OfflineReading): boolean {
+    const deadItem = this.data.sync_dead_letter.find(item => item.id === id);
+    if (!deadItem) return false;
+
+    const { dead_lettered_at: _deadLetteredAt, ...queued } = deadItem;
+    const item: SyncQueueItem = {
+      ...queued,
+      data: data ?? deadItem.data,
+      attempts: 0,
+      rejections: 0,
+      next_attempt_at: undefined
+    };
+    this.change(
+      () => {
+        this.data.sync_dead_letter = this.data.sync_dead_letter.filter(d => d.id !== id);
+        this.data.sync_queue = [...this.data.sync_queue, item];
+      },
+      async db => {
+        await OfflineDatabase.put(db, 'sync_queue', [item]);
+        await OfflineDatabase.delete(db, 'sync_dead_letter', [id]);
+      }
+    );
+
+    // Keep the locally stored reading in step with the corrected data
+    if (data && item.type === 'reading' && this.data.readings.some(r => r.id === data.id)) {
+      const reading: OfflineReading = { ...data, synced: false };
+      this.change(
+        () => { this.setReadings(this.data.readings.map(r => (r.id === reading.id ? reading : r))); },
+        db => OfflineDatabase.put(db, 'readings', [reading])
+      );
+    }
+
+    return true;
+  }
+
+  discardDeadLetterItem(id: string): void {
+    this.change(
+      () => { this.data.sync_dead_letter = this.data.sync_dead_letter.filter(item => item.id !== id); },
+      db => OfflineDatabase.delete(db, 'sync_dead_letter', [id])
+    );
   }
 
   // Utility methods
   private generateId(): string {
-    return `offline_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    return `${OFFLINE_ID_PREFIX}${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  // Records created on this device carry a temporary id until the server assigns one
+  isOfflineId(id: string | undefined | null): boolean {
+    return !!id && id.startsWith(OFFLINE_ID_PREFIX);
   }
 
   getLastSyncTime(): string | null {
-    return localStorage.getItem(this.LAST_SYNC_KEY);
+    return this.meta[LAST_SYNC_META_KEY] ?? null;
   }
 
   setLastSyncTime(timestamp: string): void {
-    localStorage.setItem(this.LAST_SYNC_KEY, timestamp);
+    this.setMeta(LAST_SYNC_META_KEY, timestamp);
+  }
+
+  // Newest server updated_at already downloaded for a store; null means the next download is a full one
+  getHighWaterMark(store: DeltaStoreName): string | null {
+    return this.meta[highWaterMarkKey(store)] ?? null;
+  }
+
+  setHighWaterMark(store: DeltaStoreName, timestamp: string): void {
+    this.setMeta(highWaterMarkKey(store), timestamp);
+  }
+
+  // Which customers the downloaded data covers (an RT, or every customer)
+  getDownloadScope(): string | null {
+    return this.meta[DOWNLOAD_SCOPE_META_KEY] ?? null;
+  }
+
+  setDownloadScope(scope: string): void {
+    this.setMeta(DOWNLOAD_SCOPE_META_KEY, scope);
+  }
+
+  // Session the service worker syncs with while every tab is closed; null when signed out.
+  // Resolves once it is written, so a sync requested afterwards reads it.
+  async setSyncSession(session: SyncSession | null): Promise<void> {
+    if (session) {
+      this.setMeta(SYNC_SESSION_META_KEY, JSON.stringify(session));
+    } else {
+      this.change(
+        () => {
+          const { [SYNC_SESSION_META_KEY]: _session, ...meta } = this.meta;
+          this.meta = meta;
+        },
+        db => OfflineDatabase.delete(db, 'meta', [SYNC_SESSION_META_KEY])
+      );
+    }
+    await this.writes;
   }
 
   // Get storage statistics
@@ -300,48 +710,56 @@ class OfflineStorageManager {
     lastSync: string | null;
   } {
     return {
-      customers: this.getCustomers().length,
-      readings: this.getReadings().length,
-      discounts: this.getDiscounts().length,
-      pendingSync: this.getSyncQueue().length,
+      customers: this.data.customers.length,
+      readings: this.data.readings.length,
+      discounts: this.data.discounts.length,
+      pendingSync: this.data.sync_queue.length,
       lastSync: this.getLastSyncTime()
     };
   }
 
   // Clear all offline data (for testing/reset)
   clearAllData(): void {
-    localStorage.removeItem(this.CUSTOMERS_KEY);
-    localStorage.removeItem(this.READINGS_KEY);
-    localStorage.removeItem(this.DISCOUNTS_KEY);
-    localStorage.removeItem(this.SYNC_QUEUE_KEY);
-    localStorage.removeItem(this.LAST_SYNC_KEY);
+    this.change(
+      () => {
+        this.data = this.emptyData();
+        this.readingsByCustomer = null;
+        this.meta = {};
+      },
+      async db => {
+        await OfflineDatabase.clear(db, [...DATA_STORES, 'meter_photos']);
+        await OfflineDatabase.delete(db, 'meta', [LAST_SYNC_META_KEY, DOWNLOAD_SCOPE_META_KEY, highWaterMarkKey('customers'), highWaterMarkKey('readings')]);
+      }
+    );
   }
 
   // Remove readings for current month (for debugging)
   clearCurrentMonthReadings(): void {
-    const readings = this.getReadings();
     const currentDate = new Date();
     const currentYear = currentDate.getFullYear();
     const currentMonth = currentDate.getMonth();
-    
-    const filteredReadings = readings.filter(reading => {
-      const readingDate = new Date(reading.date);
-      return !(readingDate.getFullYear() === currentYear && readingDate.getMonth() === currentMonth);
-    });
-    
-    localStorage.setItem(this.READINGS_KEY, JSON.stringify(filteredReadings));
-    console.log(`Removed ${readings.length - filteredReadings.length} readings from current month`);
+
+    const removedIds = new Set(
+      this.data.readings
+        .filter(reading => {
+          const readingDate = new Date(reading.date);
+          return readingDate.getFullYear() === currentYear && readingDate.getMonth() === currentMonth;
+        })
+        .map(reading => reading.id)
+    );
+
+    this.change(
+      () => { this.setReadings(this.data.readings.filter(reading => !removedIds.has(reading.id))); },
+      db => OfflineDatabase.delete(db, 'readings', [...removedIds])
+    );
+    console.log(`Removed ${removedIds.size} readings from current month`);
   }
 
   /**
-   * Clear all cached data from local storage
+   * Clear all cached data from offline storage
    */
   clearAllCache(): void {
-    localStorage.removeItem(this.CUSTOMERS_KEY);
-    localStorage.removeItem(this.READINGS_KEY);
-    localStorage.removeItem(this.DISCOUNTS_KEY);
-    localStorage.removeItem(this.SYNC_QUEUE_KEY);
-    localStorage.removeItem(this.LAST_SYNC_KEY);
+    this.clearAllData();
     console.log('🗑️ All offline cache cleared');
   }
 
@@ -349,19 +767,163 @@ class OfflineStorageManager {
    * Clear specific data type from cache
    */
   clearCustomersCache(): void {
-    localStorage.removeItem(this.CUSTOMERS_KEY);
+    this.clearStore('customers');
     console.log('🗑️ Customers cache cleared');
   }
 
   clearReadingsCache(): void {
-    localStorage.removeItem(this.READINGS_KEY);
+    this.clearStore('readings');
     console.log('🗑️ Readings cache cleared');
   }
 
   clearDiscountsCache(): void {
-    localStorage.removeItem(this.DISCOUNTS_KEY);
+    this.clearStore('discounts');
     console.log('🗑️ Discounts cache cleared');
   }
+
+  private clearStore(store: DataStoreName): void {
+    // A cleared delta store must be downloaded in full again
+    const markKey = store === 'customers' || store === 'readings' ? highWaterMarkKey(store) : null;
+    this.change(
+      () => {
+        this.data = { ...this.data, [store]: [] };
+        this.readingsByCustomer = null;
+        if (markKey) {
+          const { [markKey]: _mark, ...meta } = this.meta;
+          this.meta = meta;
+        }
+      },
+      async db => {
+        await OfflineDatabase.clear(db, [store]);
+        if (markKey) await OfflineDatabase.delete(db, 'meta', [markKey]);
+      }
+    );
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.change(
+      () => { this.meta = { ...this.meta, [key]: value }; },
+      db => OfflineDatabase.setMeta(db, key, value)
+    );
+  }
+
+  // Downloaded records replace the local ones, except local changes that have not synced yet
+  private keepUnsynced<T extends { id: string; synced: boolean }>(local: T[], downloaded: T[]): T[] {
+    const unsynced = local.filter(record => !record.synced);
+    const unsyncedIds = new Set(unsynced.map(record => record.id));
+    return [...downloaded.filter(record => !unsyncedIds.has(record.id)), ...unsynced];
+  }
+
+  private setReadings(readings: OfflineReading[]): void {
+    this.data.readings = readings;
+    this.readingsByCustomer = null;
+  }
+
+  /**
+   * Apply a change to the in-memory data and queue its IndexedDB write. Changes made before
+   * the data is loaded are replayed on top of it once it is.
+   */
+  private change(apply: () => void, write: (db: IDBDatabase) => Promise<void>): void {
+    apply();
+    if (!this.hydrated) {
+      this.pendingChanges.push(apply);
+    }
+
+    this.writes = this.writes
+      .then(() => this.ready())
+      .then(() => (this.db ? write(this.db) : undefined))
+      .catch(error => console.warn('Error writing offline data to IndexedDB (non-critical):', error));
+  }
+
+  /**
+   * Open IndexedDB, migrate the legacy localStorage data once and load every store into memory
+   */
+  private async hydrate(): Promise<void> {
+    if (typeof window === 'undefined' || typeof indexedDB === 'undefined') {
+      return;
+    }
+
+    try {
+      const db = await OfflineDatabase.open();
+      await this.migrateFromLocalStorage(db);
+
+      const stores = await Promise.all(DATA_STORES.map(store => OfflineDatabase.getAll(db, store)));
+      const data = this.emptyData();
+      DATA_STORES.forEach((store, index) => {
+        (data as Record<DataStoreName, unknown[]>)[store] = stores[index];
+      });
+
+      const meta = await OfflineDatabase.getAll(db, 'meta');
+
+      this.data = data;
+      this.readingsByCustomer = null;
+      this.meta = Object.fromEntries(meta.map(record => [record.key, record.value]));
+      for (const apply of this.pendingChanges) {
+        apply();
+      }
+      this.db = db;
+    } catch (error) {
+      console.warn('IndexedDB unavailable, offline data is kept in memory only (non-critical):', error);
+    } finally {
+      this.hydrated = true;
+      this.pendingChanges = [];
+    }
+  }
+
+  /**
+   * Copy data stored by earlier versions of the app in localStorage into IndexedDB, then remove it
+   */
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    if (await OfflineDatabase.getMeta(db, LEGACY_MIGRATION_META_KEY)) {
+      return;
+    }
+
+    let migrated = 0;
+    for (const store of DATA_STORES) {
+      const key = LEGACY_STORAGE_KEYS[store];
+      const stored = key ? localStorage.getItem(key) : null;
+      if (!stored) continue;
+
+      try {
+        const records = JSON.parse(stored);
+        if (Array.isArray(records) && records.length > 0) {
+          await OfflineDatabase.put(db, store, records);
+          migrated += records.length;
+        }
+      } catch (error) {
+        console.warn(`Skipping unreadable legacy offline data "${key}" (non-critical):`, error);
+      }
+    }
+
+    const lastSync = localStorage.getItem(LEGACY_LAST_SYNC_KEY);
+    if (lastSync) {
+      await OfflineDatabase.setMeta(db, LAST_SYNC_META_KEY, lastSync);
+    }
+
+    await OfflineDatabase.setMeta(db, LEGACY_MIGRATION_META_KEY, new Date().toISOString());
+    for (const key of Object.values(LEGACY_STORAGE_KEYS)) {
+      if (key) localStorage.removeItem(key);
+    }
+    localStorage.removeItem(LEGACY_LAST_SYNC_KEY);
+
+    if (migrated > 0) {
+      console.log(`🗄️ Migrated ${migrated} offline records from localStorage to IndexedDB`);
+    }
+  }
+
+  private emptyData(): { [K in DataStoreName]: OfflineSchema[K][] } {
+    return {
+      customers: [],
+      readings: [],
+      discounts: [],
+      tariffs: [],
+      bills: [],
+      penalty_policies: [],
+      gauge_replacements: [],
+      sync_queue: [],
+      sync_dead_letter: []
+    };
+  }
 }
 
-export const offlineStorage = new OfflineStorageManager();
\ No newline at end of file
+export const offlineStorage = new OfflineStorageManager();
@@ -1,18 +1,50 @@
 /**
- * Optimized Sync Manager - Focused on Meter Readings Only
- * Admin functions are online-only, offline sync is only for field meter readings
+ * Optimized Sync Manager
+ * Sends changes made offline in the field (meter readings, new or edited customers and discounts)
+ * to the server, and keeps the offline copy of customers and readings up to date.
+ * Other admin functions are online-only.
  */
 
 import { supabase } from './supabase';
-import { offlineStorage } from './offlineStorage';
+import { offlineStorage, DeadLetterItem, OfflineReading, SyncQueueItem } from './offlineStorage';
+import { ReadingConflict, SyncConflict } from './offlineDatabase';
+import { ServiceWorkerManager } from './serviceWorkerManager';
+import { CustomerService, CUSTOMER_SYNC_FIELDS } from './customerService';
+import { DiscountService, DISCOUNT_SYNC_FIELDS } from './discountService';
+import { MeterPhotoService } from './meterPhotoService';
+import { Customer, CustomerDiscount, MeterAdjustment, MeterReading, SyncTombstone, User } from '@/types/types';
 
 export interface SyncResult {
   success: boolean;
   synced: number;
   failed: number;
+  conflicts: number; // Items paused until the user resolves a conflict with the server
   errors: string[];
 }
 
+export type ConflictResolution = 'local' | 'server' | 'merge';
+
+// Retry policy: failed items wait 30s, 1m, 2m, ... up to 1 hour between attempts.
+// Only failures the server rejected count towards the dead-letter limit; network errors just wait.
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const MAX_REJECTED_ATTEMPTS = 5;
+
+// Customers sync first: readings and discounts may belong to a customer created offline
+const SYNC_ORDER: Record<SyncQueueItem['type'], number> = { customer: 0, discount: 1, reading: 2 };
+const SYNC_ITEM_LABELS: Record<SyncQueueItem['type'], string> = { customer: 'Customer', discount: 'Discount', reading: 'Reading' };
+
+// Delta download: rows are fetched from each table's high-water mark minus this overlap
+const DELTA_OVERLAP_MS = 60 * 1000;
+const DOWNLOAD_SCOPE_ALL = 'all';
+const EPOCH = new Date(0).toISOString();
+
+// meter_readings row as the server returns it
+type ServerReading = MeterReading & { updated_at: string };
+
+// Error a sync attempt failed with, a database error or a network failure
+type SyncError = { message?: string; code?: string };
+
 export class OptimizedSyncManager {
   private isOnline: boolean = false;
   private syncInProgress: boolean = false;
@@ -25,13 +57,13 @@ export class OptimizedSyncManager {
       // Listen for online/offline events
       window.addEventListener('online', () => {
         this.isOnline = true;
-        console.log('📶 Back online - starting meter reading sync');
-        this.syncMeterReadings();
+        console.log('📶 Back online - starting offline changes sync');
+        this.syncPendingChanges();
       });
 
       window.addEventListener('offline', () => {
         this.isOnline = false;
-        console.log('📵 Gone offline - meter readings will be stored locally');
+        console.log('📵 Gone offline - changes will be stored locally');
       });
     }
   }
@@ -44,37 +76,66 @@ export class OptimizedSyncManager {
   }
 
   /**
-   * Sync only meter readings (core offline functionality)
+   * Send queued changes to the server: new and edited customers first, so readings and discounts
+   * recorded for a customer created offline can point at its server id, then discounts and readings.
+   * Items waiting out their retry backoff are skipped unless ignoreBackoff is set.
    */
-  async syncMeterReadings(): Promise<SyncResult> {
+  async syncPendingChanges(ignoreBackoff: boolean = false): Promise<SyncResult> {
     if (!this.canSync) {
-      return { success: false, synced: 0, failed: 0, errors: ['Sync not available'] };
+      return { success: false, synced: 0, failed: 0, conflicts: 0, errors: ['Sync not available'] };
     }
 
     this.syncInProgress = true;
-    const result: SyncResult = { success: true, synced: 0, failed: 0, errors: [] };
+    const result: SyncResult = { success: true, synced: 0, failed: 0, conflicts: 0, errors: [] };
 
     try {
-      // Get only meter reading sync items
-      const syncQueue = offlineStorage.getSyncQueue().filter(item => item.type === 'reading');
-      
+      await offlineStorage.ready();
+
+      // Get the items that are due and not waiting on a conflict
+      const now = new Date().toISOString();
+      const syncQueue = offlineStorage.getSyncQueue()
+        .filter(item => !item.conflict && (ignoreBackoff || !item.next_attempt_at || item.next_attempt_at <= now))
+        .sort((a, b) => SYNC_ORDER[a.type] - SYNC_ORDER[b.type] || a.timestamp.localeCompare(b.timestamp));
+
       if (syncQueue.length === 0) {
-        console.log('✅ No meter readings to sync');
+        console.log('✅ No changes to sync');
         return result;
       }
 
-      console.log(`🔄 Syncing ${syncQueue.length} meter readings...`);
+      console.log(`🔄 Syncing ${syncQueue.length} offline changes...`);
+
+      for (const queued of syncQueue) {
+        // Re-read the item: syncing a new customer updates the customer id of the items recorded for it
+        const item = offlineStorage.getSyncQueue().find(i => i.id === queued.id);
+        if (!item || (item.type !== 'customer' && offlineStorage.isOfflineId(item.data.customer_id))) {
+          continue; // Its customer has not reached the server yet
+        }
+
+        const denied = this.checkPermission(item);
+        if (denied) {
+          offlineStorage.moveToDeadLetter(item.id, denied);
+          result.failed++;
+          result.errors.push(denied);
+          console.warn(`🚫 ${denied}`);
+          continue;
+        }
 
-      for (const item of syncQueue) {
         try {
-          await this.syncMeterReading(item.data);
-          offlineStorage.removeSyncItem(item.id);
+          const conflict = await this.syncItem(item);
+          if (conflict) {
+            offlineStorage.updateSyncItem(item.id, { conflict });
+            result.conflicts++;
+            console.warn(`⚠️ Offline ${item.type} paused, conflicts with the server (${conflict.kind})`);
+            continue;
+          }
+
           result.synced++;
-          console.log(`✅ Synced meter reading: ${item.data.reading} m³`);
+          console.log(`✅ Synced offline ${item.type}`);
         } catch (error: any) {
           result.failed++;
-          result.errors.push(`Reading sync failed: ${error.message}`);
-          console.error('❌ Failed to sync meter reading:', error);
+          result.errors.push(`${SYNC_ITEM_LABELS[item.type]} sync failed: ${error.message}`);
+          console.error(`❌ Failed to sync offline ${item.type}:`, error);
+          this.handleSyncFailure(item, error);
         }
       }
 
@@ -84,7 +145,7 @@ export class OptimizedSyncManager {
       }
 
       result.success = result.failed === 0;
-      console.log(`🎯 Sync complete: ${result.synced} synced, ${result.failed} failed`);
+      console.log(`🎯 Sync complete: ${result.synced} synced, ${result.failed} failed, ${result.conflicts} conflicts`);
       
     } catch (error: any) {
       result.success = false;
@@ -98,74 +159,556 @@ export class OptimizedSyncManager {
   }
 
   /**
-   * Sync individual meter reading
+   * Send one queued item. Returns the conflict when the item has to wait for the user,
+   * otherwise removes it from the queue; throws when the server could not be reached or refused it.
+   */
+  private async syncItem(item: SyncQueueItem): Promise<SyncConflict | null> {
+    switch (item.type) {
+      case 'customer':
+        return await this.syncCustomer(item);
+      case 'discount':
+        return await this.syncDiscount(item);
+      default:
+        return await this.syncReading(item);
+    }
+  }
+
+  private async syncReading(item: SyncQueueItem): Promise<SyncConflict | null> {
+    if (!item.conflict_resolved) {
+      const conflict = await this.detectConflict(item.data);
+      if (conflict === 'duplicate') {
+        // The server already holds this exact reading
+        offlineStorage.removeSyncItem(item.id);
+        offlineStorage.updateReading(item.data.id, { synced: true }, true);
+        return null;
+      }
+      if (conflict) {
+        return conflict;
+      }
+    }
+
+    const saved = await this.syncMeterReading(item);
+    offlineStorage.removeSyncItem(item.id);
+    offlineStorage.replaceReading(item.data.id, this.toMeterReading(saved));
+    return null;
+  }
+
+  /**
+   * New customers conflict with an existing customer of the same name in the same RT.
+   * Edits are merged field by field with changes made on the server since the edit started.
+   */
+  private async syncCustomer(item: SyncQueueItem): Promise<SyncConflict | null> {
+    const local = item.data;
+
+    if (!item.base) {
+      if (!item.conflict_resolved) {
+        const existing = await CustomerService.findCustomerByName(local.name, local.rt);
+        if (existing) {
+          return { kind: 'record_exists', server_record: existing, fields: ['name', 'rt'], detected_at: new Date().toISOString() };
+        }
+      }
+
+      const created = await CustomerService.createCustomer(local);
+      offlineStorage.removeSyncItem(item.id);
+      offlineStorage.confirmCustomerSynced(local.id, created);
+      return null;
+    }
+
+    const server = await CustomerService.fetchCustomer(local.id);
+    if (!server) {
+      throw this.notFoundError('Customer');
+    }
+
+    const { changes, conflicting } = this.mergeChanges(CUSTOMER_SYNC_FIELDS, local, item.base, server);
+    if (conflicting.length > 0 && !item.conflict_resolved) {
+      return { kind: 'record_changed', server_record: server, fields: conflicting, detected_at: new Date().toISOString() };
+    }
+
+    const updated = Object.keys(changes).length > 0 ? await CustomerService.updateCustomer(local.id, changes) : server;
+    offlineStorage.removeSyncItem(item.id);
+    offlineStorage.confirmCustomerSynced(local.id, updated);
+    return null;
+  }
+
+  /**
+   * Discounts go through DiscountService.saveDiscount, so large ones still wait for approval.
+   * Edits are merged field by field with changes made on the server since the edit started.
+   */
+  private async syncDiscount(item: SyncQueueItem): Promise<SyncConflict | null> {
+    const local = item.data;
+    const savedBy = local.created_by || this.getCurrentUser()?.email || 'offline';
+
+    if (!item.base) {
+      const { id: _offlineId, synced: _synced, last_updated: _lastUpdated, ...input } = local;
+      const created = await DiscountService.saveDiscount(input, savedBy);
+      offlineStorage.removeSyncItem(item.id);
+      offlineStorage.confirmDiscountSynced(local.id, created);
+      return null;
+    }
+
+    const server = await DiscountService.fetchDiscount(local.id);
+    if (!server) {
+      throw this.notFoundError('Discount');
+    }
+
+    const { changes, conflicting } = this.mergeChanges(DISCOUNT_SYNC_FIELDS, local, item.base, server);
+    if (conflicting.length > 0 && !item.conflict_resolved) {
+      return { kind: 'record_changed', server_record: server, fields: conflicting, detected_at: new Date().toISOString() };
+    }
+
+    const updated = Object.keys(changes).length > 0
+      ? await DiscountService.saveDiscount({ ...server, ...changes }, this.getCurrentUser()?.email || savedBy, server)
+      : server;
+    offlineStorage.removeSyncItem(item.id);
+    offlineStorage.confirmDiscountSynced(local.id, updated);
+    return null;
+  }
+
+  /**
+   * Three-way compare of an offline edit: changes holds the fields edited on this device,
+   * conflicting the ones also changed, differently, on the server since the edit started
    */
-  private async syncMeterReading(reading: any): Promise<void> {
-    const { error } = await supabase
+  private mergeChanges<R extends Customer | CustomerDiscount, T extends keyof R & string>(
+    fields: T[],
+    local: R,
+    base: Partial<R>,
+    server: R
+  ): { changes: { [K in T]?: R[K] | null }; conflicting: T[] } {
+    const same = (a: unknown, b: unknown) => (a ?? null) === (b ?? null);
+    const changes: { [K in T]?: R[K] | null } = {};
+    const conflicting: T[] = [];
+
+    for (const field of fields) {
+      if (same(local[field], base[field])) continue;
+      changes[field] = local[field] ?? null;
+      if (!same(server[field], base[field]) && !same(server[field], local[field])) {
+        conflicting.push(field);
+      }
+    }
+
+    return { changes, conflicting };
+  }
+
+  /**
+   * Only admins sync customer and discount changes everywhere. RT PICs sync them for their own RT
+   * (discounts for one customer or the whole RT); meter readings are open to every field role.
+   * Returns why the item is refused, or null when it may be sent.
+   */
+  private checkPermission(item: SyncQueueItem): string | null {
+    const user = this.getCurrentUser();
+    if (!user) {
+      return `${SYNC_ITEM_LABELS[item.type]} not synced: nobody is signed in on this device`;
+    }
+    if (item.type === 'reading' || user.role === 'admin' || user.isDemo) {
+      return null;
+    }
+
+    const assignedRt = user.role === 'rt_pic' ? user.assigned_rt : undefined;
+    let allowed = false;
+    if (assignedRt && item.type === 'customer') {
+      allowed = item.data.rt === assignedRt && (!item.base || (item.base as Partial<Customer>).rt === assignedRt);
+    } else if (assignedRt && item.type === 'discount') {
+      const scope = item.data.scope || 'customer';
+      const customerRt = offlineStorage.getCustomers().find(c => c.id === item.data.customer_id)?.rt;
+      allowed = scope === 'rt' ? item.data.target_rt === assignedRt : scope === 'customer' && customerRt === assignedRt;
+    }
+
+    return allowed ? null : `${SYNC_ITEM_LABELS[item.type]} not synced: role ${user.role} may not change it`;
+  }
+
+  // Carries a code so it counts as a rejection, like an error returned by the database
+  private notFoundError(label: string): Error {
+    return Object.assign(new Error(`${label} no longer exists on the server`), { code: 'not_found' });
+  }
+
+  /**
+   * Schedule the next attempt for a failed item, or move it to the dead-letter list
+   * once the server has rejected it too many times
+   */
+  private handleSyncFailure(item: SyncQueueItem, error: SyncError): void {
+    const message = error?.message || String(error);
+    const rejected = this.isRejectedByServer(error);
+    const rejections = (item.rejections || 0) + (rejected ? 1 : 0);
+
+    if (rejections >= MAX_REJECTED_ATTEMPTS) {
+      offlineStorage.moveToDeadLetter(item.id, message);
+      console.warn(`🪦 Offline ${item.type} moved to dead-letter list after ${rejections} rejected attempts: ${message}`);
+      return;
+    }
+
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** item.attempts, RETRY_MAX_DELAY_MS);
+    offlineStorage.recordSyncFailure(item.id, message, rejected, new Date(Date.now() + delay).toISOString());
+
+    // Lost the connection mid-sync: let the service worker finish once it is back
+    if (!rejected) {
+      ServiceWorkerManager.requestSync();
+    }
+  }
+
+  /**
+   * Database errors carry a code; network failures (no signal, timeouts) do not
+   */
+  private isRejectedByServer(error: SyncError): boolean {
+    return typeof error?.code === 'string' && error.code.length > 0;
+  }
+
+  /**
+   * Compare a queued reading with the server: another reading of the customer in the same month,
+   * or a previous reading that changed since this one was taken, is a conflict.
+   * Returns 'duplicate' when the server already holds the same reading.
+   */
+  private async detectConflict(reading: OfflineReading): Promise<ReadingConflict | 'duplicate' | null> {
+    const month = reading.date.substring(0, 7);
+    const [year, monthNumber] = month.split('-').map(Number);
+    const next = new Date(year, monthNumber, 1);
+    const nextMonthStart = `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-01`;
+
+    const { data: monthReadings, error } = await supabase
+      .from('meter_readings')
+      .select('id, reading, date')
+      .eq('customer_id', reading.customer_id)
+      .gte('date', `${month}-01`)
+      .lt('date', nextMonthStart)
+      .order('date', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    const otherReadings = (monthReadings || []).filter(row => row.id.toString() !== reading.id);
+    if (otherReadings.length > 0) {
+      if (otherReadings.some(row => Number(row.reading) === Number(reading.reading))) {
+        return 'duplicate';
+      }
+      return {
+        kind: 'same_month',
+        server_reading: this.toConflictReading(otherReadings[0]),
+        detected_at: new Date().toISOString()
+      };
+    }
+
+    if (reading.base_previous_reading === undefined) {
+      return null;
+    }
+
+    const { data: previousReadings, error: previousError } = await supabase
+      .from('meter_readings')
+      .select('id, reading, date')
+      .eq('customer_id', reading.customer_id)
+      .lt('date', reading.date)
+      .order('date', { ascending: false })
+      .limit(1);
+
+    if (previousError) {
+      throw previousError;
+    }
+
+    const previous = previousReadings?.[0];
+    if (previous && Number(previous.reading) !== Number(reading.base_previous_reading)) {
+      return {
+        kind: 'previous_changed',
+        server_reading: this.toConflictReading(previous),
+        detected_at: new Date().toISOString()
+      };
+    }
+
+    return null;
+  }
+
+  private toConflictReading(row: Pick<MeterReading, 'id' | 'reading' | 'date'>): ReadingConflict['server_reading'] {
+    return {
+      id: row.id.toString(),
+      reading: Number(row.reading),
+      date: row.date
+    };
+  }
+
+  /**
+   * Sync individual meter reading, returning the saved row. A photo taken offline is uploaded
+   * first so the reading is saved with its path.
+   */
+  private async syncMeterReading(item: SyncQueueItem): Promise<ServerReading> {
+    const reading: OfflineReading = item.data;
+    let photoPath: string | undefined = reading.photo_path;
+    if (reading.pending_photo) {
+      const photo = await offlineStorage.getPhoto(reading.id);
+      if (photo) {
+        photoPath = await MeterPhotoService.uploadPhoto(reading.customer_id, reading.id, photo);
+      }
+    }
+
+    const { data, error } = await supabase
       .from('meter_readings')
       .upsert({
-        id: reading.id.startsWith('offline_') ? undefined : reading.id,
+        id: item.replaces_id || (offlineStorage.isOfflineId(reading.id) ? undefined : reading.id),
         customer_id: reading.customer_id,
         reading: reading.reading,
         date: reading.date,
         created_at: reading.created_at,
-      });
+        photo_path: photoPath,
+        rollover: reading.rollover || undefined,
+        estimated: reading.estimated || undefined,
+      })
+      .select()
+      .single();
 
     if (error) {
       throw error;
     }
+
+    return data;
   }
 
   /**
-   * Download latest customers and readings for offline use
+   * Download customers, readings and gauge replacements for offline use. After the first full
+   * download only customers and readings changed or deleted since the last one are fetched,
+   * limited to the collector's assigned RT.
    */
   async downloadLatestData(): Promise<void> {
     try {
-      console.log('📥 Downloading latest data for offline use...');
+      await offlineStorage.ready();
 
-      // Download customers
-      const { data: customers, error: customersError } = await supabase
-        .from('customers')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const assignedRt = this.getAssignedRt();
+      const scope = assignedRt || DOWNLOAD_SCOPE_ALL;
+      // Data downloaded for another RT (or before delta sync existed) is replaced by a full download
+      const sameScope = offlineStorage.getDownloadScope() === scope;
+      const customersSince = sameScope ? offlineStorage.getHighWaterMark('customers') : null;
+      const readingsSince = sameScope ? offlineStorage.getHighWaterMark('readings') : null;
+      console.log(`📥 Downloading ${customersSince && readingsSince ? 'changes' : 'latest data'} for offline use (${scope})...`);
+
+      // Readings from the last 3 months are enough for usage calculations
+      const windowStart = new Date();
+      windowStart.setMonth(windowStart.getMonth() - 3);
+      const readingsFrom = windowStart.toISOString().substring(0, 10);
+
+      const knownCustomerIds = new Set(offlineStorage.getCustomers().map(c => c.id));
+      const customersMark = await this.downloadCustomers(assignedRt, customersSince);
+      if (customersMark === null) {
+        return;
+      }
 
-      if (customersError) {
-        console.warn('⚠️ Could not download customers:', customersError);
-      } else if (customers) {
-        offlineStorage.saveCustomers(customers.map(c => ({
-          id: c.id.toString(),
-          name: c.name,
-          rt: c.rt,
-          phone: c.phone
-        })));
-        console.log(`✅ Downloaded ${customers.length} customers`);
+      // Customers new to this device (added, or moved into the RT) bring their reading history along
+      const newCustomerIds = customersSince
+        ? offlineStorage.getCustomers().filter(c => c.synced && !knownCustomerIds.has(c.id)).map(c => c.id)
+        : [];
+      const readingsMark = await this.downloadReadings(assignedRt, readingsSince, readingsFrom, newCustomerIds);
+      if (readingsMark === null) {
+        return;
       }
 
-      // Download recent meter readings (last 3 months for usage calculations)
-      const threeMonthsAgo = new Date();
-      threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
+      offlineStorage.setHighWaterMark('customers', customersMark);
+      offlineStorage.setHighWaterMark('readings', readingsMark);
+      offlineStorage.setDownloadScope(scope);
+
+      await this.downloadGaugeReplacements(assignedRt, readingsFrom);
+    } catch (error) {
+      console.error('❌ Error downloading data:', error);
+    }
+  }
+
+  /**
+   * Download customers changed since the high-water mark (all of them without one).
+   * Returns the new mark, or null when the download failed.
+   */
+  private async downloadCustomers(assignedRt: string | null, since: string | null): Promise<string | null> {
+    let query = supabase.from('customers').select('*').order('updated_at', { ascending: true });
+    if (assignedRt) query = query.eq('rt', assignedRt);
+    if (since) query = query.gte('updated_at', this.withOverlap(since));
+
+    const { data: customers, error } = await query;
+    if (error || !customers) {
+      console.warn('⚠️ Could not download customers:', error);
+      return null;
+    }
+
+    const mapped = customers.map(c => ({
+      id: c.id.toString(),
+      name: c.name,
+      rt: c.rt,
+      phone: c.phone,
+      tariff_class: c.tariff_class || 'household',
+      route_order: c.route_order ?? undefined,
+      meter_digits: c.meter_digits ?? undefined
+    }));
+
+    if (!since) {
+      offlineStorage.saveCustomers(mapped);
+      console.log(`✅ Downloaded ${customers.length} customers`);
+      return this.latestTimestamp(customers.map(c => c.updated_at), EPOCH);
+    }
+
+    // Customers leaving the RT are recorded as tombstones for the RT they left
+    const tombstones = await this.downloadTombstones('customers', since, assignedRt);
+    if (!tombstones) {
+      return null;
+    }
+
+    offlineStorage.applyCustomerChanges(mapped, tombstones.map(t => t.record_id));
+    console.log(`✅ Downloaded ${customers.length} changed and ${tombstones.length} removed customers`);
+    return this.latestTimestamp([...customers.map(c => c.updated_at), ...tombstones.map(t => t.deleted_at)], since);
+  }
+
+  /**
+   * Download readings in the offline window changed since the high-water mark (all of them without
+   * one), plus the whole window for newly downloaded customers. Returns the new mark, or null on failure.
+   */
+  private async downloadReadings(
+    assignedRt: string | null,
+    since: string | null,
+    readingsFrom: string,
+    newCustomerIds: string[]
+  ): Promise<string | null> {
+    let query = supabase
+      .from('meter_readings')
+      .select(assignedRt ? '*, customers!inner(rt)' : '*')
+      .gte('date', readingsFrom)
+      .order('updated_at', { ascending: true });
+    if (assignedRt) query = query.eq('customers.rt', assignedRt);
+    if (since) query = query.gte('updated_at', this.withOverlap(since));
+
+    const { data, error } = await query.overrideTypes<ServerReading[], { merge: false }>();
+    if (error || !data) {
+      console.warn('⚠️ Could not download readings:', error);
+      return null;
+    }
+    const readings: ServerReading[] = [...data];
 
-      const { data: readings, error: readingsError } = await supabase
+    if (!since) {
+      offlineStorage.saveReadings(readings.map(r => this.toMeterReading(r)));
+      console.log(`✅ Downloaded ${readings.length} recent readings`);
+      return this.latestTimestamp(readings.map(r => r.updated_at), EPOCH);
+    }
+
+    if (newCustomerIds.length > 0) {
+      const { data: history, error: historyError } = await supabase
         .from('meter_readings')
         .select('*')
-        .gte('date', threeMonthsAgo.toISOString())
-        .order('date', { ascending: false });
-
-      if (readingsError) {
-        console.warn('⚠️ Could not download readings:', readingsError);
-      } else if (readings) {
-        offlineStorage.saveReadings(readings.map(r => ({
-          id: r.id.toString(),
-          customer_id: r.customer_id.toString(),
-          reading: r.reading,
-          date: r.date
-        })));
-        console.log(`✅ Downloaded ${readings.length} recent readings`);
+        .in('customer_id', newCustomerIds)
+        .gte('date', readingsFrom);
+      if (historyError || !history) {
+        console.warn('⚠️ Could not download readings of new customers:', historyError);
+        return null;
       }
+      readings.push(...history);
+    }
 
-    } catch (error) {
-      console.error('❌ Error downloading data:', error);
+    const tombstones = await this.downloadTombstones('meter_readings', since, null);
+    if (!tombstones) {
+      return null;
+    }
+
+    offlineStorage.applyReadingChanges(
+      readings.map(r => this.toMeterReading(r)),
+      tombstones.map(t => t.record_id),
+      readingsFrom
+    );
+    console.log(`✅ Downloaded ${readings.length} changed and ${tombstones.length} removed readings`);
+    // History of new customers can be older than the mark, so only the delta query's rows advance it
+    return this.latestTimestamp([...data.map(r => r.updated_at), ...tombstones.map(t => t.deleted_at)], since);
+  }
+
+  /**
+   * Download the gauge replacements in the offline readings window, so readings after a new gauge
+   * validate and bill against its start reading offline. Few rows, so always a full download;
+   * on failure the cached ones are kept.
+   */
+  private async downloadGaugeReplacements(assignedRt: string | null, readingsFrom: string): Promise<void> {
+    let query = supabase
+      .from('meter_adjustments')
+      .select(assignedRt ? '*, customers!inner(rt)' : '*')
+      .eq('adjustment_type', 'gauge_replacement')
+      .gte('adjustment_date', readingsFrom);
+    if (assignedRt) query = query.eq('customers.rt', assignedRt);
+
+    const { data, error } = await query.overrideTypes<MeterAdjustment[], { merge: false }>();
+    if (error || !data) {
+      console.warn('⚠️ Could not download gauge replacements (non-critical):', error);
+      return;
     }
+
+    offlineStorage.saveGaugeReplacements(data.map(row => this.toGaugeReplacement(row)));
+    console.log(`✅ Downloaded ${data.length} gauge replacements`);
+  }
+
+  /**
+   * Rows deleted since the mark. Reading tombstones are not scoped by RT: applying one for a
+   * reading this device never had is a no-op.
+   */
+  private async downloadTombstones(
+    table: SyncTombstone['table_name'],
+    since: string,
+    rt: string | null
+  ): Promise<Pick<SyncTombstone, 'record_id' | 'deleted_at'>[] | null> {
+    let query = supabase
+      .from('sync_tombstones')
+      .select('record_id, deleted_at')
+      .eq('table_name', table)
+      .gte('deleted_at', this.withOverlap(since));
+    if (rt) query = query.eq('rt', rt);
+
+    const { data, error } = await query;
+    if (error || !data) {
+      console.warn(`⚠️ Could not download deleted ${table}:`, error);
+      return null;
+    }
+    return data.map(t => ({ record_id: t.record_id.toString(), deleted_at: t.deleted_at }));
+  }
+
+  private toMeterReading(row: ServerReading): MeterReading {
+    return {
+      id: row.id.toString(),
+      customer_id: row.customer_id.toString(),
+      reading: row.reading,
+      date: row.date,
+      photo_path: row.photo_path || undefined,
+      rollover: row.rollover || undefined,
+      estimated: row.estimated || undefined,
+      meter_id: row.meter_id || undefined
+    };
+  }
+
+  private toGaugeReplacement(row: MeterAdjustment): MeterAdjustment {
+    return {
+      id: row.id.toString(),
+      customer_id: row.customer_id.toString(),
+      old_reading: Number(row.old_reading),
+      new_reading: Number(row.new_reading),
+      adjustment_type: row.adjustment_type,
+      reason: row.reason,
+      adjustment_date: row.adjustment_date,
+      created_by: row.created_by,
+      created_at: row.created_at,
+      notes: row.notes || undefined,
+      old_meter_id: row.old_meter_id || undefined,
+      new_meter_id: row.new_meter_id || undefined
+    };
+  }
+
+  // Collectors only work their own RT; admins and other roles keep every customer offline
+  private getAssignedRt(): string | null {
+    const user = this.getCurrentUser();
+    return user?.role === 'rt_pic' && user?.assigned_rt ? user.assigned_rt : null;
+  }
+
+  private getCurrentUser(): User | null {
+    try {
+      return JSON.parse(localStorage.getItem('user') || 'null');
+    } catch {
+      return null;
+    }
+  }
+
+  // Re-fetch a little before the mark, so rows committed late with an earlier timestamp are not missed
+  private withOverlap(mark: string): string {
+    return new Date(new Date(mark).getTime() - DELTA_OVERLAP_MS).toISOString();
+  }
+
+  private latestTimestamp(timestamps: (string | null | undefined)[], fallback: string): string {
+    const latest = timestamps.reduce(
+      (max, timestamp) => (timestamp ? Math.max(max, new Date(timestamp).getTime()) : max),
+      new Date(fallback).getTime()
+    );
+    return new Date(latest).toISOString();
   }
 
   /**
@@ -173,27 +716,151 @@ export class OptimizedSyncManager {
    */
   getSyncStatus(): {
     isOnline: boolean;
-    pendingReadings: number;
+    pendingChanges: number;
+    failedChanges: number;
+    conflictedChanges: number;
     canSync: boolean;
     syncInProgress: boolean;
   } {
-    const pendingReadings = offlineStorage.getSyncQueue()
-      .filter(item => item.type === 'reading').length;
+    const queue = offlineStorage.getSyncQueue();
 
     return {
       isOnline: this.isOnline,
-      pendingReadings,
+      pendingChanges: queue.length,
+      failedChanges: offlineStorage.getDeadLetterItems().length,
+      conflictedChanges: queue.filter(item => item.conflict).length,
       canSync: this.canSync,
       syncInProgress: this.syncInProgress
     };
   }
 
   /**
-   * Manual sync trigger
+   * Manual sync trigger, retries every pending change without waiting for its backoff
    */
   async manualSync(): Promise<SyncResult> {
     console.log('🔄 Manual sync triggered');
-    return await this.syncMeterReadings();
+    return await this.syncPendingChanges(true);
+  }
+
+  /**
+   * Changes the server kept rejecting, newest first
+   */
+  getFailedItems(): DeadLetterItem[] {
+    return offlineStorage.getDeadLetterItems()
+      .sort((a, b) => b.dead_lettered_at.localeCompare(a.dead_lettered_at));
+  }
+
+  /**
+   * Queue a dead-letter item again, optionally with a corrected reading, and sync it right away when online
+   */
+  async retryFailedItem(id: string, data?: OfflineReading): Promise<SyncResult | null> {
+    if (!offlineStorage.retryDeadLetterItem(id, data)) {
+      return null;
+    }
+    if (!this.canSync) {
+      ServiceWorkerManager.requestSync();
+      return null;
+    }
+    return await this.syncPendingChanges(true);
+  }
+
+  /**
+   * Changes paused because they conflict with the server
+   */
+  getConflicts(): SyncQueueItem[] {
+    return offlineStorage.getSyncQueue().filter(item => item.conflict);
+  }
+
+  /**
+   * Resolve a conflict: keep the local version, keep the server's, or (readings only) send a merged
+   * reading. Local and merged readings replace the server reading of the same month; keeping the
+   * server's customer for a duplicate new customer moves the readings taken for it onto that customer.
+   */
+  async resolveConflict(id: string, resolution: ConflictResolution, merged?: { reading: number; date: string }): Promise<SyncResult | null> {
+    const item = offlineStorage.getSyncQueue().find(i => i.id === id);
+    if (!item?.conflict) {
+      return null;
+    }
+
+    const { conflict } = item;
+    if (resolution === 'server') {
+      offlineStorage.removeSyncItem(id);
+      if (conflict.kind === 'record_changed' || conflict.kind === 'record_exists') {
+        if (item.type === 'customer') {
+          offlineStorage.confirmCustomerSynced(item.data.id, conflict.server_record as Customer);
+        } else {
+          offlineStorage.confirmDiscountSynced(item.data.id, conflict.server_record as CustomerDiscount);
+        }
+      } else {
+        offlineStorage.replaceReading(
+          item.data.id,
+          conflict.kind === 'same_month'
+            ? { ...conflict.server_reading, customer_id: item.data.customer_id }
+            : undefined
+        );
+      }
+      console.log(`🗑️ Kept the server ${item.type}, local change discarded`);
+
+      // Readings waiting for a duplicate new customer can now be sent
+      if (conflict.kind === 'record_exists' && this.canSync) {
+        return await this.syncPendingChanges(true);
+      }
+      return null;
+    }
+
+    let data = item.data;
+    if (resolution === 'merge' && merged && item.type === 'reading') {
+      data = { ...item.data, ...merged };
+      offlineStorage.updateReading(item.data.id, merged, true);
+    }
+
+    offlineStorage.updateSyncItem(id, {
+      data,
+      conflict: undefined,
+      conflict_resolved: true,
+      replaces_id: conflict.kind === 'same_month' ? conflict.server_reading.id : item.replaces_id,
+      next_attempt_at: undefined
+    });
+
+    if (!this.canSync) {
+      ServiceWorkerManager.requestSync();
+      return null;
+    }
+    return await this.syncPendingChanges(true);
+  }
+
+  /**
+   * Drop a dead-letter item for good
+   */
+  discardFailedItem(id: string): void {
+    offlineStorage.discardDeadLetterItem(id);
+    console.log(`🗑️ Discarded failed sync item ${id}`);
+  }
+
+  /**
+   * Describe a queued change for the sync panels, e.g. "Budi · RT 01" / "12 m³ · 3/5/2025"
+   */
+  describeItem(item: SyncQueueItem): { title: string; detail: string } {
+    const { data } = item;
+    switch (item.type) {
+      case 'customer':
+        return {
+          title: data.name,
+          detail: [item.base ? 'Perubahan data pelanggan' : 'Pelanggan baru', data.rt, data.phone].filter(Boolean).join(' · ')
+        };
+      case 'discount': {
+        const customerName = offlineStorage.getCustomers().find(c => c.id === data.customer_id)?.name;
+        return {
+          title: `Diskon ${DiscountService.describeTarget(data, customerName)}`,
+          detail: `${DiscountService.describeValue(data)} · ${DiscountService.describePeriod(data)}`
+        };
+      }
+      default:
+        return {
+          title: [data.customer_name || `Pelanggan ${data.customer_id}`, data.customer_rt].filter(Boolean).join(' · '),
+          detail: `${data.reading} m³ · ${new Date(data.date).toLocaleDateString('id-ID')}`
+        };
+    }
   }
 
   /**
@@ -203,9 +870,9 @@ export class OptimizedSyncManager {
     setInterval(async () => {
       if (this.canSync) {
         const status = this.getSyncStatus();
-        if (status.pendingReadings > 0) {
-          console.log('🔄 Auto-sync: Found pending readings, syncing...');
-          await this.syncMeterReadings();
+        if (status.pendingChanges > 0) {
+          console.log('🔄 Auto-sync: Found pending changes, syncing...');
+          await this.syncPendingChanges();
         }
       }
     }, 5 * 60 * 1000); // 5 minutes
@@ -0,0 +1,300 @@
+/**
+ * Payment Service
+ * Records per-customer payments against ledger bills and builds the receivables aging report
+ */
+
+import { supabase } from './supabase';
+import { Bill, Payment, PaymentMethod, ReceivableAging } from '@/types/types';
+import { BillLedgerService } from './billLedgerService';
+
+export interface PaymentInput {
+  amount: number;
+  payment_date: string;
+  method: PaymentMethod;
+  notes?: string;
+}
+
+export interface PaymentFilters {
+  billingMonth?: string;
+  billId?: string;
+  customerId?: string;
+  rt?: string;
+}
+
+export interface AgingReport {
+  customers: ReceivableAging[];
+  rts: ReceivableAging[];
+  totals: ReceivableAging;
+}
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Tunai' },
+  { value: 'transfer', label: 'Transfer' }
+];
+
+export class PaymentService {
+  /**
+   * Fetch payments matching the filters, newest first
+   */
+  static async loadPayments(filters: PaymentFilters = {}): Promise<Payment[]> {
+    try {
+      let query = supabase
+        .from('payments')
+        .select('*')
+        .order('payment_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (filters.billingMonth) {
+        query = query.eq('billing_month', filters.billingMonth);
+      }
+      if (filters.billId) {
+        query = query.eq('bill_id', filters.billId);
+      }
+      if (filters.customerId) {
+        query = query.eq('customer_id', filters.customerId);
+      }
+      if (filters.rt) {
+        query = query.eq('customer_rt', filters.rt);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (error.code === 'PGRST116' || error.message?.includes('does not exist')) {
+          console.warn('Payments table not found - returning no payments');
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map(row => this.mapPaymentRow(row));
+    } catch (error) {
+      console.warn('Error loading payments (non-critical):', error);
+      return [];
+    }
+  }
+
+  /**
+   * Validate a payment against the bill it pays.
+   * Paying more than the bill is allowed; the excess becomes credit on the customer's account.
+   */
+  static validatePayment(bill: Bill, input: PaymentInput): string[] {
+    const errors: string[] = [];
+
+    if (bill.status === 'draft' || bill.status === 'void') {
+      errors.push(`Tagihan berstatus ${BillLedgerService.getStatusLabel(bill.status)} tidak dapat dibayar`);
+    }
+
+    if (!(input.amount > 0)) {
+      errors.push('Jumlah pembayaran harus lebih dari 0');
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.payment_date)) {
+      errors.push('Tanggal pembayaran tidak valid');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Record a payment from a customer against one of their bills.
+   * Money beyond the bill's outstanding amount settles the customer's other unpaid bills, oldest first;
+   * anything left after that stays on the bill as credit for the next month.
+   */
+  static async recordPayment(bill: Bill, input: PaymentInput, receivedBy: string): Promise<Payment[]> {
+    const errors = this.validatePayment(bill, input);
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+
+    const allocations = await this.allocatePayment(bill, input.amount);
+    const payments: Payment[] = [];
+
+    for (const allocation of allocations) {
+      const notes = allocation.bill.id === bill.id
+        ? input.notes
+        : [`Alokasi dari pembayaran ${bill.bill_number}`, input.notes?.trim()].filter(Boolean).join(' - ');
+
+      payments.push(await this.insertPayment(allocation.bill, { ...input, amount: allocation.amount, notes }, receivedBy));
+    }
+
+    return payments;
+  }
+
+  /**
+   * Delete a payment recorded by mistake and take it off the bill
+   */
+  static async deletePayment(payment: Payment, bill: Bill): Promise<void> {
+    const { error } = await supabase
+      .from('payments')
+      .delete()
+      .eq('id', payment.id);
+
+    if (error) {
+      throw error;
+    }
+
+    await BillLedgerService.updatePaidAmount(bill, Math.max(0, bill.paid_amount - payment.amount));
+  }
+
+  /**
+   * Number of whole months a bill is overdue. Bills are due by the end of the month after the billing month.
+   */
+  static getMonthsOverdue(billingMonth: string, asOf: Date = new Date()): number {
+    const [year, month] = billingMonth.split('-').map(Number);
+    const monthsSinceBilling = (asOf.getFullYear() - year) * 12 + (asOf.getMonth() + 1 - month);
+    return Math.max(0, monthsSinceBilling - 1);
+  }
+
+  /**
+   * Build the receivables aging report from outstanding ledger bills
+   */
+  static buildAgingReport(bills: Bill[], asOf: Date = new Date()): AgingReport {
+    const customers = new Map<string, ReceivableAging>();
+    const rts = new Map<string, ReceivableAging>();
+    const totals = this.createAgingRow('');
+
+    bills.forEach(bill => {
+      const outstanding = BillLedgerService.getOutstandingAmount(bill);
+      if (outstanding <= 0) return;
+
+      const rt = bill.customer_rt || '-';
+      const customerRow = customers.get(bill.customer_id) || {
+        ...this.createAgingRow(rt),
+        customerId: bill.customer_id,
+        customerName: bill.customer_name
+      };
+      const rtRow = rts.get(rt) || this.createAgingRow(rt);
+
+      const monthsOverdue = this.getMonthsOverdue(bill.billing_month, asOf);
+      [customerRow, rtRow, totals].forEach(row => {
+        if (monthsOverdue >= 3) {
+          row.threePlusMonths += outstanding;
+        } else if (monthsOverdue >= 1) {
+          row.oneToTwoMonths += outstanding;
+        } else {
+          row.current += outstanding;
+        }
+        row.total += outstanding;
+      });
+
+      customers.set(bill.customer_id, customerRow);
+      rts.set(rt, rtRow);
+    });
+
+    return {
+      customers: Array.from(customers.values()).sort((a, b) =>
+        a.rt.localeCompare(b.rt) || (a.customerName || '').localeCompare(b.customerName || '')
+      ),
+      rts: Array.from(rts.values()).sort((a, b) => a.rt.localeCompare(b.rt)),
+      totals
+    };
+  }
+
+  /**
+   * Get the display label for a payment method
+   */
+  static getMethodLabel(method: PaymentMethod): string {
+    return PAYMENT_METHODS.find(m => m.value === method)?.label || method;
+  }
+
+  /**
+   * Split a payment between the paid bill and the customer's other unpaid bills
+   */
+  private static async allocatePayment(bill: Bill, amount: number): Promise<{ bill: Bill; amount: number }[]> {
+    const ownShare = Math.min(amount, BillLedgerService.getOutstandingAmount(bill));
+    let remaining = amount - ownShare;
+    const allocations: { bill: Bill; amount: number }[] = [];
+
+    if (remaining > 0) {
+      const otherBills = (await BillLedgerService.loadBills())
+        .filter(b => b.customer_id === bill.customer_id && b.id !== bill.id && BillLedgerService.getOutstandingAmount(b) > 0)
+        .sort((a, b) => a.billing_month.localeCompare(b.billing_month));
+
+      for (const other of otherBills) {
+        if (remaining <= 0) break;
+        const share = Math.min(remaining, BillLedgerService.getOutstandingAmount(other));
+        allocations.push({ bill: other, amount: share });
+        remaining -= share;
+      }
+    }
+
+    // Whatever is not needed elsewhere stays on the paid bill, including any overpayment
+    if (ownShare + remaining > 0) {
+      allocations.unshift({ bill, amount: ownShare + remaining });
+    }
+
+    return allocations;
+  }
+
+  /**
+   * Insert a single payment row and apply it to its bill
+   */
+  private static async insertPayment(bill: Bill, input: PaymentInput, receivedBy: string): Promise<Payment> {
+    const { data, error } = await supabase
+      .from('payments')
+      .insert({
+        bill_id: bill.id,
+        bill_number: bill.bill_number,
+        customer_id: bill.customer_id,
+        customer_rt: bill.customer_rt || null,
+        billing_month: bill.billing_month,
+        amount: input.amount,
+        payment_date: input.payment_date,
+        method: input.method,
+        received_by: receivedBy,
+        notes: input.notes?.trim() || null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    try {
+      await BillLedgerService.updatePaidAmount(bill, bill.paid_amount + input.amount);
+    } catch (updateError) {
+      // Keep the ledger consistent: a payment must never exist without being applied to its bill
+      await supabase.from('payments').delete().eq('id', data.id);
+      throw updateError;
+    }
+
+    return this.mapPaymentRow(data);
+  }
+
+  /**
+   * Create an empty aging row
+   */
+  private static createAgingRow(rt: string): ReceivableAging {
+    return {
+      rt,
+      current: 0,
+      oneToTwoMonths: 0,
+      threePlusMonths: 0,
+      total: 0
+    };
+  }
+
+  /**
+   * Map database row to Payment object
+   */
+  private static mapPaymentRow(row: any): Payment {
+    return {
+      id: row.id.toString(),
+      bill_id: row.bill_id.toString(),
+      bill_number: row.bill_number,
+      customer_id: row.customer_id.toString(),
+      customer_rt: row.customer_rt || undefined,
+      billing_month: row.billing_month,
+      amount: Number(row.amount),
+      payment_date: row.payment_date,
+      method: row.method,
+      received_by: row.received_by,
+      notes: row.notes || undefined,
+      created_at: row.created_at
+    };
+  }
+}
+
+export default PaymentService;
@@ -0,0 +1,228 @@
+/**
+ * Penalty Service
+ * Resolves the late payment penalty policy (denda) in force and computes penalties for overdue bills
+ */
+
+import { supabase } from './supabase';
+import { Bill, PenaltyPolicy, PenaltyType } from '@/types/types';
+import { offlineStorage } from './offlineStorage';
+
+export interface PenaltyPolicyInput {
+  effective_from: string;
+  type: PenaltyType;
+  amount: number;
+  grace_days: number;
+  max_amount: number | null;
+  notes?: string;
+}
+
+export const PENALTY_TYPES: { value: PenaltyType; label: string }[] = [
+  { value: 'flat', label: 'Nominal Tetap (Rp)' },
+  { value: 'percentage', label: 'Persentase Tagihan (%)' }
+];
+
+export class PenaltyService {
+  /**
+   * Fetch penalty policies from the server and refresh the offline cache.
+   * Falls back to the cached policies when the server is unreachable.
+   */
+  static async loadPolicies(): Promise<PenaltyPolicy[]> {
+    await offlineStorage.ready();
+
+    try {
+      const { data, error } = await supabase
+        .from('penalty_policies')
+        .select('*')
+        .order('effective_from', { ascending: true });
+
+      if (error) {
+        if (error.code === 'PGRST116' || error.message?.includes('does not exist')) {
+          console.warn('Penalty policies table not found - penalties disabled');
+          return this.getCachedPolicies();
+        }
+        throw error;
+      }
+
+      const policies: PenaltyPolicy[] = (data || []).map(row => this.mapPolicyRow(row));
+      if (typeof window !== 'undefined') {
+        offlineStorage.savePenaltyPolicies(policies);
+      }
+
+      return policies;
+    } catch (error) {
+      console.warn('Error loading penalty policies (non-critical):', error);
+      return this.getCachedPolicies();
+    }
+  }
+
+  /**
+   * Get penalty policies from the offline cache
+   */
+  static getCachedPolicies(): PenaltyPolicy[] {
+    if (typeof window === 'undefined') return [];
+    return offlineStorage.getPenaltyPolicies();
+  }
+
+  /**
+   * Get the policy in force on the given date (YYYY-MM-DD), or null when no penalty applies
+   */
+  static getPolicyForDate(date: string, policies: PenaltyPolicy[] = this.getCachedPolicies()): PenaltyPolicy | null {
+    const day = date.substring(0, 10);
+    const applicable = policies
+      .filter(p => p.effective_from <= day)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+    return applicable[0] || null;
+  }
+
+  /**
+   * Get the policy for a bill: the one in force when collection starts, on the first day after the billing month
+   */
+  static getPolicyForBill(bill: Bill, policies: PenaltyPolicy[] = this.getCachedPolicies()): PenaltyPolicy | null {
+    const [year, month] = bill.billing_month.split('-').map(Number);
+    const collectionStart = new Date(year, month, 1);
+    const day = `${collectionStart.getFullYear()}-${String(collectionStart.getMonth() + 1).padStart(2, '0')}-01`;
+    return this.getPolicyForDate(day, policies);
+  }
+
+  /**
+   * Last day a bill can be paid without penalty: the end of the billing month plus the grace days
+   */
+  static getDueDate(billingMonth: string, graceDays: number): Date {
+    const [year, month] = billingMonth.split('-').map(Number);
+    // Day 0 of the following month is the last day of the billing month
+    return new Date(year, month, graceDays, 23, 59, 59);
+  }
+
+  /**
+   * Compute the penalty a bill has accrued as of the given date.
+   * One penalty is charged once the bill is late and another for every further month it stays unpaid, up to the cap.
+   */
+  static calculatePenalty(bill: Bill, policy: PenaltyPolicy | null, asOf: Date = new Date()): number {
+    if (!policy || bill.status === 'draft' || bill.status === 'void') return 0;
+
+    const dueDate = this.getDueDate(bill.billing_month, policy.grace_days);
+    if (asOf <= dueDate) return 0;
+
+    const monthsLate = (asOf.getFullYear() - dueDate.getFullYear()) * 12 + (asOf.getMonth() - dueDate.getMonth())
+      - (asOf.getDate() <= dueDate.getDate() ? 1 : 0);
+    const periods = Math.max(0, monthsLate) + 1;
+
+    const perPeriod = policy.type === 'flat'
+      ? policy.amount
+      : Math.round(bill.total_amount * policy.amount / 100);
+    const penalty = perPeriod * periods;
+
+    return policy.max_amount === null ? penalty : Math.min(penalty, policy.max_amount);
+  }
+
+  /**
+   * Human readable description of a policy, e.g. "Rp 5.000 per bulan keterlambatan setelah tanggal 20 bulan berikutnya"
+   */
+  static describePolicy(policy: PenaltyPolicy): string {
+    const amount = policy.type === 'flat'
+      ? `Rp ${policy.amount.toLocaleString('id-ID')}`
+      : `${policy.amount}% dari tagihan`;
+    const cap = policy.max_amount === null ? '' : `, maks. Rp ${policy.max_amount.toLocaleString('id-ID')}`;
+
+    return `${amount} per bulan keterlambatan setelah tanggal ${policy.grace_days} bulan berikutnya${cap}`;
+  }
+
+  /**
+   * Validate a penalty policy before saving
+   */
+  static validatePolicy(input: PenaltyPolicyInput): string[] {
+    const errors: string[] = [];
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.effective_from)) {
+      errors.push('Tanggal berlaku tidak valid');
+    }
+
+    if (!(input.amount > 0)) {
+      errors.push('Besaran denda harus lebih dari 0');
+    } else if (input.type === 'percentage' && input.amount > 100) {
+      errors.push('Persentase denda maksimal 100%');
+    }
+
+    if (!Number.isInteger(input.grace_days) || input.grace_days < 0 || input.grace_days > 28) {
+      errors.push('Masa tenggang harus antara 0 dan 28 hari');
+    }
+
+    if (input.max_amount !== null && (Number.isNaN(input.max_amount) || input.max_amount <= 0)) {
+      errors.push('Batas maksimal denda tidak valid');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Create a new penalty policy version. Existing policies are never edited.
+   */
+  static async createPolicy(input: PenaltyPolicyInput, createdBy: string): Promise<PenaltyPolicy> {
+    const errors = this.validatePolicy(input);
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+
+    const { data, error } = await supabase
+      .from('penalty_policies')
+      .insert({
+        effective_from: input.effective_from,
+        type: input.type,
+        amount: input.amount,
+        grace_days: input.grace_days,
+        max_amount: input.max_amount,
+        notes: input.notes?.trim() || null,
+        created_by: createdBy
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await this.loadPolicies();
+    return this.mapPolicyRow(data);
+  }
+
+  /**
+   * Delete a policy that has not taken effect yet
+   */
+  static async deleteFuturePolicy(policy: PenaltyPolicy): Promise<void> {
+    const today = new Date().toISOString().split('T')[0];
+    if (policy.effective_from <= today) {
+      throw new Error('Kebijakan denda yang sudah berlaku tidak dapat dihapus');
+    }
+
+    const { error } = await supabase
+      .from('penalty_policies')
+      .delete()
+      .eq('id', policy.id);
+
+    if (error) {
+      throw error;
+    }
+
+    await this.loadPolicies();
+  }
+
+  /**
+   * Map database row to PenaltyPolicy object
+   */
+  private static mapPolicyRow(row: any): PenaltyPolicy {
+    return {
+      id: row.id.toString(),
+      effective_from: row.effective_from,
+      type: row.type,
+      amount: Number(row.amount),
+      grace_days: Number(row.grace_days),
+      max_amount: row.max_amount === null || row.max_amount === undefined ? null : Number(row.max_amount),
+      notes: row.notes || undefined,
+      created_by: row.created_by,
+      created_at: row.created_at
+    };
+  }
+}
+
+export default PenaltyService;
@@ -0,0 +1,131 @@
+/**
+ * Reading Correction Service
+ * Corrects meter readings without losing what was entered: every correction keeps the previous value
+ * as a version with the reason, who made it and when, and flags the issued bills that were based on
+ * the reading for reissue. See database-reading-corrections-setup.sql.
+ */
+
+import { supabase } from './supabase';
+import { MeterReading, MeterReadingVersion } from '@/types/types';
+import { MeterRegisterService } from './meterRegisterService';
+
+export class ReadingCorrectionService {
+  /**
+   * Validate a correction against the customer's other readings. The corrected value may not
+   * be below the previous reading or above the next one, unless a rollover or an estimate explains it.
+   */
+  static validateCorrection(
+    reading: MeterReading,
+    newReading: number,
+    reason: string,
+    customerReadings: MeterReading[],
+    meterDigits?: number,
+    rollover: boolean = false
+  ): string[] {
+    const errors: string[] = [];
+    const maxReading = MeterRegisterService.getMaxReading(meterDigits);
+
+    if (!reason.trim()) {
+      errors.push('Alasan koreksi wajib diisi');
+    }
+
+    if (Number.isNaN(newReading) || newReading < 0 || newReading > maxReading) {
+      errors.push(`Pembacaan meter harus antara 0 dan ${maxReading}`);
+      return errors;
+    }
+
+    if (newReading === reading.reading && rollover === !!reading.rollover) {
+      errors.push('Nilai koreksi sama dengan pembacaan saat ini');
+    }
+
+    const others = customerReadings
+      .filter(r => r.customer_id === reading.customer_id && r.id !== reading.id)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const readingTime = new Date(reading.date).getTime();
+    const previousReading = others.filter(r => new Date(r.date).getTime() < readingTime).pop();
+    const nextReading = others.find(r => new Date(r.date).getTime() > readingTime);
+
+    if (previousReading && newReading < previousReading.reading && !rollover && !previousReading.estimated) {
+      errors.push(`Pembacaan (${newReading}) tidak boleh lebih kecil dari pembacaan sebelumnya (${previousReading.reading})`);
+    }
+
+    if (nextReading && newReading > nextReading.reading && !nextReading.rollover && !reading.estimated) {
+      errors.push(`Pembacaan (${newReading}) tidak boleh lebih besar dari pembacaan berikutnya (${nextReading.reading})`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Correct a reading. Returns the number of issued bills flagged for reissue.
+   */
+  static async correctReading(
+    reading: MeterReading,
+    newReading: number,
+    reason: string,
+    correctedBy: string,
+    rollover: boolean = false
+  ): Promise<number> {
+    const { data, error } = await supabase.rpc('correct_meter_reading', {
+      p_reading_id: reading.id,
+      p_reading: newReading,
+      p_rollover: rollover,
+      p_reason: reason.trim(),
+      p_corrected_by: correctedBy
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return Number(data || 0);
+  }
+
+  /**
+   * Fetch the earlier values of corrected readings
+   */
+  static async loadVersions(): Promise<MeterReadingVersion[]> {
+    const { data, error } = await supabase
+      .from('meter_reading_versions')
+      .select('*')
+      .order('version', { ascending: true });
+
+    if (error) {
+      if (error.code === 'PGRST116' || error.message?.includes('does not exist')) {
+        console.warn('Reading versions table not found - correction trail disabled');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapVersionRow(row));
+  }
+
+  /**
+   * Earlier values of one reading, oldest first
+   */
+  static getVersions(versions: MeterReadingVersion[], readingId: string): MeterReadingVersion[] {
+    return versions
+      .filter(version => version.reading_id === readingId)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Map database row to MeterReadingVersion object
+   */
+  private static mapVersionRow(row: any): MeterReadingVersion {
+    return {
+      id: row.id.toString(),
+      reading_id: row.reading_id.toString(),
+      version: Number(row.version),
+      reading: Number(row.reading),
+      rollover: row.rollover || undefined,
+      estimated: row.estimated || undefined,
+      reason: row.reason,
+      corrected_by: row.corrected_by,
+      corrected_at: row.corrected_at
+    };
+  }
+}
+
+export default ReadingCorrectionService;
@@ -0,0 +1,92 @@
+/**
+ * Route Service
+ * Reading routes: the order in which a collector walks past the houses of an RT,
+ * the next house still to read and the progress through each route this month.
+ */
+
+import { supabase } from './supabase';
+import { offlineStorage } from './offlineStorage';
+import { Customer, RTTotalBill } from '@/types/types';
+
+export interface RouteProgress {
+  rt: string;
+  read: number;
+  total: number;
+  percentage: number;
+}
+
+export class RouteService {
+  /**
+   * Sort customers by RT, then by their position on the route. Customers without a position come last, by name.
+   */
+  static sortByRoute<T extends Customer>(customers: T[]): T[] {
+    return [...customers].sort((a, b) =>
+      (a.rt || '').localeCompare(b.rt || '') ||
+      (a.route_order ?? Number.MAX_SAFE_INTEGER) - (b.route_order ?? Number.MAX_SAFE_INTEGER) ||
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * Next customer on the route after the given one that has not been read yet,
+   * continuing from the start of the route; null when every customer is read
+   */
+  static getNextUnread<T extends Customer>(route: T[], readIds: Set<string>, afterId?: string): T | null {
+    const start = afterId ? route.findIndex(customer => customer.id === afterId) + 1 : 0;
+    for (let offset = 0; offset < route.length; offset++) {
+      const customer = route[(start + offset) % route.length];
+      if (!readIds.has(customer.id)) {
+        return customer;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Save the route of an RT in the given order. Only positions that changed are written;
+   * customers created offline get their position once they are synced.
+   */
+  static async saveRouteOrder(route: Customer[]): Promise<Customer[]> {
+    const ordered = route.map((customer, index) => ({ ...customer, route_order: index + 1 }));
+    const changed = ordered.filter((customer, index) =>
+      customer.route_order !== route[index].route_order && !offlineStorage.isOfflineId(customer.id)
+    );
+
+    const results = await Promise.all(
+      changed.map(customer =>
+        supabase
+          .from('customers')
+          .update({ route_order: customer.route_order })
+          .eq('id', customer.id)
+      )
+    );
+
+    const failed = results.find(result => result.error);
+    if (failed?.error) {
+      throw failed.error;
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Reading progress of each RT route, from the RT totals of the month's billing.
+   * Customers read since the totals were loaded are counted as read.
+   */
+  static getRouteProgress(rtTotals: RTTotalBill[], readCustomers: Customer[] = []): RouteProgress[] {
+    return rtTotals.map(rtTotal => {
+      const readNames = new Set(readCustomers.filter(customer => customer.rt === rtTotal.rt).map(customer => customer.name));
+      const unread = rtTotal.missingReadings.filter(name => !readNames.has(name)).length;
+      const read = rtTotal.customerCount - unread;
+
+      return {
+        rt: rtTotal.rt,
+        read,
+        total: rtTotal.customerCount,
+        percentage: rtTotal.customerCount > 0 ? Math.round((read / rtTotal.customerCount) * 100) : 0
+      };
+    });
+  }
+}
+
+export default RouteService;
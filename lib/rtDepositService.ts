@@ -0,0 +1,183 @@
+/**
+ * RT Deposit Service
+ * Records money handed from RT collectors to the treasurer as income transactions
+ * linked to an RT and billing month, and reconciles them against the bill ledger
+ */
+
+import { Bill, RTReconciliation, Transaction, TransactionCategory } from '@/types/types';
+import { FinancialService } from './financialService';
+import { BillLedgerService } from './billLedgerService';
+import { formatMonthYearID } from '@/utils/dateFormat';
+
+export interface RTDepositInput {
+  rt: string;
+  billing_month: string;
+  amount: number;
+  date: string;
+  notes?: string;
+}
+
+export class RTDepositService {
+  private static readonly financialService = new FinancialService();
+
+  /**
+   * Fetch RT deposits, optionally for a single billing month, newest first
+   */
+  static async loadDeposits(billingMonth?: string): Promise<Transaction[]> {
+    const transactions = await this.financialService.getTransactions({
+      type: 'income',
+      billing_month: billingMonth,
+      sort_by: 'date',
+      sort_order: 'desc'
+    });
+
+    return transactions.filter(t => t.rt && t.billing_month);
+  }
+
+  /**
+   * Validate an RT deposit before saving
+   */
+  static validateDeposit(input: RTDepositInput): string[] {
+    const errors: string[] = [];
+
+    if (!input.rt) {
+      errors.push('RT wajib dipilih');
+    }
+
+    if (!/^\d{4}-\d{2}$/.test(input.billing_month)) {
+      errors.push('Periode tagihan tidak valid');
+    }
+
+    if (!(input.amount > 0)) {
+      errors.push('Jumlah setoran harus lebih dari 0');
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date)) {
+      errors.push('Tanggal setoran tidak valid');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Record an RT collector's deposit as an income transaction linked to the RT and billing month
+   */
+  static async recordDeposit(input: RTDepositInput): Promise<Transaction> {
+    const errors = this.validateDeposit(input);
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+
+    const categories = await this.financialService.getCategoriesByType('income');
+    const category = this.findDepositCategory(categories, input.rt);
+    if (!category) {
+      throw new Error(`Kategori pemasukan untuk ${input.rt} belum dibuat (contoh: "Pemasukan ${input.rt}")`);
+    }
+
+    const description = input.notes?.trim()
+      ? `${this.getDepositDescription(input.rt, input.billing_month)} - ${input.notes.trim()}`
+      : this.getDepositDescription(input.rt, input.billing_month);
+
+    return this.financialService.createTransaction({
+      type: 'income',
+      amount: input.amount,
+      date: new Date(input.date),
+      category_id: category.id,
+      description,
+      rt: input.rt,
+      billing_month: input.billing_month
+    });
+  }
+
+  /**
+   * Delete a deposit recorded by mistake
+   */
+  static async deleteDeposit(deposit: Transaction): Promise<void> {
+    await this.financialService.deleteTransaction(deposit.id);
+  }
+
+  /**
+   * Reconcile expected (issued bills), collected (customer payments) and deposited amounts per RT
+   */
+  static buildReconciliation(billingMonth: string, bills: Bill[], deposits: Transaction[]): RTReconciliation[] {
+    const rows = new Map<string, RTReconciliation>();
+
+    const getRow = (rt: string): RTReconciliation => {
+      const existing = rows.get(rt);
+      if (existing) return existing;
+
+      const row: RTReconciliation = {
+        rt,
+        billingMonth,
+        expectedAmount: 0,
+        penaltyAmount: 0,
+        collectedAmount: 0,
+        depositedAmount: 0,
+        outstandingAmount: 0,
+        undepositedAmount: 0
+      };
+      rows.set(rt, row);
+      return row;
+    };
+
+    bills
+      .filter(bill => bill.billing_month === billingMonth && bill.status !== 'draft' && bill.status !== 'void')
+      .forEach(bill => {
+        const row = getRow(bill.customer_rt || '-');
+        row.expectedAmount += BillLedgerService.getAmountDue(bill);
+        row.penaltyAmount += bill.penalty_amount;
+        row.collectedAmount += bill.paid_amount;
+      });
+
+    deposits
+      .filter(deposit => deposit.billing_month === billingMonth && deposit.rt)
+      .forEach(deposit => {
+        getRow(deposit.rt!).depositedAmount += Number(deposit.amount);
+      });
+
+    return Array.from(rows.values())
+      .map(row => ({
+        ...row,
+        outstandingAmount: Math.max(0, row.expectedAmount - row.depositedAmount),
+        undepositedAmount: Math.max(0, row.collectedAmount - row.depositedAmount)
+      }))
+      .sort((a, b) => a.rt.localeCompare(b.rt));
+  }
+
+  /**
+   * Load bills and deposits for a month and reconcile them per RT
+   */
+  static async getReconciliation(billingMonth: string): Promise<RTReconciliation[]> {
+    const [bills, deposits] = await Promise.all([
+      BillLedgerService.loadBills(billingMonth),
+      this.loadDeposits(billingMonth)
+    ]);
+
+    return this.buildReconciliation(billingMonth, bills, deposits);
+  }
+
+  /**
+   * Standard transaction description for an RT deposit
+   */
+  static getDepositDescription(rt: string, billingMonth: string): string {
+    return `Setoran ${rt} - ${formatMonthYearID(billingMonth)}`;
+  }
+
+  /**
+   * Find the RT's income category, e.g. "Pemasukan RT 1" for RT "RT 01"
+   */
+  private static findDepositCategory(categories: TransactionCategory[], rt: string): TransactionCategory | undefined {
+    const exact = categories.find(c => c.name === `Pemasukan ${rt}`);
+    if (exact) return exact;
+
+    const rtNumber = parseInt(rt.replace(/\D/g, ''), 10);
+    if (Number.isNaN(rtNumber)) return undefined;
+
+    return categories.find(c => {
+      const match = c.name.match(/^Pemasukan RT\s*0*(\d+)$/i);
+      return match !== null && parseInt(match[1], 10) === rtNumber;
+    });
+  }
+}
+
+export default RTDepositService;
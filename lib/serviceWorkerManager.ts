@@ -0,0 +1,154 @@
+/**
+ * Service Worker Manager
+ * Registers public/sw.js and asks it to flush queued meter readings when connectivity returns,
+ * even after the tab is closed. Browsers without Background Sync fall back to Periodic Background
+ * Sync, and otherwise to the open app's auto-sync (see OptimizedSyncManager.startAutoSync).
+ * The worker signs its requests with the user's session, kept in IndexedDB by watchSession,
+ * which also has the worker drop its runtime cache on sign-out.
+ */
+
+import type { Session } from '@supabase/supabase-js';
+import { offlineStorage } from './offlineStorage';
+import { supabase } from './supabase';
+
+// Must match READING_SYNC_TAG in public/sw.js
+export const READING_SYNC_TAG = 'sync-meter-readings';
+
+const PERIODIC_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+// Background Sync APIs are not in the TypeScript DOM library yet
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+}
+
+export class ServiceWorkerManager {
+  /**
+   * Register the service worker. Skipped in development, where build assets change on every edit.
+   */
+  static async register(): Promise<ServiceWorkerRegistration | null> {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) {
+      return null;
+    }
+    if (process.env.NODE_ENV !== 'production') {
+      return null;
+    }
+
+    try {
+      // The build id versions the worker's caches
+      const params = new URLSearchParams({ v: process.env.NEXT_PUBLIC_BUILD_ID || 'dev' });
+      const registration = await navigator.serviceWorker.register(`/sw.js?${params}`, { scope: '/' });
+      await this.registerPeriodicSync(registration);
+      return registration;
+    } catch (error) {
+      console.warn('Service worker registration failed (non-critical):', error);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the service worker to sync queued readings as soon as there is a connection
+   */
+  static async requestSync(): Promise<void> {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) {
+      return;
+    }
+
+    try {
+      const registration = (await navigator.serviceWorker.getRegistration()) as SyncCapableRegistration | undefined;
+      if (registration?.sync) {
+        // getSession refreshes an expired access token, so the worker syncs with a current one
+        const { data: { session } } = await supabase.auth.getSession();
+        await this.storeSession(session);
+        await registration.sync.register(READING_SYNC_TAG);
+      }
+    } catch (error) {
+      console.warn('Background sync request failed (non-critical):', error);
+    }
+  }
+
+  /**
+   * Call back when the service worker asks an open tab to sync. Returns the unsubscribe function.
+   */
+  static onSyncRequest(callback: () => void): () => void {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) {
+      return () => {};
+    }
+
+    const listener = (event: MessageEvent) => {
+      if (event.data?.type === 'BACKGROUND_SYNC') {
+        callback();
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', listener);
+    return () => navigator.serviceWorker.removeEventListener('message', listener);
+  }
+
+  /**
+   * Keep the stored session in step with sign-in, sign-out and token refreshes, starting with
+   * the current session, and clear the worker's runtime cache on sign-out. Returns the
+   * unsubscribe function.
+   */
+  static watchSession(): () => void {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) {
+      return () => {};
+    }
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      this.storeSession(session);
+      if (event === 'SIGNED_OUT') {
+        this.clearRuntimeCache();
+      }
+    });
+    return () => subscription.unsubscribe();
+  }
+
+  /**
+   * Store the session for the worker, or remove it when signed out so the worker leaves
+   * the queue for the app instead of sending it without a session
+   */
+  private static async storeSession(session: Session | null): Promise<void> {
+    try {
+      await offlineStorage.setSyncSession(session ? {
+        supabase_url: process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+        anon_key: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+        access_token: session.access_token,
+        expires_at: new Date((session.expires_at ?? 0) * 1000).toISOString()
+      } : null);
+    } catch (error) {
+      console.warn('Storing the sync session failed (non-critical):', error);
+    }
+  }
+
+  /**
+   * Ask the worker to delete the pages it cached while the user was signed in
+   */
+  private static async clearRuntimeCache(): Promise<void> {
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      registration?.active?.postMessage({ type: 'CLEAR_RUNTIME_CACHE' });
+    } catch (error) {
+      console.warn('Clearing the service worker cache failed (non-critical):', error);
+    }
+  }
+
+  /**
+   * Periodic sync only runs for installed apps the browser has granted permission to
+   */
+  private static async registerPeriodicSync(registration: SyncCapableRegistration): Promise<void> {
+    if (!registration.periodicSync || !navigator.permissions) {
+      return;
+    }
+
+    try {
+      const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+      if (status.state === 'granted') {
+        await registration.periodicSync.register(READING_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS });
+      }
+    } catch (error) {
+      console.warn('Periodic background sync unavailable (non-critical):', error);
+    }
+  }
+}
+
+export default ServiceWorkerManager;
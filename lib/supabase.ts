@@ -1,7 +1,70 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, PostgrestError, SupabaseClient } from '@supabase/supabase-js';
 
 // Create a single supabase client for interacting with your database
 export const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
\ No newline at end of file
+);
+
+/**
+ * Create a client that queries as the caller of an API route, from its `Authorization: Bearer` header.
+ * Returns null when the header is missing or the token is not a valid session, so RLS never
+ * silently answers an anonymous request with empty data.
+ */
+export async function createRequestClient(authHeader: string | null): Promise<SupabaseClient | null> {
+  const accessToken = authHeader?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!accessToken) {
+    return null;
+  }
+
+  const client = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  );
+
+  const { data: { user }, error } = await client.auth.getUser(accessToken);
+  if (error || !user) {
+    return null;
+  }
+
+  return client;
+}
+
+// Most rows PostgREST returns for one request with its default settings
+const PAGE_SIZE = 1000;
+
+/**
+ * Fetch every row of a query a page at a time, since PostgREST silently cuts a response off at
+ * PAGE_SIZE rows. `query` builds the query for one page; order it by a unique column so pages
+ * neither overlap nor skip rows.
+ */
+export async function fetchAllRows<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<{ data: T[]; error: PostgrestError | null }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) {
+      return { data: rows, error };
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return { data: rows, error: null };
+    }
+  }
+}
+
+/**
+ * Headers that let an API route query as the signed-in user
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
@@ -1,41 +1,12 @@
 /**
  * Sync Cleanup Utility
- * Handles cleanup of stale sync queue items and ensures proper sync state
+ * Manual maintenance of the sync queue. Queued items are never dropped automatically:
+ * they stay queued until they sync, or move to the dead-letter list (see OptimizedSyncManager).
  */
 
 import { offlineStorage } from './offlineStorage';
 
 export class SyncCleanup {
-  /**
-   * Clean up stale sync queue items
-   * Removes items that are older than 24 hours and haven't been processed
-   */
-  static cleanupStaleItems(): void {
-    try {
-      const queue = offlineStorage.getSyncQueue();
-      const now = new Date();
-      const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      
-      const validItems = queue.filter(item => {
-        const itemDate = new Date(item.timestamp);
-        const isStale = itemDate < oneDayAgo;
-        
-        if (isStale) {
-          console.log(`🧹 Removing stale sync item: ${item.type} from ${item.timestamp}`);
-        }
-        
-        return !isStale;
-      });
-      
-      if (validItems.length !== queue.length) {
-        localStorage.setItem('sync_queue', JSON.stringify(validItems));
-        console.log(`🧹 Cleaned up ${queue.length - validItems.length} stale sync items`);
-      }
-    } catch (error) {
-      console.error('❌ Error cleaning up sync queue:', error);
-    }
-  }
-
   /**
    * Force clear all sync queue items
    * Use with caution - only when you're sure all items have been processed
@@ -0,0 +1,329 @@
+/**
+ * Tariff Service
+ * Resolves the versioned tariff in force on a given date and computes tiered charges
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { Tariff, TariffTier, TariffFee, TariffClass, TierCharge } from '@/types/types';
+import { offlineStorage } from './offlineStorage';
+
+export type { TierCharge };
+
+export interface TariffCharges {
+  tariffId: string;
+  tariffName: string;
+  tariffClass: TariffClass;
+  tierCharges: TierCharge[];
+  usageAmount: number; // Sum of all tier charges
+  fixedFees: TariffFee[];
+  fixedFeeAmount: number; // Sum of all fixed fees
+  baseAmount: number; // usageAmount + fixedFeeAmount
+}
+
+export interface TariffInput {
+  name: string;
+  effective_from: string;
+  tiers: TariffTier[];
+  class_tiers?: Partial<Record<TariffClass, TariffTier[]>>;
+  fixed_fees: TariffFee[];
+  notes?: string;
+}
+
+export const TARIFF_CLASSES: { value: TariffClass; label: string }[] = [
+  { value: 'household', label: 'Rumah Tangga' },
+  { value: 'social', label: 'Sosial (Posyandu, dll.)' },
+  { value: 'commercial', label: 'Niaga (Warung, Usaha)' },
+  { value: 'institution', label: 'Masjid / Sekolah' }
+];
+
+export class TariffService {
+  // Tariff used when no tariff records exist yet (matches the original hard-coded pricing)
+  private static readonly DEFAULT_TARIFF: Tariff = {
+    id: 'default',
+    name: 'Tarif Standar',
+    effective_from: '2000-01-01',
+    tiers: [
+      { up_to: 10, rate: 1500 },  // IDR per m³ for 1-10 m³
+      { up_to: null, rate: 2000 } // IDR per m³ for 11+ m³
+    ],
+    fixed_fees: [
+      { name: 'Beban speedometer', amount: 5000 }
+    ],
+    created_by: 'system',
+    created_at: '2000-01-01T00:00:00.000Z'
+  };
+
+  /**
+   * Fetch tariffs from the server and refresh the offline cache.
+   * Falls back to the cached tariffs when the server is unreachable; on the server, where there
+   * is no cache, the error is thrown so bills are never calculated with the default tariff.
+   */
+  static async loadTariffs(client: SupabaseClient = supabase): Promise<Tariff[]> {
+    await offlineStorage.ready();
+
+    try {
+      const { data, error } = await client
+        .from('tariffs')
+        .select('*')
+        .order('effective_from', { ascending: true });
+
+      if (error) {
+        if (error.code === 'PGRST116' || error.message?.includes('does not exist')) {
+          console.warn('Tariffs table not found - using default tariff');
+          return this.getCachedTariffs();
+        }
+        throw error;
+      }
+
+      const tariffs: Tariff[] = (data || []).map(row => this.mapTariffRow(row));
+      if (typeof window !== 'undefined') {
+        offlineStorage.saveTariffs(tariffs);
+      }
+
+      return tariffs;
+    } catch (error) {
+      if (typeof window === 'undefined') throw error;
+      console.warn('Error loading tariffs (non-critical):', error);
+      return this.getCachedTariffs();
+    }
+  }
+
+  /**
+   * Get tariffs from the offline cache
+   */
+  static getCachedTariffs(): Tariff[] {
+    if (typeof window === 'undefined') return [];
+    return offlineStorage.getTariffs();
+  }
+
+  /**
+   * Get the tariff in force on the given date (YYYY-MM-DD or ISO string)
+   */
+  static getTariffForDate(date: string, tariffs: Tariff[] = this.getCachedTariffs()): Tariff {
+    const day = date.substring(0, 10);
+    const applicable = tariffs
+      .filter(t => t.effective_from <= day)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+    return applicable[0] || this.DEFAULT_TARIFF;
+  }
+
+  /**
+   * Get the tier table for a tariff class, falling back to the standard tiers
+   */
+  static getTiersForClass(tariff: Tariff, tariffClass: TariffClass = 'household'): TariffTier[] {
+    const classTiers = tariff.class_tiers?.[tariffClass];
+    return classTiers && classTiers.length > 0 ? classTiers : tariff.tiers;
+  }
+
+  /**
+   * Get the display label for a tariff class
+   */
+  static getClassLabel(tariffClass: TariffClass = 'household'): string {
+    return TARIFF_CLASSES.find(c => c.value === tariffClass)?.label || tariffClass;
+  }
+
+  /**
+   * Split usage across the tariff tiers of the customer's class and add the fixed fees
+   */
+  static calculateCharges(tariff: Tariff, usage: number, tariffClass: TariffClass = 'household'): TariffCharges {
+    const tierCharges: TierCharge[] = [];
+    let remaining = Math.max(0, usage);
+    let lowerBound = 0;
+
+    for (const tier of this.getTiersForClass(tariff, tariffClass)) {
+      const capacity = tier.up_to === null ? Infinity : tier.up_to - lowerBound;
+      const tierUsage = Math.max(0, Math.min(remaining, capacity));
+
+      tierCharges.push({
+        from: lowerBound + 1,
+        to: tier.up_to,
+        rate: tier.rate,
+        usage: tierUsage,
+        amount: tierUsage * tier.rate
+      });
+
+      remaining -= tierUsage;
+      if (tier.up_to === null) break;
+      lowerBound = tier.up_to;
+    }
+
+    const usageAmount = tierCharges.reduce((sum, charge) => sum + charge.amount, 0);
+    const fixedFeeAmount = tariff.fixed_fees.reduce((sum, fee) => sum + fee.amount, 0);
+
+    return {
+      tariffId: tariff.id,
+      tariffName: tariff.name,
+      tariffClass,
+      tierCharges,
+      usageAmount,
+      fixedFees: tariff.fixed_fees,
+      fixedFeeAmount,
+      baseAmount: usageAmount + fixedFeeAmount
+    };
+  }
+
+  /**
+   * Human readable range for a tier, e.g. "1-10 m³" or "11+ m³"
+   */
+  static formatTierRange(charge: Pick<TierCharge, 'from' | 'to'>): string {
+    return charge.to === null ? `${charge.from}+ m³` : `${charge.from}-${charge.to} m³`;
+  }
+
+  /**
+   * Validate a tariff before saving
+   */
+  static validateTariff(input: TariffInput): string[] {
+    const errors: string[] = [];
+
+    if (!input.name.trim()) {
+      errors.push('Nama tarif wajib diisi');
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.effective_from)) {
+      errors.push('Tanggal berlaku tidak valid');
+    }
+
+    errors.push(...this.validateTiers(input.tiers));
+
+    Object.entries(input.class_tiers || {}).forEach(([tariffClass, tiers]) => {
+      const label = this.getClassLabel(tariffClass as TariffClass);
+      errors.push(...this.validateTiers(tiers || []).map(error => `${label}: ${error}`));
+    });
+
+    input.fixed_fees.forEach((fee, index) => {
+      if (!fee.name.trim()) {
+        errors.push(`Nama biaya tetap ${index + 1} wajib diisi`);
+      }
+      if (fee.amount < 0 || Number.isNaN(fee.amount)) {
+        errors.push(`Jumlah biaya tetap ${index + 1} tidak valid`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate an ordered tier table
+   */
+  private static validateTiers(tiers: TariffTier[]): string[] {
+    const errors: string[] = [];
+
+    if (tiers.length === 0) {
+      errors.push('Minimal harus ada satu tingkat tarif');
+    }
+
+    let previousUpTo = 0;
+    tiers.forEach((tier, index) => {
+      const isLast = index === tiers.length - 1;
+      if (tier.rate < 0 || Number.isNaN(tier.rate)) {
+        errors.push(`Tarif tingkat ${index + 1} tidak valid`);
+      }
+      if (isLast) {
+        if (tier.up_to !== null) {
+          errors.push('Tingkat terakhir harus tanpa batas atas');
+        }
+      } else if (tier.up_to === null || tier.up_to <= previousUpTo) {
+        errors.push(`Batas atas tingkat ${index + 1} harus lebih besar dari ${previousUpTo} m³`);
+      } else {
+        previousUpTo = tier.up_to;
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Create a new tariff version. Existing tariffs are never edited so historical bills stay stable.
+   */
+  static async createTariff(input: TariffInput, createdBy: string): Promise<Tariff> {
+    const errors = this.validateTariff(input);
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+
+    const { data, error } = await supabase
+      .from('tariffs')
+      .insert({
+        name: input.name.trim(),
+        effective_from: input.effective_from,
+        tiers: input.tiers,
+        class_tiers: input.class_tiers || {},
+        fixed_fees: input.fixed_fees,
+        notes: input.notes?.trim() || null,
+        created_by: createdBy
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await this.loadTariffs();
+    return this.mapTariffRow(data);
+  }
+
+  /**
+   * Delete a tariff that has not taken effect yet
+   */
+  static async deleteFutureTariff(tariff: Tariff): Promise<void> {
+    const today = new Date().toISOString().split('T')[0];
+    if (tariff.effective_from <= today) {
+      throw new Error('Tarif yang sudah berlaku tidak dapat dihapus');
+    }
+
+    const { error } = await supabase
+      .from('tariffs')
+      .delete()
+      .eq('id', tariff.id);
+
+    if (error) {
+      throw error;
+    }
+
+    await this.loadTariffs();
+  }
+
+  /**
+   * Get the default tariff
+   */
+  static getDefaultTariff(): Tariff {
+    return { ...this.DEFAULT_TARIFF };
+  }
+
+  /**
+   * Map database row to Tariff object
+   */
+  private static mapTariffRow(row: any): Tariff {
+    return {
+      id: row.id.toString(),
+      name: row.name,
+      effective_from: row.effective_from,
+      tiers: this.mapTierRows(row.tiers),
+      class_tiers: Object.fromEntries(
+        Object.entries(row.class_tiers || {}).map(([tariffClass, tiers]) => [tariffClass, this.mapTierRows(tiers)])
+      ),
+      fixed_fees: (row.fixed_fees || []).map((fee: any) => ({
+        name: fee.name,
+        amount: Number(fee.amount)
+      })),
+      notes: row.notes || undefined,
+      created_by: row.created_by,
+      created_at: row.created_at
+    };
+  }
+
+  /**
+   * Map stored JSON tiers to TariffTier objects
+   */
+  private static mapTierRows(tiers: any): TariffTier[] {
+    return (tiers || []).map((tier: any) => ({
+      up_to: tier.up_to === null || tier.up_to === undefined ? null : Number(tier.up_to),
+      rate: Number(tier.rate)
+    }));
+  }
+}
+
+export default TariffService;
@@ -5,6 +5,8 @@
 
 import { Customer, MeterReading, CustomerDiscount } from '@/types/types';
 import { offlineStorage } from './offlineStorage';
+import { MeterRegisterService } from './meterRegisterService';
+import { AnomalyService, UsageAnomaly } from './anomalyService';
 
 export interface ValidationRule {
   name: string;
@@ -16,6 +18,7 @@ export interface ValidationResult {
   isValid: boolean;
   message?: string;
   code?: string;
+  anomaly?: UsageAnomaly; // Set for usage anomalies, with their severity
 }
 
 export interface ValidationContext {
@@ -23,15 +26,16 @@ export interface ValidationContext {
   readingDate?: string;
   excludeReadingId?: string;
   previousReading?: MeterReading;
-  fiveMonthAverage?: number;
+  usageHistory?: number[]; // Monthly usage before the reading, oldest first
+  meterDigits?: number; // Digits on the customer's meter register
+  rollover?: boolean; // The collector confirmed a lower reading is a rollover past the maximum
+  estimated?: boolean; // The reading is an estimate because the meter could not be read
 }
 
 export class ValidationService {
   // Validation constants
   private static readonly CONSTANTS = {
-    MIN_READING: 0,
-    MAX_READING: 999999,
-    MAX_USAGE_MULTIPLIER: 2.0, // 200% of 5-month average
+    MIN_READING: 0, // The maximum depends on the meter's digits, see MeterRegisterService
     MIN_PHONE_LENGTH: 10,
     MAX_PHONE_LENGTH: 15,
     RT_PATTERN: /^RT\s+\d{2}$/i, // RT 01, RT 02, etc.
@@ -109,10 +113,11 @@ export class ValidationService {
 
     try {
       // Basic value validation
-      if (reading < this.CONSTANTS.MIN_READING || reading > this.CONSTANTS.MAX_READING) {
+      const maxReading = MeterRegisterService.getMaxReading(context.meterDigits);
+      if (reading < this.CONSTANTS.MIN_READING || reading > maxReading) {
         results.push({
           isValid: false,
-          message: `Pembacaan meter harus antara ${this.CONSTANTS.MIN_READING} dan ${this.CONSTANTS.MAX_READING}`,
+          message: `Pembacaan meter harus antara ${this.CONSTANTS.MIN_READING} dan ${maxReading}`,
           code: 'READING_OUT_OF_RANGE'
         });
       }
@@ -150,44 +155,60 @@ export class ValidationService {
         });
       }
 
-      // Get previous reading for sequential validation
-      const previousReading = context.previousReading || 
+      // Get previous reading for sequential validation; after a gauge replacement, the new gauge's start reading
+      const storedPreviousReading = context.previousReading ||
         offlineStorage.getPreviousReading(context.customerId, context.readingDate);
+      const previousReading = storedPreviousReading && MeterRegisterService.getComparisonReading(
+        storedPreviousReading,
+        context.readingDate,
+        offlineStorage.getGaugeReplacements(context.customerId)
+      );
 
       if (previousReading) {
-        // Sequential rule validation
-        if (reading < previousReading.reading) {
+        // Sequential rule validation: a lower reading is only accepted as a rollover past the maximum,
+        // or below an estimated previous reading, which it trues up
+        const isLower = reading < previousReading.reading;
+        const rolloverUsage = MeterRegisterService.getRolloverUsage(previousReading.reading, reading, context.meterDigits);
+        const isTrueUp = isLower && !context.rollover && previousReading.estimated && !context.estimated;
+        if (isTrueUp) {
+          results.push({
+            isValid: true, // Warning, not error
+            message: `Pembacaan lebih kecil dari estimasi bulan lalu (${previousReading.reading}): kelebihan ${previousReading.reading - reading} m³ dikembalikan pada tagihan ini`,
+            code: 'READING_ESTIMATE_TRUE_UP'
+          });
+        } else if (isLower && !context.rollover) {
           results.push({
             isValid: false,
-            message: `Pembacaan baru (${reading}) tidak boleh lebih kecil dari pembacaan sebelumnya (${previousReading.reading})`,
+            message: `Pembacaan baru (${reading}) tidak boleh lebih kecil dari pembacaan sebelumnya (${previousReading.reading}), kecuali meter berputar melewati ${maxReading} (pemakaian ${rolloverUsage} m³)`,
             code: 'READING_SEQUENTIAL_VIOLATION'
           });
-        }
-
-        // Anomaly detection
-        const usage = reading - previousReading.reading;
-        const fiveMonthAverage = context.fiveMonthAverage || 
-          offlineStorage.calculateFiveMonthAverage(context.customerId, context.readingDate);
-
-        if (fiveMonthAverage && fiveMonthAverage > 0 && usage > (fiveMonthAverage * this.CONSTANTS.MAX_USAGE_MULTIPLIER)) {
+        } else if (isLower) {
           results.push({
-            isValid: true, // This is a warning, not an error
-            message: `Pemakaian tinggi: ${usage} m³ melebihi ${this.CONSTANTS.MAX_USAGE_MULTIPLIER * 100}% dari rata-rata 5 bulan (${fiveMonthAverage.toFixed(1)} m³)`,
-            code: 'READING_USAGE_ANOMALY'
+            isValid: true, // Warning, not error
+            message: `Meter berputar melewati ${maxReading} dan kembali ke 0: pemakaian dihitung ${rolloverUsage} m³`,
+            code: 'READING_ROLLOVER'
           });
         }
 
-        // Zero usage warning
-        if (usage === 0) {
-          results.push({
-            isValid: true, // Warning, not error
-            message: 'Pemakaian 0 m³ - pastikan pembacaan sudah benar',
-            code: 'READING_ZERO_USAGE'
+        // Anomaly detection against the customer's usage history (negative usage is already an error;
+        // estimates and true-ups are not measured usage)
+        const usage = isTrueUp ? 0 : isLower ? rolloverUsage : reading - previousReading.reading;
+        const usageHistory = context.usageHistory ||
+          AnomalyService.getCustomerUsageHistory(context.customerId, context.readingDate, context.meterDigits);
+
+        if (usage >= 0 && !context.estimated && !isTrueUp) {
+          AnomalyService.detectAnomalies(usage, usageHistory).forEach(anomaly => {
+            results.push({
+              isValid: true, // Warning, not error
+              message: anomaly.message,
+              code: `READING_ANOMALY_${anomaly.type.toUpperCase()}`,
+              anomaly
+            });
           });
         }
 
         // Very high usage warning
-        if (usage > 100) {
+        if (usage > 100 && !context.estimated) {
           results.push({
             isValid: true, // Warning, not error
             message: `Pemakaian sangat tinggi: ${usage} m³ - pastikan pembacaan sudah benar`,
@@ -212,31 +233,45 @@ export class ValidationService {
   static validateDiscount(discount: Partial<CustomerDiscount>): ValidationResult[] {
     const results: ValidationResult[] = [];
 
-    // Customer ID validation
-    if (!discount.customer_id) {
+    // Target validation: customer, RT or tariff class depending on the scope
+    const scope = discount.scope || 'customer';
+    if (scope === 'customer' && !discount.customer_id) {
       results.push({
         isValid: false,
         message: 'ID pelanggan wajib diisi',
         code: 'DISCOUNT_CUSTOMER_ID_REQUIRED'
       });
+    } else if (scope === 'rt' && !discount.target_rt) {
+      results.push({
+        isValid: false,
+        message: 'RT wajib dipilih',
+        code: 'DISCOUNT_RT_REQUIRED'
+      });
+    } else if (scope === 'tariff_class' && !discount.target_tariff_class) {
+      results.push({
+        isValid: false,
+        message: 'Golongan tarif wajib dipilih',
+        code: 'DISCOUNT_TARIFF_CLASS_REQUIRED'
+      });
     }
 
     // Discount type validation
     const hasPercentage = discount.discount_percentage && discount.discount_percentage > 0;
     const hasAmount = discount.discount_amount && discount.discount_amount > 0;
+    const hasFreeUsage = discount.free_usage && discount.free_usage > 0;
 
-    if (!hasPercentage && !hasAmount) {
+    if (!hasPercentage && !hasAmount && !hasFreeUsage) {
       results.push({
         isValid: false,
-        message: 'Nilai diskon (persentase atau jumlah) wajib diisi',
+        message: 'Nilai diskon (persentase, jumlah, atau m³ gratis) wajib diisi',
         code: 'DISCOUNT_VALUE_REQUIRED'
       });
     }
 
-    if (hasPercentage && hasAmount) {
+    if ([hasPercentage, hasAmount, hasFreeUsage].filter(Boolean).length > 1) {
       results.push({
         isValid: false,
-        message: 'Tidak boleh menggunakan diskon persentase dan jumlah bersamaan',
+        message: 'Tidak boleh menggunakan lebih dari satu jenis diskon bersamaan',
         code: 'DISCOUNT_MULTIPLE_TYPES'
       });
     }
@@ -301,8 +336,16 @@ export class ValidationService {
       });
     }
 
-    // Check for existing active discount in the same month
-    if (discount.customer_id && discount.discount_month && !discount.id) {
+    if (discount.is_recurring && discount.end_month && discount.discount_month && discount.end_month < discount.discount_month) {
+      results.push({
+        isValid: false,
+        message: 'Bulan akhir diskon tidak boleh sebelum bulan mulai',
+        code: 'DISCOUNT_END_MONTH_BEFORE_START'
+      });
+    }
+
+    // Check for existing active single-month discount in the same month
+    if (discount.customer_id && discount.discount_month && !discount.is_recurring && !discount.id) {
       const existingDiscount = offlineStorage.getCustomerActiveDiscount(
         discount.customer_id,
         discount.discount_month
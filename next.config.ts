@@ -1,7 +1,25 @@
 import type { NextConfig } from "next";
 
+// One id per build: names the service worker caches so every deploy busts the old ones
+const buildId = process.env.VERCEL_GIT_COMMIT_SHA || Date.now().toString(36);
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  generateBuildId: async () => buildId,
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
+  async headers() {
+    return [
+      {
+        // The service worker must never be served from the HTTP cache, or updates are missed
+        source: "/sw.js",
+        headers: [
+          { key: "Cache-Control", value: "no-cache, no-store, must-revalidate" },
+          { key: "Service-Worker-Allowed", value: "/" },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -1,109 +1,174 @@
 // Service Worker for Water Meter App
-// Provides offline functionality and caching
-
-const CACHE_NAME = 'water-meter-v1';
-const STATIC_CACHE_URLS = [
-  '/',
-  '/dashboard',
-  '/customers',
-  '/meter',
-  '/reports',
-  '/offline',
-  // Add other static assets as needed
-];
-
-// Install event - cache static resources
+// Precaches the meter entry page with its build assets, serves them offline and flushes
+// queued meter readings through Background Sync when connectivity returns.
+//
+// Registered by lib/serviceWorkerManager.ts as /sw.js?v=<build id>. Queued readings are sent with
+// the signed-in user's session, which the app keeps in the offline database's meta store.
+
+const params = new URL(self.location.href).searchParams;
+const VERSION = params.get('v') || 'dev';
+
+// Caches are named per build, so each deploy replaces them instead of serving stale assets
+const CACHE_PREFIX = 'water-meter-';
+const PRECACHE = `${CACHE_PREFIX}precache-${VERSION}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime-${VERSION}`;
+const OFFLINE_FALLBACK = '/meter';
+const PRECACHE_URLS = ['/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+// Only the app shell is refreshed into the runtime cache; other pages and their RSC payloads
+// carry the signed-in user's data, so they are never cached
+const APP_SHELL_URLS = [OFFLINE_FALLBACK, ...PRECACHE_URLS];
+
+// Must match lib/serviceWorkerManager.ts
+const READING_SYNC_TAG = 'sync-meter-readings';
+
+// Must match lib/offlineDatabase.ts
+const DB_NAME = 'water-meter-offline';
+
+// Must match SYNC_SESSION_META_KEY in lib/offlineStorage.ts
+const SYNC_SESSION_META_KEY = 'sync_session';
+
+// Sessions about to expire are left for the app to refresh
+const SESSION_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Must match lib/meterPhotoService.ts
+const PHOTO_BUCKET = 'meter-photos';
+
+// Must match the retry policy in lib/optimizedSyncManager.ts
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const MAX_REJECTED_ATTEMPTS = 5;
+
+// Install event - precache the meter entry page and the hashed build assets it loads
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => {
-        console.log('Service Worker: Caching static resources');
-        return cache.addAll(STATIC_CACHE_URLS);
-      })
+    precache()
       .catch((error) => {
-        console.error('Service Worker: Failed to cache static resources', error);
+        console.error('Service Worker: Failed to precache meter page', error);
       })
+      .then(() => self.skipWaiting())
   );
-  self.skipWaiting();
 });
 
-// Activate event - clean up old caches
+async function precache() {
+  const cache = await caches.open(PRECACHE);
+  await cache.addAll(PRECACHE_URLS);
+
+  const response = await fetch(OFFLINE_FALLBACK, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Meter page returned ${response.status}`);
+  }
+  await cache.put(OFFLINE_FALLBACK, response.clone());
+
+  // Next.js build assets have content hashes in their names, so they can be cached for good
+  const html = await response.text();
+  const assets = new Set();
+  for (const match of html.matchAll(/(?:src|href)="(\/_next\/static\/[^"]+)"/g)) {
+    assets.add(match[1]);
+  }
+  await cache.addAll([...assets]);
+  console.log(`Service Worker: Precached meter page with ${assets.size} build assets (${VERSION})`);
+}
+
+// Activate event - remove caches of earlier builds
 self.addEventListener('activate', (event) => {
   event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
+    caches.keys()
+      .then((cacheNames) => Promise.all(
+        cacheNames
+          .filter((cacheName) => cacheName.startsWith(CACHE_PREFIX) && cacheName !== PRECACHE && cacheName !== RUNTIME_CACHE)
+          .map((cacheName) => {
             console.log('Service Worker: Deleting old cache', cacheName);
             return caches.delete(cacheName);
-          }
-        })
-      );
-    })
+          })
+      ))
+      .then(() => self.clients.claim())
   );
-  self.clients.claim();
 });
 
 // Fetch event - serve from cache when offline
 self.addEventListener('fetch', (event) => {
+  const { request } = event;
+
   // Skip non-GET requests
-  if (event.request.method !== 'GET') {
+  if (request.method !== 'GET') {
     return;
   }
 
   // Skip external requests (like Supabase API)
-  if (!event.request.url.startsWith(self.location.origin)) {
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) {
     return;
   }
 
-  event.respondWith(
-    caches.match(event.request)
-      .then((cachedResponse) => {
-        // Return cached version if available
-        if (cachedResponse) {
-          return cachedResponse;
-        }
+  // API responses are never cached, pages fall back to their offline data themselves
+  if (url.pathname.startsWith('/api/')) {
+    return;
+  }
 
-        // Try to fetch from network
-        return fetch(event.request)
-          .then((response) => {
-            // Don't cache non-successful responses
-            if (!response || response.status !== 200 || response.type !== 'basic') {
-              return response;
-            }
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
 
-            // Clone the response for caching
-            const responseToCache = response.clone();
+  event.respondWith(networkFirst(request, isAppShell(request, url)));
+});
 
-            caches.open(CACHE_NAME)
-              .then((cache) => {
-                cache.put(event.request, responseToCache);
-              });
+function isAppShell(request, url) {
+  return APP_SHELL_URLS.includes(url.pathname) && !request.headers.has('RSC') && !url.searchParams.has('_rsc');
+}
 
-            return response;
-          })
-          .catch(() => {
-            // If network fails, try to serve a fallback page for navigation requests
-            if (event.request.mode === 'navigate') {
-              return caches.match('/offline') || caches.match('/');
-            }
-            throw new Error('Network failed and no cache available');
-          });
-      })
-  );
-});
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok && response.type === 'basic') {
+    const cache = await caches.open(RUNTIME_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request, cacheable) {
+  const url = new URL(request.url);
+  try {
+    const response = await fetch(request);
+    if (cacheable && response.ok && response.type === 'basic') {
+      // Keyed by path, so query strings do not add entries
+      const cache = await caches.open(RUNTIME_CACHE);
+      cache.put(url.pathname, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = cacheable && await caches.match(url.pathname);
+    if (cached) {
+      return cached;
+    }
+
+    // Any page opened offline falls back to meter entry
+    if (request.mode === 'navigate') {
+      const fallback = await caches.match(OFFLINE_FALLBACK);
+      if (fallback) {
+        return fallback;
+      }
+    }
+    throw error;
+  }
+}
 
-// Background sync for when connection is restored
+// Background sync (and periodic sync where supported) for when connection is restored
 self.addEventListener('sync', (event) => {
-  if (event.tag === 'background-sync') {
-    event.waitUntil(
-      // Trigger sync in the main app
-      self.clients.matchAll().then((clients) => {
-        clients.forEach((client) => {
-          client.postMessage({ type: 'BACKGROUND_SYNC' });
-        });
-      })
-    );
+  if (event.tag === READING_SYNC_TAG) {
+    event.waitUntil(flushReadings());
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === READING_SYNC_TAG) {
+    event.waitUntil(flushReadings());
   }
 });
 
@@ -112,4 +177,322 @@ self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'SKIP_WAITING') {
     self.skipWaiting();
   }
-});
\ No newline at end of file
+  // Sent by lib/serviceWorkerManager.ts on sign-out
+  if (event.data?.type === 'CLEAR_RUNTIME_CACHE') {
+    event.waitUntil(caches.delete(RUNTIME_CACHE));
+  }
+});
+
+/**
+ * Send queued meter readings to the server. An open tab keeps the queue in memory, so it is
+ * asked to sync instead; with every tab closed the queue is read from IndexedDB directly,
+ * following the same conflict and retry rules as OptimizedSyncManager.syncPendingChanges.
+ * Customer and discount changes, and readings of customers created offline, wait for the app,
+ * as does everything while there is no unexpired session: requests without one would be
+ * rejected by RLS and count towards moving valid readings to the dead-letter list.
+ */
+async function flushReadings() {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.length > 0) {
+    windows[0].postMessage({ type: 'BACKGROUND_SYNC' });
+    return;
+  }
+
+  const db = await openDatabase();
+  if (!db) {
+    return;
+  }
+
+  let networkFailed = false;
+  try {
+    const session = await getSession(db);
+    if (!session) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const queue = await getAllRecords(db, 'sync_queue');
+    const items = queue.filter((item) =>
+      item.type === 'reading' &&
+      !item.conflict &&
+      !String(item.data.customer_id).startsWith('offline_') &&
+      (!item.next_attempt_at || item.next_attempt_at <= now)
+    );
+
+    for (const item of items) {
+      try {
+        if (!item.conflict_resolved) {
+          const conflict = await detectConflict(session, item.data);
+          if (conflict === 'duplicate') {
+            // The server already holds this exact reading
+            await deleteRecord(db, 'sync_queue', item.id);
+            await markLocalReadingSynced(db, item.data.id);
+            continue;
+          }
+          if (conflict) {
+            await putRecord(db, 'sync_queue', { ...item, conflict });
+            continue;
+          }
+        }
+
+        const saved = await upsertReading(db, session, item);
+        await deleteRecord(db, 'sync_queue', item.id);
+        await replaceLocalReading(db, item.data.id, saved);
+      } catch (error) {
+        // The session ended mid-sync; not the reading's fault, so it waits for the app
+        if (error.sessionExpired) {
+          break;
+        }
+        await recordFailure(db, item, error);
+        if (!error.code) {
+          networkFailed = true;
+        }
+      }
+    }
+  } finally {
+    db.close();
+  }
+
+  // Rejecting makes the browser fire the sync event again later
+  if (networkFailed) {
+    throw new Error('Network unavailable, meter readings will be retried');
+  }
+}
+
+// Session stored by lib/serviceWorkerManager.ts, or null when signed out or about to expire
+async function getSession(db) {
+  const record = await getRecord(db, 'meta', SYNC_SESSION_META_KEY);
+  if (!record) {
+    return null;
+  }
+
+  const session = JSON.parse(record.value);
+  if (new Date(session.expires_at).getTime() - SESSION_EXPIRY_MARGIN_MS <= Date.now()) {
+    return null;
+  }
+  return session;
+}
+
+async function detectConflict(session, reading) {
+  const month = reading.date.substring(0, 7);
+  const [year, monthNumber] = month.split('-').map(Number);
+  const next = new Date(year, monthNumber, 1);
+  const nextMonthStart = `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-01`;
+  const customerId = encodeURIComponent(reading.customer_id);
+
+  const monthReadings = await rest(
+    session,
+    `meter_readings?select=id,reading,date&customer_id=eq.${customerId}&date=gte.${month}-01&date=lt.${nextMonthStart}&order=date.desc`
+  );
+  const otherReadings = (monthReadings || []).filter((row) => String(row.id) !== reading.id);
+  if (otherReadings.length > 0) {
+    if (otherReadings.some((row) => Number(row.reading) === Number(reading.reading))) {
+      return 'duplicate';
+    }
+    return { kind: 'same_month', server_reading: toConflictReading(otherReadings[0]), detected_at: new Date().toISOString() };
+  }
+
+  if (reading.base_previous_reading === undefined) {
+    return null;
+  }
+
+  const previousReadings = await rest(
+    session,
+    `meter_readings?select=id,reading,date&customer_id=eq.${customerId}&date=lt.${encodeURIComponent(reading.date)}&order=date.desc&limit=1`
+  );
+  const previous = previousReadings && previousReadings[0];
+  if (previous && Number(previous.reading) !== Number(reading.base_previous_reading)) {
+    return { kind: 'previous_changed', server_reading: toConflictReading(previous), detected_at: new Date().toISOString() };
+  }
+
+  return null;
+}
+
+function toConflictReading(row) {
+  return { id: String(row.id), reading: Number(row.reading), date: row.date };
+}
+
+async function upsertReading(db, session, item) {
+  const reading = item.data;
+  const id = item.replaces_id || (String(reading.id).startsWith('offline_') ? undefined : reading.id);
+  const row = {
+    customer_id: reading.customer_id,
+    reading: reading.reading,
+    date: reading.date,
+    created_at: reading.created_at
+  };
+  if (reading.rollover) {
+    row.rollover = true;
+  }
+  if (reading.estimated) {
+    row.estimated = true;
+  }
+  if (id) {
+    row.id = id;
+  }
+
+  // Upload the photo taken offline first, so the reading is saved with its path
+  row.photo_path = reading.photo_path;
+  if (reading.pending_photo) {
+    const stored = await getRecord(db, 'meter_photos', reading.id);
+    if (stored) {
+      row.photo_path = await uploadPhoto(session, `${reading.customer_id}/${reading.id}.jpg`, stored.photo);
+    }
+  }
+
+  const saved = await rest(session, 'meter_readings', {
+    method: 'POST',
+    headers: { Prefer: id ? 'resolution=merge-duplicates,return=representation' : 'return=representation' },
+    body: JSON.stringify(row)
+  });
+  return saved && saved[0];
+}
+
+// Swap the offline copy of a reading for the server's, as OfflineStorageManager.replaceReading does
+async function replaceLocalReading(db, localId, saved) {
+  await deleteRecord(db, 'readings', localId);
+  if (db.objectStoreNames.contains('meter_photos')) {
+    await deleteRecord(db, 'meter_photos', localId);
+  }
+  if (saved) {
+    await putRecord(db, 'readings', {
+      id: String(saved.id),
+      customer_id: String(saved.customer_id),
+      reading: saved.reading,
+      date: saved.date,
+      photo_path: saved.photo_path || undefined,
+      rollover: saved.rollover || undefined,
+      estimated: saved.estimated || undefined,
+      synced: true,
+      created_at: saved.date
+    });
+  }
+}
+
+// As OfflineStorageManager.updateReading(id, { synced: true }) does for the open app
+async function markLocalReadingSynced(db, localId) {
+  const reading = await getRecord(db, 'readings', localId);
+  if (reading) {
+    await putRecord(db, 'readings', { ...reading, synced: true });
+  }
+}
+
+async function recordFailure(db, item, error) {
+  const message = error.message || String(error);
+  const rejected = Boolean(error.code);
+  const rejections = (item.rejections || 0) + (rejected ? 1 : 0);
+  const now = new Date().toISOString();
+  const failed = { ...item, attempts: item.attempts + 1, rejections, last_error: message, last_attempt_at: now };
+
+  if (rejections >= MAX_REJECTED_ATTEMPTS) {
+    await putRecord(db, 'sync_dead_letter', { ...failed, next_attempt_at: undefined, dead_lettered_at: now });
+    await deleteRecord(db, 'sync_queue', item.id);
+    return;
+  }
+
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** item.attempts, RETRY_MAX_DELAY_MS);
+  await putRecord(db, 'sync_queue', { ...failed, next_attempt_at: new Date(Date.now() + delay).toISOString() });
+}
+
+// Supabase REST call as the signed-in user; server errors carry the PostgREST code, network errors have none
+async function rest(session, path, options = {}) {
+  const response = await fetch(`${session.supabase_url}/rest/v1/${path}`, {
+    ...options,
+    headers: {
+      apikey: session.anon_key,
+      Authorization: `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+      ...(options.headers || {})
+    }
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    const error = new Error(body.message || `Server returned ${response.status}`);
+    error.code = body.code || String(response.status);
+    error.sessionExpired = response.status === 401;
+    throw error;
+  }
+
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+}
+
+// Supabase Storage upload, replacing an earlier upload of the same path like MeterPhotoService.uploadPhoto
+async function uploadPhoto(session, path, photo) {
+  const response = await fetch(`${session.supabase_url}/storage/v1/object/${PHOTO_BUCKET}/${path}`, {
+    method: 'POST',
+    headers: {
+      apikey: session.anon_key,
+      Authorization: `Bearer ${session.access_token}`,
+      'Content-Type': 'image/jpeg',
+      'x-upsert': 'true'
+    },
+    body: photo
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    const error = new Error(body.message || `Server returned ${response.status}`);
+    error.code = String(body.statusCode || response.status);
+    error.sessionExpired = error.code === '401';
+    throw error;
+  }
+
+  return path;
+}
+
+// Open the app's offline database without creating or upgrading it; the app owns the schema
+function openDatabase() {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('sync_queue')) {
+        db.close();
+        resolve(null);
+        return;
+      }
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => resolve(null);
+  });
+}
+
+function getAllRecords(db, store) {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(store, 'readonly').objectStore(store).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getRecord(db, store, key) {
+  if (!db.objectStoreNames.contains(store)) {
+    return Promise.resolve(null);
+  }
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(store, 'readonly').objectStore(store).get(key);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function putRecord(db, store, record) {
+  return writeRecord(db, store, (objectStore) => objectStore.put(record));
+}
+
+function deleteRecord(db, store, key) {
+  return writeRecord(db, store, (objectStore) => objectStore.delete(key));
+}
+
+function writeRecord(db, store, write) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    write(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
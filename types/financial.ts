@@ -1,5 +1,7 @@
 // Financial Tracking System Type Definitions
 
+import type { DiscountApproval } from './types';
+
 export interface Transaction {
   id: string;
   type: 'income' | 'expense';
@@ -8,6 +10,8 @@ export interface Transaction {
   category_id: string;
   category: TransactionCategory;
   description: string;
+  rt?: string; // Set when the transaction is an RT deposit
+  billing_month?: string; // Billing period (YYYY-MM) an RT deposit pays for
   created_at: Date;
   updated_at: Date;
   created_by: string;
@@ -20,6 +24,8 @@ export interface TransactionInput {
   date: Date;
   category_id: string;
   description: string;
+  rt?: string;
+  billing_month?: string;
 }
 
 export interface TransactionCategory {
@@ -37,6 +43,8 @@ export interface TransactionFilters {
   date_from?: Date;
   date_to?: Date;
   search_term?: string;
+  rt?: string;
+  billing_month?: string;
   sort_by?: 'date' | 'amount' | 'category';
   sort_order?: 'asc' | 'desc';
   page?: number;
@@ -56,6 +64,7 @@ export interface FinancialReport {
   income_by_category: CategorySummary[];
   expenses_by_category: CategorySummary[];
   transactions: Transaction[];
+  discount_approvals?: DiscountApproval[];
   generated_at: Date;
 }
 
@@ -95,6 +104,8 @@ export interface TransactionRow {
   date: string; // ISO date string from database
   category_id: string;
   description: string;
+  rt?: string | null;
+  billing_month?: string | null;
   created_at: string; // ISO timestamp string from database
   updated_at: string; // ISO timestamp string from database
   created_by: string;
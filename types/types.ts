@@ -1,8 +1,13 @@
+export type TariffClass = 'household' | 'social' | 'commercial' | 'institution';
+
 export interface Customer {
   id: string;
   name: string;
   rt?: string;
   phone?: string;
+  tariff_class?: TariffClass; // Defaults to 'household' when not set
+  route_order?: number; // Position on the reading route of the RT, unset customers come last
+  meter_digits?: number; // Digits on the meter register, 6 when not set; the meter rolls over to 0 past the maximum
 }
 
 export interface MeterReading {
@@ -11,6 +16,24 @@ export interface MeterReading {
   reading: number;
   date: string; // ISO string format
   usage?: number; // Calculated field for usage since last reading
+  photo_path?: string; // Storage path of the meter photo taken with the reading
+  rollover?: boolean; // Lower than the previous reading because the register went past its maximum
+  estimated?: boolean; // Proposed from the customer's usage history because the meter could not be read
+  meter_id?: string; // Meter the reading was taken from, see Meter
+  version?: number; // Starts at 1 and goes up with every correction, see MeterReadingVersion
+}
+
+// Value a reading had before a correction replaced it
+export interface MeterReadingVersion {
+  id: string;
+  reading_id: string;
+  version: number; // Version of the reading that held this value
+  reading: number;
+  rollover?: boolean;
+  estimated?: boolean;
+  reason: string; // Why the value was corrected
+  corrected_by: string;
+  corrected_at: string;
 }
 
 export interface MeterAdjustment {
@@ -18,27 +41,233 @@ export interface MeterAdjustment {
   customer_id: string;
   old_reading: number;
   new_reading: number;
-  adjustment_type: 'gauge_replacement' | 'manual_correction' | 'meter_reset';
+  adjustment_type: 'gauge_replacement' | 'manual_correction' | 'meter_reset' | 'rollover';
   reason: string;
   adjustment_date: string;
   created_by: string;
   created_at: string;
   notes?: string;
+  old_meter_id?: string; // Meter removed by a gauge replacement
+  new_meter_id?: string; // Meter installed by a gauge replacement
   customer?: Customer;
 }
 
-export interface CustomerDiscount {
+export type MeterStatus = 'active' | 'removed' | 'broken';
+
+// A physical water meter, installed on a customer's connection or kept in stock
+export interface Meter {
+  id: string;
+  serial_number: string;
+  brand?: string;
+  digits: number; // Digits on the register, the meter rolls over to 0 past 10^digits - 1
+  install_date?: string; // Format: YYYY-MM-DD, installation on the current connection
+  customer_id?: string; // Current connection, not set when the meter is not installed
+  status: MeterStatus;
+  notes?: string;
+  created_by: string;
+  created_at: string;
+}
+
+// A period in which a meter was installed on a customer's connection
+export interface MeterAssignment {
+  id: string;
+  meter_id: string;
+  customer_id: string;
+  installed_on: string; // Format: YYYY-MM-DD
+  removed_on?: string; // Format: YYYY-MM-DD, not set while the meter is installed
+  adjustment_id?: string; // Gauge replacement that installed the meter
+  created_by: string;
+  created_at: string;
+}
+
+// Usage on one gauge during a billing period in which the gauge was replaced
+export interface GaugeUsage {
+  start_reading: number;
+  end_reading: number; // Final reading of a replaced gauge, or the current reading of the gauge in place
+  usage: number;
+  replaced_on?: string; // Date the gauge was removed, not set for the gauge in place
+}
+
+export type AnomalyType = 'zero_usage' | 'flat_line' | 'spike' | 'drop' | 'negative_usage' | 'possible_leak';
+
+export type AnomalyReviewStatus = 'confirmed' | 'dismissed';
+
+// Outcome of an admin checking the anomalies flagged on a reading
+export interface AnomalyReview {
   id: string;
+  reading_id: string;
   customer_id: string;
+  billing_month: string; // Format: YYYY-MM
+  anomaly_types: AnomalyType[]; // Anomalies flagged when the reading was reviewed
+  status: AnomalyReviewStatus; // confirmed: a real problem that was followed up; dismissed: a false alarm
+  note?: string;
+  reviewed_by: string;
+  reviewed_at: string;
+}
+
+// Row of sync_tombstones: a customer or reading deleted on the server, or a customer that left an RT
+export interface SyncTombstone {
+  id: string;
+  table_name: 'customers' | 'meter_readings';
+  record_id: string;
+  rt?: string; // RT a customer was deleted from or left
+  deleted_at: string;
+}
+
+export type DiscountScope = 'customer' | 'rt' | 'tariff_class';
+
+export type DiscountApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface CustomerDiscount {
+  id: string;
+  scope?: DiscountScope; // Who the discount targets, 'customer' when not set
+  customer_id?: string; // Set for customer discounts
+  target_rt?: string; // Set for RT discounts, e.g. "RT 01"
+  target_tariff_class?: TariffClass; // Set for tariff class discounts
   discount_percentage: number;
   discount_amount?: number; // Fixed amount discount
+  free_usage?: number; // Free allowance: the first N m³ are not charged
   reason: string;
-  discount_month: string; // Format: YYYY-MM (e.g., "2025-01")
+  discount_month: string; // Format: YYYY-MM (e.g., "2025-01"), the first month of a recurring discount
+  is_recurring?: boolean; // Applies every month from discount_month until end_month
+  end_month?: string | null; // Last month of a recurring discount (YYYY-MM), null when open-ended
+  approval_status?: DiscountApprovalStatus; // Only approved discounts reduce bills, 'approved' when not set
   created_by: string;
   created_at: string;
   is_active: boolean;
 }
 
+export interface DiscountApproval {
+  id: string;
+  discount_id: string;
+  action: 'requested' | 'approved' | 'rejected';
+  reason?: string;
+  actor: string; // Who requested, approved or rejected the discount
+  created_at: string;
+  discount?: CustomerDiscount; // The discount as it is now
+}
+
+export interface AppliedDiscount {
+  discount: CustomerDiscount;
+  amount: number; // Discount in IDR on this bill
+}
+
+export interface TariffTier {
+  up_to: number | null; // Upper bound in m³ (inclusive), null for the open-ended last tier
+  rate: number; // IDR per m³
+}
+
+export interface TariffFee {
+  name: string; // e.g. "Beban speedometer"
+  amount: number; // Fixed fee in IDR per bill
+}
+
+export interface Tariff {
+  id: string;
+  name: string;
+  effective_from: string; // Format: YYYY-MM-DD, applies to readings on or after this date
+  tiers: TariffTier[]; // Ordered by up_to ascending, used for household and any class without its own table
+  class_tiers?: Partial<Record<TariffClass, TariffTier[]>>; // Class-specific tier tables
+  fixed_fees: TariffFee[];
+  notes?: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface TierCharge {
+  from: number; // First m³ of the tier (1-based)
+  to: number | null; // Last m³ of the tier, null for the open-ended tier
+  rate: number;
+  usage: number;
+  amount: number;
+}
+
+export type BillStatus = 'draft' | 'issued' | 'partial' | 'paid' | 'void';
+
+export interface Bill {
+  id: string;
+  bill_number: string; // Format: TAG-YYYYMM-0001
+  billing_month: string; // Format: YYYY-MM
+  customer_id: string;
+  customer_name: string;
+  customer_rt?: string;
+  tariff_class: TariffClass;
+  reading_id?: string; // Reading the bill was calculated from; unset on bills generated before readings were linked
+  reading_date: string;
+  previous_reading: number;
+  previous_reading_id?: string;
+  previous_reading_date?: string;
+  current_reading: number;
+  usage: number;
+  tariff_id: string;
+  tariff_name: string;
+  tier_charges: TierCharge[]; // Frozen at the time the bill was created
+  gauge_usage?: GaugeUsage[]; // Usage per gauge when the gauge was replaced during the period
+  estimated?: boolean; // Billed on an estimated reading
+  true_up_usage?: number; // Actual minus estimated reading when the previous reading was estimated
+  true_up_credit?: number; // Refund for usage billed too much on the estimate, taken off total_amount
+  fixed_fees: TariffFee[];
+  base_amount: number; // Amount before discount
+  discount?: CustomerDiscount; // Main discount applied when the bill was created
+  applied_discounts?: AppliedDiscount[]; // Every discount applied, in the order they were applied
+  discount_amount: number;
+  total_amount: number; // Amount due after discount
+  penalty_amount: number; // Late payment penalty accrued so far, owed on top of total_amount
+  previous_balance: number; // Customer account balance when the bill was created: credit (+) or arrears (-)
+  credit_applied: number; // Earlier overpayment used to settle this bill
+  paid_amount: number; // May exceed the amount due; the excess is credit for later bills
+  status: BillStatus;
+  issued_at?: string;
+  paid_at?: string;
+  voided_at?: string;
+  void_reason?: string;
+  needs_reissue?: boolean; // A reading the bill was based on was corrected after the bill was issued
+  reissue_reason?: string;
+  created_by: string;
+  created_at: string;
+}
+
+export type PenaltyType = 'flat' | 'percentage';
+
+export interface PenaltyPolicy {
+  id: string;
+  effective_from: string; // Format: YYYY-MM-DD, applies to bills whose collection starts on or after this date
+  type: PenaltyType;
+  amount: number; // IDR per late month for flat, percent of the bill total for percentage
+  grace_days: number; // Days after the end of the billing month before a bill is late
+  max_amount: number | null; // Cap on the total penalty per bill, null for no cap
+  notes?: string;
+  created_by: string;
+  created_at: string;
+}
+
+export type PaymentMethod = 'cash' | 'transfer';
+
+export interface Payment {
+  id: string;
+  bill_id: string;
+  bill_number: string;
+  customer_id: string;
+  customer_rt?: string;
+  billing_month: string; // Format: YYYY-MM, month of the bill being paid
+  amount: number;
+  payment_date: string; // Format: YYYY-MM-DD
+  method: PaymentMethod;
+  received_by: string; // Collector who received the money
+  notes?: string;
+  created_at: string;
+}
+
+export interface ReceivableAging {
+  customerId?: string; // Set for per-customer rows, undefined for per-RT rows
+  customerName?: string;
+  rt: string;
+  current: number; // Outstanding amount not yet overdue
+  oneToTwoMonths: number; // Outstanding amount 1-2 months overdue
+  threePlusMonths: number; // Outstanding amount 3 or more months overdue
+  total: number;
+}
+
 export interface ReportData {
   customer: Customer;
   currentReading: MeterReading;
@@ -57,17 +286,38 @@ export interface DashboardMetrics {
   monthlyIncome: number; // Actual income received from RTs
   rtPaymentStatus: RTPaymentStatus[];
   rtTotalBills: RTTotalBill[]; // New: RT total bills for collectors
+  tariffClassTotals: TariffClassTotal[]; // Billing totals grouped by tariff class
+}
+
+export interface TariffClassTotal {
+  tariffClass: TariffClass;
+  customerCount: number; // Customers billed in this class
+  totalUsage: number; // Total m³ for this class
+  totalBill: number; // Total amount billed for this class
 }
 
 export interface RTPaymentStatus {
   rt: string;
   totalBill: number; // Total amount owed by this RT
-  paidAmount: number; // Amount already received from this RT
+  paidAmount: number; // Amount the RT collector has deposited with the treasurer
+  collectedAmount: number; // Amount collected from households, deposited or not
+  penaltyAmount: number; // Late penalties owed by the RT's households
   pendingAmount: number; // Outstanding amount
   lastPaymentDate?: string;
   paymentStatus: 'paid' | 'partial' | 'pending';
 }
 
+export interface RTReconciliation {
+  rt: string;
+  billingMonth: string; // Format: YYYY-MM
+  expectedAmount: number; // Sum of the RT's issued bills, including late penalties
+  penaltyAmount: number; // Late penalties included in expectedAmount
+  collectedAmount: number; // Sum of customer payments recorded for those bills
+  depositedAmount: number; // Sum of RT deposits linked to this RT and month
+  outstandingAmount: number; // expectedAmount - depositedAmount
+  undepositedAmount: number; // Collected from households but not yet handed over
+}
+
 export interface RTTotalBill {
   rt: string;
   customerCount: number;
@@ -1,6 +1,7 @@
 import { jsPDF } from 'jspdf';
 import { unparse } from 'papaparse';
 import { FinancialReport, Transaction } from '../types/financial';
+import { DiscountService } from '../lib/discountService';
 import { formatDateID } from './dateFormat';
 
 /**
@@ -167,6 +168,39 @@ export function exportFinancialReportToPDF(report: FinancialReport): void {
     });
   }
 
+  // Discount Approvals
+  if (report.discount_approvals && report.discount_approvals.length > 0) {
+    yPosition += 10;
+    if (yPosition > 240) {
+      doc.addPage();
+      yPosition = margin;
+    }
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Persetujuan Diskon', margin, yPosition);
+    yPosition += 10;
+
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    report.discount_approvals.forEach(entry => {
+      if (yPosition > 270) {
+        doc.addPage();
+        yPosition = margin;
+      }
+
+      const discount = entry.discount
+        ? `${DiscountService.describeValue(entry.discount)} - ${DiscountService.describeTarget(entry.discount)}`
+        : 'Diskon';
+      doc.text(formatDateID(entry.created_at), margin, yPosition);
+      doc.text(DiscountService.getApprovalActionLabel(entry.action), margin + 25, yPosition);
+      doc.text(discount.substring(0, 30), margin + 45, yPosition);
+      doc.text(entry.actor.substring(0, 20), margin + 105, yPosition);
+      doc.text((entry.reason || '-').substring(0, 20), margin + 140, yPosition);
+      yPosition += 7;
+    });
+  }
+
   // Footer
   const footerY = doc.internal.pageSize.height - 15;
   doc.setFontSize(8);
@@ -268,7 +302,41 @@ export function exportFinancialReportToCSV(report: FinancialReport): void {
     },
   ];
 
-  const allData = [...summaryData, ...csvData];
+  // Discount decisions follow the transactions so reduced revenue can be traced
+  const approvalData = (report.discount_approvals || []).length === 0 ? [] : [
+    {
+      'Tanggal': '',
+      'Jenis': '',
+      'Kategori': '',
+      'Deskripsi': '',
+      'Jumlah': '',
+      'Jumlah (Formatted)': '',
+      'Dibuat Pada': '',
+      'Dibuat Oleh': '',
+    },
+    {
+      'Tanggal': 'PERSETUJUAN DISKON',
+      'Jenis': '',
+      'Kategori': '',
+      'Deskripsi': '',
+      'Jumlah': '',
+      'Jumlah (Formatted)': '',
+      'Dibuat Pada': '',
+      'Dibuat Oleh': '',
+    },
+    ...(report.discount_approvals || []).map(entry => ({
+      'Tanggal': formatDateID(entry.created_at),
+      'Jenis': DiscountService.getApprovalActionLabel(entry.action),
+      'Kategori': entry.discount ? DiscountService.describeTarget(entry.discount) : 'Diskon',
+      'Deskripsi': entry.reason || '',
+      'Jumlah': '',
+      'Jumlah (Formatted)': entry.discount ? DiscountService.describeValue(entry.discount) : '',
+      'Dibuat Pada': formatDateID(entry.created_at),
+      'Dibuat Oleh': entry.actor,
+    })),
+  ];
+
+  const allData = [...summaryData, ...csvData, ...approvalData];
 
   // Convert to CSV
   const csv = unparse(allData, {
@@ -0,0 +1,54 @@
+import type { MonthBilling } from '@/lib/billingEngine';
+import { getAuthHeaders, supabase } from '@/lib/supabase';
+
+/**
+ * Check that the billing API only answers signed-in callers and bills them from their session.
+ * Needs the database and a signed-in user who can see customers; call it from the browser console.
+ */
+export async function testBillingApi(month: string = new Date().toISOString().substring(0, 7)) {
+  console.log('🧪 Testing Billing API...');
+
+  try {
+    // Test 1: Anonymous calls are refused instead of billed from empty data
+    console.log('\n1. Testing a call without a session...');
+    const anonymous = await fetch(`/api/billing/${month}`);
+    if (anonymous.status !== 401) {
+      console.error(`❌ Expected 401 without a session, got ${anonymous.status}`);
+      return { success: false, error: `Anonymous call returned ${anonymous.status}` };
+    }
+    console.log('✅ Call without a session is refused');
+
+    // Test 2: Signed-in calls see the same customers as the user
+    console.log('\n2. Testing a signed-in call...');
+    const headers = await getAuthHeaders();
+    if (!headers.Authorization) {
+      console.error('❌ No session. Sign in before running this test.');
+      return { success: false, error: 'Not signed in' };
+    }
+
+    const response = await fetch(`/api/billing/${month}`, { headers });
+    if (!response.ok) {
+      console.error(`❌ Signed-in call returned ${response.status}`);
+      return { success: false, error: `Signed-in call returned ${response.status}` };
+    }
+
+    const billing: MonthBilling = await response.json();
+    const { count } = await supabase
+      .from('customers')
+      .select('id', { count: 'exact', head: true });
+
+    // Every customer the user can see is either billed or reported as missing a reading
+    const returned = billing.bills.length + billing.missingReadings.length;
+    if (!count || returned !== count) {
+      console.error(`❌ ${count || 0} customers visible but ${returned} returned by the API`);
+      return { success: false, error: 'Signed-in call did not return every customer' };
+    }
+    console.log(`✅ ${billing.bills.length} bills and ${billing.missingReadings.length} customers without readings for ${month}`);
+
+    console.log('\n🎉 All billing API tests passed!');
+    return { success: true, bills: billing.bills.length };
+  } catch (error) {
+    console.error('❌ Billing API test failed:', error);
+    return { success: false, error };
+  }
+}
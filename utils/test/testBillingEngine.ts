@@ -0,0 +1,339 @@
+import { AnomalyService } from '@/lib/anomalyService';
+import { BillingEngine } from '@/lib/billingEngine';
+import { MeterAssetService } from '@/lib/meterAssetService';
+import { MeterRegisterService } from '@/lib/meterRegisterService';
+import { ReadingCorrectionService } from '@/lib/readingCorrectionService';
+import { Customer, CustomerDiscount, Meter, MeterAdjustment, MeterAssignment, MeterReading, MeterReadingVersion, Tariff } from '@/types/types';
+
+const tariff: Tariff = {
+  id: 'tariff-2025',
+  name: 'Tarif 2025',
+  effective_from: '2025-01-01',
+  tiers: [
+    { up_to: 10, rate: 1500 },
+    { up_to: null, rate: 2000 }
+  ],
+  class_tiers: {
+    social: [{ up_to: null, rate: 1000 }]
+  },
+  fixed_fees: [{ name: 'Beban speedometer', amount: 5000 }],
+  created_by: 'test',
+  created_at: '2025-01-01T00:00:00.000Z'
+};
+
+const newerTariff: Tariff = {
+  ...tariff,
+  id: 'tariff-2025-06',
+  name: 'Tarif Juni 2025',
+  effective_from: '2025-06-01',
+  tiers: [
+    { up_to: 10, rate: 2000 },
+    { up_to: null, rate: 3000 }
+  ]
+};
+
+const makeDiscount = (values: Partial<CustomerDiscount>): CustomerDiscount => ({
+  id: `discount-${Math.random().toString(36).substring(2, 8)}`,
+  scope: 'customer',
+  customer_id: 'c1',
+  discount_percentage: 0,
+  reason: 'Test',
+  discount_month: '2025-05',
+  created_by: 'test',
+  created_at: '2025-05-01T00:00:00.000Z',
+  is_active: true,
+  ...values
+});
+
+/**
+ * Pin the billing engine's tier, fixed fee, discount and balance behaviour.
+ * Runs without a database; call it from the browser console or a script.
+ */
+export function testBillingEngine() {
+  console.log('🧪 Testing Billing Engine...');
+
+  const failures: string[] = [];
+  const check = (name: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`✅ ${name}`);
+    } else {
+      console.error(`❌ ${name}: expected ${expected}, got ${actual}`);
+      failures.push(name);
+    }
+  };
+
+  const bill = (usage: number, values: Partial<Parameters<typeof BillingEngine.calculateBill>[0]> = {}) =>
+    BillingEngine.calculateBill({
+      customerId: 'c1',
+      usage,
+      billingDate: '2025-05-20T08:00:00.000Z',
+      tariffClass: 'household',
+      tariffs: [tariff],
+      discounts: [],
+      ...values
+    });
+
+  // 1. Tiers and fixed fees
+  console.log('\n1. Testing tiers and fixed fees...');
+  check('No usage only charges the fixed fees', bill(0).finalAmount, 5000);
+  check('Usage within the first tier', bill(10).finalAmount, 20000);
+
+  const split = bill(15);
+  check('Usage above the first tier is split across tiers', split.finalAmount, 30000);
+  check('First tier usage', split.unitUsage, 10);
+  check('Upper tier usage', split.tensUsage, 5);
+  check('Fixed fees', split.speedometerFee, 5000);
+  check('Tariff class tiers', bill(15, { tariffClass: 'social' }).finalAmount, 20000);
+  check('Negative usage is not charged', bill(-5).finalAmount, 5000);
+
+  // 2. Tariff versions
+  console.log('\n2. Testing tariff versions...');
+  check('Tariff in force before a new version', bill(15, { tariffs: [tariff, newerTariff] }).tariffId, 'tariff-2025');
+  check(
+    'Tariff in force after a new version',
+    bill(15, { tariffs: [tariff, newerTariff], billingDate: '2025-06-05T08:00:00.000Z' }).finalAmount,
+    40000
+  );
+  check('Default tariff without tariff records', bill(15, { tariffs: [] }).finalAmount, 30000);
+
+  // 3. Discounts
+  console.log('\n3. Testing discounts...');
+  check(
+    'Percentage discount',
+    bill(15, { discounts: [makeDiscount({ discount_percentage: 50 })] }).discountAmount,
+    15000
+  );
+
+  const combined = bill(15, {
+    discounts: [
+      makeDiscount({ free_usage: 5 }),
+      makeDiscount({ discount_amount: 5000 })
+    ]
+  });
+  check('Free allowance is charged at the cheapest tier rates', combined.appliedDiscounts[0].amount, 7500);
+  check('Money discount applies after the free allowance', combined.finalAmount, 17500);
+  check('Main discount is the money discount', combined.discount?.discount_amount, 5000);
+  check(
+    'Discounts never go below zero',
+    bill(15, { discounts: [makeDiscount({ discount_amount: 50000 })] }).finalAmount,
+    0
+  );
+
+  // 4. Balance carried forward
+  console.log('\n4. Testing balance carried forward...');
+  const credited = bill(10, { previousBalance: 10000 });
+  check('Credit is applied to the bill', credited.creditApplied, 10000);
+  check('Credit reduces the amount due', credited.amountDue, 10000);
+  check('Arrears are added to the amount due', bill(10, { previousBalance: -5000 }).amountDue, 25000);
+
+  // 5. Monthly billing
+  console.log('\n5. Testing monthly billing...');
+  const customers: Customer[] = [
+    { id: 'c1', name: 'Budi', rt: 'RT 01', tariff_class: 'household' },
+    { id: 'c2', name: 'Sari', rt: 'RT 02', tariff_class: 'household' }
+  ];
+  const readings: MeterReading[] = [
+    { id: 'r1', customer_id: 'c1', reading: 100, date: '2025-04-20T08:00:00.000Z' },
+    { id: 'r2', customer_id: 'c1', reading: 110, date: '2025-05-10T08:00:00.000Z' },
+    { id: 'r3', customer_id: 'c1', reading: 115, date: '2025-05-20T08:00:00.000Z' },
+    { id: 'r4', customer_id: 'c2', reading: 50, date: '2025-05-20T08:00:00.000Z' }
+  ];
+  const month = BillingEngine.calculateMonth('2025-05', {
+    customers,
+    readings,
+    adjustments: [],
+    tariffs: [tariff],
+    discounts: [makeDiscount({ scope: 'rt', customer_id: undefined, target_rt: 'RT 01', discount_amount: 2000 })],
+    bills: []
+  });
+  check('Customers with readings are billed', month.bills.length, 1);
+  check('Usage runs from the last reading before the month to the latest in it', month.bills[0]?.billing.usage, 15);
+  check('RT discounts are resolved for the customer', month.bills[0]?.billing.finalAmount, 28000);
+  check('Customers without a previous reading are reported', month.missingReadings[0]?.id, 'c2');
+
+  // 6. Meter rollover
+  console.log('\n6. Testing meter rollover...');
+  const rolledOver = BillingEngine.calculateMonth('2025-05', {
+    customers: [{ id: 'c3', name: 'Joko', rt: 'RT 01', tariff_class: 'household', meter_digits: 4 }],
+    readings: [
+      { id: 'r5', customer_id: 'c3', reading: 9990, date: '2025-04-20T08:00:00.000Z' },
+      { id: 'r6', customer_id: 'c3', reading: 5, date: '2025-05-20T08:00:00.000Z', rollover: true }
+    ],
+    adjustments: [],
+    tariffs: [tariff],
+    discounts: [],
+    bills: []
+  });
+  check('Usage is counted across the rollover of a 4-digit meter', rolledOver.bills[0]?.billing.usage, 15);
+  check(
+    'A lower reading without rollover is not charged',
+    MeterRegisterService.calculateUsage(
+      { id: 'r7', customer_id: 'c3', reading: 9990, date: '2025-04-20' },
+      { id: 'r8', customer_id: 'c3', reading: 5, date: '2025-05-20' }
+    ),
+    0
+  );
+
+  // 7. Gauge replacement
+  console.log('\n7. Testing gauge replacement...');
+  const gaugeReplacement: MeterAdjustment = {
+    id: 'a1',
+    customer_id: 'c4',
+    old_reading: 108,
+    new_reading: 0,
+    adjustment_type: 'gauge_replacement',
+    reason: 'Meter rusak',
+    adjustment_date: '2025-05-05',
+    created_by: 'admin',
+    created_at: '2025-05-05T09:00:00.000Z'
+  };
+  const replaced = BillingEngine.calculateMonth('2025-05', {
+    customers: [{ id: 'c4', name: 'Rina', rt: 'RT 01', tariff_class: 'household' }],
+    readings: [
+      { id: 'r9', customer_id: 'c4', reading: 100, date: '2025-04-20T08:00:00.000Z' },
+      { id: 'r11', customer_id: 'c4', reading: 7, date: '2025-05-20T08:00:00.000Z' }
+    ],
+    adjustments: [gaugeReplacement],
+    tariffs: [tariff],
+    discounts: [],
+    bills: []
+  });
+  check('Usage on the old and new gauge is billed together', replaced.bills[0]?.billing.usage, 15);
+  check('Usage on the old gauge', replaced.bills[0]?.billing.gaugeUsage?.[0]?.usage, 8);
+  check('Usage on the new gauge', replaced.bills[0]?.billing.gaugeUsage?.[1]?.usage, 7);
+
+  const oldGaugeReading: MeterReading = { id: 'r9', customer_id: 'c4', reading: 100, date: '2025-04-20T08:00:00.000Z' };
+  check(
+    'Reading after a new gauge is checked against its start reading',
+    MeterRegisterService.getComparisonReading(oldGaugeReading, '2025-05-20', [gaugeReplacement]).reading,
+    0
+  );
+  check(
+    'Reading before the gauge was replaced is checked against the previous reading',
+    MeterRegisterService.getComparisonReading(oldGaugeReading, '2025-05-01', [gaugeReplacement]).reading,
+    100
+  );
+
+  // 8. Usage anomalies
+  console.log('\n8. Testing usage anomalies...');
+  const anomalyTypes = (usage: number, history: number[]) =>
+    AnomalyService.detectAnomalies(usage, history).map(anomaly => `${anomaly.type}:${anomaly.severity}`).join(',');
+  check('Normal usage is not flagged', anomalyTypes(12, [10, 11, 12, 10, 11]), '');
+  check('Spike against the median baseline', anomalyTypes(40, [10, 11, 12, 10, 11, 45]), 'spike:critical');
+  check('Drop against the median baseline', anomalyTypes(2, [20, 21, 19, 20]), 'drop:warning');
+  check('Single zero month', anomalyTypes(0, [10, 11]), 'zero_usage:info');
+  check('Zero usage for three months', anomalyTypes(0, [10, 0, 0]), 'flat_line:critical');
+  check('Negative usage', anomalyTypes(-5, [10, 11, 12]), 'negative_usage:critical');
+  check('Steadily rising usage', anomalyTypes(17, [8, 10, 12, 14]), 'possible_leak:warning');
+  check(
+    'Seasonal peak like last year is only info',
+    anomalyTypes(30, [28, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10]),
+    'spike:info'
+  );
+  check(
+    'Monthly history uses the latest reading of each month',
+    AnomalyService.getMonthlyUsageHistory([
+      { id: 'h1', customer_id: 'c5', reading: 100, date: '2025-01-20' },
+      { id: 'h2', customer_id: 'c5', reading: 105, date: '2025-02-10' },
+      { id: 'h3', customer_id: 'c5', reading: 112, date: '2025-02-25' },
+      { id: 'h4', customer_id: 'c5', reading: 120, date: '2025-03-20' },
+      { id: 'h5', customer_id: 'c5', reading: 150, date: '2025-04-20' }
+    ], '2025-04').join(','),
+    '12,8'
+  );
+
+  // 9. Estimated readings
+  console.log('\n9. Testing estimated readings...');
+  check('Estimate adds the average usage of the last 3 months', MeterRegisterService.estimateReading(110, [8, 10, 12, 14]).reading, 122);
+  const wrappedEstimate = MeterRegisterService.estimateReading(9995, [10], 4);
+  check('Estimate past the maximum rolls over', `${wrappedEstimate.reading}:${wrappedEstimate.rollover}`, '5:true');
+
+  const estimatedReadings: MeterReading[] = [
+    { id: 'e1', customer_id: 'c6', reading: 100, date: '2025-04-20T08:00:00.000Z' },
+    { id: 'e2', customer_id: 'c6', reading: 112, date: '2025-05-20T08:00:00.000Z', estimated: true }
+  ];
+  const estimateData = {
+    customers: [{ id: 'c6', name: 'Dewi', rt: 'RT 01', tariff_class: 'household' as const }],
+    adjustments: [],
+    tariffs: [tariff],
+    discounts: [],
+    bills: []
+  };
+  const estimatedMonth = BillingEngine.calculateMonth('2025-05', { ...estimateData, readings: estimatedReadings });
+  check('Bill on an estimated reading is marked estimated', estimatedMonth.bills[0]?.billing.estimated, true);
+  check('Estimated usage is billed', estimatedMonth.bills[0]?.billing.usage, 12);
+
+  const underestimated = BillingEngine.calculateMonth('2025-06', {
+    ...estimateData,
+    readings: [...estimatedReadings, { id: 'e3', customer_id: 'c6', reading: 120, date: '2025-06-20T08:00:00.000Z' }]
+  });
+  check('Usage above the estimate is billed on the next actual reading', underestimated.bills[0]?.billing.usage, 8);
+  check('True-up of an estimate that was too low', underestimated.bills[0]?.billing.trueUpUsage, 8);
+  check('No credit for an estimate that was too low', underestimated.bills[0]?.billing.trueUpCredit, undefined);
+
+  const overestimated = BillingEngine.calculateMonth('2025-06', {
+    ...estimateData,
+    readings: [...estimatedReadings, { id: 'e3', customer_id: 'c6', reading: 110, date: '2025-06-20T08:00:00.000Z' }]
+  });
+  check('No usage when the actual reading is below the estimate', overestimated.bills[0]?.billing.usage, 0);
+  check('True-up of an estimate that was too high', overestimated.bills[0]?.billing.trueUpUsage, -2);
+  // 12 m³ estimated cost 19000, the actual 10 m³ 15000
+  check('Usage billed too much is credited', overestimated.bills[0]?.billing.trueUpCredit, 4000);
+  check('Credit is taken off the bill', overestimated.bills[0]?.billing.finalAmount, 1000);
+
+  console.log('\n10. Testing meter registry...');
+  const assignments: MeterAssignment[] = [
+    { id: 'a1', meter_id: 'm1', customer_id: 'c7', installed_on: '2024-01-10', removed_on: '2025-03-15', created_by: 'admin', created_at: '2024-01-10' },
+    { id: 'a2', meter_id: 'm2', customer_id: 'c7', installed_on: '2025-03-15', adjustment_id: 'adj1', created_by: 'admin', created_at: '2025-03-15' }
+  ];
+  check('Reading before a replacement is on the old meter', MeterAssetService.getMeterOnDate(assignments, 'c7', '2025-02-20T08:00:00.000Z'), 'm1');
+  check('Reading on the replacement day is on the new meter', MeterAssetService.getMeterOnDate(assignments, 'c7', '2025-03-15'), 'm2');
+  check('No meter before the first installation', MeterAssetService.getMeterOnDate(assignments, 'c7', '2023-12-31'), null);
+
+  const registry: Meter[] = [
+    { id: 'm1', serial_number: 'SN-001', digits: 6, status: 'removed', created_by: 'admin', created_at: '2024-01-10' },
+    { id: 'm2', serial_number: 'SN-002', digits: 6, customer_id: 'c7', status: 'active', created_by: 'admin', created_at: '2025-03-15' },
+    { id: 'm3', serial_number: 'SN-003', digits: 6, status: 'broken', created_by: 'admin', created_at: '2025-03-15' }
+  ];
+  check('Removed meters can be installed again', MeterAssetService.getAvailableMeters(registry).map(meter => meter.id).join(','), 'm1');
+  check('Current meter of a connection', MeterAssetService.getCurrentMeter(registry, 'c7')?.id, 'm2');
+  check('Serial numbers are unique', MeterAssetService.validateMeter({ serial_number: 'sn-002', digits: 6, status: 'active' }, registry).length, 1);
+  check('A meter keeps its own serial number', MeterAssetService.validateMeter({ serial_number: 'SN-002', digits: 6, status: 'active' }, registry, 'm2').length, 0);
+
+  console.log('\n11. Testing reading corrections...');
+  const correctionReadings: MeterReading[] = [
+    { id: 'k1', customer_id: 'c8', reading: 100, date: '2025-04-20T08:00:00.000Z' },
+    { id: 'k2', customer_id: 'c8', reading: 1120, date: '2025-05-20T08:00:00.000Z' },
+    { id: 'k3', customer_id: 'c8', reading: 125, date: '2025-06-20T08:00:00.000Z' }
+  ];
+  const typo = correctionReadings[1];
+  check('Typo corrected between its neighbours', ReadingCorrectionService.validateCorrection(typo, 112, 'salah ketik', correctionReadings).length, 0);
+  check('Correction needs a reason', ReadingCorrectionService.validateCorrection(typo, 112, ' ', correctionReadings).length, 1);
+  check('Correction below the previous reading', ReadingCorrectionService.validateCorrection(typo, 90, 'salah ketik', correctionReadings).length, 1);
+  check('Correction above the next reading', ReadingCorrectionService.validateCorrection(typo, 130, 'salah ketik', correctionReadings).length, 1);
+  check('Correction must change the reading', ReadingCorrectionService.validateCorrection(correctionReadings[0], 100, 'salah ketik', correctionReadings).length, 1);
+
+  const readingVersions: MeterReadingVersion[] = [
+    { id: 'v2', reading_id: 'k2', version: 2, reading: 1102, reason: 'salah ketik lagi', corrected_by: 'admin', corrected_at: '2025-05-22' },
+    { id: 'v1', reading_id: 'k2', version: 1, reading: 1120, reason: 'salah ketik', corrected_by: 'admin', corrected_at: '2025-05-21' },
+    { id: 'v3', reading_id: 'k3', version: 1, reading: 152, reason: 'salah ketik', corrected_by: 'admin', corrected_at: '2025-06-21' }
+  ];
+  check('Correction trail is oldest first', ReadingCorrectionService.getVersions(readingVersions, 'k2').map(version => version.reading).join(','), '1120,1102');
+
+  console.log('\n12. Testing expected usage range...');
+  check('No expected range without enough history', AnomalyService.getExpectedUsageRange([10, 12]), null);
+  const expectedRange = AnomalyService.getExpectedUsageRange([10, 12, 11, 13, 12]);
+  check('Expected usage range lower bound', expectedRange?.min, 7);
+  check('Expected usage range upper bound', expectedRange?.max, 17);
+  check('Usage inside the range is not flagged', AnomalyService.detectAnomalies(17, [10, 12, 11, 13, 12]).length, 0);
+  check('Usage above the range is flagged', AnomalyService.detectAnomalies(18, [10, 12, 11, 13, 12])[0]?.type, 'spike');
+
+  const success = failures.length === 0;
+  if (success) {
+    console.log('\n🎉 All billing engine tests passed!');
+  } else {
+    console.error(`\n❌ ${failures.length} billing engine test(s) failed`);
+  }
+
+  return { success, failures };
+}